@@ -0,0 +1,130 @@
+/* Cashbook service worker. `vite build` rewrites the two placeholders below (see vite.config.ts). */
+const BUILD_VERSION = "__CASHBOOK_BUILD_VERSION__";
+const PRECACHE_URLS = self.__CASHBOOK_PRECACHE__ || ["/", "/index.html", "/manifest.webmanifest"];
+
+const SHELL_CACHE = `cashbook-shell-${BUILD_VERSION}`;
+// Data caches are per user (`cashbook-data-v2-<user id>`) so one account never reads another's cached rows.
+const DATA_CACHE_PREFIX = "cashbook-data-v2-";
+const CACHED_READ_TABLES = ["accounts", "categories", "category_budgets", "day_closings", "entries", "parties", "recurring_entries", "shifts"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter(
+              (key) =>
+                (key.startsWith("cashbook-shell-") && key !== SHELL_CACHE) ||
+                (key.startsWith("cashbook-data-") && !key.startsWith(DATA_CACHE_PREFIX))
+            )
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  const type = event.data && event.data.type;
+  if (type === "SKIP_WAITING") {
+    void self.skipWaiting();
+  }
+  if (type === "CLEAR_DATA_CACHE") {
+    event.waitUntil(clearDataCaches());
+  }
+});
+
+function clearDataCaches() {
+  return caches
+    .keys()
+    .then((keys) => Promise.all(keys.filter((key) => key.startsWith("cashbook-data-")).map((key) => caches.delete(key))));
+}
+
+// The user id is the `sub` claim of the access token; anon-key requests have none and are never cached.
+function dataCacheName(request) {
+  const token = (request.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+  const payload = token.split(".")[1];
+  if (!payload) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof claims.sub === "string" && claims.sub ? `${DATA_CACHE_PREFIX}${claims.sub}` : null;
+  } catch {
+    return null;
+  }
+}
+
+function isCachedSupabaseRead(url) {
+  const match = url.pathname.match(/\/rest\/v1\/([a-z_]+)$/);
+  return Boolean(match && CACHED_READ_TABLES.includes(match[1]));
+}
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      void cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+async function navigationResponse(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cache = await caches.open(SHELL_CACHE);
+    const cached = (await cache.match("/index.html")) || (await cache.match("/"));
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  return cached || fetch(request);
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") {
+    return;
+  }
+
+  const url = new URL(request.url);
+
+  if (isCachedSupabaseRead(url)) {
+    const cacheName = dataCacheName(request);
+    if (cacheName) {
+      event.respondWith(networkFirst(request, cacheName));
+    }
+    return;
+  }
+
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(navigationResponse(request));
+    return;
+  }
+
+  event.respondWith(cacheFirst(request));
+});
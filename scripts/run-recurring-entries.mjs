@@ -0,0 +1,39 @@
+// Local stand-in for the pg_cron job: posts due auto_post recurring entries.
+// Usage: SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run recurring:run [-- --watch]
+import { createClient } from "@supabase/supabase-js";
+
+const WATCH_INTERVAL_MS = 60_000;
+
+function normalizeEnvValue(value) {
+  if (!value) {
+    return "";
+  }
+  return String(value).trim().replace(/^['"]|['"]$/g, "").trim();
+}
+
+const url = normalizeEnvValue(process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL);
+const serviceRoleKey = normalizeEnvValue(process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+if (!url || !serviceRoleKey) {
+  console.error("Set SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY.");
+  process.exit(1);
+}
+
+const sb = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+async function runOnce() {
+  const { data, error } = await sb.rpc("materialize_recurring_entries");
+  if (error) {
+    console.error(`[recurring] ${new Date().toISOString()} failed: ${error.message}`);
+    return false;
+  }
+  console.log(`[recurring] ${new Date().toISOString()} posted ${data ?? 0} entries`);
+  return true;
+}
+
+if (process.argv.includes("--watch")) {
+  await runOnce();
+  setInterval(() => void runOnce(), WATCH_INTERVAL_MS);
+} else {
+  process.exit((await runOnce()) ? 0 : 1);
+}
@@ -1,63 +1,213 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { BrandLogo } from "@/components/common/BrandLogo";
+import { CloseDaySheet, type CloseDaySubmission } from "@/components/closing/CloseDaySheet";
+import { CategoryChipPicker } from "@/components/categories/CategoryChipPicker";
+import type { RecurringEntryDraft } from "@/components/recurring/RecurringEntriesCard";
 import { LoadingPanel } from "@/components/common/LoadingPanel";
 import { NeonCard } from "@/components/common/NeonCard";
+import { EntryDetailSheet } from "@/components/entries/EntryDetailSheet";
+import { SplitLinesEditor } from "@/components/entries/SplitLinesEditor";
 import { AppShell, type AppTab } from "@/components/layout/AppShell";
 import { detectCountryPreference } from "@/data/countries";
 import type { SignUpInput } from "@/hooks/useAuthSession";
 import { useAuthSession } from "@/hooks/useAuthSession";
 import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { useServiceWorkerUpdate } from "@/hooks/useServiceWorkerUpdate";
 import {
   clearAppErrorLogEntries,
   listAppErrorLogEntries,
   recordAppError,
   type AppErrorLogEntry
 } from "@/lib/errorLog";
-import { formatCurrency, timeInTimeZoneHHmm, todayIsoDate, zonedDateTimeToIso } from "@/lib/format";
+import { budgetCrossing, describeBudgetAlert, entryCategoryAmount, type BudgetAlert } from "@/lib/budgets";
+import { sendBulkInvites, type BulkInviteRow } from "@/lib/bulkInvite";
+import { subcategoryIds } from "@/lib/categoryTree";
+import { buildAccountNameMap, transferRouteLabel } from "@/lib/entryLabels";
+import {
+  formatCurrency,
+  formatDateInTimeZone,
+  sanitizeAmountInput,
+  timeInTimeZoneHHmm,
+  todayInTimeZone,
+  todayIsoDate,
+  zonedDateTimeToIso
+} from "@/lib/format";
+import { clearInviteLinkToken, readInviteLinkToken } from "@/lib/inviteLinks";
+import {
+  createClientRef,
+  enqueueEntry,
+  discardOutboxItem,
+  flushOutbox,
+  isNetworkError,
+  isOfflineQueueSupported,
+  listOutbox,
+  requeueOutboxItem,
+  type OutboxItem
+} from "@/lib/offlineQueue";
+import { canAddDirection, isBackdated, memberPermissions } from "@/lib/permissions";
+import { toSplitLines, validateSplitDrafts, type SplitLineDraft } from "@/lib/splitLines";
 import { hasSupabaseConfig, supabase } from "@/lib/supabase";
+import { clearServiceWorkerDataCache } from "@/registerSW";
+import { AccountStatePage } from "@/pages/AccountStatePage";
 import { AuthPage } from "@/pages/AuthPage";
 import { DashboardPage } from "@/pages/DashboardPage";
 import { HistoryPage } from "@/pages/HistoryPage";
 import { InviteInboxPage } from "@/pages/InviteInboxPage";
 import { OnboardingPage } from "@/pages/OnboardingPage";
+import { PartiesPage, type PartyMovement } from "@/pages/PartiesPage";
 import { ProfileSetupPage } from "@/pages/ProfileSetupPage";
 import { SettingsPage } from "@/pages/SettingsPage";
 import { TeamPage } from "@/pages/TeamPage";
 import { generateAICategories } from "@/services/aiCategories";
 import type { AICategorySuggestion } from "@/services/aiCategories";
 import { confirmAccountDeletion, requestAccountDeletion } from "@/services/accountDeletion";
-import { addAICategories, addManualCategory, archiveCategory, listCategories, seedIndustryCategories } from "@/services/categories";
-import { listPendingDeleteRequests, requestDelete, reviewDeleteRequest } from "@/services/deleteRequests";
-import { addEntry, deleteEntryDirect, listEntries } from "@/services/entries";
+import { addAccount, archiveAccount, listAccountBalances, listAccounts } from "@/services/accounts";
+import { listAuditLogs } from "@/services/auditLogs";
+import {
+  getBudgetVsActual,
+  listBudgetProgress,
+  listCategoryBudgets,
+  removeCategoryBudget,
+  saveCategoryBudget
+} from "@/services/budgets";
+import {
+  addAICategories,
+  addManualCategory,
+  archiveCategory,
+  listArchivedCategories,
+  listCategories,
+  mergeCategories,
+  restoreCategory,
+  seedIndustryCategories,
+  updateCategory
+} from "@/services/categories";
+import {
+  closeBusinessDay,
+  getDayCloseExpectedBalance,
+  listRecentDayClosings
+} from "@/services/dayClosings";
+import { listDeleteRequests, listPendingDeleteRequests, requestDelete, reviewDeleteRequest } from "@/services/deleteRequests";
+import { listPendingEditRequests, requestEdit, reviewEditRequest } from "@/services/editRequests";
+import {
+  createWorkspaceInviteLink,
+  listWorkspaceInviteLinks,
+  redeemWorkspaceInviteLink,
+  revokeWorkspaceInviteLink
+} from "@/services/inviteLinks";
+import {
+  addEntry,
+  deleteEntryDirect,
+  getClosingBalance,
+  listEntries,
+  listEntryRevisions,
+  listShiftEntries,
+  queryEntries,
+  summarizeEntries,
+  updateEntry
+} from "@/services/entries";
 import {
   cancelWorkspaceAccessRequest,
   grantMemberAccessByContact,
   listMyWorkspaceAccessRequests,
+  listMyWorkspaceSuspensions,
   listWorkspaceAccessRequestsSent,
   listWorkspaceMembers,
+  resendWorkspaceAccessRequest,
   respondWorkspaceAccessRequest,
   revokeWorkspaceMember,
   setWorkspaceMemberAccessDisabled,
   updateWorkspaceMemberRole
 } from "@/services/members";
+import {
+  addParty,
+  archiveParty,
+  getPartyBalanceAsOf,
+  getPartyStatement,
+  listParties,
+  listPartyBalances
+} from "@/services/parties";
+import { getPendingOwnershipTransfer, proposeOwnershipTransfer, respondOwnershipTransfer } from "@/services/ownership";
 import { getMyProfile, saveMyProfile } from "@/services/profile";
-import { uploadReceipt } from "@/services/storage";
-import { createWorkspaceWithOwner, getWorkspaceContext, listUserWorkspaces, updateWorkspaceTimezone } from "@/services/workspace";
+import { assignMemberRole, deleteWorkspaceRole, listWorkspaceRoles, saveWorkspaceRole } from "@/services/roles";
+import {
+  addRecurringEntry,
+  listRecurringEntries,
+  postRecurringEntry,
+  setRecurringEntryActive,
+  skipRecurringEntry
+} from "@/services/recurringEntries";
+import { closeShift, getMyOpenShift, getShiftReport, openShift } from "@/services/shifts";
+import { getReceiptUrl, uploadReceipt } from "@/services/storage";
+import {
+  createWorkspaceWithOwner,
+  getLastWorkspaceId,
+  getWorkspaceContext,
+  listUserWorkspaces,
+  rememberLastWorkspace,
+  updateWorkspaceOpeningBalance,
+  updateWorkspaceSettings,
+  updateWorkspaceTimezone
+} from "@/services/workspace";
 import type {
+  Account,
+  AccountBalance,
+  AccountKind,
   AppRole,
+  AuditLogFilters,
+  BudgetPeriod,
+  BudgetProgress,
   CashDirection,
   Category,
-  DeleteRequest,
+  CategoryBudget,
+  CategoryUpdateInput,
+  CreateWorkspaceInput,
+  DayClosing,
+  DeleteRequestDetail,
+  EntryCursor,
+  EntryEditRequest,
+  EntryQueryFilters,
+  EntryRevision,
+  EntryUpdateInput,
   Entry,
+  EntryKind,
+  InviteLinkInput,
+  MemberSuspensionInput,
+  OwnershipTransferDecision,
+  Party,
+  PartyBalance,
+  PartyInput,
+  RecurringEntry,
+  Shift,
+  ShiftReportRow,
   WorkspaceAccessRequest,
   WorkspaceAccessRequestSent,
   WorkspaceContext,
-  WorkspaceMemberDirectory
+  WorkspaceInviteLink,
+  WorkspaceMemberDirectory,
+  WorkspaceOwnershipTransfer,
+  WorkspaceRole,
+  WorkspaceRoleInput,
+  WorkspaceSettingsInput,
+  WorkspaceSuspension
 } from "@/types/domain";
 
 const localeDefaultCurrency = detectCountryPreference().currency;
 const defaultCurrency = (import.meta.env.VITE_DEFAULT_CURRENCY || localeDefaultCurrency || "USD").toUpperCase();
-type WorkspaceEntryMode = "decide" | "join" | "create";
+type WorkspaceEntryMode = "decide" | "join" | "create" | "suspended";
+type RealtimeEntryPayload = Pick<
+  Entry,
+  | "id"
+  | "kind"
+  | "direction"
+  | "amount"
+  | "category_id"
+  | "account_id"
+  | "transfer_account_id"
+  | "party_id"
+  | "split_lines"
+  | "entry_at"
+  | "created_by"
+>;
 
 function readError(error: unknown): string {
   if (error instanceof Error && error.message) {
@@ -102,16 +252,6 @@ function readMetaString(meta: Record<string, unknown>, key: string): string {
   return typeof value === "string" ? value : "";
 }
 
-function sanitizeAmountInput(value: string): string {
-  const normalized = value.replace(/,/g, ".").replace(/[^\d.]/g, "");
-  const [whole, ...fractionParts] = normalized.split(".");
-  if (!fractionParts.length) {
-    return whole;
-  }
-  const fraction = fractionParts.join("").slice(0, 2);
-  return `${whole}.${fraction}`;
-}
-
 function isLikelyMobileDevice(): boolean {
   if (typeof navigator === "undefined") {
     return false;
@@ -126,6 +266,7 @@ function isLikelyMobileDevice(): boolean {
 
 export default function App(): JSX.Element {
   const online = useOnlineStatus();
+  const { updateAvailable, applyUpdate } = useServiceWorkerUpdate();
   const {
     session,
     loading: authLoading,
@@ -142,16 +283,36 @@ export default function App(): JSX.Element {
   const [onboardingCurrency, setOnboardingCurrency] = useState(defaultCurrency);
 
   const [context, setContext] = useState<WorkspaceContext | null>(null);
+  const [workspaceOptions, setWorkspaceOptions] = useState<WorkspaceContext[]>([]);
+  const [switchingWorkspace, setSwitchingWorkspace] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
   const [entries, setEntries] = useState<Entry[]>([]);
-  const [pendingDeleteRequests, setPendingDeleteRequests] = useState<DeleteRequest[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountBalances, setAccountBalances] = useState<AccountBalance[]>([]);
+  const [parties, setParties] = useState<Party[]>([]);
+  const [partyBalances, setPartyBalances] = useState<PartyBalance[]>([]);
+  const [categoryBudgets, setCategoryBudgets] = useState<CategoryBudget[]>([]);
+  const [workspaceRoles, setWorkspaceRoles] = useState<WorkspaceRole[]>([]);
+  const [budgetProgress, setBudgetProgress] = useState<BudgetProgress[]>([]);
+  const [dayClosings, setDayClosings] = useState<DayClosing[]>([]);
+  const [closeDayDate, setCloseDayDate] = useState("");
+  const [myOpenShift, setMyOpenShift] = useState<Shift | null>(null);
+  const [shiftEntries, setShiftEntries] = useState<Entry[]>([]);
+  const [shiftReport, setShiftReport] = useState<ShiftReportRow[]>([]);
+  const [recurringEntries, setRecurringEntries] = useState<RecurringEntry[]>([]);
+  const [pendingDeleteRequests, setPendingDeleteRequests] = useState<DeleteRequestDetail[]>([]);
+  const [myDeleteRequests, setMyDeleteRequests] = useState<DeleteRequestDetail[]>([]);
+  const [pendingEditRequests, setPendingEditRequests] = useState<EntryEditRequest[]>([]);
+  const [ownershipTransfer, setOwnershipTransfer] = useState<WorkspaceOwnershipTransfer | null>(null);
   const [teamMembers, setTeamMembers] = useState<WorkspaceMemberDirectory[]>([]);
   const [teamLoadError, setTeamLoadError] = useState("");
   const [pendingAccessRequests, setPendingAccessRequests] = useState<WorkspaceAccessRequest[]>([]);
   const [sentAccessRequests, setSentAccessRequests] = useState<WorkspaceAccessRequestSent[]>([]);
   const [sentAccessRequestsError, setSentAccessRequestsError] = useState("");
+  const [inviteLinks, setInviteLinks] = useState<WorkspaceInviteLink[]>([]);
   const [respondingAccessRequestId, setRespondingAccessRequestId] = useState("");
   const [workspaceEntryMode, setWorkspaceEntryMode] = useState<WorkspaceEntryMode>("decide");
+  const [suspensions, setSuspensions] = useState<WorkspaceSuspension[]>([]);
   const [temporaryAccessAvailable, setTemporaryAccessAvailable] = useState(true);
   const [tab, setTab] = useState<AppTab>("dashboard");
   const [message, setMessage] = useState<string>("");
@@ -161,10 +322,22 @@ export default function App(): JSX.Element {
   );
   const [installPromptEvent, setInstallPromptEvent] = useState<any>(null);
 
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  const [syncingOutbox, setSyncingOutbox] = useState(false);
+  const [detailEntry, setDetailEntry] = useState<Entry | null>(null);
+  const [detailRevisions, setDetailRevisions] = useState<EntryRevision[]>([]);
+  const [detailRevisionsLoading, setDetailRevisionsLoading] = useState(false);
+
   const [quickOpen, setQuickOpen] = useState(false);
+  const [quickKind, setQuickKind] = useState<EntryKind>("standard");
   const [quickDirection, setQuickDirection] = useState<CashDirection>("cash_out");
+  const [quickAccountId, setQuickAccountId] = useState<string>("");
+  const [quickTransferAccountId, setQuickTransferAccountId] = useState<string>("");
+  const [quickPartyId, setQuickPartyId] = useState<string>("");
   const [quickAmount, setQuickAmount] = useState<string>("");
   const [quickCategoryId, setQuickCategoryId] = useState<string>("");
+  const [quickSplitLines, setQuickSplitLines] = useState<SplitLineDraft[] | null>(null);
   const [quickRemarks, setQuickRemarks] = useState<string>("");
   const [quickDate, setQuickDate] = useState<string>(todayIsoDate());
   const [quickTime, setQuickTime] = useState<string>("00:00");
@@ -176,6 +349,10 @@ export default function App(): JSX.Element {
   const [showJoinRequestPrompt, setShowJoinRequestPrompt] = useState(false);
   const accountRestoreRef = useRef(false);
   const contextRef = useRef<WorkspaceContext | null>(null);
+  const redeemingInviteLinkRef = useRef(false);
+  const outboxFlushingRef = useRef(false);
+  const activeWorkspaceIdRef = useRef("");
+  const workspaceLoadSeqRef = useRef(0);
   const lastUserIdRef = useRef<string>("");
   const quickAmountInputRef = useRef<HTMLInputElement | null>(null);
   const lastHapticAtRef = useRef(0);
@@ -228,14 +405,34 @@ export default function App(): JSX.Element {
   }, [mobileInputHapticsEnabled, triggerHaptic]);
 
   const clearWorkspaceState = useCallback(() => {
+    activeWorkspaceIdRef.current = "";
     setContext(null);
+    setWorkspaceOptions([]);
     setCategories([]);
     setEntries([]);
+    setAccounts([]);
+    setAccountBalances([]);
+    setParties([]);
+    setPartyBalances([]);
+    setCategoryBudgets([]);
+    setWorkspaceRoles([]);
+    setBudgetProgress([]);
+    setDayClosings([]);
+    setCloseDayDate("");
+    setMyOpenShift(null);
+    setShiftEntries([]);
+    setShiftReport([]);
+    setRecurringEntries([]);
     setPendingDeleteRequests([]);
+    setMyDeleteRequests([]);
+    setPendingEditRequests([]);
+    setOwnershipTransfer(null);
+    setDetailEntry(null);
     setTeamMembers([]);
     setTeamLoadError("");
     setSentAccessRequests([]);
     setSentAccessRequestsError("");
+    setInviteLinks([]);
     setRespondingAccessRequestId("");
     setTab("dashboard");
   }, []);
@@ -266,6 +463,9 @@ export default function App(): JSX.Element {
 
     const usage = new Map<string, { count: number; lastUsed: number }>();
     entries.forEach((entry) => {
+      if (!entry.category_id) {
+        return;
+      }
       const current = usage.get(entry.category_id) ?? { count: 0, lastUsed: 0 };
       const entryTime = new Date(entry.entry_at).getTime();
       usage.set(entry.category_id, {
@@ -297,6 +497,69 @@ export default function App(): JSX.Element {
     return map;
   }, [teamMembers]);
 
+  useEffect(() => {
+    setHistoryVersion((prev) => prev + 1);
+  }, [entries]);
+
+  const entryAuthorNames = useMemo(() => {
+    const map = new Map(memberNameById);
+    if (userId) {
+      map.set(userId, "You");
+    }
+    return map;
+  }, [memberNameById, userId]);
+
+  const queryHistoryEntries = useCallback(
+    (
+      filters: EntryQueryFilters,
+      cursor: EntryCursor | null,
+      limit?: number,
+      withBalance?: boolean,
+      forExport?: boolean
+    ) => queryEntries(workspaceId, filters, cursor, limit, withBalance, forExport),
+    [workspaceId]
+  );
+
+  const queryAuditLogs = useCallback(
+    (filters: AuditLogFilters, cursor: number | null, limit?: number) =>
+      listAuditLogs(workspaceId, filters, cursor, limit),
+    [workspaceId]
+  );
+
+  const summarizeHistoryEntries = useCallback(
+    (filters: EntryQueryFilters) => summarizeEntries(workspaceId, filters),
+    [workspaceId]
+  );
+
+  const historyClosingBalance = useCallback(
+    (asOf: string, accountId: string | null) => getClosingBalance(workspaceId, asOf, accountId),
+    [workspaceId]
+  );
+
+  const loadPartyStatement = useCallback(
+    (partyId: string, from: string | null, to: string | null) => getPartyStatement(workspaceId, partyId, from, to),
+    [workspaceId]
+  );
+
+  const budgetVsActual = useCallback(
+    (from: string | null, to: string | null) => getBudgetVsActual(workspaceId, from, to),
+    [workspaceId]
+  );
+
+  const archivedCategoryList = useCallback(() => listArchivedCategories(workspaceId), [workspaceId]);
+
+  const loadDeleteRequestHistory = useCallback(() => listDeleteRequests(workspaceId, "history"), [workspaceId]);
+
+  const partyBalanceAsOf = useCallback(
+    (partyId: string, asOf: string) => getPartyBalanceAsOf(workspaceId, partyId, asOf),
+    [workspaceId]
+  );
+
+  const closeDayExpectedBalance = useCallback(
+    (businessDate: string, accountId: string) => getDayCloseExpectedBalance(workspaceId, businessDate, accountId),
+    [workspaceId]
+  );
+
   useEffect(() => {
     if (!message) {
       return;
@@ -334,6 +597,73 @@ export default function App(): JSX.Element {
     [reportError, notify]
   );
 
+  // Balances cover every entry, not just the recent page in `entries`, so they come from the server.
+  useEffect(() => {
+    if (!workspaceId) {
+      setAccountBalances([]);
+      return;
+    }
+
+    let cancelled = false;
+    void listAccountBalances(workspaceId)
+      .then((rows) => {
+        if (!cancelled) {
+          setAccountBalances(rows);
+        }
+      })
+      .catch((error) => {
+        reportError("App.listAccountBalances", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, entries, accounts, reportError]);
+
+  useEffect(() => {
+    if (!workspaceId) {
+      setPartyBalances([]);
+      return;
+    }
+
+    let cancelled = false;
+    void listPartyBalances(workspaceId)
+      .then((rows) => {
+        if (!cancelled) {
+          setPartyBalances(rows);
+        }
+      })
+      .catch((error) => {
+        reportError("App.listPartyBalances", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, entries, parties, reportError]);
+
+  useEffect(() => {
+    if (!workspaceId) {
+      setBudgetProgress([]);
+      return;
+    }
+
+    let cancelled = false;
+    void listBudgetProgress(workspaceId)
+      .then((rows) => {
+        if (!cancelled) {
+          setBudgetProgress(rows);
+        }
+      })
+      .catch((error) => {
+        reportError("App.listBudgetProgress", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, entries, categoryBudgets, reportError]);
+
   const clearErrorLog = useCallback(() => {
     clearAppErrorLogEntries();
     refreshErrorLog();
@@ -399,6 +729,7 @@ export default function App(): JSX.Element {
       try {
         await confirmAccountDeletion(token);
         notify("Account deleted. Your data is archived and access has been removed.");
+        await clearServiceWorkerDataCache().catch(() => undefined);
         await signOut();
       } catch (error) {
         notifyError("App.confirmAccountDeletion", error);
@@ -452,8 +783,61 @@ export default function App(): JSX.Element {
     notify("Use browser menu and choose Install app / Add to Home screen.");
   };
 
+  const describeEntryMovement = useCallback(
+    (entry: RealtimeEntryPayload, amountText: string): string => {
+      if (entry.kind === "transfer") {
+        return `Transfer ${amountText} (${transferRouteLabel(entry, buildAccountNameMap(accounts))})`;
+      }
+      const partyName = parties.find((item) => item.id === entry.party_id)?.name;
+      if (entry.kind === "credit") {
+        const side = entry.direction === "cash_out" ? "Credit Given" : "Credit Received";
+        return `${side} ${amountText} (${partyName ?? "Unknown party"})`;
+      }
+      const side = entry.direction === "cash_in" ? "Cash In" : "Cash Out";
+      const categoryName = categories.find((item) => item.id === entry.category_id)?.name ?? "Unknown category";
+      return partyName ? `${side} ${amountText} in ${categoryName} (${partyName})` : `${side} ${amountText} in ${categoryName}`;
+    },
+    [accounts, categories, parties]
+  );
+
+  // Fresh progress already includes the entry, so budgetCrossing can tell whether this entry crossed 80% or 100%.
+  const findBudgetAlert = useCallback(
+    async (entry: RealtimeEntryPayload): Promise<BudgetAlert | null> => {
+      if (entry.kind !== "standard" || entry.direction !== "cash_out") {
+        return null;
+      }
+      const touched = categoryBudgets.filter(
+        (budget) => entryCategoryAmount(entry, budget.category_id, subcategoryIds(categories, budget.category_id)) > 0
+      );
+      if (!touched.length) {
+        return null;
+      }
+
+      const rows = await listBudgetProgress(workspaceId);
+      setBudgetProgress(rows);
+      for (const row of rows) {
+        const alert = touched.some((budget) => budget.id === row.budget_id)
+          ? budgetCrossing(entry, row, subcategoryIds(categories, row.category_id))
+          : null;
+        if (alert) {
+          return alert;
+        }
+      }
+      return null;
+    },
+    [workspaceId, categoryBudgets, categories]
+  );
+
+  const budgetAlertText = useCallback(
+    (alert: BudgetAlert | null): string =>
+      alert
+        ? describeBudgetAlert(alert, categories.find((item) => item.id === alert.category_id)?.name ?? "A category")
+        : "",
+    [categories]
+  );
+
   const showEntrySystemNotification = useCallback(
-    async (entry: { id: string; direction: CashDirection; amount: number; category_id: string; created_by: string }) => {
+    async (entry: RealtimeEntryPayload, budgetAlert: BudgetAlert | null = null) => {
       if (typeof Notification === "undefined" || !context) {
         return;
       }
@@ -466,20 +850,24 @@ export default function App(): JSX.Element {
         entry.created_by === userId
           ? "You"
           : memberNameById.get(entry.created_by) || "A team member";
-      const side = entry.direction === "cash_in" ? "Cash In" : "Cash Out";
-      const categoryName = categories.find((item) => item.id === entry.category_id)?.name ?? "Unknown category";
       const amountText = formatCurrency(entry.amount, context.workspace.currency);
 
       new Notification("Cashbook Entry Alert", {
-        body: `${actor} added ${side} ${amountText} in ${categoryName}.`,
+        body: `${actor} added ${describeEntryMovement(entry, amountText)}.`,
         tag: `entry-${entry.id}`
       });
+      if (budgetAlert) {
+        new Notification("Cashbook Budget Alert", {
+          body: `${budgetAlertText(budgetAlert)}.`,
+          tag: `budget-${budgetAlert.category_id}-${budgetAlert.threshold}`
+        });
+      }
     },
-    [context, userId, memberNameById, categories, notificationPermission]
+    [context, userId, memberNameById, describeEntryMovement, budgetAlertText, notificationPermission]
   );
 
   const showEntryInAppAlert = useCallback(
-    (entry: { direction: CashDirection; amount: number; category_id: string; created_by: string }) => {
+    (entry: RealtimeEntryPayload, budgetAlert: BudgetAlert | null = null) => {
       if (!context) {
         return;
       }
@@ -488,26 +876,51 @@ export default function App(): JSX.Element {
         entry.created_by === userId
           ? "You"
           : memberNameById.get(entry.created_by) || "A team member";
-      const side = entry.direction === "cash_in" ? "Cash In" : "Cash Out";
-      const categoryName = categories.find((item) => item.id === entry.category_id)?.name ?? "Unknown category";
       const amountText = formatCurrency(entry.amount, context.workspace.currency);
 
-      notify(`${actor} added ${side} ${amountText} in ${categoryName}`);
+      const movement = `${actor} added ${describeEntryMovement(entry, amountText)}`;
+      notify(budgetAlert ? `${movement}. ${budgetAlertText(budgetAlert)}` : movement);
 
-      triggerHaptic(120);
+      triggerHaptic(budgetAlert ? [120, 60, 120] : 120);
     },
-    [context, userId, memberNameById, categories, triggerHaptic]
+    [context, userId, memberNameById, describeEntryMovement, budgetAlertText, triggerHaptic]
   );
 
   const loadWorkspace = useCallback(async (workspaceId: string, currentUserId: string) => {
-    const workspaceContext = await getWorkspaceContext(workspaceId, currentUserId);
-
-    const [categoryRows, entryRows] = await Promise.all([listCategories(workspaceId), listEntries(workspaceId)]);
+    // Realtime events from a channel that is being torn down can still arrive after a switch.
+    if (workspaceId !== activeWorkspaceIdRef.current) {
+      return;
+    }
+    const loadSeq = ++workspaceLoadSeqRef.current;
 
-    const canReviewDeletes = workspaceContext.member.role === "admin" || workspaceContext.member.can_delete_entries;
-    const canManageUsers = workspaceContext.member.role === "admin" || workspaceContext.member.can_manage_users;
+    const workspaceContext = await getWorkspaceContext(workspaceId, currentUserId);
 
-    const deleteRowsPromise = canReviewDeletes ? listPendingDeleteRequests(workspaceId) : Promise.resolve<DeleteRequest[]>([]);
+    const [categoryRows, entryRows, accountRows, closingRows, recurringRows, partyRows, budgetRows, roleRows] =
+      await Promise.all([
+        listCategories(workspaceId),
+        listEntries(workspaceId),
+        listAccounts(workspaceId),
+        listRecentDayClosings(workspaceId),
+        listRecurringEntries(workspaceId),
+        listParties(workspaceId),
+        listCategoryBudgets(workspaceId),
+        listWorkspaceRoles(workspaceId)
+      ]);
+
+    const loadedPermissions = memberPermissions(workspaceContext.member, roleRows);
+    const canManageUsers = loadedPermissions.can_manage_members;
+
+    const deleteRowsPromise = loadedPermissions.can_delete_entries
+      ? listPendingDeleteRequests(workspaceId)
+      : Promise.resolve<DeleteRequestDetail[]>([]);
+    // Members who cannot delete directly follow their own requests; a failure here must not block the load.
+    const myDeleteRowsPromise =
+      !loadedPermissions.can_delete_entries && workspaceContext.member.role !== "viewer"
+        ? listDeleteRequests(workspaceId, "mine", 20).catch(() => [] as DeleteRequestDetail[])
+        : Promise.resolve<DeleteRequestDetail[]>([]);
+    const editRowsPromise = loadedPermissions.can_edit_entries
+      ? listPendingEditRequests(workspaceId)
+      : Promise.resolve<EntryEditRequest[]>([]);
     const memberRowsPromise: Promise<{ rows: WorkspaceMemberDirectory[]; error: string }> = canManageUsers
       ? listWorkspaceMembers(workspaceId)
           .then((rows) => ({ rows, error: "" }))
@@ -519,19 +932,70 @@ export default function App(): JSX.Element {
           .catch((error) => ({ rows: [], error: normalizeSentRequestError(error) }))
       : Promise.resolve({ rows: [], error: "" });
 
-    const [deleteRows, memberResult, sentResult] = await Promise.all([
+    const shiftPromise: Promise<{ shift: Shift | null; entries: Entry[] }> =
+      workspaceContext.member.dashboard_scope === "shift"
+        ? getMyOpenShift(workspaceId, currentUserId).then(async (shift) => ({
+            shift,
+            entries: shift ? await listShiftEntries(workspaceId, shift.id) : []
+          }))
+        : Promise.resolve({ shift: null, entries: [] });
+    // The report is an RPC (not in the offline read cache), so a failure must not block the workspace load.
+    const shiftReportPromise =
+      workspaceContext.member.role === "admin"
+        ? getShiftReport(workspaceId).catch(() => [] as ShiftReportRow[])
+        : Promise.resolve<ShiftReportRow[]>([]);
+    const ownershipTransferPromise = getPendingOwnershipTransfer(workspaceId).catch(() => null);
+    const inviteLinksPromise =
+      workspaceContext.member.role === "admin"
+        ? listWorkspaceInviteLinks(workspaceId).catch(() => [] as WorkspaceInviteLink[])
+        : Promise.resolve<WorkspaceInviteLink[]>([]);
+
+    const [
+      deleteRows,
+      myDeleteRows,
+      editRows,
+      memberResult,
+      sentResult,
+      shiftResult,
+      shiftReportRows,
+      transferRow,
+      inviteLinkRows
+    ] = await Promise.all([
       deleteRowsPromise,
+      myDeleteRowsPromise,
+      editRowsPromise,
       memberRowsPromise,
-      sentAccessRequestsPromise
+      sentAccessRequestsPromise,
+      shiftPromise,
+      shiftReportPromise,
+      ownershipTransferPromise,
+      inviteLinksPromise
     ]);
 
+    if (loadSeq !== workspaceLoadSeqRef.current || workspaceId !== activeWorkspaceIdRef.current) {
+      return;
+    }
+
     setTeamLoadError(memberResult.error);
     setSentAccessRequests(sentResult.rows);
     setSentAccessRequestsError(sentResult.error);
     setContext(workspaceContext);
     setCategories(categoryRows);
     setEntries(entryRows);
+    setAccounts(accountRows);
+    setParties(partyRows);
+    setCategoryBudgets(budgetRows);
+    setWorkspaceRoles(roleRows);
+    setDayClosings(closingRows);
+    setMyOpenShift(shiftResult.shift);
+    setShiftEntries(shiftResult.entries);
+    setShiftReport(shiftReportRows);
+    setRecurringEntries(recurringRows);
     setPendingDeleteRequests(deleteRows);
+    setMyDeleteRequests(myDeleteRows);
+    setPendingEditRequests(editRows);
+    setOwnershipTransfer(transferRow);
+    setInviteLinks(inviteLinkRows);
     setTeamMembers(memberResult.rows);
   }, []);
 
@@ -593,6 +1057,44 @@ export default function App(): JSX.Element {
     }
   }, [workspaceId, reportError]);
 
+  const refreshInviteLinks = useCallback(async (): Promise<void> => {
+    if (!workspaceId || contextRef.current?.member.role !== "admin") {
+      setInviteLinks([]);
+      return;
+    }
+
+    try {
+      setInviteLinks(await listWorkspaceInviteLinks(workspaceId));
+    } catch (error) {
+      reportError("App.refreshInviteLinks", error);
+    }
+  }, [workspaceId, reportError]);
+
+  // Runs once the workspace bootstrap has settled, so the invite shows as a prompt or in the inbox.
+  const redeemInviteLinkFromUrl = useCallback(async (): Promise<void> => {
+    const token = readInviteLinkToken();
+    if (!token || redeemingInviteLinkRef.current) {
+      return;
+    }
+
+    redeemingInviteLinkRef.current = true;
+    try {
+      const redeemed = await redeemWorkspaceInviteLink(token);
+      await refreshAccessRequests();
+      if (contextRef.current) {
+        setShowJoinRequestPrompt(true);
+      } else {
+        setWorkspaceEntryMode("join");
+      }
+      notify(`Invite to ${redeemed.workspace_name} is ready. Accept it to join.`);
+    } catch (error) {
+      notifyError("App.redeemInviteLinkFromUrl", error);
+    } finally {
+      clearInviteLinkToken();
+      redeemingInviteLinkRef.current = false;
+    }
+  }, [refreshAccessRequests, notify, notifyError]);
+
   const openJoinWorkspace = async (): Promise<number> => {
     try {
       setWorkspaceEntryMode("join");
@@ -604,19 +1106,48 @@ export default function App(): JSX.Element {
     }
   };
 
+  const refreshSuspensions = useCallback(async (): Promise<WorkspaceSuspension[]> => {
+    try {
+      const rows = await listMyWorkspaceSuspensions();
+      setSuspensions(rows);
+      return rows;
+    } catch (error) {
+      // Before the suspension migration there is nothing more specific to show than the generic gate.
+      reportError("App.refreshSuspensions", error);
+      setSuspensions([]);
+      return [];
+    }
+  }, [reportError]);
+
   const handleAccessRevoked = useCallback(
     async (reason: string) => {
       clearWorkspaceState();
-      setWorkspaceEntryMode("decide");
       setShowJoinRequestPrompt(false);
-      notify(reason);
+      const suspended = await refreshSuspensions();
+      if (suspended.length) {
+        setWorkspaceEntryMode("suspended");
+      } else {
+        setWorkspaceEntryMode("decide");
+        notify(reason);
+      }
       try {
         await refreshAccessRequests();
       } catch {
         // If request fetch fails temporarily, the user can still proceed from decide screen.
       }
     },
-    [clearWorkspaceState, refreshAccessRequests]
+    [clearWorkspaceState, refreshAccessRequests, refreshSuspensions]
+  );
+
+  const selectWorkspace = useCallback(
+    async (nextWorkspaceId: string, uid: string) => {
+      activeWorkspaceIdRef.current = nextWorkspaceId;
+      await loadWorkspace(nextWorkspaceId, uid);
+      void rememberLastWorkspace(uid, nextWorkspaceId).catch((error) => {
+        reportError("App.selectWorkspace.rememberLastWorkspace", error);
+      });
+    },
+    [loadWorkspace, reportError]
   );
 
   const bootstrapWorkspace = useCallback(
@@ -625,15 +1156,50 @@ export default function App(): JSX.Element {
       if (!workspaces.length) {
         clearWorkspaceState();
         setPendingAccessRequests([]);
+        const suspended = await refreshSuspensions();
+        setWorkspaceEntryMode((mode) => (suspended.length ? "suspended" : mode === "suspended" ? "decide" : mode));
+        return;
+      }
+
+      setSuspensions([]);
+      setWorkspaceEntryMode((mode) => (mode === "suspended" ? "decide" : mode));
+
+      setWorkspaceOptions(workspaces);
+      const available = new Set(workspaces.map((item) => item.workspace.id));
+      if (available.has(activeWorkspaceIdRef.current)) {
+        await loadWorkspace(activeWorkspaceIdRef.current, uid);
+        return;
+      }
+
+      const lastWorkspaceId = await getLastWorkspaceId(uid).catch(() => null);
+      if (lastWorkspaceId && available.has(lastWorkspaceId)) {
+        await selectWorkspace(lastWorkspaceId, uid);
         return;
       }
 
-      const fallbackWorkspaceId = workspaces[0].workspace.id;
-      await loadWorkspace(fallbackWorkspaceId, uid);
+      await selectWorkspace(workspaces[0].workspace.id, uid);
     },
-    [loadWorkspace, clearWorkspaceState]
+    [loadWorkspace, selectWorkspace, clearWorkspaceState, refreshSuspensions]
   );
 
+  const switchWorkspace = async (nextWorkspaceId: string): Promise<void> => {
+    if (!userId || nextWorkspaceId === activeWorkspaceIdRef.current) {
+      return;
+    }
+
+    setSwitchingWorkspace(true);
+    setQuickOpen(false);
+    setDetailEntry(null);
+    try {
+      await selectWorkspace(nextWorkspaceId, userId);
+      setTab("dashboard");
+    } catch (error) {
+      notifyError("App.switchWorkspace", error);
+    } finally {
+      setSwitchingWorkspace(false);
+    }
+  };
+
   useEffect(() => {
     if (!userId) {
       setNeedsProfileSetup(false);
@@ -714,6 +1280,8 @@ export default function App(): JSX.Element {
           setCategories([]);
           setEntries([]);
           setPendingDeleteRequests([]);
+          setMyDeleteRequests([]);
+          setPendingEditRequests([]);
           setTeamMembers([]);
           setPendingAccessRequests([]);
           setRespondingAccessRequestId("");
@@ -722,15 +1290,19 @@ export default function App(): JSX.Element {
 
         setNeedsProfileSetup(false);
         await bootstrapWorkspace(userId);
-        void refreshAccessRequests()
-          .then((requests) => {
-            if (!contextRef.current && requests.length > 0) {
-              setWorkspaceEntryMode("join");
-            }
-          })
-          .catch((error) => {
-            reportError("App.bootstrap.refreshAccessRequests", error);
-          });
+        if (readInviteLinkToken()) {
+          await redeemInviteLinkFromUrl();
+        } else {
+          void refreshAccessRequests()
+            .then((requests) => {
+              if (!contextRef.current && requests.length > 0) {
+                setWorkspaceEntryMode((mode) => (mode === "suspended" ? mode : "join"));
+              }
+            })
+            .catch((error) => {
+              reportError("App.bootstrap.refreshAccessRequests", error);
+            });
+        }
         void detectTemporaryAccessAvailability().catch(() => {
           // Optional capability check; do not block initial app load.
         });
@@ -745,6 +1317,7 @@ export default function App(): JSX.Element {
     session,
     bootstrapWorkspace,
     refreshAccessRequests,
+    redeemInviteLinkFromUrl,
     detectTemporaryAccessAvailability,
     signOut,
     clearWorkspaceState,
@@ -813,10 +1386,15 @@ export default function App(): JSX.Element {
     };
   }, [userId, workspaceId, refreshAccessRequests, bootstrapWorkspace, triggerHaptic]);
 
+  const permissions = useMemo(
+    () => (context ? memberPermissions(context.member, workspaceRoles) : null),
+    [context, workspaceRoles]
+  );
+  const canManageWorkspaceUsers = Boolean(permissions?.can_manage_members);
+
   useEffect(() => {
     const sb = supabase;
-    const canManageUsers = Boolean(context?.member.role === "admin" || context?.member.can_manage_users);
-    if (!sb || !workspaceId || !userId || !canManageUsers) {
+    if (!sb || !workspaceId || !userId || !canManageWorkspaceUsers) {
       return;
     }
 
@@ -832,14 +1410,22 @@ export default function App(): JSX.Element {
         },
         (payload: {
           eventType: string;
-          new?: { status?: string };
+          new?: { status?: string; invite_link_id?: string | null };
         }) => {
           const nextStatus = payload.new?.status ?? "";
           void refreshSentAccessRequests();
 
+          if (payload.eventType === "INSERT" && payload.new?.invite_link_id) {
+            void refreshInviteLinks();
+          }
+
           if (payload.eventType === "UPDATE" && nextStatus === "accepted") {
             void listWorkspaceMembers(workspaceId)
-              .then((rows) => setTeamMembers(rows))
+              .then((rows) => {
+                if (activeWorkspaceIdRef.current === workspaceId) {
+                  setTeamMembers(rows);
+                }
+              })
               .catch((error) => {
                 reportError("App.workspaceAccessRequestsSentChannel.listWorkspaceMembers", error);
               });
@@ -851,12 +1437,11 @@ export default function App(): JSX.Element {
     return () => {
       void sb.removeChannel(channel);
     };
-  }, [context, workspaceId, userId, refreshSentAccessRequests, reportError]);
+  }, [canManageWorkspaceUsers, workspaceId, userId, refreshSentAccessRequests, refreshInviteLinks, reportError]);
 
   useEffect(() => {
     const sb = supabase;
-    const canManageUsers = Boolean(context?.member.role === "admin" || context?.member.can_manage_users);
-    if (!sb || !workspaceId || !userId || !canManageUsers) {
+    if (!sb || !workspaceId || !userId || !canManageWorkspaceUsers) {
       return;
     }
 
@@ -872,7 +1457,11 @@ export default function App(): JSX.Element {
         },
         () => {
           void listWorkspaceMembers(workspaceId)
-            .then((rows) => setTeamMembers(rows))
+            .then((rows) => {
+              if (activeWorkspaceIdRef.current === workspaceId) {
+                setTeamMembers(rows);
+              }
+            })
             .catch((error) => {
               reportError("App.workspaceMembersAdminChannel.listWorkspaceMembers", error);
             });
@@ -883,7 +1472,7 @@ export default function App(): JSX.Element {
     return () => {
       void sb.removeChannel(channel);
     };
-  }, [context, workspaceId, userId, reportError]);
+  }, [canManageWorkspaceUsers, workspaceId, userId, reportError]);
 
   useEffect(() => {
     const sb = supabase;
@@ -956,17 +1545,19 @@ export default function App(): JSX.Element {
         },
         (payload: {
           eventType: string;
-          new: {
-            id: string;
-            direction: CashDirection;
-            amount: number;
-            category_id: string;
-            created_by: string;
-          };
+          new: RealtimeEntryPayload;
         }) => {
           if (payload.eventType === "INSERT" && payload.new) {
-            showEntryInAppAlert(payload.new);
-            void showEntrySystemNotification(payload.new);
+            const entry = payload.new;
+            void findBudgetAlert(entry)
+              .catch((error) => {
+                reportError("App.workspaceLiveChannel.findBudgetAlert", error);
+                return null;
+              })
+              .then((budgetAlert) => {
+                showEntryInAppAlert(entry, budgetAlert);
+                void showEntrySystemNotification(entry, budgetAlert);
+              });
           }
           void loadWorkspace(workspaceId, userId).catch((error) => {
             reportError("App.workspaceLiveChannel.entries.loadWorkspace", error);
@@ -987,127 +1578,551 @@ export default function App(): JSX.Element {
           });
         }
       )
-      .subscribe();
-
-    return () => {
-      void sb.removeChannel(channel);
-    };
-  }, [workspaceId, userId, loadWorkspace, showEntrySystemNotification, showEntryInAppAlert, reportError]);
-
-  const openQuickAdd = (direction: CashDirection) => {
-    setQuickDirection(direction);
-    setQuickCategoryId(inferCategoryId(smartCategories, direction));
-    setQuickAmount("");
-    setQuickRemarks("");
-    setQuickDate(todayIsoDate());
-    setQuickTime(timeInTimeZoneHHmm(context?.workspace.timezone ?? "UTC"));
-    setQuickReceiptFile(null);
-    setQuickOpen(true);
-  };
-
-  useEffect(() => {
-    if (!quickOpen) {
-      return;
-    }
-
-    const timer = window.setTimeout(() => {
-      const input = quickAmountInputRef.current;
-      if (!input) {
-        return;
-      }
-      input.focus();
-      const len = input.value.length;
-      input.setSelectionRange(len, len);
-    }, 35);
-
-    return () => window.clearTimeout(timer);
-  }, [quickOpen, quickDirection]);
-
-  const saveQuickEntry = async (): Promise<void> => {
-    if (!context || !userId || !quickCategoryId) {
-      notify("Select a category first");
-      return;
-    }
-
-    const amount = Number(quickAmount);
-    if (!amount || amount <= 0) {
-      notify("Enter a valid amount");
-      return;
-    }
-
-    if (quickReceiptFile && !online) {
-      notify("Receipt upload needs internet connection");
-      return;
-    }
-
-    let receiptUrl: string | undefined;
-    if (quickReceiptFile) {
-      receiptUrl = await uploadReceipt(context.workspace.id, userId, quickReceiptFile);
-    }
-
-    const payload = {
-      workspace_id: context.workspace.id,
-      direction: quickDirection,
-      amount,
-      category_id: quickCategoryId,
-      remarks: quickRemarks,
-      receipt_url: receiptUrl,
-      created_by: userId,
-      entry_at: zonedDateTimeToIso(quickDate, quickTime, context.workspace.timezone)
-    };
-
-    try {
-      if (!online) {
-        notify("Internet connection is required. Entries are saved only to the cloud.");
-        return;
-      }
-
-      const created = await addEntry(payload);
-      setEntries((prev) => [created, ...prev]);
-      notify("Entry saved");
-      setQuickOpen(false);
-    } catch (error) {
-      notifyError("App.saveQuickEntry", error);
-    }
-  };
-
-  const deleteEntry = async (entry: Entry): Promise<void> => {
-    if (!context || !userId) {
-      return;
-    }
-
-    try {
-      const canDelete = context.member.role === "admin" || context.member.can_delete_entries;
-      if (canDelete) {
-        await deleteEntryDirect(context.workspace.id, entry.id, userId);
-        setEntries((prev) => prev.filter((item) => item.id !== entry.id));
-        notify("Entry deleted");
-        return;
-      }
-
-      const reason = window.prompt("Reason for deletion request", "Wrong amount");
-      if (!reason || !reason.trim()) {
-        return;
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "entry_edit_requests",
+          filter: `workspace_id=eq.${workspaceId}`
+        },
+        () => {
+          void loadWorkspace(workspaceId, userId).catch((error) => {
+            reportError("App.workspaceLiveChannel.editRequests.loadWorkspace", error);
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "accounts",
+          filter: `workspace_id=eq.${workspaceId}`
+        },
+        () => {
+          void loadWorkspace(workspaceId, userId).catch((error) => {
+            reportError("App.workspaceLiveChannel.accounts.loadWorkspace", error);
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "day_closings",
+          filter: `workspace_id=eq.${workspaceId}`
+        },
+        () => {
+          void loadWorkspace(workspaceId, userId).catch((error) => {
+            reportError("App.workspaceLiveChannel.dayClosings.loadWorkspace", error);
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "shifts",
+          filter: `workspace_id=eq.${workspaceId}`
+        },
+        () => {
+          void loadWorkspace(workspaceId, userId).catch((error) => {
+            reportError("App.workspaceLiveChannel.shifts.loadWorkspace", error);
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "recurring_entries",
+          filter: `workspace_id=eq.${workspaceId}`
+        },
+        () => {
+          void loadWorkspace(workspaceId, userId).catch((error) => {
+            reportError("App.workspaceLiveChannel.recurringEntries.loadWorkspace", error);
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "parties",
+          filter: `workspace_id=eq.${workspaceId}`
+        },
+        () => {
+          void loadWorkspace(workspaceId, userId).catch((error) => {
+            reportError("App.workspaceLiveChannel.parties.loadWorkspace", error);
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "category_budgets",
+          filter: `workspace_id=eq.${workspaceId}`
+        },
+        () => {
+          void loadWorkspace(workspaceId, userId).catch((error) => {
+            reportError("App.workspaceLiveChannel.categoryBudgets.loadWorkspace", error);
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "workspaces",
+          filter: `id=eq.${workspaceId}`
+        },
+        () => {
+          // Name, currency or timezone changed: refresh the shell and the workspace switcher.
+          void Promise.all([loadWorkspace(workspaceId, userId), listUserWorkspaces(userId).then(setWorkspaceOptions)]).catch(
+            (error) => {
+              reportError("App.workspaceLiveChannel.workspaces.loadWorkspace", error);
+            }
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "workspace_roles",
+          filter: `workspace_id=eq.${workspaceId}`
+        },
+        () => {
+          // A role edit can widen or narrow what this member may do, so reload rather than patch.
+          void loadWorkspace(workspaceId, userId).catch((error) => {
+            reportError("App.workspaceLiveChannel.workspaceRoles.loadWorkspace", error);
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "workspace_ownership_transfers",
+          filter: `workspace_id=eq.${workspaceId}`
+        },
+        () => {
+          void loadWorkspace(workspaceId, userId).catch((error) => {
+            reportError("App.workspaceLiveChannel.ownershipTransfers.loadWorkspace", error);
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      void sb.removeChannel(channel);
+    };
+  }, [
+    workspaceId,
+    userId,
+    loadWorkspace,
+    findBudgetAlert,
+    showEntrySystemNotification,
+    showEntryInAppAlert,
+    reportError
+  ]);
+
+  const refreshOutbox = useCallback(async () => {
+    if (!userId || !isOfflineQueueSupported()) {
+      setOutboxItems([]);
+      return;
+    }
+
+    try {
+      setOutboxItems(await listOutbox(userId));
+    } catch (error) {
+      reportError("App.refreshOutbox", error);
+    }
+  }, [userId, reportError]);
+
+  const syncOutbox = useCallback(async () => {
+    if (!userId || !online || !isOfflineQueueSupported() || outboxFlushingRef.current) {
+      return;
+    }
+
+    outboxFlushingRef.current = true;
+    setSyncingOutbox(true);
+    try {
+      const result = await flushOutbox(userId, async (item) => {
+        const receiptUrl = item.receipt
+          ? await uploadReceipt(item.payload.workspace_id, userId, item.receipt.blob, item.receipt.name, item.client_ref)
+          : item.payload.receipt_url;
+        return addEntry({ ...item.payload, receipt_url: receiptUrl });
+      });
+
+      const activeWorkspaceId = contextRef.current?.workspace.id;
+      const syncedHere = result.synced.filter((entry) => entry.workspace_id === activeWorkspaceId);
+      if (syncedHere.length) {
+        setEntries((prev) => {
+          const known = new Set(prev.map((item) => item.id));
+          return [...syncedHere.filter((item) => !known.has(item.id)), ...prev].sort((a, b) =>
+            b.entry_at.localeCompare(a.entry_at)
+          );
+        });
+      }
+      if (result.synced.length) {
+        notify(`${result.synced.length} offline ${result.synced.length === 1 ? "entry" : "entries"} synced`);
+      }
+      if (result.failed) {
+        notify(`${result.failed} offline ${result.failed === 1 ? "entry was" : "entries were"} rejected. Review on Dashboard.`);
+      }
+    } catch (error) {
+      reportError("App.syncOutbox", error);
+    } finally {
+      outboxFlushingRef.current = false;
+      setSyncingOutbox(false);
+      await refreshOutbox();
+    }
+  }, [userId, online, notify, reportError, refreshOutbox]);
+
+  const retryFailedEntry = useCallback(
+    async (item: OutboxItem) => {
+      try {
+        await requeueOutboxItem(item);
+      } catch (error) {
+        reportError("App.retryFailedEntry", error);
+        return;
+      }
+      await refreshOutbox();
+      await syncOutbox();
+    },
+    [reportError, refreshOutbox, syncOutbox]
+  );
+
+  const discardFailedEntry = useCallback(
+    async (item: OutboxItem) => {
+      try {
+        await discardOutboxItem(item.client_ref);
+        notify("Offline entry discarded");
+      } catch (error) {
+        reportError("App.discardFailedEntry", error);
+      }
+      await refreshOutbox();
+    },
+    [notify, reportError, refreshOutbox]
+  );
+
+  useEffect(() => {
+    void refreshOutbox();
+  }, [refreshOutbox]);
+
+  useEffect(() => {
+    if (online) {
+      void syncOutbox();
+    }
+  }, [online, syncOutbox]);
+
+  // Failed items wait for the user, so only queued ones keep the retry timer running.
+  const queuedOutboxItems = useMemo(() => outboxItems.filter((item) => item.status === "queued"), [outboxItems]);
+  const failedOutboxItems = useMemo(() => outboxItems.filter((item) => item.status === "failed"), [outboxItems]);
+
+  useEffect(() => {
+    if (!online || !queuedOutboxItems.length) {
+      return;
+    }
+
+    const timer = window.setInterval(() => {
+      void syncOutbox();
+    }, 30000);
+    return () => window.clearInterval(timer);
+  }, [online, queuedOutboxItems.length, syncOutbox]);
+
+  const activeAccounts = useMemo(() => accounts.filter((account) => account.is_active), [accounts]);
+  const activeParties = useMemo(() => parties.filter((party) => party.is_active), [parties]);
+  const defaultAccountId = activeAccounts.find((account) => account.is_default)?.id ?? activeAccounts[0]?.id ?? "";
+  // Only cash accounts have a physical drawer to count at close.
+  const cashAccounts = useMemo(() => activeAccounts.filter((account) => account.kind === "cash"), [activeAccounts]);
+
+  const openQuickAdd = (direction: CashDirection) => {
+    setQuickKind("standard");
+    setQuickDirection(direction);
+    setQuickCategoryId(inferCategoryId(smartCategories, direction));
+    setQuickSplitLines(null);
+    setQuickAccountId(defaultAccountId);
+    setQuickTransferAccountId("");
+    setQuickPartyId("");
+    setQuickAmount("");
+    setQuickRemarks("");
+    setQuickDate(todayIsoDate());
+    setQuickTime(timeInTimeZoneHHmm(context?.workspace.timezone ?? "UTC"));
+    setQuickReceiptFile(null);
+    setQuickOpen(true);
+  };
+
+  const openTransfer = () => {
+    setQuickKind("transfer");
+    setQuickDirection("cash_out");
+    setQuickCategoryId("");
+    setQuickSplitLines(null);
+    setQuickAccountId(defaultAccountId);
+    setQuickTransferAccountId(activeAccounts.find((account) => account.id !== defaultAccountId)?.id ?? "");
+    setQuickPartyId("");
+    setQuickAmount("");
+    setQuickRemarks("");
+    setQuickDate(todayIsoDate());
+    setQuickTime(timeInTimeZoneHHmm(context?.workspace.timezone ?? "UTC"));
+    setQuickReceiptFile(null);
+    setQuickOpen(true);
+  };
+
+  // Credit given/received only changes what the party owes; payments are ordinary cash entries linked to the party.
+  const openPartyMovement = (party: Party, movement: PartyMovement) => {
+    const isCredit = movement === "credit_given" || movement === "credit_received";
+    const direction: CashDirection = movement === "credit_given" || movement === "payment_paid" ? "cash_out" : "cash_in";
+    setQuickKind(isCredit ? "credit" : "standard");
+    setQuickDirection(direction);
+    setQuickCategoryId(isCredit ? "" : inferCategoryId(smartCategories, direction));
+    setQuickSplitLines(null);
+    setQuickAccountId(defaultAccountId);
+    setQuickTransferAccountId("");
+    setQuickPartyId(party.id);
+    setQuickAmount("");
+    setQuickRemarks("");
+    setQuickDate(todayIsoDate());
+    setQuickTime(timeInTimeZoneHHmm(context?.workspace.timezone ?? "UTC"));
+    setQuickReceiptFile(null);
+    setQuickOpen(true);
+  };
+
+  useEffect(() => {
+    if (!quickOpen) {
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      const input = quickAmountInputRef.current;
+      if (!input) {
+        return;
+      }
+      input.focus();
+      const len = input.value.length;
+      input.setSelectionRange(len, len);
+    }, 35);
+
+    return () => window.clearTimeout(timer);
+  }, [quickOpen, quickDirection]);
+
+  const saveQuickEntry = async (): Promise<void> => {
+    if (!context || !userId) {
+      return;
+    }
+
+    const isTransfer = quickKind === "transfer";
+    const isCredit = quickKind === "credit";
+    const isSplit = quickKind === "standard" && quickSplitLines !== null;
+    if (quickKind === "standard" && !isSplit && !quickCategoryId) {
+      notify("Select a category first");
+      return;
+    }
+    if (isCredit && !quickPartyId) {
+      notify("Select a party first");
+      return;
+    }
+    if (isTransfer && (!quickAccountId || !quickTransferAccountId || quickAccountId === quickTransferAccountId)) {
+      notify("Pick two different accounts");
+      return;
+    }
+
+    const amount = Number(quickAmount);
+    if (!amount || amount <= 0) {
+      notify("Enter a valid amount");
+      return;
+    }
+
+    if (isSplit) {
+      const splitError = validateSplitDrafts(quickSplitLines, amount, addCategories);
+      if (splitError) {
+        notify(splitError);
+        return;
+      }
+    }
+
+    const direction = isTransfer ? ("cash_out" as const) : quickDirection;
+    const entryAt = zonedDateTimeToIso(quickDate, quickTime, context.workspace.timezone);
+    // Mirrors can_add_entry so the sheet explains the refusal instead of surfacing an RLS error.
+    if (permissions && !canAddDirection(permissions, direction)) {
+      notify(direction === "cash_in" ? "Your role cannot add cash in" : "Your role cannot add cash out");
+      return;
+    }
+    if (permissions && !permissions.can_backdate_entries && isBackdated(entryAt, context.workspace.timezone)) {
+      notify("Your role cannot backdate entries. Pick today or a later date.");
+      return;
+    }
+
+    const splitLines = isSplit ? toSplitLines(quickSplitLines) : null;
+    const clientRef = createClientRef();
+    const payload = {
+      workspace_id: context.workspace.id,
+      kind: quickKind,
+      direction,
+      amount,
+      category_id: isTransfer || isCredit ? null : splitLines ? splitLines[0].category_id : quickCategoryId,
+      split_lines: splitLines,
+      account_id: quickAccountId || undefined,
+      transfer_account_id: isTransfer ? quickTransferAccountId : null,
+      party_id: isTransfer ? null : quickPartyId || null,
+      remarks: quickRemarks,
+      created_by: userId,
+      entry_at: entryAt,
+      client_ref: clientRef
+    };
+
+    const queueOnDevice = async (): Promise<void> => {
+      await enqueueEntry(payload, quickReceiptFile ? { blob: quickReceiptFile, name: quickReceiptFile.name } : null);
+      await refreshOutbox();
+      notify("Saved on this device. It will sync when you are back online.");
+      setQuickOpen(false);
+    };
+
+    try {
+      if (!online) {
+        if (!isOfflineQueueSupported()) {
+          notify("Internet connection is required. This browser cannot store entries offline.");
+          return;
+        }
+        await queueOnDevice();
+        return;
+      }
+
+      const receiptUrl = quickReceiptFile
+        ? await uploadReceipt(context.workspace.id, userId, quickReceiptFile, quickReceiptFile.name, clientRef)
+        : undefined;
+      const created = await addEntry({ ...payload, receipt_url: receiptUrl });
+      setEntries((prev) => [created, ...prev]);
+      if (created.shift_id && created.shift_id === myOpenShift?.id) {
+        setShiftEntries((prev) => [created, ...prev]);
+      }
+      notify(isTransfer ? "Transfer saved" : isCredit ? "Credit saved" : "Entry saved");
+      setQuickOpen(false);
+    } catch (error) {
+      if (isNetworkError(error) && isOfflineQueueSupported()) {
+        try {
+          await queueOnDevice();
+        } catch (queueError) {
+          notifyError("App.saveQuickEntry.enqueue", queueError);
+        }
+        return;
+      }
+      notifyError("App.saveQuickEntry", error);
+    }
+  };
+
+  const deleteEntry = async (entry: Entry): Promise<void> => {
+    if (!context || !userId) {
+      return;
+    }
+
+    try {
+      if (permissions?.can_delete_entries) {
+        await deleteEntryDirect(context.workspace.id, entry.id, userId);
+        setEntries((prev) => prev.filter((item) => item.id !== entry.id));
+        setShiftEntries((prev) => prev.filter((item) => item.id !== entry.id));
+        notify("Entry deleted");
+        return;
+      }
+
+      const reason = window.prompt("Reason for deletion request", "Wrong amount");
+      if (!reason || !reason.trim()) {
+        return;
       }
 
       await requestDelete(context.workspace.id, entry.id, userId, reason.trim());
       notify("Delete request sent to admin");
     } catch (error) {
-      notifyError("App.deleteEntry", error);
+      notifyError("App.deleteEntry", error);
+    }
+  };
+
+  const reviewDelete = async (requestId: string, approved: boolean, note: string): Promise<void> => {
+    if (!context || !userId) {
+      return;
+    }
+
+    try {
+      await reviewDeleteRequest(requestId, approved ? "approved" : "rejected", note);
+      await loadWorkspace(context.workspace.id, userId);
+      notify(approved ? "Delete request approved" : "Delete request rejected");
+    } catch (error) {
+      notifyError("App.reviewDelete", error);
+    }
+  };
+
+  const openReceipt = async (path: string): Promise<void> => {
+    try {
+      window.open(await getReceiptUrl(path), "_blank", "noopener,noreferrer");
+    } catch (error) {
+      notifyError("App.openReceipt", error);
+    }
+  };
+
+  const openEntryDetail = async (entry: Entry): Promise<void> => {
+    if (!context) {
+      return;
+    }
+
+    setDetailEntry(entry);
+    setDetailRevisions([]);
+    setDetailRevisionsLoading(true);
+    try {
+      setDetailRevisions(await listEntryRevisions(context.workspace.id, entry.id));
+    } catch (error) {
+      notifyError("App.openEntryDetail", error);
+    } finally {
+      setDetailRevisionsLoading(false);
+    }
+  };
+
+  const saveEntryEdit = async (changes: EntryUpdateInput, reason: string): Promise<boolean> => {
+    if (!context || !userId || !detailEntry) {
+      return false;
+    }
+
+    try {
+      if (!permissions?.can_edit_entries) {
+        await requestEdit(context.workspace.id, detailEntry.id, userId, changes, reason);
+        notify("Edit request sent to admin");
+        return true;
+      }
+
+      const updated = await updateEntry(context.workspace.id, detailEntry.id, changes);
+      setEntries((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      setShiftEntries((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      setDetailEntry(updated);
+      setDetailRevisions(await listEntryRevisions(context.workspace.id, updated.id));
+      notify("Entry updated");
+      return true;
+    } catch (error) {
+      notifyError("App.saveEntryEdit", error);
+      return false;
     }
   };
 
-  const reviewDelete = async (requestId: string, approved: boolean): Promise<void> => {
+  const reviewEdit = async (requestId: string, approved: boolean, note: string): Promise<void> => {
     if (!context || !userId) {
       return;
     }
 
     try {
-      await reviewDeleteRequest(requestId, approved ? "approved" : "rejected", approved ? "Approved" : "Rejected");
+      await reviewEditRequest(requestId, approved ? "approved" : "rejected", note);
       await loadWorkspace(context.workspace.id, userId);
-      notify(approved ? "Delete request approved" : "Delete request rejected");
+      notify(approved ? "Edit request approved" : "Edit request rejected");
     } catch (error) {
-      notifyError("App.reviewDelete", error);
+      notifyError("App.reviewEdit", error);
     }
   };
 
@@ -1132,21 +2147,27 @@ export default function App(): JSX.Element {
       target_name: null,
       target_email: optimisticTargetEmail,
       target_phone: optimisticTargetPhone,
+      contact: normalizedContact,
       requested_by: userId,
       role,
-      can_delete_entries: role === "admin" ? true : allowDeleteForEditor,
-      can_manage_categories: role === "admin" ? true : allowManageCategoriesForEditor,
+      can_delete_entries: role === "admin" ? true : role === "editor" && allowDeleteForEditor,
+      can_manage_categories: role === "admin" ? true : role === "editor" && allowManageCategoriesForEditor,
       status: "pending",
       requested_at: new Date().toISOString(),
       reviewed_at: null,
-      note: null
+      note: null,
+      expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      resent_at: null,
+      resend_count: 0,
+      delivery_status: "pending",
+      delivery_updated_at: null
     };
 
     setSentAccessRequestsError("");
     setSentAccessRequests((prev) => {
       const deduped = prev.filter((item) => {
-        const existingContact = (item.target_email || item.target_phone || "").trim().toLowerCase();
-        return existingContact !== normalizedContact.toLowerCase();
+        const existingContact = (item.contact || item.target_email || item.target_phone || "").trim().toLowerCase();
+        return item.status !== "pending" || existingContact !== normalizedContact.toLowerCase();
       });
       return [optimisticRequest, ...deduped];
     });
@@ -1156,6 +2177,23 @@ export default function App(): JSX.Element {
     notify("Access request sent. User must confirm before getting workspace access.");
   };
 
+  const bulkGrantAccess = async (rows: BulkInviteRow[]): Promise<BulkInviteRow[]> => {
+    if (!workspaceId) {
+      return rows;
+    }
+
+    const results = await sendBulkInvites(rows, (row) =>
+      grantMemberAccessByContact(workspaceId, row.contact, row.role, row.can_delete_entries, row.can_manage_categories)
+    );
+    const [refreshedMembers] = await Promise.all([listWorkspaceMembers(workspaceId), refreshSentAccessRequests()]);
+    setTeamMembers(refreshedMembers);
+
+    const attempted = rows.filter((row) => row.status === "ready").length;
+    const invited = results.filter((row) => row.status === "invited").length;
+    notify(`${invited} of ${attempted} access requests sent. Download the report for details.`);
+    return results;
+  };
+
   const updateMemberRole = async (
     targetUserId: string,
     role: AppRole,
@@ -1178,6 +2216,62 @@ export default function App(): JSX.Element {
     notify("Access updated");
   };
 
+  const assignRole = async (targetUserId: string, roleId: string | null): Promise<void> => {
+    if (!workspaceId) {
+      return;
+    }
+
+    await assignMemberRole(workspaceId, targetUserId, roleId);
+    setTeamMembers(await listWorkspaceMembers(workspaceId));
+    notify(roleId ? "Role assigned" : "Member moved back to editor toggles");
+  };
+
+  const saveRole = async (roleId: string | null, input: WorkspaceRoleInput): Promise<void> => {
+    if (!workspaceId || !userId) {
+      return;
+    }
+
+    await saveWorkspaceRole(workspaceId, roleId, input, userId);
+    setWorkspaceRoles(await listWorkspaceRoles(workspaceId));
+    notify(roleId ? "Role updated" : "Role added");
+  };
+
+  const proposeOwnership = async (toUserId: string): Promise<void> => {
+    if (!workspaceId || !userId) {
+      return;
+    }
+
+    await proposeOwnershipTransfer(workspaceId, toUserId);
+    setOwnershipTransfer(await getPendingOwnershipTransfer(workspaceId));
+    notify("Ownership transfer sent. It completes when they accept.");
+  };
+
+  const respondOwnership = async (transferId: string, decision: OwnershipTransferDecision): Promise<void> => {
+    if (!workspaceId || !userId) {
+      return;
+    }
+
+    await respondOwnershipTransfer(transferId, decision);
+    await loadWorkspace(workspaceId, userId);
+    notify(
+      decision === "accept"
+        ? "You now own this workspace"
+        : decision === "decline"
+          ? "Ownership transfer declined"
+          : "Ownership transfer cancelled"
+    );
+  };
+
+  const removeRole = async (roleId: string): Promise<void> => {
+    if (!workspaceId) {
+      return;
+    }
+
+    await deleteWorkspaceRole(workspaceId, roleId);
+    setWorkspaceRoles(await listWorkspaceRoles(workspaceId));
+    notify("Role deleted");
+  };
+
   const revokeAccess = async (targetUserId: string): Promise<void> => {
     if (!workspaceId) {
       return;
@@ -1217,7 +2311,43 @@ export default function App(): JSX.Element {
     }
   };
 
-  const setMemberTemporaryDisabled = async (targetUserId: string, disabled: boolean): Promise<void> => {
+  const resendSentAccessRequestById = async (requestId: string): Promise<void> => {
+    if (!workspaceId) {
+      return;
+    }
+
+    try {
+      await resendWorkspaceAccessRequest(requestId);
+      await refreshSentAccessRequests();
+      notify("Invite resent. It now expires in 7 days.");
+    } catch (error) {
+      notifyError("App.resendSentAccessRequestById", error);
+      await refreshSentAccessRequests();
+    }
+  };
+
+  const createInviteLink = async (input: InviteLinkInput): Promise<string> => {
+    if (!workspaceId) {
+      throw new Error("Workspace is not loaded");
+    }
+
+    const { token } = await createWorkspaceInviteLink(workspaceId, input);
+    await refreshInviteLinks();
+    notify("Invite link created");
+    return token;
+  };
+
+  const revokeInviteLink = async (linkId: string): Promise<void> => {
+    await revokeWorkspaceInviteLink(linkId);
+    await refreshInviteLinks();
+    notify("Invite link revoked");
+  };
+
+  const setMemberTemporaryDisabled = async (
+    targetUserId: string,
+    disabled: boolean,
+    suspension?: MemberSuspensionInput
+  ): Promise<void> => {
     if (!workspaceId) {
       return;
     }
@@ -1226,10 +2356,16 @@ export default function App(): JSX.Element {
       return;
     }
 
-    await setWorkspaceMemberAccessDisabled(workspaceId, targetUserId, disabled);
+    await setWorkspaceMemberAccessDisabled(workspaceId, targetUserId, disabled, suspension);
     const refreshed = await listWorkspaceMembers(workspaceId);
     setTeamMembers(refreshed);
-    notify(disabled ? "Member access disabled temporarily." : "Member access restored.");
+    notify(
+      !disabled
+        ? "Member access restored."
+        : suspension?.until
+          ? `Member suspended until ${formatDateInTimeZone(suspension.until, context?.workspace.timezone ?? "")}.`
+          : "Member access disabled temporarily."
+    );
   };
 
   const respondAccessRequest = async (requestId: string, decision: "accept" | "reject"): Promise<void> => {
@@ -1252,17 +2388,121 @@ export default function App(): JSX.Element {
     }
   };
 
-  const createCategory = async (name: string, type: "income" | "expense"): Promise<void> => {
+  const createCategory = async (name: string, type: "income" | "expense", parentId: string | null): Promise<void> => {
     if (!workspaceId || !userId) {
       return;
     }
 
-    await addManualCategory(workspaceId, userId, name, type);
+    await addManualCategory(workspaceId, userId, name, type, parentId);
     const refreshed = await listCategories(workspaceId);
     setCategories(refreshed);
     notify("Category added");
   };
 
+  const createAccount = async (name: string, kind: AccountKind): Promise<boolean> => {
+    if (!workspaceId || !userId) {
+      return false;
+    }
+
+    try {
+      await addAccount(workspaceId, name, kind, userId);
+      setAccounts(await listAccounts(workspaceId));
+      notify("Account added");
+      return true;
+    } catch (error) {
+      notifyError("App.createAccount", error);
+      return false;
+    }
+  };
+
+  const dropAccount = async (account: Account): Promise<void> => {
+    if (!workspaceId) {
+      return;
+    }
+
+    const balance = accountBalances.find((row) => row.account_id === account.id)?.balance ?? 0;
+    if (balance !== 0) {
+      notify(`Move the remaining balance out of ${account.name} before archiving it.`);
+      return;
+    }
+
+    try {
+      await archiveAccount(workspaceId, account.id);
+      setAccounts(await listAccounts(workspaceId));
+      notify("Account archived");
+    } catch (error) {
+      notifyError("App.dropAccount", error);
+    }
+  };
+
+  const submitCloseDay = async (submission: CloseDaySubmission): Promise<boolean> => {
+    if (!workspaceId || !userId) {
+      return false;
+    }
+
+    try {
+      const closing = await closeBusinessDay({
+        workspace_id: workspaceId,
+        business_date: submission.businessDate,
+        account_id: submission.accountId,
+        denominations: submission.denominations,
+        note: submission.note || null
+      });
+      await loadWorkspace(workspaceId, userId);
+      const currency = context?.workspace.currency ?? defaultCurrency;
+      notify(
+        closing.difference === 0
+          ? `Day ${closing.business_date} closed. Drawer matches the book.`
+          : `Day ${closing.business_date} closed with ${closing.difference > 0 ? "excess" : "shortage"} of ${formatCurrency(
+              Math.abs(closing.difference),
+              currency
+            )}. Adjustment posted.`
+      );
+      return true;
+    } catch (error) {
+      notifyError("App.submitCloseDay", error);
+      return false;
+    }
+  };
+
+  const startShift = async (openingFloat: number): Promise<boolean> => {
+    if (!workspaceId || !userId) {
+      return false;
+    }
+
+    try {
+      await openShift(workspaceId, openingFloat, defaultAccountId || null);
+      await loadWorkspace(workspaceId, userId);
+      notify("Shift started");
+      return true;
+    } catch (error) {
+      notifyError("App.startShift", error);
+      return false;
+    }
+  };
+
+  const endShift = async (countedCash: number, note: string): Promise<boolean> => {
+    if (!workspaceId || !userId || !myOpenShift) {
+      return false;
+    }
+
+    try {
+      const closed = await closeShift(myOpenShift.id, countedCash, note || null);
+      await loadWorkspace(workspaceId, userId);
+      const currency = context?.workspace.currency ?? defaultCurrency;
+      const variance = closed.variance ?? 0;
+      notify(
+        variance === 0
+          ? "Shift closed. Drawer matches."
+          : `Shift closed with variance ${variance > 0 ? "+" : "-"}${formatCurrency(Math.abs(variance), currency)}.`
+      );
+      return true;
+    } catch (error) {
+      notifyError("App.endShift", error);
+      return false;
+    }
+  };
+
   const dropCategory = async (categoryId: string): Promise<void> => {
     if (!workspaceId) {
       return;
@@ -1274,6 +2514,183 @@ export default function App(): JSX.Element {
     notify("Category dropped");
   };
 
+  const editCategory = async (categoryId: string, input: CategoryUpdateInput): Promise<void> => {
+    if (!workspaceId) {
+      return;
+    }
+
+    await updateCategory(workspaceId, categoryId, input);
+    const refreshed = await listCategories(workspaceId);
+    setCategories(refreshed);
+    notify("Category updated");
+  };
+
+  const mergeCategory = async (sourceCategoryId: string, targetCategoryId: string): Promise<void> => {
+    if (!workspaceId || !userId) {
+      return;
+    }
+
+    const moved = await mergeCategories(workspaceId, sourceCategoryId, targetCategoryId);
+    // Entries, recurring templates and budgets all moved, so reload everything that shows a category.
+    await loadWorkspace(workspaceId, userId);
+    notify(`Categories merged • ${moved} ${moved === 1 ? "entry" : "entries"} moved`);
+  };
+
+  const restoreArchivedCategory = async (categoryId: string): Promise<void> => {
+    if (!workspaceId) {
+      return;
+    }
+
+    await restoreCategory(workspaceId, categoryId);
+    const refreshed = await listCategories(workspaceId);
+    setCategories(refreshed);
+    notify("Category restored");
+  };
+
+  const createParty = async (input: PartyInput): Promise<boolean> => {
+    if (!workspaceId || !userId) {
+      return false;
+    }
+
+    try {
+      await addParty(workspaceId, input, userId);
+      setParties(await listParties(workspaceId));
+      notify("Party added");
+      return true;
+    } catch (error) {
+      notifyError("App.createParty", error);
+      return false;
+    }
+  };
+
+  const dropParty = async (party: Party): Promise<void> => {
+    if (!workspaceId) {
+      return;
+    }
+
+    const balance = partyBalances.find((row) => row.party_id === party.id)?.balance ?? 0;
+    if (balance !== 0) {
+      notify(`Settle what is owed with ${party.name} before archiving them.`);
+      return;
+    }
+
+    try {
+      await archiveParty(workspaceId, party.id);
+      setParties(await listParties(workspaceId));
+      notify("Party archived");
+    } catch (error) {
+      notifyError("App.dropParty", error);
+    }
+  };
+
+  const saveBudget = async (categoryId: string, period: BudgetPeriod, amount: number): Promise<boolean> => {
+    if (!workspaceId || !userId) {
+      return false;
+    }
+
+    try {
+      await saveCategoryBudget(workspaceId, categoryId, period, amount, userId);
+      setCategoryBudgets(await listCategoryBudgets(workspaceId));
+      notify("Budget saved");
+      return true;
+    } catch (error) {
+      notifyError("App.saveBudget", error);
+      return false;
+    }
+  };
+
+  const removeBudget = async (budget: CategoryBudget): Promise<void> => {
+    if (!workspaceId) {
+      return;
+    }
+
+    try {
+      await removeCategoryBudget(workspaceId, budget.id);
+      setCategoryBudgets(await listCategoryBudgets(workspaceId));
+      notify("Budget removed");
+    } catch (error) {
+      notifyError("App.removeBudget", error);
+    }
+  };
+
+  const createRecurringEntry = async (draft: RecurringEntryDraft): Promise<boolean> => {
+    if (!workspaceId || !userId) {
+      return false;
+    }
+
+    try {
+      await addRecurringEntry({ ...draft, workspace_id: workspaceId, created_by: userId });
+      setRecurringEntries(await listRecurringEntries(workspaceId));
+      notify("Recurring entry saved");
+      return true;
+    } catch (error) {
+      notifyError("App.createRecurringEntry", error);
+      return false;
+    }
+  };
+
+  const toggleRecurringEntry = async (item: RecurringEntry, isActive: boolean): Promise<void> => {
+    if (!workspaceId) {
+      return;
+    }
+
+    try {
+      await setRecurringEntryActive(workspaceId, item.id, isActive);
+      setRecurringEntries(await listRecurringEntries(workspaceId));
+      notify(isActive ? `${item.name} resumed` : `${item.name} paused`);
+    } catch (error) {
+      notifyError("App.toggleRecurringEntry", error);
+    }
+  };
+
+  // Posting goes through post_recurring_entry, which inserts into entries under the same rules as addEntry.
+  const postDueRecurringEntry = async (item: RecurringEntry): Promise<void> => {
+    if (!workspaceId || !userId) {
+      return;
+    }
+
+    try {
+      await postRecurringEntry(item.id);
+      await loadWorkspace(workspaceId, userId);
+      notify(`${item.name} posted`);
+    } catch (error) {
+      notifyError("App.postDueRecurringEntry", error);
+    }
+  };
+
+  const skipDueRecurringEntry = async (item: RecurringEntry): Promise<void> => {
+    if (!workspaceId || !userId) {
+      return;
+    }
+
+    try {
+      await skipRecurringEntry(item.id);
+      setRecurringEntries(await listRecurringEntries(workspaceId));
+      notify(`${item.name} skipped for ${item.next_due_date}`);
+    } catch (error) {
+      notifyError("App.skipDueRecurringEntry", error);
+    }
+  };
+
+  const saveOpeningBalance = async (openingBalance: number): Promise<void> => {
+    if (!workspaceId || !userId) {
+      return;
+    }
+    await updateWorkspaceOpeningBalance(workspaceId, openingBalance);
+    await loadWorkspace(workspaceId, userId);
+    notify("Opening balance updated");
+  };
+
+  const saveWorkspaceSettings = async (input: WorkspaceSettingsInput): Promise<void> => {
+    if (!workspaceId || !userId) {
+      return;
+    }
+    await updateWorkspaceSettings(workspaceId, input);
+    await loadWorkspace(workspaceId, userId);
+    setWorkspaceOptions(await listUserWorkspaces(userId));
+    notify("Workspace settings saved");
+  };
+
   const saveWorkspaceTimezone = async (timezone: string): Promise<void> => {
     if (!workspaceId || !userId) {
       return;
@@ -1300,7 +2717,7 @@ export default function App(): JSX.Element {
   };
 
   const createWorkspace = async (
-    input: { name: string; industry: string; timezone: string; currency: string },
+    input: CreateWorkspaceInput,
     aiSuggestions: AICategorySuggestion[]
   ) => {
     if (!userId) {
@@ -1310,9 +2727,13 @@ export default function App(): JSX.Element {
     setLoading(true);
     try {
       const createdWorkspaceId = await createWorkspaceWithOwner(input);
+      if (input.opening_balance) {
+        await updateWorkspaceOpeningBalance(createdWorkspaceId, input.opening_balance);
+      }
       await seedIndustryCategories(createdWorkspaceId, input.industry, userId);
       await addAICategories(createdWorkspaceId, aiSuggestions, userId);
-      await loadWorkspace(createdWorkspaceId, userId);
+      await selectWorkspace(createdWorkspaceId, userId);
+      setWorkspaceOptions(await listUserWorkspaces(userId));
       notify("Workspace ready");
     } catch (error) {
       notifyError("App.createWorkspace", error);
@@ -1341,6 +2762,7 @@ export default function App(): JSX.Element {
       await Promise.all([bootstrapWorkspace(userId), refreshAccessRequests(), detectTemporaryAccessAvailability()]);
       setWorkspaceEntryMode("decide");
       notify("Profile saved");
+      await redeemInviteLinkFromUrl();
     } catch (error) {
       notifyError("App.completeProfile", error);
     } finally {
@@ -1361,6 +2783,8 @@ export default function App(): JSX.Element {
   };
 
   const handleSignOut = async () => {
+    // Cleared first so cached reads are gone even if signOut fails.
+    await clearServiceWorkerDataCache().catch((error) => reportError("App.handleSignOut.clearDataCache", error));
     try {
       await signOut();
       notify("Signed out");
@@ -1394,12 +2818,34 @@ export default function App(): JSX.Element {
       return "";
     }
 
+    const queued = queuedOutboxItems.length;
+    const queuedLabel = `${queued} ${queued === 1 ? "entry" : "entries"}`;
+    const failed = failedOutboxItems.length;
+    const failedNote = failed
+      ? ` ${failed} offline ${failed === 1 ? "entry was" : "entries were"} rejected; review on Dashboard.`
+      : "";
+
     if (!online) {
-      return "You are offline. This app now saves data only to the cloud, so reconnect before making changes.";
+      return queued
+        ? `You are offline. ${queuedLabel} saved on this device will sync when you reconnect.`
+        : "You are offline. New entries are saved on this device and sync when you reconnect.";
+    }
+
+    if (!queued) {
+      return failedNote.trim();
+    }
+
+    if (syncingOutbox) {
+      return `Syncing ${queuedLabel} saved offline...`;
     }
 
-    return "";
-  }, [context, online]);
+    const lastError = queuedOutboxItems.find((item) => item.last_error)?.last_error;
+    if (lastError) {
+      return `${queuedLabel} waiting to sync (${lastError}). Retrying automatically.${failedNote}`;
+    }
+
+    return `${queuedLabel} waiting to sync. Retrying automatically.${failedNote}`;
+  }, [context, online, queuedOutboxItems, failedOutboxItems, syncingOutbox]);
 
   if (!hasSupabaseConfig) {
     return (
@@ -1425,6 +2871,7 @@ export default function App(): JSX.Element {
         onSignUp={handleSignUp}
         onGoogle={handleGoogle}
         onReportError={reportError}
+        invited={Boolean(readInviteLinkToken())}
       />
     );
   }
@@ -1434,7 +2881,23 @@ export default function App(): JSX.Element {
   }
 
   if (!context) {
-    if (workspaceEntryMode === "decide" || workspaceEntryMode === "join") {
+    if (workspaceEntryMode === "suspended" && suspensions.length) {
+      return (
+        <AccountStatePage
+          suspensions={suspensions}
+          onCheckAgain={async () => {
+            try {
+              await bootstrapWorkspace(userId);
+            } catch (error) {
+              notifyError("App.accountState.checkAgain", error);
+            }
+          }}
+          onContinue={() => setWorkspaceEntryMode("decide")}
+        />
+      );
+    }
+
+    if (workspaceEntryMode !== "create") {
       return (
         <InviteInboxPage
           mode={workspaceEntryMode === "join" || pendingAccessRequests.length > 0 ? "join" : "decide"}
@@ -1460,11 +2923,22 @@ export default function App(): JSX.Element {
     );
   }
 
+  const activePermissions = permissions ?? memberPermissions(context.member, workspaceRoles);
+  const customRoleName = workspaceRoles.find((role) => role.id === context.member.custom_role_id)?.name;
+  const accessLabel =
+    context.member.role === "admin"
+      ? "Admin access"
+      : context.member.role === "viewer"
+        ? "Viewer access"
+        : customRoleName
+          ? `${customRoleName} access`
+          : "Editor access";
+
   return (
     <>
       <AppShell
         title={context.workspace.name}
-        subtitle={`${context.workspace.industry} cashbook • ${context.member.role === "admin" ? "Admin access" : "Editor access"}`}
+        subtitle={`${context.workspace.industry} cashbook • ${accessLabel}`}
         tab={tab}
         onTabChange={setTab}
         onSignOut={handleSignOut}
@@ -1475,39 +2949,116 @@ export default function App(): JSX.Element {
         installAvailable={Boolean(installPromptEvent) || /iPhone|iPad|iPod/i.test(navigator.userAgent)}
         online={online}
         syncBanner={syncBanner}
+        workspaces={workspaceOptions}
+        activeWorkspaceId={context.workspace.id}
+        switchingWorkspace={switchingWorkspace}
+        onSwitchWorkspace={(nextWorkspaceId) => void switchWorkspace(nextWorkspaceId)}
+        updateAvailable={updateAvailable}
+        onApplyUpdate={applyUpdate}
       >
         {tab === "dashboard" && (
           <DashboardPage
             workspace={context.workspace}
             member={context.member}
+            permissions={activePermissions}
             categories={smartCategories}
+            parties={parties}
+            budgets={categoryBudgets}
+            budgetProgress={budgetProgress}
+            accounts={accounts}
+            accountBalances={accountBalances}
             entries={entries}
+            dayClosings={dayClosings}
+            openShift={myOpenShift}
+            shiftEntries={shiftEntries}
+            shiftReport={shiftReport}
+            recurringEntries={recurringEntries}
             pendingDeleteRequests={pendingDeleteRequests}
+            myDeleteRequests={myDeleteRequests}
+            pendingEditRequests={pendingEditRequests}
+            failedOutboxItems={failedOutboxItems}
+            workspaceOptions={workspaceOptions}
             onOpenQuickAdd={openQuickAdd}
+            onOpenTransfer={openTransfer}
+            onOpenCloseDay={setCloseDayDate}
+            onOpenShift={startShift}
+            onCloseShift={endShift}
+            onPostRecurring={postDueRecurringEntry}
+            onSkipRecurring={skipDueRecurringEntry}
+            onAddAccount={createAccount}
+            onArchiveAccount={dropAccount}
+            onSaveBudget={saveBudget}
+            onRemoveBudget={removeBudget}
+            onOpenEntry={(entry) => void openEntryDetail(entry)}
             onDeleteEntry={deleteEntry}
             onReviewDeleteRequest={reviewDelete}
+            onLoadDeleteRequestHistory={loadDeleteRequestHistory}
+            onOpenReceipt={openReceipt}
+            onReviewEditRequest={reviewEdit}
+            onRetryOutboxItem={retryFailedEntry}
+            onDiscardOutboxItem={discardFailedEntry}
           />
         )}
 
         {tab === "history" && (
           <HistoryPage
+            key={context.workspace.id}
             workspaceName={context.workspace.name}
             currency={context.workspace.currency}
             timezone={context.workspace.timezone}
-            member={context.member}
+            permissions={activePermissions}
             categories={smartCategories}
-            entries={entries}
+            accounts={accounts}
+            parties={parties}
+            memberNames={entryAuthorNames}
+            dataVersion={historyVersion}
+            onQueryEntries={queryHistoryEntries}
+            onSummarizeEntries={summarizeHistoryEntries}
+            onClosingBalance={historyClosingBalance}
+            onBudgetVsActual={budgetVsActual}
+            onReportError={reportError}
             onAddCategory={createCategory}
             onDropCategory={dropCategory}
+            onEditCategory={editCategory}
+            onMergeCategory={mergeCategory}
+            onListArchivedCategories={archivedCategoryList}
+            onRestoreCategory={restoreArchivedCategory}
+            onOpenEntry={(entry) => void openEntryDetail(entry)}
+          />
+        )}
+
+        {tab === "parties" && (
+          <PartiesPage
+            key={context.workspace.id}
+            workspaceName={context.workspace.name}
+            currency={context.workspace.currency}
+            timezone={context.workspace.timezone}
+            parties={parties}
+            balances={partyBalances}
+            categories={smartCategories}
+            canManage={activePermissions.can_edit_entries || activePermissions.can_manage_categories}
+            canRecord={context.member.role !== "viewer"}
+            dataVersion={historyVersion}
+            onAddParty={createParty}
+            onArchiveParty={dropParty}
+            onLoadStatement={loadPartyStatement}
+            onBalanceAsOf={partyBalanceAsOf}
+            onRecordMovement={openPartyMovement}
+            onReportError={reportError}
           />
         )}
 
         {tab === "team" && (
           <TeamPage
             member={context.member}
+            permissions={activePermissions}
+            roles={workspaceRoles}
             workspaceTimezone={context.workspace.timezone}
+            workspaceCurrency={context.workspace.currency}
             members={teamMembers}
             teamLoadError={teamLoadError}
+            ownerId={context.workspace.owner_id}
+            ownershipTransfer={ownershipTransfer}
             currentUserId={userId}
             currentUserProfile={{
               fullName: profileNameSeed,
@@ -1515,6 +3066,7 @@ export default function App(): JSX.Element {
               phone: profilePhoneSeed
             }}
             onGrantAccess={grantAccess}
+            onBulkInvite={bulkGrantAccess}
             onUpdateMember={updateMemberRole}
             onSetMemberAccessDisabled={setMemberTemporaryDisabled}
             temporaryAccessAvailable={temporaryAccessAvailable}
@@ -1529,13 +3081,33 @@ export default function App(): JSX.Element {
             sentAccessRequests={sentAccessRequests}
             sentAccessRequestsError={sentAccessRequestsError}
             onRefreshSentAccessRequests={refreshSentAccessRequests}
+            inviteLinks={inviteLinks}
+            onCreateInviteLink={createInviteLink}
+            onRevokeInviteLink={revokeInviteLink}
             onCancelSentAccessRequest={cancelSentAccessRequestById}
+            onResendSentAccessRequest={resendSentAccessRequestById}
+            onQueryAuditLogs={queryAuditLogs}
+            onAssignMemberRole={assignRole}
+            onSaveRole={saveRole}
+            onDeleteRole={removeRole}
+            onProposeOwnershipTransfer={proposeOwnership}
+            onRespondOwnershipTransfer={respondOwnership}
             onReportError={reportError}
           />
         )}
 
         {tab === "settings" && (
           <SettingsPage
+            workspace={context.workspace}
+            canEditWorkspace={context.member.role === "admin"}
+            onUpdateOpeningBalance={saveOpeningBalance}
+            onUpdateWorkspaceSettings={saveWorkspaceSettings}
+            categories={smartCategories}
+            accounts={accounts}
+            recurringEntries={recurringEntries}
+            canManageRecurring={Boolean(permissions?.can_edit_entries)}
+            onAddRecurringEntry={createRecurringEntry}
+            onToggleRecurringEntry={toggleRecurringEntry}
             errorLogEntries={errorLogEntries}
             onClearErrorLog={clearErrorLog}
           />
@@ -1545,7 +3117,17 @@ export default function App(): JSX.Element {
       {quickOpen && (
         <div className="modal-backdrop">
           <div className="quick-modal">
-            <h3>{quickDirection === "cash_in" ? "Cash In" : "Cash Out"}</h3>
+            <h3>
+              {quickKind === "transfer"
+                ? "Transfer"
+                : quickKind === "credit"
+                  ? quickDirection === "cash_out"
+                    ? "Credit Given"
+                    : "Credit Received"
+                  : quickDirection === "cash_in"
+                    ? "Cash In"
+                    : "Cash Out"}
+            </h3>
             <p className="muted">Use your phone keyboard to enter amount</p>
 
             <div className="amount-display">{formatCurrency(Number(quickAmount || "0"), context.workspace.currency)}</div>
@@ -1570,21 +3152,130 @@ export default function App(): JSX.Element {
               }}
             />
 
-            <label htmlFor="quick-category">Category</label>
-            <div className="category-strip" id="quick-category">
-              {addCategories.map((category) => (
-                <button
-                  key={category.id}
-                  className={`chip ${quickCategoryId === category.id ? "chip-active" : ""}`.trim()}
-                  onClick={() => setQuickCategoryId(category.id)}
-                >
-                  {category.icon ?? "•"} {category.name}
-                </button>
-              ))}
-            </div>
+            {quickKind === "transfer" ? (
+              <div className="grid-2">
+                <div>
+                  <label htmlFor="quick-from-account">From account</label>
+                  <select
+                    id="quick-from-account"
+                    value={quickAccountId}
+                    onChange={(event) => setQuickAccountId(event.target.value)}
+                  >
+                    {activeAccounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="quick-to-account">To account</label>
+                  <select
+                    id="quick-to-account"
+                    value={quickTransferAccountId}
+                    onChange={(event) => setQuickTransferAccountId(event.target.value)}
+                  >
+                    {activeAccounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            ) : quickKind === "credit" ? (
+              <>
+                <label htmlFor="quick-party">Party</label>
+                <select id="quick-party" value={quickPartyId} onChange={(event) => setQuickPartyId(event.target.value)}>
+                  <option value="">Select a party</option>
+                  {activeParties.map((party) => (
+                    <option key={party.id} value={party.id}>
+                      {party.name}
+                    </option>
+                  ))}
+                </select>
+                <small className="muted">Credit changes what the party owes. It does not touch cash in any account.</small>
+              </>
+            ) : (
+              <>
+                <div className="split-toggle-row">
+                  <label htmlFor="quick-category">Category</label>
+                  <button
+                    className="text-btn"
+                    type="button"
+                    onClick={() =>
+                      setQuickSplitLines((prev) =>
+                        prev
+                          ? null
+                          : [
+                              { category_id: quickCategoryId, amount: quickAmount },
+                              { category_id: "", amount: "" }
+                            ]
+                      )
+                    }
+                  >
+                    {quickSplitLines ? "Use one category" : "Split across categories"}
+                  </button>
+                </div>
+                {quickSplitLines ? (
+                  <SplitLinesEditor
+                    idPrefix="quick-split"
+                    lines={quickSplitLines}
+                    categories={addCategories}
+                    total={Number(quickAmount || "0")}
+                    currency={context.workspace.currency}
+                    onChange={setQuickSplitLines}
+                  />
+                ) : (
+                  <CategoryChipPicker
+                    id="quick-category"
+                    categories={addCategories}
+                    selectedId={quickCategoryId}
+                    onSelect={setQuickCategoryId}
+                  />
+                )}
+
+                {activeAccounts.length > 1 && (
+                  <>
+                    <label htmlFor="quick-account">Account</label>
+                    <div className="category-strip" id="quick-account">
+                      {activeAccounts.map((account) => (
+                        <button
+                          key={account.id}
+                          className={`chip ${quickAccountId === account.id ? "chip-active" : ""}`.trim()}
+                          onClick={() => setQuickAccountId(account.id)}
+                        >
+                          {account.name}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {activeParties.length > 0 && (
+                  <>
+                    <label htmlFor="quick-party">Party</label>
+                    <select id="quick-party" value={quickPartyId} onChange={(event) => setQuickPartyId(event.target.value)}>
+                      <option value="">No party</option>
+                      {activeParties.map((party) => (
+                        <option key={party.id} value={party.id}>
+                          {party.name}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </>
+            )}
 
             <label htmlFor="quick-date">Date</label>
-            <input id="quick-date" type="date" value={quickDate} onChange={(event) => setQuickDate(event.target.value)} />
+            <input
+              id="quick-date"
+              type="date"
+              value={quickDate}
+              min={activePermissions.can_backdate_entries ? undefined : todayInTimeZone(context.workspace.timezone)}
+              onChange={(event) => setQuickDate(event.target.value)}
+            />
 
             <label htmlFor="quick-time">Time</label>
             <input id="quick-time" type="time" value={quickTime} onChange={(event) => setQuickTime(event.target.value)} />
@@ -1619,6 +3310,40 @@ export default function App(): JSX.Element {
         </div>
       )}
 
+      {detailEntry && (
+        <EntryDetailSheet
+          entry={detailEntry}
+          currency={context.workspace.currency}
+          timezone={context.workspace.timezone}
+          categories={smartCategories}
+          accounts={accounts}
+          parties={parties}
+          memberNameById={entryAuthorNames}
+          canEditDirect={Boolean(permissions?.can_edit_entries)}
+          canChangeDirection={Boolean(permissions?.can_add_cash_in && permissions.can_add_cash_out)}
+          canChangeDate={Boolean(permissions?.can_backdate_entries)}
+          readOnly={context.member.role === "viewer"}
+          revisions={detailRevisions}
+          revisionsLoading={detailRevisionsLoading}
+          onSave={saveEntryEdit}
+          onClose={() => setDetailEntry(null)}
+        />
+      )}
+
+      {closeDayDate && (
+        <CloseDaySheet
+          currency={context.workspace.currency}
+          initialDate={closeDayDate}
+          maxDate={todayInTimeZone(context.workspace.timezone)}
+          accounts={cashAccounts}
+          defaultAccountId={cashAccounts.find((account) => account.id === defaultAccountId)?.id ?? cashAccounts[0]?.id ?? ""}
+          closings={dayClosings}
+          onLoadExpected={closeDayExpectedBalance}
+          onSubmit={submitCloseDay}
+          onClose={() => setCloseDayDate("")}
+        />
+      )}
+
       {showJoinRequestPrompt && (
         <div className="modal-backdrop">
           <div className="welcome-modal">
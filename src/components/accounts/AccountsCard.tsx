@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { ACCOUNT_KIND_LABELS } from "@/lib/entryLabels";
+import { formatCurrency } from "@/lib/format";
+import type { Account, AccountBalance, AccountKind } from "@/types/domain";
+
+interface AccountsCardProps {
+  accounts: Account[];
+  balances: AccountBalance[];
+  currency: string;
+  canManage: boolean;
+  canTransfer: boolean;
+  onOpenTransfer: () => void;
+  onAddAccount: (name: string, kind: AccountKind) => Promise<boolean>;
+  onArchiveAccount: (account: Account) => Promise<void>;
+}
+
+const accountKinds: AccountKind[] = ["cash", "bank", "upi", "wallet"];
+
+export function AccountsCard(props: AccountsCardProps): JSX.Element {
+  const { accounts, balances, currency, canManage, canTransfer, onOpenTransfer, onAddAccount, onArchiveAccount } = props;
+
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<AccountKind>("bank");
+  const [saving, setSaving] = useState(false);
+
+  const activeAccounts = accounts.filter((account) => account.is_active);
+  const total = balances.reduce((sum, row) => sum + row.balance, 0);
+
+  const submit = async (): Promise<void> => {
+    if (!name.trim()) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved = await onAddAccount(name.trim(), kind);
+      if (saved) {
+        setName("");
+        setAdding(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <NeonCard title="Accounts" subtitle={`All accounts: ${formatCurrency(total, currency)}`}>
+      <div className="stack">
+        {balances.map((row) => {
+          const account = activeAccounts.find((item) => item.id === row.account_id);
+          return (
+            <article className="entry-row" key={row.account_id}>
+              <div>
+                <strong>{row.name}</strong>
+                <small>
+                  {ACCOUNT_KIND_LABELS[row.kind]}
+                  {row.is_default ? " • default" : ""}
+                </small>
+              </div>
+              <div className="entry-row-right">
+                <span className={row.balance >= 0 ? "amt-in" : "amt-out"}>{formatCurrency(row.balance, currency)}</span>
+                {canManage && account && !account.is_default && (
+                  <button className="text-btn" type="button" onClick={() => void onArchiveAccount(account)}>
+                    Archive
+                  </button>
+                )}
+              </div>
+            </article>
+          );
+        })}
+        {!balances.length && <p className="muted">No accounts yet.</p>}
+
+        <div className="inline-actions">
+          {canTransfer && (
+            <button className="ghost-btn" type="button" onClick={onOpenTransfer} disabled={activeAccounts.length < 2}>
+              Transfer
+            </button>
+          )}
+          {canManage && !adding && (
+            <button className="ghost-btn" type="button" onClick={() => setAdding(true)}>
+              Add Account
+            </button>
+          )}
+        </div>
+        {activeAccounts.length < 2 && (
+          <small className="muted">Add a bank, UPI or wallet account to move money between accounts.</small>
+        )}
+
+        {canManage && adding && (
+          <div className="stack account-add-form">
+            <label htmlFor="account-name">Account name</label>
+            <input
+              id="account-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="HDFC Current"
+            />
+            <div className="inline-actions">
+              {accountKinds.map((item) => (
+                <button
+                  key={item}
+                  type="button"
+                  className={`chip ${kind === item ? "chip-active" : ""}`.trim()}
+                  onClick={() => setKind(item)}
+                >
+                  {ACCOUNT_KIND_LABELS[item]}
+                </button>
+              ))}
+            </div>
+            <div className="inline-actions">
+              <button className="ghost-btn" type="button" onClick={() => setAdding(false)} disabled={saving}>
+                Cancel
+              </button>
+              <button className="save-btn" type="button" onClick={() => void submit()} disabled={saving || !name.trim()}>
+                {saving ? "Saving..." : "Save Account"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </NeonCard>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { BUDGET_PERIOD_LABELS, budgetLevel, budgetPercent } from "@/lib/budgets";
+import { formatCurrency, sanitizeAmountInput } from "@/lib/format";
+import type { BudgetPeriod, BudgetProgress, Category, CategoryBudget } from "@/types/domain";
+
+interface BudgetProgressCardProps {
+  budgets: CategoryBudget[];
+  progress: BudgetProgress[];
+  categories: Category[];
+  currency: string;
+  canManage: boolean;
+  onSaveBudget: (categoryId: string, period: BudgetPeriod, amount: number) => Promise<boolean>;
+  onRemoveBudget: (budget: CategoryBudget) => Promise<void>;
+}
+
+const budgetPeriods: BudgetPeriod[] = ["monthly", "weekly"];
+
+export function BudgetProgressCard(props: BudgetProgressCardProps): JSX.Element {
+  const { budgets, progress, categories, currency, canManage, onSaveBudget, onRemoveBudget } = props;
+
+  const [editing, setEditing] = useState(false);
+  const [categoryId, setCategoryId] = useState("");
+  const [period, setPeriod] = useState<BudgetPeriod>("monthly");
+  const [amount, setAmount] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+  const expenseCategories = categories.filter((category) => category.type === "expense");
+
+  const startEdit = (budget?: CategoryBudget): void => {
+    setCategoryId(budget?.category_id ?? "");
+    setPeriod(budget?.period ?? "monthly");
+    setAmount(budget ? String(budget.amount) : "");
+    setEditing(true);
+  };
+
+  const submit = async (): Promise<void> => {
+    const limit = Number(amount);
+    if (!categoryId || !limit || limit <= 0) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved = await onSaveBudget(categoryId, period, limit);
+      if (saved) {
+        setEditing(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <NeonCard title="Budgets" subtitle="Spending this period against each category limit">
+      <div className="stack">
+        {progress.map((row) => {
+          const budget = budgets.find((item) => item.id === row.budget_id);
+          const level = budgetLevel(row.spent, row.amount);
+          const percent = budgetPercent(row.spent, row.amount);
+          return (
+            <article className="budget-row" key={row.budget_id}>
+              <div className="budget-row-head">
+                <strong>{categoryNames.get(row.category_id) ?? "Unknown"}</strong>
+                <small className={`budget-level-${level}`}>
+                  {formatCurrency(row.spent, currency)} of {formatCurrency(row.amount, currency)} • {percent}%
+                </small>
+              </div>
+              <div
+                className="budget-bar"
+                role="progressbar"
+                aria-label={`${categoryNames.get(row.category_id) ?? "Category"} budget used`}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.min(percent, 100)}
+              >
+                <span className={`budget-bar-fill budget-bar-${level}`} style={{ width: `${Math.min(percent, 100)}%` }} />
+              </div>
+              <div className="budget-row-foot">
+                <small className="muted">
+                  {BUDGET_PERIOD_LABELS[row.period]}
+                  {row.spent > row.amount
+                    ? ` • over by ${formatCurrency(row.spent - row.amount, currency)}`
+                    : ` • ${formatCurrency(row.amount - row.spent, currency)} left`}
+                </small>
+                {canManage && budget && (
+                  <span className="inline-actions">
+                    <button className="text-btn" type="button" onClick={() => startEdit(budget)}>
+                      Edit
+                    </button>
+                    <button className="text-btn" type="button" onClick={() => void onRemoveBudget(budget)}>
+                      Remove
+                    </button>
+                  </span>
+                )}
+              </div>
+            </article>
+          );
+        })}
+        {!progress.length && <p className="muted">No budgets yet. Set a limit on an expense category to track it here.</p>}
+
+        {canManage && !editing && (
+          <div className="inline-actions">
+            <button className="ghost-btn" type="button" onClick={() => startEdit()}>
+              Set Budget
+            </button>
+          </div>
+        )}
+
+        {canManage && editing && (
+          <div className="stack account-add-form">
+            <label htmlFor="budget-category">Category</label>
+            <select id="budget-category" value={categoryId} onChange={(event) => setCategoryId(event.target.value)}>
+              <option value="">Select an expense category</option>
+              {expenseCategories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+            <div className="inline-actions">
+              {budgetPeriods.map((item) => (
+                <button
+                  key={item}
+                  type="button"
+                  className={`chip ${period === item ? "chip-active" : ""}`.trim()}
+                  onClick={() => setPeriod(item)}
+                >
+                  {BUDGET_PERIOD_LABELS[item]}
+                </button>
+              ))}
+            </div>
+            <label htmlFor="budget-amount">Limit</label>
+            <input
+              id="budget-amount"
+              type="text"
+              inputMode="decimal"
+              autoComplete="off"
+              placeholder="0.00"
+              value={amount}
+              onChange={(event) => setAmount(sanitizeAmountInput(event.target.value))}
+            />
+            <div className="inline-actions">
+              <button className="ghost-btn" type="button" onClick={() => setEditing(false)} disabled={saving}>
+                Cancel
+              </button>
+              <button
+                className="save-btn"
+                type="button"
+                onClick={() => void submit()}
+                disabled={saving || !categoryId || !Number(amount)}
+              >
+                {saving ? "Saving..." : "Save Budget"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </NeonCard>
+  );
+}
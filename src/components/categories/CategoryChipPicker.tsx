@@ -0,0 +1,39 @@
+import { groupCategories } from "@/lib/categoryTree";
+import type { Category } from "@/types/domain";
+
+interface CategoryChipPickerProps {
+  id: string;
+  categories: Category[];
+  selectedId: string;
+  onSelect: (categoryId: string) => void;
+}
+
+// Categories without subcategories share one strip; each group gets its own labelled strip, led by the group itself.
+export function CategoryChipPicker({ id, categories, selectedId, onSelect }: CategoryChipPickerProps): JSX.Element {
+  const groups = groupCategories(categories);
+  const loose = groups.filter((group) => !group.children.length);
+  const nested = groups.filter((group) => group.children.length > 0);
+
+  const chip = (category: Category): JSX.Element => (
+    <button
+      key={category.id}
+      type="button"
+      className={`chip ${selectedId === category.id ? "chip-active" : ""}`.trim()}
+      onClick={() => onSelect(category.id)}
+    >
+      {category.icon ?? "•"} {category.name}
+    </button>
+  );
+
+  return (
+    <div className="category-picker" id={id}>
+      {loose.length > 0 && <div className="category-strip">{loose.map((group) => chip(group.category))}</div>}
+      {nested.map((group) => (
+        <div className="category-picker-group" key={group.category.id} role="group" aria-label={group.category.name}>
+          <small className="category-picker-label">{group.category.name}</small>
+          <div className="category-strip">{[group.category, ...group.children].map(chip)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
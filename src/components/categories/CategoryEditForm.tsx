@@ -0,0 +1,152 @@
+import { useState } from "react";
+import type { Category, CategoryUpdateInput } from "@/types/domain";
+
+interface CategoryEditFormProps {
+  category: Category;
+  // Active categories of the same type; the merge moves every entry of `category` into the one picked here.
+  mergeTargets: Category[];
+  // Top-level categories of the same type this one can be moved under.
+  groupTargets: Category[];
+  // A group that holds subcategories must stay top level.
+  hasSubcategories: boolean;
+  onSave: (input: CategoryUpdateInput) => Promise<void>;
+  onMerge: (targetCategoryId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const DEFAULT_COLOR = "#22d3ee";
+
+export function CategoryEditForm(props: CategoryEditFormProps): JSX.Element {
+  const { category, mergeTargets, groupTargets, hasSubcategories, onSave, onMerge, onClose } = props;
+
+  const [name, setName] = useState(category.name);
+  const [icon, setIcon] = useState(category.icon ?? "");
+  const [color, setColor] = useState(category.color ?? DEFAULT_COLOR);
+  const [parentId, setParentId] = useState(category.parent_id ?? "");
+  const [targetId, setTargetId] = useState("");
+  const [mergeArmed, setMergeArmed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const run = async (action: () => Promise<void>, fallback: string): Promise<void> => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = (): void => {
+    if (!name.trim()) {
+      setError("Category name is required.");
+      return;
+    }
+    void run(
+      () => onSave({ name, icon: icon.trim() || null, color, parent_id: parentId || null }),
+      "Could not update category."
+    );
+  };
+
+  const merge = (): void => {
+    if (!targetId) {
+      return;
+    }
+    if (!mergeArmed) {
+      setMergeArmed(true);
+      return;
+    }
+    void run(() => onMerge(targetId), "Could not merge categories.");
+  };
+
+  const targetName = mergeTargets.find((item) => item.id === targetId)?.name ?? "";
+
+  return (
+    <div className="stack category-edit-form">
+      <div className="category-edit-fields">
+        <input
+          aria-label="Category icon"
+          className="category-icon-input"
+          type="text"
+          maxLength={4}
+          placeholder="•"
+          value={icon}
+          onChange={(event) => setIcon(event.target.value)}
+        />
+        <input
+          aria-label="Category name"
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <input
+          aria-label="Category colour"
+          className="category-color-input"
+          type="color"
+          value={color}
+          onChange={(event) => setColor(event.target.value)}
+        />
+      </div>
+      {!hasSubcategories && groupTargets.length > 0 && (
+        <select aria-label="Group" value={parentId} onChange={(event) => setParentId(event.target.value)}>
+          <option value="">No group (top level)</option>
+          {groupTargets.map((item) => (
+            <option key={item.id} value={item.id}>
+              Inside {item.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <div className="inline-actions">
+        <button className="ghost-btn" type="button" onClick={onClose} disabled={busy}>
+          Cancel
+        </button>
+        <button className="save-btn" type="button" onClick={save} disabled={busy}>
+          {busy ? "Saving..." : "Save"}
+        </button>
+      </div>
+
+      {mergeTargets.length > 0 && (
+        <div className="stack category-merge">
+          <label htmlFor={`merge-target-${category.id}`}>Merge into</label>
+          <select
+            id={`merge-target-${category.id}`}
+            value={targetId}
+            onChange={(event) => {
+              setTargetId(event.target.value);
+              setMergeArmed(false);
+            }}
+          >
+            <option value="">Select a category</option>
+            {mergeTargets.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+          {mergeArmed && (
+            <small className="error-text">
+              Every entry in {category.name} moves to {targetName} and {category.name} is archived.
+            </small>
+          )}
+          <div className="inline-actions">
+            <button
+              className={mergeArmed ? "reject-btn drop-armed" : "reject-btn"}
+              type="button"
+              onClick={merge}
+              disabled={busy || !targetId}
+            >
+              {mergeArmed ? "Confirm Merge" : "Merge"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <small className="error-text">{error}</small>}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { Fragment } from "react";
+import { groupCategories } from "@/lib/categoryTree";
+import type { Category } from "@/types/domain";
+
+interface CategoryOptionsProps {
+  categories: Category[];
+  // Appended to groups that hold subcategories, e.g. " (all)" where picking the group includes them.
+  groupSuffix?: string;
+}
+
+// <option> rows with subcategories indented under their group; a select cannot nest optgroups.
+export function CategoryOptions({ categories, groupSuffix = "" }: CategoryOptionsProps): JSX.Element {
+  return (
+    <>
+      {groupCategories(categories).map((group) => (
+        <Fragment key={group.category.id}>
+          <option value={group.category.id}>
+            {group.category.name}
+            {group.children.length ? groupSuffix : ""}
+          </option>
+          {group.children.map((child) => (
+            <option key={child.id} value={child.id}>
+              {"\u00a0\u00a0\u00a0"}
+              {child.name}
+            </option>
+          ))}
+        </Fragment>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
+import { CloseDaySheet } from "./CloseDaySheet";
+import type { Account } from "@/types/domain";
+
+const accounts: Account[] = [
+  {
+    id: "acc-drawer",
+    workspace_id: "ws-1",
+    name: "Cash Drawer",
+    kind: "cash",
+    is_default: true,
+    is_active: true,
+    created_at: "2026-03-01T09:00:00.000Z"
+  }
+];
+
+describe("CloseDaySheet", () => {
+  afterEach(cleanup);
+
+  const defaultProps = {
+    currency: "INR",
+    initialDate: "2026-10-17",
+    maxDate: "2026-10-18",
+    accounts,
+    defaultAccountId: "acc-drawer",
+    closings: [],
+    onLoadExpected: vi.fn().mockResolvedValue(1000),
+    onSubmit: vi.fn().mockResolvedValue(true),
+    onClose: vi.fn()
+  };
+
+  it("compares the denomination count with the book balance and requires a note for a shortage", async () => {
+    const onSubmit = vi.fn().mockResolvedValue(true);
+    render(<CloseDaySheet {...defaultProps} onSubmit={onSubmit} />);
+
+    await waitFor(() => expect(screen.getByText("Book balance").nextElementSibling?.textContent).toMatch(/1,000/));
+    expect(defaultProps.onLoadExpected).toHaveBeenCalledWith("2026-10-17", "acc-drawer");
+
+    fireEvent.change(screen.getByLabelText(/500 note/), { target: { value: "1" } });
+    fireEvent.change(screen.getByLabelText(/200 note/), { target: { value: "2" } });
+    fireEvent.change(screen.getByLabelText(/^₹20 note/), { target: { value: "2" } });
+    fireEvent.change(screen.getByLabelText(/^₹20 coin/), { target: { value: "1" } });
+
+    expect(screen.getByText("Difference").nextElementSibling?.textContent).toMatch(/Short.*40/);
+
+    fireEvent.click(screen.getByRole("button", { name: "Close Day" }));
+    expect(screen.getByText("Add a note explaining the difference.")).toBeTruthy();
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText("Note"), { target: { value: "Change given twice" } });
+    fireEvent.click(screen.getByRole("button", { name: "Close Day" }));
+
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith({
+        businessDate: "2026-10-17",
+        accountId: "acc-drawer",
+        denominations: { "500": 1, "200": 2, "20": 3 },
+        note: "Change given twice"
+      })
+    );
+  });
+
+  it("blocks a second close of the same day and drawer", async () => {
+    const closings = [
+      {
+        id: "close-1",
+        workspace_id: "ws-1",
+        business_date: "2026-10-17",
+        account_id: "acc-drawer",
+        denominations: { "500": 2 },
+        counted_total: 1000,
+        expected_balance: 1000,
+        difference: 0,
+        note: null,
+        adjustment_entry_id: null,
+        closed_by: "user-1",
+        closed_at: "2026-10-17T18:00:00.000Z"
+      }
+    ];
+    render(<CloseDaySheet {...defaultProps} closings={closings} />);
+
+    await waitFor(() => expect(screen.getByText("Book balance").nextElementSibling?.textContent).toMatch(/1,000/));
+    expect(screen.getByText("This day is already closed for this drawer.")).toBeTruthy();
+    expect((screen.getByRole("button", { name: "Close Day" }) as HTMLButtonElement).disabled).toBe(true);
+  });
+});
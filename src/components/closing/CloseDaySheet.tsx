@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useState } from "react";
+import { getDenominations } from "@/data/denominations";
+import { formatCurrency } from "@/lib/format";
+import type { Account, DayClosing, DenominationCount } from "@/types/domain";
+
+export interface CloseDaySubmission {
+  businessDate: string;
+  accountId: string;
+  denominations: DenominationCount;
+  note: string;
+}
+
+interface CloseDaySheetProps {
+  currency: string;
+  initialDate: string;
+  maxDate: string;
+  accounts: Account[];
+  defaultAccountId: string;
+  closings: DayClosing[];
+  onLoadExpected: (businessDate: string, accountId: string) => Promise<number>;
+  onSubmit: (submission: CloseDaySubmission) => Promise<boolean>;
+  onClose: () => void;
+}
+
+interface DenominationRow {
+  key: string;
+  face: number;
+  label: string;
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100);
+}
+
+function formatFace(face: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: Number.isInteger(face) ? 0 : 2
+  }).format(face);
+}
+
+export function CloseDaySheet(props: CloseDaySheetProps): JSX.Element {
+  const { currency, initialDate, maxDate, accounts, defaultAccountId, closings, onLoadExpected, onSubmit, onClose } =
+    props;
+
+  const [businessDate, setBusinessDate] = useState(initialDate);
+  const [accountId, setAccountId] = useState(defaultAccountId);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [note, setNote] = useState("");
+  const [expected, setExpected] = useState<number | null>(null);
+  const [expectedError, setExpectedError] = useState("");
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const rows = useMemo<DenominationRow[]>(() => {
+    const { notes, coins } = getDenominations(currency);
+    return [
+      ...notes.map((face) => ({ key: `note-${face}`, face, label: `${formatFace(face, currency)} note` })),
+      ...coins.map((face) => ({ key: `coin-${face}`, face, label: `${formatFace(face, currency)} coin` }))
+    ];
+  }, [currency]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setExpected(null);
+    setExpectedError("");
+    if (!businessDate || !accountId) {
+      return;
+    }
+    onLoadExpected(businessDate, accountId)
+      .then((value) => {
+        if (!cancelled) {
+          setExpected(value);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setExpectedError("Could not load the book balance for this day.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [businessDate, accountId, onLoadExpected]);
+
+  const countOf = (key: string): number => Number(counts[key] || 0);
+
+  // Work in cents so 0.05 coins add up exactly.
+  const countedCents = rows.reduce((sum, row) => sum + toCents(row.face) * countOf(row.key), 0);
+  const counted = countedCents / 100;
+  const difference = expected === null ? null : (countedCents - toCents(expected)) / 100;
+  const alreadyClosed = closings.some(
+    (closing) => closing.business_date === businessDate && closing.account_id === accountId
+  );
+
+  const differenceLabel =
+    difference === null
+      ? "—"
+      : difference === 0
+        ? "Balanced"
+        : difference > 0
+          ? `Excess ${formatCurrency(difference, currency)}`
+          : `Short ${formatCurrency(Math.abs(difference), currency)}`;
+
+  const submit = async (): Promise<void> => {
+    setError("");
+    if (difference === null) {
+      setError("Wait for the book balance to load.");
+      return;
+    }
+    if (difference !== 0 && !note.trim()) {
+      setError("Add a note explaining the difference.");
+      return;
+    }
+
+    // Notes and coins can share a face value; the stored count is per face value.
+    const denominations: DenominationCount = {};
+    rows.forEach((row) => {
+      const count = countOf(row.key);
+      if (count > 0) {
+        const face = String(row.face);
+        denominations[face] = (denominations[face] ?? 0) + count;
+      }
+    });
+
+    setSaving(true);
+    try {
+      const saved = await onSubmit({ businessDate, accountId, denominations, note: note.trim() });
+      if (saved) {
+        onClose();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop">
+      <div className="quick-modal close-day-sheet" role="dialog" aria-label="Close day">
+        <div className="entry-detail-head">
+          <h3>Close Day</h3>
+          <button className="ghost-btn" type="button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        <div className="stack">
+          <div className="grid-2">
+            <div>
+              <label htmlFor="close-day-date">Business date</label>
+              <input
+                id="close-day-date"
+                type="date"
+                value={businessDate}
+                max={maxDate}
+                onChange={(event) => setBusinessDate(event.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="close-day-account">Drawer</label>
+              <select id="close-day-account" value={accountId} onChange={(event) => setAccountId(event.target.value)}>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="denomination-grid">
+            {rows.map((row) => (
+              <div className="denomination-row" key={row.key}>
+                <label htmlFor={`denomination-${row.key}`}>{row.label}</label>
+                <input
+                  id={`denomination-${row.key}`}
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={counts[row.key] ?? ""}
+                  placeholder="0"
+                  onChange={(event) =>
+                    setCounts((current) => ({ ...current, [row.key]: event.target.value.replace(/\D/g, "") }))
+                  }
+                />
+                <small>{formatCurrency((toCents(row.face) * countOf(row.key)) / 100, currency)}</small>
+              </div>
+            ))}
+          </div>
+
+          <div className="entry-detail-grid">
+            <small>Counted</small>
+            <strong>{formatCurrency(counted, currency)}</strong>
+            <small>Book balance</small>
+            <strong>{expected === null ? "Loading..." : formatCurrency(expected, currency)}</strong>
+            <small>Difference</small>
+            <strong
+              className={difference === null || difference === 0 ? undefined : difference > 0 ? "amt-in" : "amt-out"}
+            >
+              {differenceLabel}
+            </strong>
+          </div>
+          {expectedError && <p className="error-text">{expectedError}</p>}
+          {difference !== null && difference !== 0 && (
+            <small className="muted">
+              The difference will be posted as a Cash Over/Short adjustment entry at the end of the day.
+            </small>
+          )}
+
+          <label htmlFor="close-day-note">Note</label>
+          <textarea
+            id="close-day-note"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Who counted, reason for any difference"
+          />
+
+          {alreadyClosed && <p className="error-text">This day is already closed for this drawer.</p>}
+          {error && <p className="error-text">{error}</p>}
+
+          <button
+            className="save-btn"
+            type="button"
+            onClick={() => void submit()}
+            disabled={saving || alreadyClosed || expected === null}
+          >
+            {saving ? "Closing..." : "Close Day"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
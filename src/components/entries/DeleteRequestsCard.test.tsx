@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
+import { DeleteRequestsCard } from "./DeleteRequestsCard";
+import type { DeleteRequestDetail } from "@/types/domain";
+
+const pending: DeleteRequestDetail = {
+  id: "dr-1",
+  workspace_id: "ws-1",
+  entry_id: "entry-1",
+  requested_by: "user-2",
+  requested_by_name: "Rahul",
+  reason: "Entered twice",
+  status: "pending",
+  reviewed_by: null,
+  reviewed_by_name: null,
+  reviewed_at: null,
+  review_note: null,
+  created_at: "2026-10-17T09:00:00Z",
+  entry: {
+    id: "entry-1",
+    workspace_id: "ws-1",
+    kind: "standard",
+    direction: "cash_out",
+    amount: 450,
+    category_id: "cat-1",
+    split_lines: null,
+    account_id: "acc-1",
+    transfer_account_id: null,
+    party_id: null,
+    shift_id: null,
+    remarks: "Tea and snacks",
+    receipt_url: "ws-1/user-2/receipt.jpg",
+    entry_at: "2026-10-17T08:30:00Z",
+    created_by: "user-2",
+    status: "active",
+    created_at: "2026-10-17T08:31:00Z"
+  },
+  entry_created_by_name: "Rahul"
+};
+
+const rejected: DeleteRequestDetail = {
+  ...pending,
+  id: "dr-2",
+  status: "rejected",
+  reviewed_by: "user-1",
+  reviewed_by_name: "Meena",
+  reviewed_at: "2026-10-17T10:00:00Z",
+  review_note: "Receipt matches the bank statement"
+};
+
+const baseProps = {
+  currency: "INR",
+  timezone: "Asia/Kolkata",
+  categoryNames: new Map([["cat-1", "Pantry"]]),
+  accountNames: new Map([["acc-1", "Cash"]]),
+  partyNames: new Map<string, string>()
+};
+
+describe("DeleteRequestsCard", () => {
+  afterEach(cleanup);
+
+  it("shows entry details and passes the reviewer note", async () => {
+    const onReview = vi.fn(async () => undefined);
+    const onOpenReceipt = vi.fn(async () => undefined);
+    render(
+      <DeleteRequestsCard
+        {...baseProps}
+        canReview
+        requests={[pending]}
+        onReview={onReview}
+        onLoadHistory={vi.fn(async () => [])}
+        onOpenReceipt={onOpenReceipt}
+      />
+    );
+
+    expect(screen.getByText("Pantry")).toBeTruthy();
+    expect(screen.getByText("Remarks: Tea and snacks")).toBeTruthy();
+    expect(screen.getByText("Reason: Entered twice")).toBeTruthy();
+
+    fireEvent.click(screen.getByText("View Receipt"));
+    expect(onOpenReceipt).toHaveBeenCalledWith("ws-1/user-2/receipt.jpg");
+
+    fireEvent.change(screen.getByLabelText("Reviewer note"), { target: { value: " Duplicate of #12 " } });
+    fireEvent.click(screen.getByText("Approve"));
+    await waitFor(() => expect(onReview).toHaveBeenCalledWith("dr-1", true, "Duplicate of #12"));
+  });
+
+  it("lists reviewed requests in the history tab", async () => {
+    const onLoadHistory = vi.fn(async () => [rejected]);
+    render(
+      <DeleteRequestsCard
+        {...baseProps}
+        canReview
+        requests={[]}
+        onReview={vi.fn()}
+        onLoadHistory={onLoadHistory}
+        onOpenReceipt={vi.fn()}
+      />
+    );
+
+    expect(onLoadHistory).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByText("History"));
+
+    expect(await screen.findByText("Rejected")).toBeTruthy();
+    expect(screen.getByText("Note: Receipt matches the bank statement")).toBeTruthy();
+    expect(screen.queryByLabelText("Reviewer note")).toBeNull();
+  });
+
+  it("shows requesters the status of their own requests", () => {
+    render(
+      <DeleteRequestsCard
+        {...baseProps}
+        canReview={false}
+        requests={[pending, rejected]}
+        onReview={vi.fn()}
+        onLoadHistory={vi.fn()}
+        onOpenReceipt={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText("My Delete Requests")).toBeTruthy();
+    expect(screen.getByText("Waiting for review")).toBeTruthy();
+    expect(screen.getByText("Note: Receipt matches the bank statement")).toBeTruthy();
+    expect(screen.queryByText("Approve")).toBeNull();
+    expect(screen.queryByText("History")).toBeNull();
+  });
+});
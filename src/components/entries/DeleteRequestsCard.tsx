@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { SplitLinesDetails } from "@/components/entries/SplitLinesDetails";
+import { entryTitle } from "@/lib/entryLabels";
+import { formatCurrency, formatDateTimeInTimeZone } from "@/lib/format";
+import type { DeleteRequestDetail, DeleteRequestStatus } from "@/types/domain";
+
+interface DeleteRequestsCardProps {
+  // Reviewers get the approval queue and a history tab; everyone else sees their own requests.
+  canReview: boolean;
+  requests: DeleteRequestDetail[];
+  currency: string;
+  timezone: string;
+  categoryNames: Map<string, string>;
+  accountNames: Map<string, string>;
+  partyNames: Map<string, string>;
+  onReview: (id: string, approved: boolean, note: string) => Promise<void>;
+  onLoadHistory: () => Promise<DeleteRequestDetail[]>;
+  onOpenReceipt: (path: string) => Promise<void>;
+}
+
+const STATUS_LABELS: Record<DeleteRequestStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected"
+};
+
+export function DeleteRequestsCard({
+  canReview,
+  requests,
+  currency,
+  timezone,
+  categoryNames,
+  accountNames,
+  partyNames,
+  onReview,
+  onLoadHistory,
+  onOpenReceipt
+}: DeleteRequestsCardProps): JSX.Element {
+  const [view, setView] = useState<"pending" | "history">("pending");
+  const [history, setHistory] = useState<DeleteRequestDetail[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState("");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState("");
+
+  // The pending list changes whenever a review lands, so the history is reloaded with it.
+  useEffect(() => {
+    if (!canReview || view !== "history") {
+      return;
+    }
+    let cancelled = false;
+    setHistoryLoading(true);
+    setHistoryError("");
+    onLoadHistory()
+      .then((rows) => {
+        if (!cancelled) {
+          setHistory(rows);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setHistoryError("Could not load reviewed requests.");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setHistoryLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [canReview, view, requests, onLoadHistory]);
+
+  const review = async (id: string, approved: boolean): Promise<void> => {
+    setBusyId(id);
+    try {
+      await onReview(id, approved, (notes[id] ?? "").trim());
+      setNotes((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    } finally {
+      setBusyId("");
+    }
+  };
+
+  const renderRequest = (request: DeleteRequestDetail): JSX.Element => {
+    const { entry } = request;
+    const receiptPath = entry.receipt_url;
+    const reviewable = canReview && request.status === "pending";
+    return (
+      <article className="delete-request-row" key={request.id}>
+        <div className="delete-request-head">
+          <strong>{entryTitle(entry, categoryNames, accountNames, partyNames)}</strong>
+          {entry.kind !== "standard" ? (
+            <span className="amt-move">{formatCurrency(entry.amount, currency)}</span>
+          ) : (
+            <span className={entry.direction === "cash_in" ? "amt-in" : "amt-out"}>
+              {entry.direction === "cash_in" ? "+" : "-"}
+              {formatCurrency(entry.amount, currency)}
+            </span>
+          )}
+        </div>
+        {entry.split_lines && <SplitLinesDetails lines={entry.split_lines} categoryNames={categoryNames} currency={currency} />}
+        <small>
+          {formatDateTimeInTimeZone(entry.entry_at, timezone)} | Added by {request.entry_created_by_name || "Unknown"}
+        </small>
+        {entry.remarks && <small>Remarks: {entry.remarks}</small>}
+        {receiptPath && (
+          <button className="ghost-btn delete-request-receipt" type="button" onClick={() => void onOpenReceipt(receiptPath)}>
+            View Receipt
+          </button>
+        )}
+        <small>
+          Requested by {request.requested_by_name || "Unknown"} on {formatDateTimeInTimeZone(request.created_at, timezone)}
+        </small>
+        <small>Reason: {request.reason}</small>
+
+        {request.status !== "pending" && (
+          <div className="delete-request-review">
+            <span className={`delete-request-status delete-request-status-${request.status}`}>
+              {STATUS_LABELS[request.status]}
+            </span>
+            {request.reviewed_at && (
+              <small>
+                by {request.reviewed_by_name || "Unknown"} on {formatDateTimeInTimeZone(request.reviewed_at, timezone)}
+              </small>
+            )}
+            {request.review_note && <small>Note: {request.review_note}</small>}
+          </div>
+        )}
+        {request.status === "pending" && !canReview && (
+          <span className="delete-request-status delete-request-status-pending">Waiting for review</span>
+        )}
+
+        {reviewable && (
+          <>
+            <textarea
+              aria-label="Reviewer note"
+              value={notes[request.id] ?? ""}
+              onChange={(event) => setNotes((prev) => ({ ...prev, [request.id]: event.target.value }))}
+              placeholder="Note for the requester (optional)"
+              maxLength={280}
+            />
+            <div className="inline-actions">
+              <button
+                className="approve-btn"
+                type="button"
+                disabled={busyId === request.id}
+                onClick={() => void review(request.id, true)}
+              >
+                Approve
+              </button>
+              <button
+                className="reject-btn"
+                type="button"
+                disabled={busyId === request.id}
+                onClick={() => void review(request.id, false)}
+              >
+                Reject
+              </button>
+            </div>
+          </>
+        )}
+      </article>
+    );
+  };
+
+  if (!canReview) {
+    return (
+      <NeonCard title="My Delete Requests" subtitle="Status and reviewer notes">
+        <div className="stack">
+          {requests.map(renderRequest)}
+          {!requests.length && <p className="muted">You have not requested any deletes.</p>}
+        </div>
+      </NeonCard>
+    );
+  }
+
+  return (
+    <NeonCard title="Delete Requests" subtitle="Approval queue">
+      <div className="stack">
+        <div className="segment-row" role="group" aria-label="Delete request view">
+          <button
+            type="button"
+            className={`segment-btn ${view === "pending" ? "segment-btn-active" : ""}`.trim()}
+            aria-pressed={view === "pending"}
+            onClick={() => setView("pending")}
+          >
+            Pending ({requests.length})
+          </button>
+          <button
+            type="button"
+            className={`segment-btn ${view === "history" ? "segment-btn-active" : ""}`.trim()}
+            aria-pressed={view === "history"}
+            onClick={() => setView("history")}
+          >
+            History
+          </button>
+        </div>
+
+        {view === "pending" && (
+          <>
+            {requests.map(renderRequest)}
+            {!requests.length && <p className="muted">No pending requests.</p>}
+          </>
+        )}
+
+        {view === "history" && (
+          <>
+            {historyError && <small className="error-text">{historyError}</small>}
+            {history.map(renderRequest)}
+            {historyLoading && !history.length && <p className="muted">Loading...</p>}
+            {!historyLoading && !historyError && !history.length && <p className="muted">No reviewed requests yet.</p>}
+          </>
+        )}
+      </div>
+    </NeonCard>
+  );
+}
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
+import { EntryDetailSheet } from "./EntryDetailSheet";
+import type { Account, Category, Entry, EntryRevision } from "@/types/domain";
+
+const categories: Category[] = [
+  {
+    id: "cat-sales",
+    workspace_id: "ws-1",
+    name: "Sales",
+    type: "income",
+    icon: null,
+    color: null,
+    source: "system",
+    is_active: true,
+    parent_id: null
+  },
+  {
+    id: "cat-tips",
+    workspace_id: "ws-1",
+    name: "Tips",
+    type: "income",
+    icon: null,
+    color: null,
+    source: "manual",
+    is_active: true,
+    parent_id: null
+  },
+  {
+    id: "cat-rent",
+    workspace_id: "ws-1",
+    name: "Rent",
+    type: "expense",
+    icon: null,
+    color: null,
+    source: "system",
+    is_active: true,
+    parent_id: null
+  }
+];
+
+const accounts: Account[] = [
+  {
+    id: "acc-drawer",
+    workspace_id: "ws-1",
+    name: "Cash Drawer",
+    kind: "cash",
+    is_default: true,
+    is_active: true,
+    created_at: "2026-03-01T09:00:00.000Z"
+  },
+  {
+    id: "acc-bank",
+    workspace_id: "ws-1",
+    name: "Bank",
+    kind: "bank",
+    is_default: false,
+    is_active: true,
+    created_at: "2026-03-01T09:00:00.000Z"
+  }
+];
+
+const entry: Entry = {
+  id: "entry-1",
+  workspace_id: "ws-1",
+  kind: "standard",
+  direction: "cash_in",
+  amount: 120,
+  category_id: "cat-sales",
+  split_lines: null,
+  account_id: "acc-drawer",
+  transfer_account_id: null,
+  party_id: null,
+  shift_id: null,
+  remarks: "Morning sale",
+  receipt_url: null,
+  entry_at: "2026-03-01T10:00:00.000Z",
+  created_by: "user-1",
+  status: "active",
+  created_at: "2026-03-01T10:00:00.000Z"
+};
+
+const revision: EntryRevision = {
+  id: 1,
+  workspace_id: "ws-1",
+  entry_id: "entry-1",
+  revised_by: "user-2",
+  revised_at: "2026-03-01T11:00:00.000Z",
+  old_values: { amount: 100 },
+  new_values: { amount: 120 },
+  edit_request_id: null
+};
+
+describe("EntryDetailSheet", () => {
+  afterEach(cleanup);
+
+  const defaultProps = {
+    entry,
+    currency: "USD",
+    timezone: "UTC",
+    categories,
+    accounts,
+    parties: [],
+    memberNameById: new Map([
+      ["user-1", "You"],
+      ["user-2", "Asha"]
+    ]),
+    canEditDirect: true,
+    canChangeDirection: true,
+    canChangeDate: true,
+    readOnly: false,
+    revisions: [revision],
+    revisionsLoading: false,
+    onSave: vi.fn().mockResolvedValue(true),
+    onClose: vi.fn()
+  };
+
+  it("shows the revision timeline with old and new values", () => {
+    render(<EntryDetailSheet {...defaultProps} />);
+    expect(screen.getByText("Edit History")).toBeTruthy();
+    expect(screen.getByText(/Asha/)).toBeTruthy();
+    expect(screen.getByText("$100.00")).toBeTruthy();
+  });
+
+  it("saves only the changed fields", async () => {
+    const onSave = vi.fn().mockResolvedValue(true);
+    render(<EntryDetailSheet {...defaultProps} onSave={onSave} />);
+
+    fireEvent.click(screen.getByText("Edit Entry"));
+    fireEvent.change(screen.getByLabelText("Amount"), { target: { value: "150" } });
+    fireEvent.click(screen.getByText("Save Changes"));
+
+    await waitFor(() => {
+      expect(onSave).toHaveBeenCalledWith({ amount: 150 }, "");
+    });
+  });
+
+  it("locks the date and direction a direct editor could not add", () => {
+    render(<EntryDetailSheet {...defaultProps} canChangeDirection={false} canChangeDate={false} />);
+
+    fireEvent.click(screen.getByText("Edit Entry"));
+    expect((screen.getByLabelText("Date") as HTMLInputElement).disabled).toBe(true);
+    expect((screen.getByLabelText("Time") as HTMLInputElement).disabled).toBe(true);
+    expect((screen.getByRole("button", { name: "Cash Out" }) as HTMLButtonElement).disabled).toBe(true);
+    expect((screen.getByLabelText("Amount") as HTMLInputElement).disabled).toBe(false);
+  });
+
+  it("requires a reason when proposing an edit", () => {
+    const onSave = vi.fn();
+    render(<EntryDetailSheet {...defaultProps} canEditDirect={false} onSave={onSave} />);
+
+    fireEvent.click(screen.getByText("Propose Edit"));
+    fireEvent.change(screen.getByLabelText("Amount"), { target: { value: "150" } });
+    fireEvent.click(screen.getByText("Send for Approval"));
+
+    expect(screen.getByText(/Add a reason/)).toBeTruthy();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it("splits an entry only when the lines add up to the amount", async () => {
+    const onSave = vi.fn().mockResolvedValue(true);
+    render(<EntryDetailSheet {...defaultProps} onSave={onSave} />);
+
+    fireEvent.click(screen.getByText("Edit Entry"));
+    fireEvent.click(screen.getByText("Split across categories"));
+    fireEvent.change(screen.getByLabelText("Line 1 amount"), { target: { value: "90" } });
+    fireEvent.change(screen.getByLabelText("Line 2 category"), { target: { value: "cat-tips" } });
+    fireEvent.change(screen.getByLabelText("Line 2 amount"), { target: { value: "20" } });
+    expect(screen.getByText("$10.00 left to split")).toBeTruthy();
+
+    fireEvent.click(screen.getByText("Save Changes"));
+    expect(screen.getByText("Split lines must add up to the entry amount.")).toBeTruthy();
+    expect(onSave).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText("Line 2 amount"), { target: { value: "30" } });
+    fireEvent.click(screen.getByText("Save Changes"));
+
+    await waitFor(() => {
+      expect(onSave).toHaveBeenCalledWith(
+        {
+          split_lines: [
+            { category_id: "cat-sales", amount: 90 },
+            { category_id: "cat-tips", amount: 30 }
+          ]
+        },
+        ""
+      );
+    });
+  });
+
+  it("edits a transfer without asking for a category", async () => {
+    const onSave = vi.fn().mockResolvedValue(true);
+    const transfer: Entry = {
+      ...entry,
+      kind: "transfer",
+      direction: "cash_out",
+      category_id: null,
+      transfer_account_id: "acc-bank"
+    };
+    render(<EntryDetailSheet {...defaultProps} entry={transfer} onSave={onSave} />);
+
+    expect(screen.getByText("Cash Drawer → Bank")).toBeTruthy();
+    fireEvent.click(screen.getByText("Edit Entry"));
+    expect(screen.queryByText("Category")).toBeNull();
+    fireEvent.change(screen.getByLabelText("Amount"), { target: { value: "80" } });
+    fireEvent.click(screen.getByText("Save Changes"));
+
+    await waitFor(() => {
+      expect(onSave).toHaveBeenCalledWith({ amount: 80 }, "");
+    });
+  });
+});
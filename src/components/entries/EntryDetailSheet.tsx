@@ -0,0 +1,498 @@
+import { useEffect, useMemo, useState } from "react";
+import { CategoryChipPicker } from "@/components/categories/CategoryChipPicker";
+import { SplitLinesEditor } from "@/components/entries/SplitLinesEditor";
+import {
+  dateKeyInTimeZone,
+  formatCurrency,
+  formatDateTimeInTimeZone,
+  sanitizeAmountInput,
+  timeInTimeZoneHHmm,
+  zonedDateTimeToIso
+} from "@/lib/format";
+import { buildAccountNameMap, entryTypeLabel, transferRouteLabel } from "@/lib/entryLabels";
+import {
+  sameSplitLines,
+  splitDraftsFromLines,
+  toSplitLines,
+  validateSplitDrafts,
+  type SplitLineDraft
+} from "@/lib/splitLines";
+import type {
+  Account,
+  CashDirection,
+  Category,
+  Entry,
+  EntryEditableField,
+  EntryRevision,
+  EntryUpdateInput,
+  Party,
+  SplitLine
+} from "@/types/domain";
+
+interface EntryDetailSheetProps {
+  entry: Entry;
+  currency: string;
+  timezone: string;
+  categories: Category[];
+  accounts: Account[];
+  parties: Party[];
+  memberNameById: Map<string, string>;
+  canEditDirect: boolean;
+  // Direct edits follow the add permissions (enforce_entry_rules); proposed edits are left to the reviewer.
+  canChangeDirection: boolean;
+  canChangeDate: boolean;
+  // Viewers can read the entry and its history but cannot edit or propose edits.
+  readOnly: boolean;
+  revisions: EntryRevision[];
+  revisionsLoading: boolean;
+  onSave: (changes: EntryUpdateInput, reason: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const fieldLabels: Record<EntryEditableField, string> = {
+  direction: "Type",
+  amount: "Amount",
+  category_id: "Category",
+  split_lines: "Split",
+  remarks: "Remarks",
+  receipt_url: "Receipt",
+  entry_at: "Date & time",
+  account_id: "Account",
+  transfer_account_id: "To account"
+};
+
+export function EntryDetailSheet(props: EntryDetailSheetProps): JSX.Element {
+  const {
+    entry,
+    currency,
+    timezone,
+    categories,
+    accounts,
+    parties,
+    memberNameById,
+    canEditDirect,
+    canChangeDirection,
+    canChangeDate,
+    readOnly,
+    revisions,
+    revisionsLoading,
+    onSave,
+    onClose
+  } = props;
+
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [direction, setDirection] = useState<CashDirection>(entry.direction);
+  const [amount, setAmount] = useState(String(entry.amount));
+  const [categoryId, setCategoryId] = useState(entry.category_id ?? "");
+  const [splitLines, setSplitLines] = useState<SplitLineDraft[] | null>(
+    entry.split_lines ? splitDraftsFromLines(entry.split_lines) : null
+  );
+  const [accountId, setAccountId] = useState(entry.account_id);
+  const [transferAccountId, setTransferAccountId] = useState(entry.transfer_account_id ?? "");
+  const [remarks, setRemarks] = useState(entry.remarks ?? "");
+  const [date, setDate] = useState(dateKeyInTimeZone(entry.entry_at, timezone));
+  const [time, setTime] = useState(timeInTimeZoneHHmm(timezone, entry.entry_at));
+  const [reason, setReason] = useState("");
+  const [formError, setFormError] = useState("");
+  const directionLocked = canEditDirect && !canChangeDirection;
+  const dateLocked = canEditDirect && !canChangeDate;
+
+  useEffect(() => {
+    setEditing(false);
+    setDirection(entry.direction);
+    setAmount(String(entry.amount));
+    setCategoryId(entry.category_id ?? "");
+    setSplitLines(entry.split_lines ? splitDraftsFromLines(entry.split_lines) : null);
+    setAccountId(entry.account_id);
+    setTransferAccountId(entry.transfer_account_id ?? "");
+    setRemarks(entry.remarks ?? "");
+    setDate(dateKeyInTimeZone(entry.entry_at, timezone));
+    setTime(timeInTimeZoneHHmm(timezone, entry.entry_at));
+    setReason("");
+    setFormError("");
+  }, [entry, timezone]);
+
+  const categoryNameById = useMemo(
+    () => new Map(categories.map((category) => [category.id, category.name])),
+    [categories]
+  );
+  const accountNameById = useMemo(() => buildAccountNameMap(accounts), [accounts]);
+  const isTransfer = entry.kind === "transfer";
+  // Credit entries only record what is owed, so they have no category and no cash account to edit.
+  const isCredit = entry.kind === "credit";
+  const usesCategory = entry.kind === "standard";
+  const partyName = entry.party_id
+    ? (parties.find((party) => party.id === entry.party_id)?.name ?? "Archived party")
+    : null;
+  // Archived accounts stay selectable only if the entry already points at them.
+  const selectableAccounts = accounts.filter(
+    (account) => account.is_active || account.id === entry.account_id || account.id === entry.transfer_account_id
+  );
+  const directionCategories = categories.filter((category) =>
+    direction === "cash_in" ? category.type === "income" : category.type === "expense"
+  );
+
+  const describeValue = (
+    field: EntryEditableField,
+    value: string | number | SplitLine[] | null | undefined
+  ): string => {
+    if (value === null || value === undefined || value === "") {
+      return "—";
+    }
+    if (Array.isArray(value)) {
+      return value
+        .map((line) => `${categoryNameById.get(line.category_id) ?? "Archived category"} ${formatCurrency(line.amount, currency)}`)
+        .join(", ");
+    }
+    if (field === "amount") {
+      return formatCurrency(Number(value), currency);
+    }
+    if (field === "direction") {
+      return value === "cash_in" ? "Cash In" : "Cash Out";
+    }
+    if (field === "category_id") {
+      return categoryNameById.get(String(value)) ?? "Archived category";
+    }
+    if (field === "account_id" || field === "transfer_account_id") {
+      return accountNameById.get(String(value)) ?? "Archived account";
+    }
+    if (field === "entry_at") {
+      return formatDateTimeInTimeZone(String(value), timezone);
+    }
+    if (field === "receipt_url") {
+      return "Attached";
+    }
+    return String(value);
+  };
+
+  const collectChanges = (): EntryUpdateInput => {
+    const changes: EntryUpdateInput = {};
+    const nextAmount = Number(amount);
+    const nextRemarks = remarks.trim() || null;
+    const nextEntryAt = zonedDateTimeToIso(date, time, timezone);
+
+    if (usesCategory && direction !== entry.direction) {
+      changes.direction = direction;
+    }
+    if (nextAmount !== entry.amount) {
+      changes.amount = nextAmount;
+    }
+    const nextSplitLines = splitLines ? toSplitLines(splitLines) : null;
+    if (usesCategory && !sameSplitLines(nextSplitLines, entry.split_lines)) {
+      changes.split_lines = nextSplitLines;
+    }
+    if (usesCategory && !nextSplitLines && categoryId !== entry.category_id) {
+      changes.category_id = categoryId;
+    }
+    if (!isCredit && accountId !== entry.account_id) {
+      changes.account_id = accountId;
+    }
+    if (isTransfer && transferAccountId !== entry.transfer_account_id) {
+      changes.transfer_account_id = transferAccountId;
+    }
+    if (nextRemarks !== (entry.remarks ?? null)) {
+      changes.remarks = nextRemarks;
+    }
+    if (new Date(nextEntryAt).getTime() !== new Date(entry.entry_at).getTime()) {
+      changes.entry_at = nextEntryAt;
+    }
+    return changes;
+  };
+
+  const submit = async (): Promise<void> => {
+    const nextAmount = Number(amount);
+    if (!Number.isFinite(nextAmount) || nextAmount <= 0) {
+      setFormError("Enter a valid amount");
+      return;
+    }
+    if (isTransfer && (!transferAccountId || transferAccountId === accountId)) {
+      setFormError("Pick two different accounts");
+      return;
+    }
+    if (usesCategory && splitLines) {
+      const splitError = validateSplitDrafts(splitLines, nextAmount, directionCategories);
+      if (splitError) {
+        setFormError(splitError);
+        return;
+      }
+    } else if (usesCategory && !directionCategories.some((category) => category.id === categoryId)) {
+      setFormError(`Pick a ${direction === "cash_in" ? "income" : "expense"} category`);
+      return;
+    }
+    if (!canEditDirect && !reason.trim()) {
+      setFormError("Add a reason so the admin knows why this change is needed");
+      return;
+    }
+
+    const changes = collectChanges();
+    if (!Object.keys(changes).length) {
+      setFormError("Nothing changed yet");
+      return;
+    }
+
+    setFormError("");
+    setSaving(true);
+    try {
+      const saved = await onSave(changes, reason.trim());
+      if (saved) {
+        setEditing(false);
+        setReason("");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop">
+      <div className="quick-modal entry-detail-sheet" role="dialog" aria-label="Entry details">
+        <div className="entry-detail-head">
+          <h3>{entryTypeLabel(entry)}</h3>
+          <button className="ghost-btn" type="button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        {!editing && (
+          <div className="stack">
+            <div className="amount-display">{formatCurrency(entry.amount, currency)}</div>
+            <div className="entry-detail-grid">
+              {isTransfer ? (
+                <>
+                  <small>Accounts</small>
+                  <strong>{transferRouteLabel(entry, accountNameById)}</strong>
+                </>
+              ) : isCredit ? (
+                <>
+                  <small>Party</small>
+                  <strong>{partyName}</strong>
+                </>
+              ) : (
+                <>
+                  <small>Category</small>
+                  {entry.split_lines ? (
+                    <ul className="split-lines-list">
+                      {entry.split_lines.map((line) => (
+                        <li key={line.category_id}>
+                          <span>{categoryNameById.get(line.category_id) ?? "Unknown"}</span>
+                          <strong>{formatCurrency(line.amount, currency)}</strong>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <strong>{(entry.category_id && categoryNameById.get(entry.category_id)) || "Unknown"}</strong>
+                  )}
+                  <small>Account</small>
+                  <strong>{accountNameById.get(entry.account_id) ?? "Unknown account"}</strong>
+                  {partyName && (
+                    <>
+                      <small>Party</small>
+                      <strong>{partyName}</strong>
+                    </>
+                  )}
+                </>
+              )}
+              <small>Date & time</small>
+              <strong>{formatDateTimeInTimeZone(entry.entry_at, timezone)}</strong>
+              <small>Added by</small>
+              <strong>{memberNameById.get(entry.created_by) ?? "Team member"}</strong>
+              <small>Recorded</small>
+              <strong>{formatDateTimeInTimeZone(entry.created_at, timezone)}</strong>
+              <small>Remarks</small>
+              <strong>{entry.remarks || "—"}</strong>
+            </div>
+            {!readOnly && (
+              <button className="primary-btn" type="button" onClick={() => setEditing(true)}>
+                {canEditDirect ? "Edit Entry" : "Propose Edit"}
+              </button>
+            )}
+          </div>
+        )}
+
+        {editing && (
+          <div className="stack">
+            {usesCategory && (
+              <div className="inline-actions">
+                <button
+                  type="button"
+                  className={`chip ${direction === "cash_in" ? "chip-active" : ""}`.trim()}
+                  disabled={directionLocked}
+                  onClick={() => setDirection("cash_in")}
+                >
+                  Cash In
+                </button>
+                <button
+                  type="button"
+                  className={`chip ${direction === "cash_out" ? "chip-active" : ""}`.trim()}
+                  disabled={directionLocked}
+                  onClick={() => setDirection("cash_out")}
+                >
+                  Cash Out
+                </button>
+              </div>
+            )}
+
+            <label htmlFor="entry-edit-amount">Amount</label>
+            <input
+              id="entry-edit-amount"
+              type="text"
+              inputMode="decimal"
+              autoComplete="off"
+              value={amount}
+              onChange={(event) => setAmount(sanitizeAmountInput(event.target.value))}
+            />
+
+            {usesCategory && (
+              <>
+                <div className="split-toggle-row">
+                  <label htmlFor="entry-edit-category">Category</label>
+                  <button
+                    className="text-btn"
+                    type="button"
+                    onClick={() =>
+                      setSplitLines((prev) =>
+                        prev
+                          ? null
+                          : [
+                              { category_id: categoryId, amount },
+                              { category_id: "", amount: "" }
+                            ]
+                      )
+                    }
+                  >
+                    {splitLines ? "Use one category" : "Split across categories"}
+                  </button>
+                </div>
+                {splitLines ? (
+                  <SplitLinesEditor
+                    idPrefix="entry-edit-split"
+                    lines={splitLines}
+                    categories={directionCategories}
+                    total={Number(amount || "0")}
+                    currency={currency}
+                    onChange={setSplitLines}
+                  />
+                ) : (
+                  <CategoryChipPicker
+                    id="entry-edit-category"
+                    categories={directionCategories}
+                    selectedId={categoryId}
+                    onSelect={setCategoryId}
+                  />
+                )}
+              </>
+            )}
+
+            {!isCredit && (
+              <div className={isTransfer ? "grid-2" : undefined}>
+                <div>
+                  <label htmlFor="entry-edit-account">{isTransfer ? "From account" : "Account"}</label>
+                  <select id="entry-edit-account" value={accountId} onChange={(event) => setAccountId(event.target.value)}>
+                    {selectableAccounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {isTransfer && (
+                  <div>
+                    <label htmlFor="entry-edit-transfer-account">To account</label>
+                    <select
+                      id="entry-edit-transfer-account"
+                      value={transferAccountId}
+                      onChange={(event) => setTransferAccountId(event.target.value)}
+                    >
+                      {selectableAccounts.map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="grid-2">
+              <div>
+                <label htmlFor="entry-edit-date">Date</label>
+                <input
+                  id="entry-edit-date"
+                  type="date"
+                  value={date}
+                  disabled={dateLocked}
+                  onChange={(event) => setDate(event.target.value)}
+                />
+              </div>
+              <div>
+                <label htmlFor="entry-edit-time">Time</label>
+                <input
+                  id="entry-edit-time"
+                  type="time"
+                  value={time}
+                  disabled={dateLocked}
+                  onChange={(event) => setTime(event.target.value)}
+                />
+              </div>
+            </div>
+
+            <label htmlFor="entry-edit-remarks">Remarks</label>
+            <textarea id="entry-edit-remarks" value={remarks} onChange={(event) => setRemarks(event.target.value)} />
+
+            {!canEditDirect && (
+              <>
+                <label htmlFor="entry-edit-reason">Reason for change</label>
+                <input
+                  id="entry-edit-reason"
+                  value={reason}
+                  onChange={(event) => setReason(event.target.value)}
+                  placeholder="Wrong amount"
+                />
+                <small className="muted">An admin will review this change before it is applied.</small>
+              </>
+            )}
+
+            {formError && <p className="error-text">{formError}</p>}
+
+            <div className="inline-actions">
+              <button className="ghost-btn" type="button" onClick={() => setEditing(false)} disabled={saving}>
+                Cancel
+              </button>
+              <button className="save-btn" type="button" onClick={() => void submit()} disabled={saving}>
+                {saving ? "Saving..." : canEditDirect ? "Save Changes" : "Send for Approval"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="entry-revision-timeline">
+          <h4>Edit History</h4>
+          {revisionsLoading && <p className="muted">Loading history...</p>}
+          {!revisionsLoading && !revisions.length && <p className="muted">No edits since this entry was added.</p>}
+          {!revisionsLoading &&
+            revisions.map((revision) => (
+              <article className="entry-revision" key={revision.id}>
+                <small>
+                  {formatDateTimeInTimeZone(revision.revised_at, timezone)} •{" "}
+                  {(revision.revised_by && memberNameById.get(revision.revised_by)) || "Team member"}
+                  {revision.edit_request_id ? " • approved request" : ""}
+                </small>
+                <ul>
+                  {(Object.keys(revision.new_values) as EntryEditableField[]).map((field) => (
+                    <li key={field}>
+                      <strong>{fieldLabels[field] ?? field}:</strong>{" "}
+                      <span className="entry-revision-old">{describeValue(field, revision.old_values[field])}</span>
+                      {" → "}
+                      <span>{describeValue(field, revision.new_values[field])}</span>
+                    </li>
+                  ))}
+                </ul>
+              </article>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+}
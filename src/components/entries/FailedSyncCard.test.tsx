@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
+import { FailedSyncCard } from "./FailedSyncCard";
+import type { OutboxItem } from "@/lib/offlineQueue";
+import type { WorkspaceContext } from "@/types/domain";
+
+const item: OutboxItem = {
+  client_ref: "ref-1",
+  payload: {
+    client_ref: "ref-1",
+    workspace_id: "ws-2",
+    direction: "cash_out",
+    amount: 450,
+    category_id: "cat-1",
+    remarks: "Tea and snacks",
+    created_by: "user-1",
+    entry_at: "2026-10-17T08:30:00Z"
+  },
+  receipt: null,
+  queued_at: "2026-10-17T08:30:00Z",
+  status: "failed",
+  attempts: 1,
+  last_error: "Business day is closed"
+};
+
+const workspaces = [
+  {
+    workspace: { id: "ws-2", name: "Branch Store", currency: "INR", timezone: "Asia/Kolkata" },
+    member: {}
+  }
+] as unknown as WorkspaceContext[];
+
+describe("FailedSyncCard", () => {
+  afterEach(cleanup);
+
+  it("shows the rejected entry with its error and passes retry and discard through", async () => {
+    const onRetry = vi.fn(async () => undefined);
+    const onDiscard = vi.fn(async () => undefined);
+    render(<FailedSyncCard items={[item]} workspaces={workspaces} onRetry={onRetry} onDiscard={onDiscard} />);
+
+    expect(screen.getByText("Tea and snacks")).toBeTruthy();
+    expect(screen.getByText(/Branch Store/)).toBeTruthy();
+    expect(screen.getByText("Business day is closed")).toBeTruthy();
+
+    fireEvent.click(screen.getByText("Retry"));
+    await waitFor(() => expect(onRetry).toHaveBeenCalledWith(item));
+
+    fireEvent.click(screen.getByText("Discard"));
+    await waitFor(() => expect(onDiscard).toHaveBeenCalledWith(item));
+  });
+});
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { formatCurrency, formatDateTimeInTimeZone } from "@/lib/format";
+import type { OutboxItem } from "@/lib/offlineQueue";
+import type { WorkspaceContext } from "@/types/domain";
+
+interface FailedSyncCardProps {
+  // Failed items can belong to any workspace the user queued entries in while offline.
+  items: OutboxItem[];
+  workspaces: WorkspaceContext[];
+  onRetry: (item: OutboxItem) => Promise<void>;
+  onDiscard: (item: OutboxItem) => Promise<void>;
+}
+
+export function FailedSyncCard({ items, workspaces, onRetry, onDiscard }: FailedSyncCardProps): JSX.Element {
+  const [busyRef, setBusyRef] = useState("");
+
+  const run = async (item: OutboxItem, action: (item: OutboxItem) => Promise<void>): Promise<void> => {
+    setBusyRef(item.client_ref);
+    try {
+      await action(item);
+    } finally {
+      setBusyRef("");
+    }
+  };
+
+  return (
+    <NeonCard title="Entries Not Saved" subtitle="Saved offline but rejected by the server">
+      <div className="stack">
+        {items.map((item) => {
+          const { payload } = item;
+          const workspace = workspaces.find((option) => option.workspace.id === payload.workspace_id)?.workspace;
+          const currency = workspace?.currency ?? "INR";
+          const amount = formatCurrency(payload.amount, currency);
+          return (
+            <article className="delete-request-row" key={item.client_ref}>
+              <div className="delete-request-head">
+                <strong>{payload.remarks || "Offline entry"}</strong>
+                {payload.kind && payload.kind !== "standard" ? (
+                  <span className="amt-move">{amount}</span>
+                ) : (
+                  <span className={payload.direction === "cash_in" ? "amt-in" : "amt-out"}>
+                    {payload.direction === "cash_in" ? "+" : "-"}
+                    {amount}
+                  </span>
+                )}
+              </div>
+              <small>
+                {workspace?.name ?? "Unknown workspace"} |{" "}
+                {formatDateTimeInTimeZone(payload.entry_at ?? item.queued_at, workspace?.timezone ?? "UTC")}
+              </small>
+              {item.last_error && <small className="error-text">{item.last_error}</small>}
+              <div className="inline-actions">
+                <button
+                  className="approve-btn"
+                  type="button"
+                  disabled={busyRef === item.client_ref}
+                  onClick={() => void run(item, onRetry)}
+                >
+                  Retry
+                </button>
+                <button
+                  className="reject-btn"
+                  type="button"
+                  disabled={busyRef === item.client_ref}
+                  onClick={() => void run(item, onDiscard)}
+                >
+                  Discard
+                </button>
+              </div>
+            </article>
+          );
+        })}
+      </div>
+    </NeonCard>
+  );
+}
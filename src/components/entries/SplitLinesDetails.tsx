@@ -0,0 +1,25 @@
+import { formatCurrency } from "@/lib/format";
+import type { SplitLine } from "@/types/domain";
+
+interface SplitLinesDetailsProps {
+  lines: SplitLine[];
+  categoryNames: Map<string, string>;
+  currency: string;
+}
+
+// Collapsed under the entry title in Recent Entries and History; expands to one row per category.
+export function SplitLinesDetails({ lines, categoryNames, currency }: SplitLinesDetailsProps): JSX.Element {
+  return (
+    <details className="split-lines">
+      <summary>Split across {lines.length} categories</summary>
+      <ul>
+        {lines.map((line) => (
+          <li key={line.category_id}>
+            <span>{categoryNames.get(line.category_id) ?? "Unknown"}</span>
+            <span>{formatCurrency(line.amount, currency)}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,76 @@
+import { CategoryOptions } from "@/components/categories/CategoryOptions";
+import { formatCurrency, sanitizeAmountInput } from "@/lib/format";
+import { unallocatedAmount, type SplitLineDraft } from "@/lib/splitLines";
+import type { Category } from "@/types/domain";
+
+interface SplitLinesEditorProps {
+  idPrefix: string;
+  lines: SplitLineDraft[];
+  categories: Category[];
+  total: number;
+  currency: string;
+  onChange: (lines: SplitLineDraft[]) => void;
+}
+
+export function SplitLinesEditor({ idPrefix, lines, categories, total, currency, onChange }: SplitLinesEditorProps): JSX.Element {
+  const remaining = unallocatedAmount(lines, total);
+
+  const updateLine = (index: number, patch: Partial<SplitLineDraft>): void => {
+    onChange(lines.map((line, lineIndex) => (lineIndex === index ? { ...line, ...patch } : line)));
+  };
+
+  return (
+    <div className="stack split-editor">
+      {lines.map((line, index) => (
+        <div className="split-editor-row" key={index}>
+          <select
+            id={`${idPrefix}-category-${index}`}
+            aria-label={`Line ${index + 1} category`}
+            value={line.category_id}
+            onChange={(event) => updateLine(index, { category_id: event.target.value })}
+          >
+            <option value="">Category</option>
+            <CategoryOptions categories={categories} />
+          </select>
+          <input
+            id={`${idPrefix}-amount-${index}`}
+            aria-label={`Line ${index + 1} amount`}
+            type="text"
+            inputMode="decimal"
+            autoComplete="off"
+            placeholder="0.00"
+            value={line.amount}
+            onChange={(event) => updateLine(index, { amount: sanitizeAmountInput(event.target.value) })}
+          />
+          <button
+            className="text-btn"
+            type="button"
+            disabled={lines.length <= 2}
+            onClick={() => onChange(lines.filter((_, lineIndex) => lineIndex !== index))}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <div className="split-editor-foot">
+        <button
+          className="ghost-btn"
+          type="button"
+          onClick={() =>
+            onChange([...lines, { category_id: "", amount: remaining > 0 ? remaining.toFixed(2) : "" }])
+          }
+        >
+          Add Line
+        </button>
+        <small className={remaining === 0 ? "amt-in" : "error-text"}>
+          {remaining === 0
+            ? "Lines match the total"
+            : remaining > 0
+              ? `${formatCurrency(remaining, currency)} left to split`
+              : `${formatCurrency(-remaining, currency)} over the total`}
+        </small>
+      </div>
+    </div>
+  );
+}
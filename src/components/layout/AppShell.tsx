@@ -1,7 +1,9 @@
-import { useEffect, type ReactNode } from "react";
+import { useEffect, useState, type ReactNode } from "react";
 import { BrandLogo } from "@/components/common/BrandLogo";
+import { ROLE_LABELS } from "@/lib/permissions";
+import type { WorkspaceContext } from "@/types/domain";
 
-export type AppTab = "dashboard" | "history" | "team" | "settings";
+export type AppTab = "dashboard" | "history" | "parties" | "team" | "settings";
 
 interface AppShellProps {
   title: string;
@@ -16,6 +18,12 @@ interface AppShellProps {
   installAvailable: boolean;
   online: boolean;
   syncBanner?: string;
+  workspaces: WorkspaceContext[];
+  activeWorkspaceId: string;
+  switchingWorkspace?: boolean;
+  onSwitchWorkspace: (workspaceId: string) => void;
+  updateAvailable?: boolean;
+  onApplyUpdate?: () => void;
   children: ReactNode;
 }
 
@@ -33,13 +41,26 @@ export function AppShell(props: AppShellProps): JSX.Element {
     installAvailable,
     online,
     syncBanner,
+    workspaces,
+    activeWorkspaceId,
+    switchingWorkspace,
+    onSwitchWorkspace,
+    updateAvailable,
+    onApplyUpdate,
     children
   } = props;
 
+  const [switcherOpen, setSwitcherOpen] = useState(false);
+
   const pickTab = (nextTab: AppTab): void => {
     onTabChange(nextTab);
   };
 
+  const pickWorkspace = (workspaceId: string): void => {
+    setSwitcherOpen(false);
+    onSwitchWorkspace(workspaceId);
+  };
+
   useEffect(() => {
     document.body.classList.add("app-shell-active");
     return () => {
@@ -61,6 +82,45 @@ export function AppShell(props: AppShellProps): JSX.Element {
             <BrandLogo compact className="header-logo" />
             <div className="topbar-copy">
               <h1>{title}</h1>
+              {workspaces.length > 1 && (
+                <div className="workspace-switcher">
+                  <button
+                    type="button"
+                    className="ghost-btn workspace-switcher-toggle"
+                    aria-haspopup="listbox"
+                    aria-expanded={switcherOpen}
+                    disabled={switchingWorkspace}
+                    onClick={() => setSwitcherOpen((prev) => !prev)}
+                  >
+                    {switchingWorkspace ? "Switching..." : `Switch workspace (${workspaces.length})`}
+                  </button>
+                  {switcherOpen && (
+                    <ul className="workspace-switcher-menu" role="listbox" aria-label="Workspaces">
+                      {workspaces.map((item) => (
+                        <li key={item.workspace.id}>
+                          <button
+                            type="button"
+                            role="option"
+                            aria-selected={item.workspace.id === activeWorkspaceId}
+                            className={`workspace-switcher-option ${
+                              item.workspace.id === activeWorkspaceId ? "workspace-switcher-option-active" : ""
+                            }`.trim()}
+                            onClick={() => pickWorkspace(item.workspace.id)}
+                          >
+                            <span className="workspace-switcher-name">
+                              <strong>{item.workspace.name}</strong>
+                              <small>{item.workspace.industry}</small>
+                            </span>
+                            <span className={`member-role-pill member-role-pill-${item.member.role}`}>
+                              {ROLE_LABELS[item.member.role]}
+                            </span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
               <div className="topbar-meta">
                 <span className="topbar-eyebrow">Daily Cashbook</span>
                 <p className="topbar-subtitle">{subtitle}</p>
@@ -74,6 +134,9 @@ export function AppShell(props: AppShellProps): JSX.Element {
             <button className={tab === "history" ? "active" : ""} onClick={() => pickTab("history")}>
               History
             </button>
+            <button className={tab === "parties" ? "active" : ""} onClick={() => pickTab("parties")}>
+              Parties
+            </button>
             <button className={tab === "team" ? "active" : ""} onClick={() => pickTab("team")}>
               Team
             </button>
@@ -112,6 +175,15 @@ export function AppShell(props: AppShellProps): JSX.Element {
         </div>
       </header>
 
+      {updateAvailable && (
+        <div className="update-banner" role="status">
+          <span>A new version of Cashbook is ready.</span>
+          <button className="primary-btn" type="button" onClick={onApplyUpdate}>
+            Update now
+          </button>
+        </div>
+      )}
+
       {syncBanner && <div className={`sync-banner ${online ? "sync-banner-warn" : "sync-banner-offline"}`}>{syncBanner}</div>}
 
       <main className="app-main">{children}</main>
@@ -123,6 +195,9 @@ export function AppShell(props: AppShellProps): JSX.Element {
         <button className={tab === "history" ? "active" : ""} onClick={() => pickTab("history")}>
           History
         </button>
+        <button className={tab === "parties" ? "active" : ""} onClick={() => pickTab("parties")}>
+          Parties
+        </button>
         <button className={tab === "team" ? "active" : ""} onClick={() => pickTab("team")}>
           Team
         </button>
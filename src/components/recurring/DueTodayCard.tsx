@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { formatCurrency } from "@/lib/format";
+import type { RecurringEntry } from "@/types/domain";
+
+interface DueTodayCardProps {
+  items: RecurringEntry[];
+  today: string;
+  currency: string;
+  categoryNames: Map<string, string>;
+  canSkip: boolean;
+  onPost: (item: RecurringEntry) => Promise<void>;
+  onSkip: (item: RecurringEntry) => Promise<void>;
+}
+
+export function DueTodayCard(props: DueTodayCardProps): JSX.Element {
+  const { items, today, currency, categoryNames, canSkip, onPost, onSkip } = props;
+  const [busyId, setBusyId] = useState("");
+
+  const run = async (item: RecurringEntry, action: (item: RecurringEntry) => Promise<void>): Promise<void> => {
+    setBusyId(item.id);
+    try {
+      await action(item);
+    } finally {
+      setBusyId("");
+    }
+  };
+
+  return (
+    <NeonCard title="Due Today" subtitle="Recurring entries waiting to be posted">
+      <div className="stack">
+        {items.map((item) => (
+          <article className="entry-row" key={item.id}>
+            <div>
+              <strong>{item.name}</strong>
+              <small>
+                {categoryNames.get(item.category_id) ?? "Unknown"}
+                {item.next_due_date < today ? ` • overdue since ${item.next_due_date}` : ""}
+                {item.mode === "auto_post" ? " • auto-post pending" : ""}
+              </small>
+              {item.last_error && <small className="error-text">{item.last_error}</small>}
+            </div>
+            <div className="entry-row-right">
+              <span className={item.direction === "cash_in" ? "amt-in" : "amt-out"}>
+                {item.direction === "cash_in" ? "+" : "-"}
+                {formatCurrency(item.amount, currency)}
+              </span>
+              <button
+                className="approve-btn"
+                type="button"
+                onClick={() => void run(item, onPost)}
+                disabled={busyId === item.id}
+              >
+                Post
+              </button>
+              {canSkip && (
+                <button className="text-btn" type="button" onClick={() => void run(item, onSkip)} disabled={busyId === item.id}>
+                  Skip
+                </button>
+              )}
+            </div>
+          </article>
+        ))}
+      </div>
+    </NeonCard>
+  );
+}
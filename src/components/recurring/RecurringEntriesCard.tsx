@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { formatCurrency, sanitizeAmountInput } from "@/lib/format";
+import type {
+  Account,
+  CashDirection,
+  Category,
+  RecurrenceFrequency,
+  RecurringEntry,
+  RecurringEntryInput,
+  RecurringMode
+} from "@/types/domain";
+
+export type RecurringEntryDraft = Omit<RecurringEntryInput, "workspace_id" | "created_by">;
+
+interface RecurringEntriesCardProps {
+  items: RecurringEntry[];
+  categories: Category[];
+  accounts: Account[];
+  currency: string;
+  today: string;
+  canManage: boolean;
+  onAdd: (draft: RecurringEntryDraft) => Promise<boolean>;
+  onToggleActive: (item: RecurringEntry, isActive: boolean) => Promise<void>;
+}
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly"
+};
+
+const MODE_LABELS: Record<RecurringMode, string> = {
+  auto_post: "Auto-post",
+  remind: "Remind only"
+};
+
+export function RecurringEntriesCard(props: RecurringEntriesCardProps): JSX.Element {
+  const { items, categories, accounts, currency, today, canManage, onAdd, onToggleActive } = props;
+
+  const activeAccounts = accounts.filter((account) => account.is_active);
+  const defaultAccountId = activeAccounts.find((account) => account.is_default)?.id ?? activeAccounts[0]?.id ?? "";
+
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [direction, setDirection] = useState<CashDirection>("cash_out");
+  const [amount, setAmount] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+  const [accountId, setAccountId] = useState(defaultAccountId);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("monthly");
+  const [mode, setMode] = useState<RecurringMode>("remind");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState("");
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+  const directionCategories = categories.filter(
+    (category) => category.is_active && category.type === (direction === "cash_in" ? "income" : "expense")
+  );
+
+  const reset = (): void => {
+    setName("");
+    setAmount("");
+    setCategoryId("");
+    setEndDate("");
+    setError("");
+    setAdding(false);
+  };
+
+  const submit = async (): Promise<void> => {
+    const numericAmount = Number(amount);
+    if (!name.trim()) {
+      setError("Give the recurring entry a name.");
+      return;
+    }
+    if (!Number.isFinite(numericAmount) || numericAmount <= 0) {
+      setError("Enter an amount greater than zero.");
+      return;
+    }
+    if (!directionCategories.some((category) => category.id === categoryId)) {
+      setError("Pick a category.");
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      setError("End date must be on or after the start date.");
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+    try {
+      const saved = await onAdd({
+        name: name.trim(),
+        direction,
+        amount: numericAmount,
+        category_id: categoryId,
+        account_id: accountId || defaultAccountId,
+        frequency,
+        mode,
+        start_date: startDate,
+        end_date: endDate || null
+      });
+      if (saved) {
+        reset();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <NeonCard title="Recurring Entries" subtitle="Rent, salaries and subscriptions on a schedule">
+      <div className="stack">
+        {items.map((item) => (
+          <article className="entry-row" key={item.id}>
+            <div>
+              <strong>{item.name}</strong>
+              <small>
+                {FREQUENCY_LABELS[item.frequency]} • {MODE_LABELS[item.mode]} •{" "}
+                {categoryNames.get(item.category_id) ?? "Unknown"}
+              </small>
+              <small>
+                {item.is_active ? `Next due ${item.next_due_date}` : "Paused or finished"}
+                {item.end_date ? ` • ends ${item.end_date}` : ""}
+              </small>
+            </div>
+            <div className="entry-row-right">
+              <span className={item.direction === "cash_in" ? "amt-in" : "amt-out"}>
+                {formatCurrency(item.amount, currency)}
+              </span>
+              {canManage && (
+                <button className="text-btn" type="button" onClick={() => void onToggleActive(item, !item.is_active)}>
+                  {item.is_active ? "Pause" : "Resume"}
+                </button>
+              )}
+            </div>
+          </article>
+        ))}
+        {!items.length && <p className="muted">No recurring entries yet.</p>}
+
+        {canManage && !adding && (
+          <button className="ghost-btn" type="button" onClick={() => setAdding(true)}>
+            Add Recurring Entry
+          </button>
+        )}
+
+        {canManage && adding && (
+          <div className="stack recurring-form">
+            <label htmlFor="recurring-name">Name</label>
+            <input id="recurring-name" value={name} onChange={(event) => setName(event.target.value)} placeholder="Shop rent" />
+
+            <div className="inline-actions">
+              {(["cash_out", "cash_in"] as CashDirection[]).map((item) => (
+                <button
+                  key={item}
+                  type="button"
+                  className={`chip ${direction === item ? "chip-active" : ""}`.trim()}
+                  onClick={() => {
+                    setDirection(item);
+                    setCategoryId("");
+                  }}
+                >
+                  {item === "cash_in" ? "Cash In" : "Cash Out"}
+                </button>
+              ))}
+            </div>
+
+            <label htmlFor="recurring-amount">Amount</label>
+            <input
+              id="recurring-amount"
+              type="text"
+              inputMode="decimal"
+              autoComplete="off"
+              value={amount}
+              onChange={(event) => setAmount(sanitizeAmountInput(event.target.value))}
+            />
+
+            <div className="grid-2">
+              <div>
+                <label htmlFor="recurring-category">Category</label>
+                <select id="recurring-category" value={categoryId} onChange={(event) => setCategoryId(event.target.value)}>
+                  <option value="">Select</option>
+                  {directionCategories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="recurring-account">Account</label>
+                <select
+                  id="recurring-account"
+                  value={accountId || defaultAccountId}
+                  onChange={(event) => setAccountId(event.target.value)}
+                >
+                  {activeAccounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="inline-actions">
+              {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((item) => (
+                <button
+                  key={item}
+                  type="button"
+                  className={`chip ${frequency === item ? "chip-active" : ""}`.trim()}
+                  onClick={() => setFrequency(item)}
+                >
+                  {FREQUENCY_LABELS[item]}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid-2">
+              <div>
+                <label htmlFor="recurring-start">Starts</label>
+                <input id="recurring-start" type="date" value={startDate} onChange={(event) => setStartDate(event.target.value)} />
+              </div>
+              <div>
+                <label htmlFor="recurring-end">Ends (optional)</label>
+                <input id="recurring-end" type="date" value={endDate} onChange={(event) => setEndDate(event.target.value)} />
+              </div>
+            </div>
+
+            <div className="inline-actions">
+              {(Object.keys(MODE_LABELS) as RecurringMode[]).map((item) => (
+                <button
+                  key={item}
+                  type="button"
+                  className={`chip ${mode === item ? "chip-active" : ""}`.trim()}
+                  onClick={() => setMode(item)}
+                >
+                  {MODE_LABELS[item]}
+                </button>
+              ))}
+            </div>
+
+            {error && <p className="error-text">{error}</p>}
+
+            <div className="inline-actions">
+              <button className="ghost-btn" type="button" onClick={reset} disabled={saving}>
+                Cancel
+              </button>
+              <button className="save-btn" type="button" onClick={() => void submit()} disabled={saving}>
+                {saving ? "Saving..." : "Save Recurring Entry"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </NeonCard>
+  );
+}
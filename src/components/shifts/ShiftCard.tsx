@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { formatCurrency, formatDateTimeInTimeZone, formatDuration, sanitizeAmountInput } from "@/lib/format";
+import type { Shift } from "@/types/domain";
+
+interface ShiftCardProps {
+  shift: Shift | null;
+  currency: string;
+  timezone: string;
+  expectedCash: number;
+  onOpenShift: (openingFloat: number) => Promise<boolean>;
+  onCloseShift: (countedCash: number, note: string) => Promise<boolean>;
+}
+
+export function ShiftCard(props: ShiftCardProps): JSX.Element {
+  const { shift, currency, timezone, expectedCash, onOpenShift, onCloseShift } = props;
+
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [closing, setClosing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const counted = Number(amount || 0);
+  const variance = counted - expectedCash;
+
+  const run = async (action: () => Promise<boolean>): Promise<void> => {
+    setSaving(true);
+    try {
+      if (await action()) {
+        setAmount("");
+        setNote("");
+        setClosing(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!shift) {
+    return (
+      <NeonCard title="Shift" subtitle="No open shift">
+        <div className="stack">
+          <label htmlFor="shift-opening-float">Starting float</label>
+          <input
+            id="shift-opening-float"
+            type="text"
+            inputMode="decimal"
+            autoComplete="off"
+            placeholder="0.00"
+            value={amount}
+            onChange={(event) => setAmount(sanitizeAmountInput(event.target.value))}
+          />
+          <button className="primary-btn" type="button" onClick={() => void run(() => onOpenShift(counted))} disabled={saving}>
+            {saving ? "Starting..." : "Start Shift"}
+          </button>
+        </div>
+      </NeonCard>
+    );
+  }
+
+  return (
+    <NeonCard
+      title="Shift"
+      subtitle={`Open since ${formatDateTimeInTimeZone(shift.opened_at, timezone)} (${formatDuration(
+        shift.opened_at,
+        new Date().toISOString()
+      )})`}
+    >
+      <div className="stack">
+        <div className="entry-detail-grid">
+          <small>Starting float</small>
+          <strong>{formatCurrency(shift.opening_float, currency)}</strong>
+          <small>Expected in drawer</small>
+          <strong>{formatCurrency(expectedCash, currency)}</strong>
+        </div>
+
+        {!closing && (
+          <button className="secondary-btn" type="button" onClick={() => setClosing(true)}>
+            End Shift
+          </button>
+        )}
+
+        {closing && (
+          <div className="stack">
+            <label htmlFor="shift-counted-cash">Counted cash</label>
+            <input
+              id="shift-counted-cash"
+              type="text"
+              inputMode="decimal"
+              autoComplete="off"
+              placeholder="0.00"
+              value={amount}
+              onChange={(event) => setAmount(sanitizeAmountInput(event.target.value))}
+            />
+            {amount && (
+              <small className={variance === 0 ? "muted" : variance > 0 ? "amt-in" : "amt-out"}>
+                Variance {variance > 0 ? "+" : variance < 0 ? "-" : ""}
+                {formatCurrency(Math.abs(variance), currency)}
+              </small>
+            )}
+            <label htmlFor="shift-close-note">Note</label>
+            <textarea id="shift-close-note" value={note} onChange={(event) => setNote(event.target.value)} />
+            <div className="inline-actions">
+              <button className="ghost-btn" type="button" onClick={() => setClosing(false)} disabled={saving}>
+                Cancel
+              </button>
+              <button
+                className="save-btn"
+                type="button"
+                onClick={() => void run(() => onCloseShift(counted, note.trim()))}
+                disabled={saving || !amount}
+              >
+                {saving ? "Closing..." : "Close Shift"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </NeonCard>
+  );
+}
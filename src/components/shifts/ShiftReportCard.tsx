@@ -0,0 +1,51 @@
+import { NeonCard } from "@/components/common/NeonCard";
+import { formatCurrency, formatDateTimeInTimeZone, formatDuration } from "@/lib/format";
+import type { ShiftReportRow } from "@/types/domain";
+
+interface ShiftReportCardProps {
+  rows: ShiftReportRow[];
+  currency: string;
+  timezone: string;
+}
+
+export function ShiftReportCard({ rows, currency, timezone }: ShiftReportCardProps): JSX.Element {
+  const nowIso = new Date().toISOString();
+
+  return (
+    <NeonCard title="Shift Report" subtitle="Cash by cashier and shift">
+      <div className="stack">
+        {rows.map((row) => (
+          <article className="entry-row shift-report-row" key={row.shift_id}>
+            <div>
+              <strong>{row.cashier_name || "Team member"}</strong>
+              <small>
+                {formatDateTimeInTimeZone(row.opened_at, timezone)} • {formatDuration(row.opened_at, row.closed_at ?? nowIso)}
+                {row.closed_at ? "" : " • open"}
+              </small>
+            </div>
+            <div className="shift-report-figures">
+              <small>
+                In <span className="amt-in">{formatCurrency(row.cash_in, currency)}</span>
+              </small>
+              <small>
+                Out <span className="amt-out">{formatCurrency(row.cash_out, currency)}</span>
+              </small>
+              <small>
+                Variance{" "}
+                {row.variance === null ? (
+                  <span className="muted">—</span>
+                ) : (
+                  <span className={row.variance === 0 ? undefined : row.variance > 0 ? "amt-in" : "amt-out"}>
+                    {row.variance > 0 ? "+" : row.variance < 0 ? "-" : ""}
+                    {formatCurrency(Math.abs(row.variance), currency)}
+                  </span>
+                )}
+              </small>
+            </div>
+          </article>
+        ))}
+        {!rows.length && <p className="muted">No shifts recorded yet.</p>}
+      </div>
+    </NeonCard>
+  );
+}
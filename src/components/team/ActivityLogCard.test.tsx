@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
+import { ActivityLogCard } from "./ActivityLogCard";
+import { downloadCsv } from "@/lib/csv";
+import type { AuditLogRow, WorkspaceMemberDirectory } from "@/types/domain";
+
+vi.mock("@/lib/csv", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/csv")>()),
+  downloadCsv: vi.fn()
+}));
+
+const members: WorkspaceMemberDirectory[] = [
+  {
+    workspace_id: "ws-1",
+    user_id: "admin-1",
+    role: "admin",
+    can_delete_entries: true,
+    can_manage_categories: true,
+    can_manage_users: true,
+    dashboard_scope: "full",
+    access_disabled: false,
+    custom_role_id: null,
+    disabled_until: null,
+    disable_reason: null,
+    full_name: "Priya",
+    email: "priya@example.com",
+    phone: null
+  }
+];
+
+const revoked: AuditLogRow = {
+  id: 12,
+  actor_user_id: "admin-1",
+  actor_name: "Priya",
+  action: "workspace_member_revoked",
+  entity_type: "workspace_member",
+  entity_id: "user-2",
+  subject_user_id: "user-2",
+  subject_name: "Rahul",
+  meta: { removed_user_id: "user-2" },
+  created_at: "2026-03-02T10:00:00.000Z"
+};
+
+const deleted: AuditLogRow = {
+  id: 11,
+  actor_user_id: "admin-1",
+  actor_name: "Priya",
+  action: "entry_deleted",
+  entity_type: "entry",
+  entity_id: "entry-1",
+  subject_user_id: null,
+  subject_name: null,
+  meta: { amount: 500, direction: "cash_out", kind: "cash", delete_request_id: "dr-1" },
+  created_at: "2026-03-02T09:00:00.000Z"
+};
+
+function renderCard(onQuery = vi.fn()) {
+  render(
+    <ActivityLogCard members={members} currency="USD" timezone="Asia/Kolkata" onQuery={onQuery} onReportError={vi.fn()} />
+  );
+  return onQuery;
+}
+
+describe("ActivityLogCard", () => {
+  afterEach(cleanup);
+
+  it("describes rows in plain language and refetches when a filter changes", async () => {
+    const onQuery = renderCard(
+      vi.fn().mockResolvedValueOnce({ rows: [revoked], nextCursor: 12 }).mockResolvedValue({ rows: [deleted], nextCursor: null })
+    );
+
+    expect(await screen.findByText("Priya revoked Rahul")).toBeTruthy();
+
+    fireEvent.click(screen.getByText("Load more"));
+    expect(await screen.findByText("Entry $500.00 deleted after request approval")).toBeTruthy();
+    expect(onQuery).toHaveBeenLastCalledWith(expect.objectContaining({ actorUserId: null }), 12, 50);
+
+    fireEvent.change(screen.getByLabelText("Actor"), { target: { value: "admin-1" } });
+    fireEvent.change(screen.getByLabelText("From date"), { target: { value: "2026-03-02" } });
+    await waitFor(() =>
+      expect(onQuery).toHaveBeenLastCalledWith(
+        expect.objectContaining({ actorUserId: "admin-1", from: "2026-03-01T18:30:00.000Z" }),
+        null,
+        50
+      )
+    );
+  });
+
+  it("exports every page of the filtered log as CSV", async () => {
+    const onQuery = renderCard(
+      vi
+        .fn()
+        .mockResolvedValueOnce({ rows: [revoked], nextCursor: null })
+        .mockResolvedValueOnce({ rows: [revoked], nextCursor: 12 })
+        .mockResolvedValueOnce({ rows: [deleted], nextCursor: null })
+    );
+
+    await screen.findByText("Priya revoked Rahul");
+    fireEvent.click(screen.getByText("Export CSV"));
+
+    await waitFor(() => expect(downloadCsv).toHaveBeenCalled());
+    expect(onQuery).toHaveBeenCalledTimes(3);
+    const csv = vi.mocked(downloadCsv).mock.calls[0][0];
+    expect(csv.split("\r\n")[0]).toBe("Date & Time,Actor,Action,Entity,Description,Details");
+    expect(csv).toContain("Priya revoked Rahul");
+    expect(csv).toContain("Entry $500.00 deleted after request approval");
+  });
+});
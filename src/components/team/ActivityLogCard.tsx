@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, auditActionLabel, describeAuditLog } from "@/lib/auditLog";
+import { downloadCsv, toCsv } from "@/lib/csv";
+import { endOfDateKeyIso, formatDateTimeInTimeZone, zonedDateToIso } from "@/lib/format";
+import type { AuditLogFilters, AuditLogPage, AuditLogRow, WorkspaceMemberDirectory } from "@/types/domain";
+
+interface ActivityLogCardProps {
+  members: WorkspaceMemberDirectory[];
+  currency: string;
+  timezone: string;
+  onQuery: (filters: AuditLogFilters, cursor: number | null, limit?: number) => Promise<AuditLogPage>;
+  onReportError: (location: string, error: unknown, detail?: string) => void;
+}
+
+const PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 500;
+
+export function ActivityLogCard({ members, currency, timezone, onQuery, onReportError }: ActivityLogCardProps): JSX.Element {
+  const [actorUserId, setActorUserId] = useState("");
+  const [action, setAction] = useState("");
+  const [entityType, setEntityType] = useState("");
+  const [fromKey, setFromKey] = useState("");
+  const [toKey, setToKey] = useState("");
+  const [rows, setRows] = useState<AuditLogRow[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState("");
+  const querySeqRef = useRef(0);
+
+  const filters = useMemo<AuditLogFilters>(
+    () => ({
+      actorUserId: actorUserId || null,
+      action: action || null,
+      entityType: entityType || null,
+      from: fromKey ? zonedDateToIso(fromKey, timezone) : null,
+      to: toKey ? endOfDateKeyIso(toKey, timezone) : null
+    }),
+    [actorUserId, action, entityType, fromKey, toKey, timezone]
+  );
+
+  useEffect(() => {
+    const seq = ++querySeqRef.current;
+    setRows([]);
+    setNextCursor(null);
+    setError("");
+    setLoading(true);
+    onQuery(filters, null, PAGE_SIZE)
+      .then((page) => {
+        if (seq === querySeqRef.current) {
+          setRows(page.rows);
+          setNextCursor(page.nextCursor);
+        }
+      })
+      .catch((err) => {
+        if (seq === querySeqRef.current) {
+          setError(err instanceof Error ? err.message : "Could not load activity.");
+          onReportError("ActivityLogCard.query", err);
+        }
+      })
+      .finally(() => {
+        if (seq === querySeqRef.current) {
+          setLoading(false);
+        }
+      });
+  }, [filters, onQuery, onReportError]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loading) {
+      return;
+    }
+    const seq = querySeqRef.current;
+    setLoading(true);
+    try {
+      const page = await onQuery(filters, nextCursor, PAGE_SIZE);
+      if (seq !== querySeqRef.current) {
+        return;
+      }
+      setRows((prev) => [...prev, ...page.rows]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load more activity.");
+      onReportError("ActivityLogCard.loadMore", err);
+    } finally {
+      if (seq === querySeqRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [nextCursor, loading, onQuery, filters, onReportError]);
+
+  const exportCsv = async (): Promise<void> => {
+    setExporting(true);
+    setError("");
+    try {
+      const all: AuditLogRow[] = [];
+      let cursor: number | null = null;
+      do {
+        const page: AuditLogPage = await onQuery(filters, cursor, EXPORT_PAGE_SIZE);
+        all.push(...page.rows);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      const csv = toCsv(
+        ["Date & Time", "Actor", "Action", "Entity", "Description", "Details"],
+        all.map((row) => [
+          formatDateTimeInTimeZone(row.created_at, timezone),
+          row.actor_name ?? "",
+          auditActionLabel(row.action),
+          AUDIT_ENTITY_LABELS[row.entity_type] ?? row.entity_type,
+          describeAuditLog(row, currency),
+          row.meta ? JSON.stringify(row.meta) : ""
+        ])
+      );
+      downloadCsv(csv, `activity-log-${new Date().toISOString().slice(0, 10)}.csv`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not export activity.");
+      onReportError("ActivityLogCard.exportCsv", err);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const memberOptions = useMemo(
+    () =>
+      members
+        .map((item) => ({ id: item.user_id, label: item.full_name || item.email || item.phone || item.user_id }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    [members]
+  );
+
+  return (
+    <NeonCard title="Activity" subtitle="Who did what in this workspace, newest first.">
+      <div className="stack">
+        <div className="grid-2">
+          <select aria-label="Actor" value={actorUserId} onChange={(event) => setActorUserId(event.target.value)}>
+            <option value="">Anyone</option>
+            {memberOptions.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+          <select aria-label="Action" value={action} onChange={(event) => setAction(event.target.value)}>
+            <option value="">All actions</option>
+            {Object.entries(AUDIT_ACTION_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select aria-label="Entity type" value={entityType} onChange={(event) => setEntityType(event.target.value)}>
+            <option value="">All records</option>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <div className="activity-date-range">
+            <input aria-label="From date" type="date" value={fromKey} onChange={(event) => setFromKey(event.target.value)} />
+            <input aria-label="To date" type="date" value={toKey} onChange={(event) => setToKey(event.target.value)} />
+          </div>
+        </div>
+
+        <div className="inline-actions">
+          <button className="secondary-btn" type="button" onClick={() => void exportCsv()} disabled={exporting || !rows.length}>
+            {exporting ? "Exporting..." : "Export CSV"}
+          </button>
+        </div>
+
+        <div className="activity-list">
+          {rows.map((row) => (
+            <article key={row.id} className="activity-row">
+              <div>
+                <strong>{describeAuditLog(row, currency)}</strong>
+                <small>
+                  {auditActionLabel(row.action)} · {formatDateTimeInTimeZone(row.created_at, timezone)}
+                </small>
+              </div>
+            </article>
+          ))}
+          {!rows.length && !loading && !error && <p className="muted">No activity for these filters.</p>}
+          {error && <p className="error-text">{error}</p>}
+          {loading && <p className="muted">Loading activity...</p>}
+          {nextCursor && !loading && (
+            <button className="secondary-btn" type="button" onClick={() => void loadMore()}>
+              Load more
+            </button>
+          )}
+        </div>
+      </div>
+    </NeonCard>
+  );
+}
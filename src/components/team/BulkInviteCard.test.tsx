@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
+import { BulkInviteCard } from "./BulkInviteCard";
+import { sendBulkInvites, type BulkInviteRow } from "@/lib/bulkInvite";
+import { downloadCsv } from "@/lib/csv";
+import type { WorkspaceMemberDirectory } from "@/types/domain";
+
+vi.mock("@/lib/csv", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/csv")>()),
+  downloadCsv: vi.fn()
+}));
+
+const members: WorkspaceMemberDirectory[] = [
+  {
+    workspace_id: "ws-1",
+    user_id: "user-2",
+    role: "editor",
+    can_delete_entries: false,
+    can_manage_categories: false,
+    can_manage_users: false,
+    dashboard_scope: "full",
+    access_disabled: false,
+    disabled_until: null,
+    disable_reason: null,
+    custom_role_id: null,
+    full_name: "Rahul",
+    email: "rahul@example.com",
+    phone: null
+  }
+];
+
+const csv = [
+  "contact,role,can_delete_entries,can_manage_categories",
+  "meena@example.com,editor,yes,no",
+  "rahul@example.com,viewer,,",
+  "not-an-email@,editor,no,no",
+  "arjun@example.com,owner,no,no",
+  "MEENA@example.com,viewer,,",
+  "ghost@example.com,editor,no,no"
+].join("\n");
+
+const upload = (): void => {
+  fireEvent.change(screen.getByLabelText("Invite CSV file"), {
+    target: { files: [new File([csv], "cashiers.csv", { type: "text/csv" })] }
+  });
+};
+
+describe("BulkInviteCard", () => {
+  afterEach(cleanup);
+
+  it("validates every row before sending", async () => {
+    render(<BulkInviteCard members={members} onSend={vi.fn()} />);
+    upload();
+
+    expect(await screen.findByText("Send 2 Invites")).toBeTruthy();
+    expect(screen.getByText("Already a member")).toBeTruthy();
+    expect(screen.getByText("Invalid contact")).toBeTruthy();
+    expect(screen.getByText("Invalid role")).toBeTruthy();
+    expect(screen.getByText("Duplicate in file")).toBeTruthy();
+  });
+
+  it("sends valid rows and downloads a per-row report", async () => {
+    const send = vi.fn(async (row: BulkInviteRow) => {
+      if (row.contact === "ghost@example.com") {
+        throw { message: "User not registered. Ask the user to sign up first, then send access request." };
+      }
+    });
+    const onSend = vi.fn((rows: BulkInviteRow[]) => sendBulkInvites(rows, send));
+    render(<BulkInviteCard members={members} onSend={onSend} />);
+    upload();
+
+    fireEvent.click(await screen.findByText("Send 2 Invites"));
+    await waitFor(() => expect(screen.getByText("Invited")).toBeTruthy());
+    expect(screen.getByText("No account found")).toBeTruthy();
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({ contact: "meena@example.com", role: "editor", can_delete_entries: true })
+    );
+    expect(send).toHaveBeenCalledTimes(2);
+
+    fireEvent.click(screen.getByText("Download Report"));
+    const report = vi.mocked(downloadCsv).mock.calls[0][0];
+    expect(report).toContain("2,meena@example.com,editor,yes,no,Invited,");
+    expect(report).toContain("3,rahul@example.com,viewer,no,no,Already a member");
+    expect(report).toContain("7,ghost@example.com,editor,no,no,No account found");
+  });
+});
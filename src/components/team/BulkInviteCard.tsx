@@ -0,0 +1,155 @@
+import { useMemo, useState, type ChangeEvent } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import {
+  BULK_INVITE_STATUS_LABELS,
+  BULK_INVITE_TEMPLATE,
+  bulkInviteReportCsv,
+  parseBulkInviteCsv,
+  type BulkInviteRow,
+  type BulkInviteStatus
+} from "@/lib/bulkInvite";
+import { downloadCsv } from "@/lib/csv";
+import { ROLE_LABELS } from "@/lib/permissions";
+import type { WorkspaceMemberDirectory } from "@/types/domain";
+
+interface BulkInviteCardProps {
+  members: WorkspaceMemberDirectory[];
+  onSend: (rows: BulkInviteRow[]) => Promise<BulkInviteRow[]>;
+}
+
+const STATUS_TONE: Record<BulkInviteStatus, "ok" | "warn" | "error"> = {
+  ready: "ok",
+  invited: "ok",
+  already_member: "warn",
+  duplicate: "warn",
+  no_account: "error",
+  invalid_contact: "error",
+  invalid_role: "error",
+  invalid_permission: "error",
+  failed: "error"
+};
+
+// Upload -> review every row -> send the valid ones -> download the per-row report.
+export function BulkInviteCard({ members, onSend }: BulkInviteCardProps): JSX.Element {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<BulkInviteRow[]>([]);
+  const [sent, setSent] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState("");
+
+  const readyCount = rows.filter((row) => row.status === "ready").length;
+  const summary = useMemo(() => {
+    const counts = new Map<BulkInviteStatus, number>();
+    rows.forEach((row) => counts.set(row.status, (counts.get(row.status) ?? 0) + 1));
+    return [...counts.entries()].map(([status, count]) => `${BULK_INVITE_STATUS_LABELS[status]}: ${count}`).join(" | ");
+  }, [rows]);
+
+  const upload = async (event: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    setFileName(file.name);
+    setSent(false);
+    setError("");
+    try {
+      setRows(parseBulkInviteCsv(await file.text(), members));
+    } catch (err) {
+      setRows([]);
+      setError(err instanceof Error ? err.message : "Could not read the file.");
+    }
+  };
+
+  const send = async (): Promise<void> => {
+    setSending(true);
+    setError("");
+    try {
+      setRows(await onSend(rows));
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send invites.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <NeonCard title="Bulk Invite" subtitle="Upload a CSV of contacts to send many access requests at once">
+      <div className="stack">
+        <small className="muted">
+          Columns: contact (email or mobile), role (admin, editor or viewer), can_delete_entries and can_manage_categories (yes or
+          no, editors only). Everyone must already have an account.
+        </small>
+        <div className="inline-actions">
+          <button
+            className="ghost-btn"
+            type="button"
+            onClick={() => downloadCsv(BULK_INVITE_TEMPLATE, "team-invite-template.csv")}
+          >
+            Download Template
+          </button>
+          <label className="secondary-btn bulk-invite-upload" htmlFor="bulk-invite-file">
+            {fileName ? "Choose Another File" : "Choose CSV File"}
+          </label>
+          <input
+            id="bulk-invite-file"
+            className="bulk-invite-file-input"
+            type="file"
+            accept=".csv,text/csv"
+            aria-label="Invite CSV file"
+            onChange={(event) => void upload(event)}
+          />
+        </div>
+
+        {error && <small className="error-text">{error}</small>}
+
+        {rows.length > 0 && (
+          <>
+            <div className="type-selection-note">
+              {fileName}
+              <span className="category-type-badge category-type-neutral">{summary}</span>
+            </div>
+            <div className="bulk-invite-list">
+              {rows.map((row) => (
+                <article key={row.line} className="bulk-invite-row">
+                  <div className="sent-request-head">
+                    <div className="sent-request-title-wrap">
+                      <strong>{row.contact || `Line ${row.line}`}</strong>
+                      <span className={`member-role-pill member-role-pill-${row.role}`}>{ROLE_LABELS[row.role]}</span>
+                    </div>
+                    <span className={`bulk-invite-status bulk-invite-status-${STATUS_TONE[row.status]}`}>
+                      {BULK_INVITE_STATUS_LABELS[row.status]}
+                    </span>
+                  </div>
+                  <small>
+                    Line {row.line}
+                    {row.detail && ` | ${row.detail}`}
+                  </small>
+                </article>
+              ))}
+            </div>
+
+            <div className="inline-actions">
+              {!sent && (
+                <button className="primary-btn" type="button" disabled={sending || !readyCount} onClick={() => void send()}>
+                  {sending ? "Sending..." : `Send ${readyCount} Invite${readyCount === 1 ? "" : "s"}`}
+                </button>
+              )}
+              <button
+                className="ghost-btn"
+                type="button"
+                onClick={() =>
+                  downloadCsv(bulkInviteReportCsv(rows), `team-invite-report-${new Date().toISOString().slice(0, 10)}.csv`)
+                }
+              >
+                Download Report
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </NeonCard>
+  );
+}
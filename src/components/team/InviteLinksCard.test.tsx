@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup, within } from "@testing-library/react";
+import { InviteLinksCard } from "./InviteLinksCard";
+import type { WorkspaceInviteLink } from "@/types/domain";
+
+const link = (overrides: Partial<WorkspaceInviteLink>): WorkspaceInviteLink => ({
+  id: "link-1",
+  workspace_id: "ws-1",
+  role: "editor",
+  can_delete_entries: false,
+  can_manage_categories: false,
+  max_uses: 5,
+  use_count: 1,
+  expires_at: "2099-01-01T00:00:00.000Z",
+  revoked_at: null,
+  created_by: "admin-1",
+  created_at: "2026-10-10T10:00:00.000Z",
+  ...overrides
+});
+
+describe("InviteLinksCard", () => {
+  afterEach(cleanup);
+
+  it("shows each link's state and only lets active links be revoked", async () => {
+    const onRevoke = vi.fn().mockResolvedValue(undefined);
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    render(
+      <InviteLinksCard
+        links={[
+          link({ id: "link-1" }),
+          link({ id: "link-2", max_uses: 1, use_count: 1 }),
+          link({ id: "link-3", revoked_at: "2026-10-11T10:00:00.000Z" })
+        ]}
+        timezone="Asia/Kolkata"
+        onCreate={vi.fn()}
+        onRevoke={onRevoke}
+      />
+    );
+
+    expect(screen.getByText("Active")).toBeTruthy();
+    expect(screen.getByText("Used up")).toBeTruthy();
+    expect(screen.getByText("Revoked")).toBeTruthy();
+    expect(screen.getAllByText("Revoke")).toHaveLength(1);
+
+    const active = screen.getByText("Active").closest("article") as HTMLElement;
+    fireEvent.click(within(active).getByText("Revoke"));
+    await waitFor(() => expect(onRevoke).toHaveBeenCalledWith("link-1"));
+  });
+
+  it("creates a link with the chosen preset and shows it once with a QR code", async () => {
+    const onCreate = vi.fn().mockResolvedValue("tok_123");
+    render(<InviteLinksCard links={[]} timezone="Asia/Kolkata" onCreate={onCreate} onRevoke={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText("Role"), { target: { value: "viewer" } });
+    fireEvent.change(screen.getByLabelText("Uses"), { target: { value: "10" } });
+    fireEvent.click(screen.getByText("Create Invite Link"));
+
+    await waitFor(() =>
+      expect(onCreate).toHaveBeenCalledWith({
+        role: "viewer",
+        can_delete_entries: false,
+        can_manage_categories: false,
+        max_uses: 10,
+        expires_in_days: 7
+      })
+    );
+    const input = (await screen.findByLabelText("Invite link")) as HTMLInputElement;
+    expect(input.value).toContain("?invite=tok_123");
+    expect(await screen.findByAltText("Invite link QR code")).toBeTruthy();
+  });
+});
@@ -0,0 +1,263 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { NeonCard } from "@/components/common/NeonCard";
+import { formatDateTimeInTimeZone } from "@/lib/format";
+import { inviteLinkUrl } from "@/lib/inviteLinks";
+import { ROLE_LABELS } from "@/lib/permissions";
+import type { AppRole, InviteLinkInput, WorkspaceInviteLink } from "@/types/domain";
+
+interface InviteLinksCardProps {
+  links: WorkspaceInviteLink[];
+  timezone: string;
+  onCreate: (input: InviteLinkInput) => Promise<string>;
+  onRevoke: (linkId: string) => Promise<void>;
+}
+
+type LinkState = "active" | "used_up" | "expired" | "revoked";
+
+const LINK_STATE_LABELS: Record<LinkState, string> = {
+  active: "Active",
+  used_up: "Used up",
+  expired: "Expired",
+  revoked: "Revoked"
+};
+
+const USE_OPTIONS = [1, 5, 10, 25];
+const EXPIRY_OPTIONS = [1, 7, 30];
+
+function linkState(link: WorkspaceInviteLink): LinkState {
+  if (link.revoked_at) {
+    return "revoked";
+  }
+  if (Date.parse(link.expires_at) <= Date.now()) {
+    return "expired";
+  }
+  if (link.use_count >= link.max_uses) {
+    return "used_up";
+  }
+  return "active";
+}
+
+function readMessage(err: unknown, fallback: string): string {
+  if (typeof err === "object" && err && "message" in err && typeof err.message === "string" && err.message) {
+    return err.message;
+  }
+  return fallback;
+}
+
+// Links are for people who are not registered yet: opening one leads through sign-up to the invite inbox.
+export function InviteLinksCard({ links, timezone, onCreate, onRevoke }: InviteLinksCardProps): JSX.Element {
+  const [role, setRole] = useState<AppRole>("editor");
+  const [canDelete, setCanDelete] = useState(false);
+  const [canManageCategories, setCanManageCategories] = useState(false);
+  const [maxUses, setMaxUses] = useState(1);
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState("");
+  const [createdUrl, setCreatedUrl] = useState("");
+  const [qrSvg, setQrSvg] = useState("");
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!createdUrl) {
+      setQrSvg("");
+      return;
+    }
+    let cancelled = false;
+    QRCode.toString(createdUrl, { type: "svg", margin: 1 })
+      .then((svg) => {
+        if (!cancelled) {
+          setQrSvg(svg);
+        }
+      })
+      .catch(() => {
+        // The link itself still works without a QR code.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [createdUrl]);
+
+  const create = async (): Promise<void> => {
+    setCreating(true);
+    setError("");
+    setCopied(false);
+    try {
+      const token = await onCreate({
+        role,
+        can_delete_entries: role === "editor" && canDelete,
+        can_manage_categories: role === "editor" && canManageCategories,
+        max_uses: maxUses,
+        expires_in_days: expiresInDays
+      });
+      setCreatedUrl(inviteLinkUrl(token));
+    } catch (err) {
+      setError(readMessage(err, "Could not create invite link."));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const copy = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      setCopied(true);
+    } catch {
+      setError("Could not copy. Select the link and copy it manually.");
+    }
+  };
+
+  const revoke = async (link: WorkspaceInviteLink): Promise<void> => {
+    const ok = window.confirm("Revoke this invite link? Anyone who has not opened it yet will no longer be able to join with it.");
+    if (!ok) {
+      return;
+    }
+    setRevokingId(link.id);
+    setError("");
+    try {
+      await onRevoke(link.id);
+    } catch (err) {
+      setError(readMessage(err, "Could not revoke invite link."));
+    } finally {
+      setRevokingId("");
+    }
+  };
+
+  return (
+    <NeonCard title="Invite Links" subtitle="Share a link or QR code with people who have not signed up yet">
+      <div className="stack">
+        <div className="invite-link-form">
+          <label htmlFor="invite-link-role">Role</label>
+          <select id="invite-link-role" value={role} onChange={(event) => setRole(event.target.value as AppRole)}>
+            <option value="editor">{ROLE_LABELS.editor}</option>
+            <option value="viewer">{ROLE_LABELS.viewer}</option>
+            <option value="admin">{ROLE_LABELS.admin}</option>
+          </select>
+
+          <label htmlFor="invite-link-uses">Uses</label>
+          <select id="invite-link-uses" value={maxUses} onChange={(event) => setMaxUses(Number(event.target.value))}>
+            {USE_OPTIONS.map((value) => (
+              <option key={value} value={value}>
+                {value === 1 ? "Single use" : `Up to ${value} people`}
+              </option>
+            ))}
+          </select>
+
+          <label htmlFor="invite-link-expiry">Expires after</label>
+          <select
+            id="invite-link-expiry"
+            value={expiresInDays}
+            onChange={(event) => setExpiresInDays(Number(event.target.value))}
+          >
+            {EXPIRY_OPTIONS.map((value) => (
+              <option key={value} value={value}>
+                {value === 1 ? "1 day" : `${value} days`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {role === "editor" && (
+          <div className="permission-block">
+            <label className="switch-row switch-row-action" htmlFor="invite-link-delete">
+              <span className="switch-label-text">Allow deleting entries</span>
+              <input
+                className="toggle-input"
+                id="invite-link-delete"
+                type="checkbox"
+                checked={canDelete}
+                onChange={(event) => setCanDelete(event.target.checked)}
+              />
+              <span className="toggle-ui" aria-hidden="true" />
+            </label>
+            <label className="switch-row switch-row-action" htmlFor="invite-link-categories">
+              <span className="switch-label-text">Allow managing categories</span>
+              <input
+                className="toggle-input"
+                id="invite-link-categories"
+                type="checkbox"
+                checked={canManageCategories}
+                onChange={(event) => setCanManageCategories(event.target.checked)}
+              />
+              <span className="toggle-ui" aria-hidden="true" />
+            </label>
+          </div>
+        )}
+
+        <button className="primary-btn" type="button" disabled={creating} onClick={() => void create()}>
+          {creating ? "Creating..." : "Create Invite Link"}
+        </button>
+
+        {createdUrl && (
+          <div className="invite-link-created">
+            <small className="muted">Copy or scan it now. For security the link cannot be shown again.</small>
+            <input aria-label="Invite link" type="text" value={createdUrl} readOnly onFocus={(event) => event.target.select()} />
+            <div className="inline-actions">
+              <button className="secondary-btn" type="button" onClick={() => void copy()}>
+                {copied ? "Copied" : "Copy Link"}
+              </button>
+              <button className="ghost-btn" type="button" onClick={() => setCreatedUrl("")}>
+                Done
+              </button>
+            </div>
+            {qrSvg && (
+              <img
+                className="invite-link-qr"
+                alt="Invite link QR code"
+                src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(qrSvg)}`}
+              />
+            )}
+          </div>
+        )}
+
+        {error && <small className="error-text">{error}</small>}
+
+        <div className="sent-requests-list">
+          {links.map((link) => {
+            const state = linkState(link);
+            return (
+              <article key={link.id} className="sent-request-row">
+                <div className="sent-request-head">
+                  <div className="sent-request-title-wrap">
+                    <strong>{link.max_uses === 1 ? "Single-use link" : `Link for up to ${link.max_uses}`}</strong>
+                    <span className={`member-role-pill member-role-pill-${link.role}`}>{ROLE_LABELS[link.role]}</span>
+                  </div>
+                  <span className={`invite-link-state invite-link-state-${state}`}>{LINK_STATE_LABELS[state]}</span>
+                </div>
+                <small>
+                  Used: {link.use_count} of {link.max_uses}
+                </small>
+                {link.role === "editor" && (
+                  <small>
+                    Delete: {link.can_delete_entries ? "Yes" : "No"} | Categories: {link.can_manage_categories ? "Yes" : "No"}
+                  </small>
+                )}
+                <small>Created: {formatDateTimeInTimeZone(link.created_at, timezone)}</small>
+                <small>
+                  {state === "revoked" && link.revoked_at
+                    ? `Revoked: ${formatDateTimeInTimeZone(link.revoked_at, timezone)}`
+                    : `${state === "expired" ? "Expired" : "Expires"}: ${formatDateTimeInTimeZone(link.expires_at, timezone)}`}
+                </small>
+                {state === "active" && (
+                  <div className="sent-request-actions">
+                    <button
+                      className="ghost-btn sent-request-cancel-btn"
+                      type="button"
+                      disabled={revokingId === link.id}
+                      onClick={() => void revoke(link)}
+                    >
+                      {revokingId === link.id ? "Revoking..." : "Revoke"}
+                    </button>
+                  </div>
+                )}
+              </article>
+            );
+          })}
+        </div>
+
+        {!links.length && <p className="muted">No invite links yet.</p>}
+      </div>
+    </NeonCard>
+  );
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
+import { OwnershipCard } from "./OwnershipCard";
+import type { WorkspaceMemberDirectory, WorkspaceOwnershipTransfer } from "@/types/domain";
+
+const member = (userId: string, fullName: string, role: WorkspaceMemberDirectory["role"]): WorkspaceMemberDirectory => ({
+  workspace_id: "ws-1",
+  user_id: userId,
+  role,
+  can_delete_entries: role === "admin",
+  can_manage_categories: role === "admin",
+  can_manage_users: role === "admin",
+  dashboard_scope: "full",
+  access_disabled: false,
+  custom_role_id: null,
+  disabled_until: null,
+  disable_reason: null,
+  full_name: fullName,
+  email: null,
+  phone: null
+});
+
+const members = [member("owner-1", "Priya", "admin"), member("user-2", "Rahul", "editor")];
+
+const pending: WorkspaceOwnershipTransfer = {
+  id: "t-1",
+  workspace_id: "ws-1",
+  from_user_id: "owner-1",
+  to_user_id: "user-2",
+  status: "pending",
+  requested_at: "2026-10-18T10:00:00.000Z"
+};
+
+describe("OwnershipCard", () => {
+  afterEach(cleanup);
+
+  it("lets the owner propose a transfer after confirming", async () => {
+    const onPropose = vi.fn().mockResolvedValue(undefined);
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    render(
+      <OwnershipCard
+        members={members}
+        currentUserId="owner-1"
+        ownerId="owner-1"
+        transfer={null}
+        onPropose={onPropose}
+        onRespond={vi.fn()}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText("New owner"), { target: { value: "user-2" } });
+    fireEvent.click(screen.getByText("Propose Transfer"));
+
+    await waitFor(() => expect(onPropose).toHaveBeenCalledWith("user-2"));
+    expect(window.confirm).toHaveBeenCalledWith(expect.stringContaining("Rahul"));
+  });
+
+  it("asks the proposed owner to accept and hides itself from everyone else", async () => {
+    const onRespond = vi.fn().mockResolvedValue(undefined);
+    const { rerender } = render(
+      <OwnershipCard
+        members={[]}
+        currentUserId="user-2"
+        ownerId="owner-1"
+        transfer={pending}
+        onPropose={vi.fn()}
+        onRespond={onRespond}
+      />
+    );
+
+    fireEvent.click(screen.getByText("Accept Ownership"));
+    await waitFor(() => expect(onRespond).toHaveBeenCalledWith("t-1", "accept"));
+
+    rerender(
+      <OwnershipCard
+        members={[]}
+        currentUserId="user-3"
+        ownerId="owner-1"
+        transfer={pending}
+        onPropose={vi.fn()}
+        onRespond={onRespond}
+      />
+    );
+    expect(screen.queryByText("Workspace Ownership")).toBeNull();
+  });
+});
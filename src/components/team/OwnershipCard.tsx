@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import type { OwnershipTransferDecision, WorkspaceMemberDirectory, WorkspaceOwnershipTransfer } from "@/types/domain";
+
+interface OwnershipCardProps {
+  members: WorkspaceMemberDirectory[];
+  currentUserId: string;
+  ownerId: string;
+  transfer: WorkspaceOwnershipTransfer | null;
+  onPropose: (toUserId: string) => Promise<void>;
+  onRespond: (transferId: string, decision: OwnershipTransferDecision) => Promise<void>;
+}
+
+// Owner proposes, the new owner accepts; the card renders only for the two people involved.
+export function OwnershipCard({
+  members,
+  currentUserId,
+  ownerId,
+  transfer,
+  onPropose,
+  onRespond
+}: OwnershipCardProps): JSX.Element | null {
+  const [targetId, setTargetId] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const isOwner = currentUserId === ownerId;
+  const isRecipient = transfer?.to_user_id === currentUserId;
+  if (!isOwner && !isRecipient) {
+    return null;
+  }
+
+  const nameOf = (userId: string): string => {
+    const item = members.find((row) => row.user_id === userId);
+    return item?.full_name || item?.email || item?.phone || "a team member";
+  };
+  const candidates = members.filter((item) => item.user_id !== currentUserId && !item.access_disabled);
+
+  const run = async (action: () => Promise<void>): Promise<void> => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not update the ownership transfer.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const propose = (): void => {
+    if (!targetId) {
+      setError("Choose the member who should own this workspace.");
+      return;
+    }
+    const ok = window.confirm(
+      `Offer ownership of this workspace to ${nameOf(targetId)}? Once they accept, they become the owner and an admin. You stay an admin.`
+    );
+    if (!ok) {
+      return;
+    }
+    void run(async () => {
+      await onPropose(targetId);
+      setTargetId("");
+    });
+  };
+
+  if (isRecipient && transfer) {
+    return (
+      <NeonCard title="Workspace Ownership" subtitle="You have been offered ownership of this workspace.">
+        <div className="stack">
+          <p className="muted">
+            Accepting makes you the owner and an admin. The owner cannot be demoted or removed until ownership moves again.
+          </p>
+          <div className="inline-actions">
+            <button
+              className="ghost-btn"
+              type="button"
+              disabled={busy}
+              onClick={() => void run(() => onRespond(transfer.id, "decline"))}
+            >
+              Decline
+            </button>
+            <button
+              className="save-btn"
+              type="button"
+              disabled={busy}
+              onClick={() => void run(() => onRespond(transfer.id, "accept"))}
+            >
+              Accept Ownership
+            </button>
+          </div>
+          {error && <small className="error-text">{error}</small>}
+        </div>
+      </NeonCard>
+    );
+  }
+
+  return (
+    <NeonCard title="Workspace Ownership" subtitle="You own this workspace. Hand it over before you step back.">
+      <div className="stack">
+        {transfer ? (
+          <>
+            <p className="muted">Waiting for {nameOf(transfer.to_user_id)} to accept ownership.</p>
+            <div className="inline-actions">
+              <button
+                className="ghost-btn"
+                type="button"
+                disabled={busy}
+                onClick={() => void run(() => onRespond(transfer.id, "cancel"))}
+              >
+                Cancel Transfer
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <label htmlFor="ownership-target">New owner</label>
+            <select id="ownership-target" value={targetId} onChange={(event) => setTargetId(event.target.value)}>
+              <option value="">Choose a member</option>
+              {candidates.map((item) => (
+                <option key={item.user_id} value={item.user_id}>
+                  {item.full_name || item.email || item.phone || item.user_id}
+                </option>
+              ))}
+            </select>
+            <button className="save-btn" type="button" disabled={busy || !candidates.length} onClick={propose}>
+              {busy ? "Sending..." : "Propose Transfer"}
+            </button>
+            {!candidates.length && <small className="muted">Add another active member first.</small>}
+          </>
+        )}
+        {error && <small className="error-text">{error}</small>}
+      </div>
+    </NeonCard>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSION_KEYS, PERMISSION_LABELS, pickPermissions } from "@/lib/permissions";
+import type { MemberPermissions, WorkspaceRole, WorkspaceRoleInput } from "@/types/domain";
+
+interface RolesCardProps {
+  roles: WorkspaceRole[];
+  // Members currently on each role; a role in use cannot be deleted.
+  memberCounts: Map<string, number>;
+  onSave: (roleId: string | null, input: WorkspaceRoleInput) => Promise<void>;
+  onDelete: (roleId: string) => Promise<void>;
+}
+
+interface RoleFormProps {
+  initialName: string;
+  initialPermissions: MemberPermissions;
+  submitLabel: string;
+  onSubmit: (input: WorkspaceRoleInput) => Promise<void>;
+  onCancel?: () => void;
+}
+
+function RoleForm({ initialName, initialPermissions, submitLabel, onSubmit, onCancel }: RoleFormProps): JSX.Element {
+  const [name, setName] = useState(initialName);
+  const [permissions, setPermissions] = useState<MemberPermissions>(initialPermissions);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const submit = async (): Promise<void> => {
+    if (!name.trim()) {
+      setError("Role name is required.");
+      return;
+    }
+    setSaving(true);
+    setError("");
+    try {
+      await onSubmit({ name, ...permissions });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save role.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="stack role-form">
+      <input
+        aria-label="Role name"
+        type="text"
+        placeholder="Role name, e.g. Cashier"
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+      />
+      <div className="role-permission-grid">
+        {PERMISSION_KEYS.map((key) => (
+          <label key={key} className="role-permission-option">
+            <input
+              type="checkbox"
+              checked={permissions[key]}
+              onChange={(event) => setPermissions((prev) => ({ ...prev, [key]: event.target.checked }))}
+            />
+            {PERMISSION_LABELS[key]}
+          </label>
+        ))}
+      </div>
+      <small className="muted">
+        Export only controls the statement download. Every member can still browse all entries in History.
+      </small>
+      <div className="inline-actions">
+        {onCancel && (
+          <button className="ghost-btn" type="button" onClick={onCancel} disabled={saving}>
+            Cancel
+          </button>
+        )}
+        <button className="save-btn" type="button" onClick={() => void submit()} disabled={saving}>
+          {saving ? "Saving..." : submitLabel}
+        </button>
+      </div>
+      {error && <small className="error-text">{error}</small>}
+    </div>
+  );
+}
+
+export function RolesCard({ roles, memberCounts, onSave, onDelete }: RolesCardProps): JSX.Element {
+  const [editingId, setEditingId] = useState("");
+  const [formKey, setFormKey] = useState(0);
+  const [deletingId, setDeletingId] = useState("");
+  const [error, setError] = useState("");
+
+  const remove = async (role: WorkspaceRole): Promise<void> => {
+    setDeletingId(role.id);
+    setError("");
+    try {
+      await onDelete(role.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not delete role.");
+    } finally {
+      setDeletingId("");
+    }
+  };
+
+  return (
+    <NeonCard title="Roles" subtitle="Custom roles with their own permissions. Admins always have every permission.">
+      <div className="stack">
+        {roles.map((role) => {
+          const count = memberCounts.get(role.id) ?? 0;
+          return editingId === role.id ? (
+            <RoleForm
+              key={role.id}
+              initialName={role.name}
+              initialPermissions={pickPermissions(role)}
+              submitLabel="Save Role"
+              onSubmit={async (input) => {
+                await onSave(role.id, input);
+                setEditingId("");
+              }}
+              onCancel={() => setEditingId("")}
+            />
+          ) : (
+            <article key={role.id} className="member-row">
+              <div>
+                <div className="member-title-row">
+                  <strong>{role.name}</strong>
+                  <small className="muted">{count === 1 ? "1 member" : `${count} members`}</small>
+                </div>
+                <div className="member-badges">
+                  {PERMISSION_KEYS.filter((key) => role[key]).map((key) => (
+                    <span key={key} className="category-type-badge category-type-neutral">
+                      {PERMISSION_LABELS[key]}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div className="inline-actions">
+                <button className="text-btn" type="button" onClick={() => setEditingId(role.id)}>
+                  Edit
+                </button>
+                <button
+                  className="reject-btn"
+                  type="button"
+                  disabled={count > 0 || deletingId === role.id}
+                  title={count > 0 ? "Move its members to another role first" : undefined}
+                  onClick={() => void remove(role)}
+                >
+                  {deletingId === role.id ? "Deleting..." : "Delete"}
+                </button>
+              </div>
+            </article>
+          );
+        })}
+        {!roles.length && <p className="muted">No custom roles yet. Members use the editor toggles until you add one.</p>}
+        {error && <small className="error-text">{error}</small>}
+
+        <h4>New role</h4>
+        <RoleForm
+          key={formKey}
+          initialName=""
+          initialPermissions={DEFAULT_ROLE_PERMISSIONS}
+          submitLabel="Add Role"
+          onSubmit={async (input) => {
+            await onSave(null, input);
+            setFormKey((prev) => prev + 1);
+          }}
+        />
+      </div>
+    </NeonCard>
+  );
+}
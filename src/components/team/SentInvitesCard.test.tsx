@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup, within } from "@testing-library/react";
+import { SentInvitesCard } from "./SentInvitesCard";
+import type { WorkspaceAccessRequestSent } from "@/types/domain";
+
+const invite = (overrides: Partial<WorkspaceAccessRequestSent>): WorkspaceAccessRequestSent => ({
+  id: "req-1",
+  workspace_id: "ws-1",
+  target_user_id: "user-2",
+  target_name: "Rahul",
+  target_email: "rahul@example.com",
+  target_phone: null,
+  contact: "rahul@example.com",
+  requested_by: "admin-1",
+  role: "editor",
+  can_delete_entries: false,
+  can_manage_categories: false,
+  status: "pending",
+  requested_at: "2026-10-10T10:00:00.000Z",
+  reviewed_at: null,
+  note: null,
+  expires_at: "2026-10-17T10:00:00.000Z",
+  resent_at: null,
+  resend_count: 0,
+  delivery_status: "email_sent",
+  delivery_updated_at: "2026-10-10T10:00:05.000Z",
+  ...overrides
+});
+
+describe("SentInvitesCard", () => {
+  afterEach(cleanup);
+
+  it("groups invites by status and shows delivery state", () => {
+    render(
+      <SentInvitesCard
+        requests={[
+          invite({ id: "req-1" }),
+          invite({ id: "req-2", target_name: "Meena", status: "expired", delivery_status: "not_delivered" }),
+          invite({ id: "req-3", target_name: "Arjun", status: "rejected", delivery_status: null })
+        ]}
+        timezone="Asia/Kolkata"
+        onRefresh={vi.fn()}
+        onCancel={vi.fn()}
+        onResend={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText("Pending (1)")).toBeTruthy();
+    expect(screen.getByText("Expired (1)")).toBeTruthy();
+    expect(screen.getByText("Rejected (1)")).toBeTruthy();
+    expect(screen.queryByText("Accepted (0)")).toBeNull();
+    expect(screen.getByText("Delivery: Email sent")).toBeTruthy();
+    expect(screen.getByText("Delivery: Not delivered")).toBeTruthy();
+
+    const rejected = screen.getByText("Arjun").closest("article") as HTMLElement;
+    expect(within(rejected).queryByText("Resend")).toBeNull();
+    expect(within(rejected).queryByText(/Delivery:/)).toBeNull();
+  });
+
+  it("resends an expired invite without offering cancel", async () => {
+    const onResend = vi.fn().mockResolvedValue(undefined);
+    render(
+      <SentInvitesCard
+        requests={[invite({ status: "expired" })]}
+        timezone="Asia/Kolkata"
+        onRefresh={vi.fn()}
+        onCancel={vi.fn()}
+        onResend={onResend}
+      />
+    );
+
+    expect(screen.queryByText("Cancel request")).toBeNull();
+    fireEvent.click(screen.getByText("Resend"));
+    await waitFor(() => expect(onResend).toHaveBeenCalledWith("req-1"));
+  });
+});
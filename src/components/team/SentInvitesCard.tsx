@@ -0,0 +1,173 @@
+import { useMemo, useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { formatDateTimeInTimeZone } from "@/lib/format";
+import { ROLE_LABELS } from "@/lib/permissions";
+import type { AccessRequestStatus, InviteDeliveryStatus, WorkspaceAccessRequestSent } from "@/types/domain";
+
+interface SentInvitesCardProps {
+  requests: WorkspaceAccessRequestSent[];
+  loadError?: string;
+  timezone: string;
+  onRefresh: () => Promise<void>;
+  onCancel: (requestId: string) => Promise<void>;
+  onResend: (requestId: string) => Promise<void>;
+}
+
+const STATUS_ORDER: AccessRequestStatus[] = ["pending", "expired", "accepted", "rejected", "cancelled"];
+
+const STATUS_LABELS: Record<AccessRequestStatus, string> = {
+  pending: "Pending",
+  expired: "Expired",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  cancelled: "Cancelled"
+};
+
+const DELIVERY_LABELS: Record<InviteDeliveryStatus, string> = {
+  pending: "Sending...",
+  email_sent: "Email sent",
+  sms_sent: "SMS sent",
+  email_and_sms_sent: "Email and SMS sent",
+  not_delivered: "Not delivered"
+};
+
+export function SentInvitesCard({
+  requests,
+  loadError = "",
+  timezone,
+  onRefresh,
+  onCancel,
+  onResend
+}: SentInvitesCardProps): JSX.Element {
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyId, setBusyId] = useState("");
+  const [busyAction, setBusyAction] = useState<"cancel" | "resend" | "">("");
+
+  const groups = useMemo(
+    () =>
+      STATUS_ORDER.map((status) => ({
+        status,
+        rows: requests.filter((request) => request.status === status)
+      })).filter((group) => group.rows.length > 0),
+    [requests]
+  );
+
+  const run = async (requestId: string, action: "cancel" | "resend"): Promise<void> => {
+    setBusyId(requestId);
+    setBusyAction(action);
+    try {
+      await (action === "cancel" ? onCancel(requestId) : onResend(requestId));
+    } finally {
+      setBusyId("");
+      setBusyAction("");
+    }
+  };
+
+  return (
+    <NeonCard title="Sent Access Requests" subtitle="Requests sent to user email/mobile for this workspace">
+      <div className="stack">
+        <p className="muted">Accepted users are listed above in Team Members.</p>
+
+        <div className="sent-requests-head">
+          <div>
+            <small className="muted">Invites expire after 7 days. Resend one to give it another 7 days.</small>
+          </div>
+          <button
+            className="ghost-btn"
+            type="button"
+            disabled={refreshing}
+            onClick={() => {
+              void (async () => {
+                setRefreshing(true);
+                try {
+                  await onRefresh();
+                } finally {
+                  setRefreshing(false);
+                }
+              })();
+            }}
+          >
+            {refreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+
+        {loadError && <small className="error-text">Could not load sent requests: {loadError}</small>}
+
+        {groups.map((group) => (
+          <div key={group.status} className="sent-requests-group">
+            <strong className="sent-requests-group-title">
+              {STATUS_LABELS[group.status]} ({group.rows.length})
+            </strong>
+            <div className="sent-requests-list">
+              {group.rows.map((request) => {
+                const contact = request.contact || request.target_email || request.target_phone || request.target_user_id;
+                const targetLabel = request.target_name || contact;
+                const busy = busyId === request.id;
+                const open = request.status === "pending" || request.status === "expired";
+                return (
+                  <article key={request.id} className="sent-request-row">
+                    <div className="sent-request-head">
+                      <div className="sent-request-title-wrap">
+                        <strong>{targetLabel}</strong>
+                        <span className={`member-role-pill member-role-pill-${request.role}`}>{ROLE_LABELS[request.role]}</span>
+                      </div>
+                      <span className={`sent-request-status sent-request-status-${request.status}`}>
+                        {STATUS_LABELS[request.status]}
+                      </span>
+                    </div>
+                    <small>Contact: {contact}</small>
+                    <small>
+                      Delete: {request.can_delete_entries ? "Yes" : "No"} | Categories: {request.can_manage_categories ? "Yes" : "No"}
+                    </small>
+                    <small>
+                      Sent: {formatDateTimeInTimeZone(request.resent_at ?? request.requested_at, timezone)}
+                      {request.resend_count > 0 && ` (resent ${request.resend_count}x)`}
+                    </small>
+                    {request.status === "pending" && (
+                      <small>Expires: {formatDateTimeInTimeZone(request.expires_at, timezone)}</small>
+                    )}
+                    {request.status === "expired" && (
+                      <small>Expired: {formatDateTimeInTimeZone(request.expires_at, timezone)}</small>
+                    )}
+                    {request.reviewed_at && request.status !== "expired" && (
+                      <small>Reviewed: {formatDateTimeInTimeZone(request.reviewed_at, timezone)}</small>
+                    )}
+                    {request.delivery_status && (
+                      <small className={`sent-request-delivery sent-request-delivery-${request.delivery_status}`}>
+                        Delivery: {DELIVERY_LABELS[request.delivery_status]}
+                      </small>
+                    )}
+                    {open && (
+                      <div className="sent-request-actions">
+                        <button
+                          className="ghost-btn"
+                          type="button"
+                          disabled={busy}
+                          onClick={() => void run(request.id, "resend")}
+                        >
+                          {busy && busyAction === "resend" ? "Resending..." : "Resend"}
+                        </button>
+                        {request.status === "pending" && (
+                          <button
+                            className="ghost-btn sent-request-cancel-btn"
+                            type="button"
+                            disabled={busy}
+                            onClick={() => void run(request.id, "cancel")}
+                          >
+                            {busy && busyAction === "cancel" ? "Cancelling..." : "Cancel request"}
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </article>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        {!requests.length && !loadError && <p className="muted">No access requests sent yet for this workspace.</p>}
+      </div>
+    </NeonCard>
+  );
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
+import { WorkspaceSettingsCard } from "./WorkspaceSettingsCard";
+import type { Workspace } from "@/types/domain";
+
+const workspace: Workspace = {
+  id: "ws-1",
+  name: "Green Bowl",
+  industry: "Restaurant",
+  timezone: "UTC",
+  currency: "USD",
+  opening_balance: 0,
+  created_by: "user-1",
+  owner_id: "user-1",
+  created_at: "2026-03-01T09:00:00.000Z"
+};
+
+describe("WorkspaceSettingsCard", () => {
+  afterEach(cleanup);
+
+  it("warns that a currency change does not convert past amounts before saving", async () => {
+    const onSave = vi.fn().mockResolvedValue(undefined);
+    render(<WorkspaceSettingsCard workspace={workspace} onSave={onSave} />);
+
+    expect((screen.getByText("Save Workspace") as HTMLButtonElement).disabled).toBe(true);
+    expect(screen.queryByRole("alert")).toBeNull();
+
+    fireEvent.change(screen.getByLabelText("Business Name"), { target: { value: "Green Bowl Kitchen" } });
+    fireEvent.change(screen.getByLabelText("Currency"), { target: { value: "inr" } });
+
+    expect(screen.getByRole("alert").textContent).toContain("not converted");
+
+    fireEvent.click(screen.getByText("Save Workspace"));
+    await waitFor(() =>
+      expect(onSave).toHaveBeenCalledWith({
+        name: "Green Bowl Kitchen",
+        industry: "Restaurant",
+        currency: "INR",
+        timezone: "UTC"
+      })
+    );
+  });
+
+  it("rejects a currency that is not a 3-letter code", () => {
+    const onSave = vi.fn();
+    render(<WorkspaceSettingsCard workspace={workspace} onSave={onSave} />);
+
+    fireEvent.change(screen.getByLabelText("Currency"), { target: { value: "US" } });
+    fireEvent.click(screen.getByText("Save Workspace"));
+
+    expect(screen.getByText("Currency must be a 3-letter code, e.g. USD.")).toBeTruthy();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { industries } from "@/data/industries";
+import { timeZoneOptions } from "@/lib/timezones";
+import type { Workspace, WorkspaceSettingsInput } from "@/types/domain";
+
+interface WorkspaceSettingsCardProps {
+  workspace: Workspace;
+  onSave: (input: WorkspaceSettingsInput) => Promise<void>;
+}
+
+function toDraft(workspace: Workspace): WorkspaceSettingsInput {
+  return {
+    name: workspace.name,
+    industry: workspace.industry,
+    currency: workspace.currency,
+    timezone: workspace.timezone
+  };
+}
+
+export function WorkspaceSettingsCard({ workspace, onSave }: WorkspaceSettingsCardProps): JSX.Element {
+  const [draft, setDraft] = useState<WorkspaceSettingsInput>(() => toDraft(workspace));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  // Workspace reloads on every realtime event; only a real settings change (e.g. another admin's save) resets the form.
+  useEffect(() => {
+    setDraft(toDraft(workspace));
+  }, [workspace.name, workspace.industry, workspace.currency, workspace.timezone]);
+
+  const zones = useMemo(() => {
+    const options = timeZoneOptions();
+    return options.some((item) => item.zone === workspace.timezone)
+      ? options
+      : [{ zone: workspace.timezone, label: workspace.timezone }, ...options];
+  }, [workspace.timezone]);
+
+  // Older workspaces may carry an industry that is no longer in the list; keep it selectable.
+  const industryOptions: string[] = industries.includes(workspace.industry as (typeof industries)[number])
+    ? [...industries]
+    : [workspace.industry, ...industries];
+
+  const currencyChanged = draft.currency !== workspace.currency;
+  const dirty =
+    draft.name.trim() !== workspace.name ||
+    draft.industry !== workspace.industry ||
+    currencyChanged ||
+    draft.timezone !== workspace.timezone;
+
+  const update = (patch: Partial<WorkspaceSettingsInput>): void => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+  };
+
+  const save = async (): Promise<void> => {
+    if (!draft.name.trim()) {
+      setError("Workspace name is required.");
+      return;
+    }
+    if (!/^[A-Z]{3}$/.test(draft.currency)) {
+      setError("Currency must be a 3-letter code, e.g. USD.");
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+    try {
+      await onSave(draft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save workspace settings.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <NeonCard title="Workspace" subtitle="Name, industry, currency and timezone shared by every member.">
+      <div className="stack">
+        <label htmlFor="workspace-name">Business Name</label>
+        <input id="workspace-name" value={draft.name} onChange={(event) => update({ name: event.target.value })} />
+
+        <label htmlFor="workspace-industry">Industry</label>
+        <select
+          id="workspace-industry"
+          value={draft.industry}
+          onChange={(event) => update({ industry: event.target.value })}
+        >
+          {industryOptions.map((item) => (
+            <option key={item} value={item}>
+              {item}
+            </option>
+          ))}
+        </select>
+
+        <div className="grid-2">
+          <div>
+            <label htmlFor="workspace-currency">Currency</label>
+            <input
+              id="workspace-currency"
+              maxLength={3}
+              value={draft.currency}
+              onChange={(event) => update({ currency: event.target.value.toUpperCase() })}
+            />
+          </div>
+          <div>
+            <label htmlFor="workspace-settings-timezone">Timezone</label>
+            <select
+              id="workspace-settings-timezone"
+              value={draft.timezone}
+              onChange={(event) => update({ timezone: event.target.value })}
+            >
+              {zones.map((item) => (
+                <option key={item.zone} value={item.zone}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {currencyChanged && (
+          <p className="workspace-currency-warning" role="alert">
+            Changing the currency only changes the symbol. Amounts already recorded in {workspace.currency} are
+            not converted, so past entries, balances and reports keep the same numbers in {draft.currency}.
+          </p>
+        )}
+
+        <div className="inline-actions">
+          <button
+            className="ghost-btn"
+            type="button"
+            onClick={() => {
+              setDraft(toDraft(workspace));
+              setError("");
+            }}
+            disabled={saving || !dirty}
+          >
+            Reset
+          </button>
+          <button className="save-btn" type="button" onClick={() => void save()} disabled={saving || !dirty}>
+            {saving ? "Saving..." : "Save Workspace"}
+          </button>
+        </div>
+        {error && <small className="error-text">{error}</small>}
+      </div>
+    </NeonCard>
+  );
+}
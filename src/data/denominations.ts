@@ -0,0 +1,32 @@
+export interface CurrencyDenominations {
+  notes: number[];
+  coins: number[];
+}
+
+const fallback: CurrencyDenominations = {
+  notes: [100, 50, 20, 10, 5],
+  coins: [2, 1, 0.5, 0.25, 0.1, 0.05, 0.01]
+};
+
+const byCurrency: Record<string, CurrencyDenominations> = {
+  INR: { notes: [500, 200, 100, 50, 20, 10], coins: [20, 10, 5, 2, 1] },
+  USD: { notes: [100, 50, 20, 10, 5, 2, 1], coins: [1, 0.5, 0.25, 0.1, 0.05, 0.01] },
+  CAD: { notes: [100, 50, 20, 10, 5], coins: [2, 1, 0.25, 0.1, 0.05] },
+  GBP: { notes: [50, 20, 10, 5], coins: [2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01] },
+  EUR: { notes: [500, 200, 100, 50, 20, 10, 5], coins: [2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01] },
+  AUD: { notes: [100, 50, 20, 10, 5], coins: [2, 1, 0.5, 0.2, 0.1, 0.05] },
+  AED: { notes: [1000, 500, 200, 100, 50, 20, 10, 5], coins: [1, 0.5, 0.25] },
+  SGD: { notes: [1000, 100, 50, 10, 5, 2], coins: [1, 0.5, 0.2, 0.1, 0.05] },
+  MYR: { notes: [100, 50, 20, 10, 5, 1], coins: [0.5, 0.2, 0.1, 0.05] },
+  ZAR: { notes: [200, 100, 50, 20, 10], coins: [5, 2, 1, 0.5, 0.2, 0.1] },
+  BRL: { notes: [200, 100, 50, 20, 10, 5, 2], coins: [1, 0.5, 0.25, 0.1, 0.05] },
+  MXN: { notes: [1000, 500, 200, 100, 50, 20], coins: [20, 10, 5, 2, 1, 0.5] },
+  JPY: { notes: [10000, 5000, 2000, 1000], coins: [500, 100, 50, 10, 5, 1] },
+  KRW: { notes: [50000, 10000, 5000, 1000], coins: [500, 100, 50, 10] },
+  IDR: { notes: [100000, 50000, 20000, 10000, 5000, 2000, 1000], coins: [1000, 500, 200, 100] },
+  PHP: { notes: [1000, 500, 200, 100, 50, 20], coins: [20, 10, 5, 1, 0.25] }
+};
+
+export function getDenominations(currency: string): CurrencyDenominations {
+  return byCurrency[currency.toUpperCase()] ?? fallback;
+}
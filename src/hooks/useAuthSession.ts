@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { Session } from "@supabase/supabase-js";
+import { authRedirectUrl } from "@/lib/inviteLinks";
 import { supabase, supabaseAnonKey, supabaseUrl } from "@/lib/supabase";
 import { trackTelemetry } from "@/lib/telemetry";
 
@@ -338,7 +339,7 @@ export function useAuthSession(): AuthHook {
         email: input.email.trim(),
         password: input.password,
         options: {
-          emailRedirectTo: window.location.origin,
+          emailRedirectTo: authRedirectUrl(),
           data: {
             full_name: input.fullName,
             phone: input.phone,
@@ -398,7 +399,7 @@ export function useAuthSession(): AuthHook {
         const result = await sb.auth.signInWithOAuth({
           provider: "google",
           options: {
-            redirectTo: window.location.origin,
+            redirectTo: authRedirectUrl(),
             skipBrowserRedirect: true,
             queryParams
           }
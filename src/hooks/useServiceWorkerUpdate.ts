@@ -0,0 +1,10 @@
+import { useEffect, useState } from "react";
+import { applyServiceWorkerUpdate, subscribeToServiceWorkerUpdate } from "@/registerSW";
+
+export function useServiceWorkerUpdate(): { updateAvailable: boolean; applyUpdate: () => void } {
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+
+  useEffect(() => subscribeToServiceWorkerUpdate(setUpdateAvailable), []);
+
+  return { updateAvailable, applyUpdate: applyServiceWorkerUpdate };
+}
@@ -0,0 +1,146 @@
+import { formatCurrency } from "@/lib/format";
+import type { AuditLogRow } from "@/types/domain";
+
+// Every action written to audit_logs by the migrations. Unknown actions fall back to the raw key.
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  workspace_created: "Workspace created",
+  workspace_settings_updated: "Workspace settings updated",
+  opening_balance_updated: "Opening balance updated",
+  entry_created: "Entry added",
+  entry_deleted: "Entry deleted",
+  delete_request_approved: "Delete request approved",
+  delete_request_rejected: "Delete request rejected",
+  edit_request_approved: "Edit request approved",
+  edit_request_rejected: "Edit request rejected",
+  categories_merged: "Categories merged",
+  day_closed: "Day closed",
+  shift_opened: "Shift opened",
+  shift_closed: "Shift closed",
+  recurring_entry_posted: "Recurring entry posted",
+  recurring_entry_skipped: "Recurring entry skipped",
+  workspace_member_granted: "Member added",
+  workspace_member_revoked: "Member revoked",
+  workspace_member_temporarily_disabled: "Member disabled",
+  workspace_member_access_restored: "Member restored",
+  workspace_access_requested: "Access requested",
+  workspace_access_accepted: "Access request accepted",
+  workspace_access_rejected: "Access request rejected",
+  workspace_access_cancelled: "Access request cancelled",
+  workspace_access_resent: "Access request resent",
+  workspace_ownership_transfer_proposed: "Ownership transfer proposed",
+  workspace_ownership_transferred: "Ownership transferred",
+  workspace_ownership_transfer_declined: "Ownership transfer declined",
+  workspace_ownership_transfer_cancelled: "Ownership transfer cancelled",
+  workspace_invite_link_created: "Invite link created",
+  workspace_invite_link_revoked: "Invite link revoked",
+  workspace_invite_link_redeemed: "Invite link opened"
+};
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  workspace: "Workspace",
+  entry: "Entry",
+  delete_request: "Delete request",
+  entry_edit_request: "Edit request",
+  category: "Category",
+  day_closing: "Day closing",
+  shift: "Shift",
+  recurring_entry: "Recurring entry",
+  workspace_member: "Member",
+  workspace_access_request: "Access request",
+  workspace_ownership_transfer: "Ownership transfer",
+  workspace_invite_link: "Invite link"
+};
+
+export function auditActionLabel(action: string): string {
+  return AUDIT_ACTION_LABELS[action] ?? action;
+}
+
+function metaText(row: AuditLogRow, key: string): string {
+  const value = row.meta?.[key];
+  return typeof value === "string" || typeof value === "number" ? String(value) : "";
+}
+
+function metaAmount(row: AuditLogRow, key: string, currency: string): string {
+  const value = Number(row.meta?.[key]);
+  return Number.isFinite(value) ? formatCurrency(value, currency) : "";
+}
+
+// One readable sentence per row, e.g. "Priya revoked Rahul" or "Entry ₹500.00 deleted after request approval".
+export function describeAuditLog(row: AuditLogRow, currency: string): string {
+  const actor = row.actor_name || "System";
+  const subject = row.subject_name || metaText(row, "contact") || "a member";
+  const amount = metaAmount(row, "amount", currency);
+
+  switch (row.action) {
+    case "workspace_created":
+      return `${actor} created the workspace`;
+    case "workspace_settings_updated": {
+      const fields = Object.keys(row.meta ?? {});
+      return fields.length ? `${actor} changed workspace ${fields.join(", ")}` : `${actor} updated workspace settings`;
+    }
+    case "opening_balance_updated":
+      return `${actor} set the opening balance to ${metaAmount(row, "new", currency)}`;
+    case "entry_created":
+      return `${actor} added an entry of ${amount}`;
+    case "entry_deleted":
+      return row.meta?.delete_request_id
+        ? `Entry ${amount} deleted after request approval`
+        : `${actor} deleted an entry of ${amount}`;
+    case "delete_request_approved":
+      return `${actor} approved ${subject}'s delete request`;
+    case "delete_request_rejected":
+      return `${actor} rejected ${subject}'s delete request`;
+    case "edit_request_approved":
+      return `${actor} approved ${subject}'s edit request`;
+    case "edit_request_rejected":
+      return `${actor} rejected ${subject}'s edit request`;
+    case "categories_merged":
+      return `${actor} merged ${metaText(row, "source_name")} into ${metaText(row, "target_name")}`;
+    case "day_closed":
+      return `${actor} closed ${metaText(row, "business_date")} with ${metaAmount(row, "counted_total", currency)} counted`;
+    case "shift_opened":
+      return `${actor} opened a shift with ${metaAmount(row, "opening_float", currency)} float`;
+    case "shift_closed":
+      return row.subject_user_id && row.subject_user_id !== row.actor_user_id
+        ? `${actor} closed ${subject}'s shift`
+        : `${actor} closed their shift`;
+    case "recurring_entry_posted":
+      return `${actor} posted a recurring entry due ${metaText(row, "due_date")}`;
+    case "recurring_entry_skipped":
+      return `${actor} skipped a recurring entry due ${metaText(row, "due_date")}`;
+    case "workspace_member_granted":
+      return `${actor} added ${subject}`;
+    case "workspace_member_revoked":
+      return `${actor} revoked ${subject}`;
+    case "workspace_member_temporarily_disabled":
+      return `${actor} disabled ${subject}`;
+    case "workspace_member_access_restored":
+      return `${actor} restored ${subject}`;
+    case "workspace_access_requested":
+      return `${actor} invited ${subject}`;
+    case "workspace_access_accepted":
+      return `${actor} accepted the invite`;
+    case "workspace_access_rejected":
+      return `${actor} declined the invite`;
+    case "workspace_access_cancelled":
+      return `${actor} cancelled the invite for ${subject}`;
+    case "workspace_access_resent":
+      return `${actor} resent the invite to ${subject}`;
+    case "workspace_ownership_transfer_proposed":
+      return `${actor} offered workspace ownership to ${subject}`;
+    case "workspace_ownership_transferred":
+      return `${actor} accepted workspace ownership`;
+    case "workspace_ownership_transfer_declined":
+      return `${actor} declined workspace ownership`;
+    case "workspace_ownership_transfer_cancelled":
+      return `${actor} cancelled the ownership transfer to ${subject}`;
+    case "workspace_invite_link_created":
+      return `${actor} created an invite link (${metaText(row, "role")}, ${metaText(row, "max_uses")} use(s))`;
+    case "workspace_invite_link_revoked":
+      return `${actor} revoked an invite link after ${metaText(row, "use_count")} use(s)`;
+    case "workspace_invite_link_redeemed":
+      return `${actor} opened an invite link (${metaText(row, "role")})`;
+    default:
+      return `${actor}: ${auditActionLabel(row.action)}`;
+  }
+}
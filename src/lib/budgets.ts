@@ -0,0 +1,83 @@
+import type { BudgetPeriod, BudgetProgress, Entry } from "@/types/domain";
+
+export type BudgetLevel = "ok" | "warn" | "over";
+
+// Highest first, so one entry that jumps past both reports only the 100% alert.
+export const BUDGET_ALERT_THRESHOLDS = [100, 80] as const;
+
+export interface BudgetAlert {
+  category_id: string;
+  period: BudgetPeriod;
+  threshold: (typeof BUDGET_ALERT_THRESHOLDS)[number];
+  percent: number;
+}
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly"
+};
+
+export function budgetPercent(spent: number, amount: number): number {
+  return amount > 0 ? Math.round((spent / amount) * 100) : 0;
+}
+
+export function budgetLevel(spent: number, amount: number): BudgetLevel {
+  if (spent >= amount) {
+    return "over";
+  }
+  return spent >= amount * 0.8 ? "warn" : "ok";
+}
+
+// Same rule as entry_category_amount: a split entry counts only its lines for the category,
+// and a group also counts its subcategories.
+export function entryCategoryAmount(
+  entry: Pick<Entry, "amount" | "category_id" | "split_lines">,
+  categoryId: string,
+  subcategoryIds: readonly string[] = []
+): number {
+  const matches = (id: string | null): boolean => id === categoryId || (id !== null && subcategoryIds.includes(id));
+  if (entry.split_lines?.length) {
+    return entry.split_lines
+      .filter((line) => matches(line.category_id))
+      .reduce((sum, line) => sum + line.amount, 0);
+  }
+  return matches(entry.category_id) ? Number(entry.amount) : 0;
+}
+
+// `progress` must already include the entry; the alert fires only when this entry crossed the threshold.
+export function budgetCrossing(
+  entry: Pick<Entry, "amount" | "category_id" | "split_lines" | "entry_at">,
+  progress: BudgetProgress,
+  subcategoryIds: readonly string[] = []
+): BudgetAlert | null {
+  const entryTime = new Date(entry.entry_at).getTime();
+  if (entryTime < new Date(progress.period_start).getTime() || entryTime >= new Date(progress.period_end).getTime()) {
+    return null;
+  }
+
+  const share = entryCategoryAmount(entry, progress.category_id, subcategoryIds);
+  if (share <= 0) {
+    return null;
+  }
+
+  const before = progress.spent - share;
+  for (const threshold of BUDGET_ALERT_THRESHOLDS) {
+    const limit = (progress.amount * threshold) / 100;
+    if (before < limit && progress.spent >= limit) {
+      return {
+        category_id: progress.category_id,
+        period: progress.period,
+        threshold,
+        percent: budgetPercent(progress.spent, progress.amount)
+      };
+    }
+  }
+  return null;
+}
+
+export function describeBudgetAlert(alert: BudgetAlert, categoryName: string): string {
+  const period = BUDGET_PERIOD_LABELS[alert.period].toLowerCase();
+  return alert.threshold === 100
+    ? `${categoryName} has reached its ${period} budget (${alert.percent}% used)`
+    : `${categoryName} has used ${alert.percent}% of its ${period} budget`;
+}
@@ -0,0 +1,219 @@
+import { parseCsv, toCsv } from "@/lib/csv";
+import type { AppRole, WorkspaceMemberDirectory } from "@/types/domain";
+
+export type BulkInviteStatus =
+  | "ready"
+  | "invited"
+  | "already_member"
+  | "no_account"
+  | "invalid_contact"
+  | "invalid_role"
+  | "invalid_permission"
+  | "duplicate"
+  | "failed";
+
+export const BULK_INVITE_STATUS_LABELS: Record<BulkInviteStatus, string> = {
+  ready: "Ready",
+  invited: "Invited",
+  already_member: "Already a member",
+  no_account: "No account found",
+  invalid_contact: "Invalid contact",
+  invalid_role: "Invalid role",
+  invalid_permission: "Invalid permission value",
+  duplicate: "Duplicate in file",
+  failed: "Failed"
+};
+
+// One CSV line; `line` is the 1-based line in the uploaded file so the report points back to it.
+export interface BulkInviteRow {
+  line: number;
+  contact: string;
+  role: AppRole;
+  can_delete_entries: boolean;
+  can_manage_categories: boolean;
+  status: BulkInviteStatus;
+  detail: string;
+}
+
+export const MAX_BULK_INVITE_ROWS = 200;
+const BULK_INVITE_BATCH_SIZE = 5;
+
+export const BULK_INVITE_TEMPLATE = toCsv(
+  ["contact", "role", "can_delete_entries", "can_manage_categories"],
+  [
+    ["cashier1@example.com", "editor", "no", "no"],
+    ["+919876543210", "viewer", "", ""]
+  ]
+);
+
+const HEADER_ALIASES: Record<string, "contact" | "role" | "delete" | "categories"> = {
+  contact: "contact",
+  email: "contact",
+  phone: "contact",
+  mobile: "contact",
+  "email or phone": "contact",
+  role: "role",
+  can_delete_entries: "delete",
+  delete: "delete",
+  "delete entries": "delete",
+  can_manage_categories: "categories",
+  categories: "categories",
+  "manage categories": "categories"
+};
+
+const POSITIONAL_COLUMNS = ["contact", "role", "delete", "categories"] as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function normalizePhone(value: string): string {
+  return value.replace(/[^\d+]/g, "");
+}
+
+// Same checks as the single invite form in TeamPage.
+function contactError(contact: string): string {
+  if (!contact) {
+    return "Enter an email or phone number.";
+  }
+  if (contact.includes("@")) {
+    return EMAIL_PATTERN.test(contact) ? "" : "Not a valid email address.";
+  }
+  return contact.replace(/\D/g, "").length >= 6 ? "" : "Not a valid mobile number.";
+}
+
+function parseFlag(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (["", "no", "n", "false", "0"].includes(normalized)) {
+    return false;
+  }
+  if (["yes", "y", "true", "1"].includes(normalized)) {
+    return true;
+  }
+  return null;
+}
+
+function contactKey(contact: string): string {
+  return contact.includes("@") ? contact.toLowerCase() : normalizePhone(contact);
+}
+
+// Validates every row before anything is sent. Throws only when the file as a whole is unusable.
+export function parseBulkInviteCsv(text: string, members: WorkspaceMemberDirectory[]): BulkInviteRow[] {
+  const table = parseCsv(text);
+  if (!table.length) {
+    throw new Error("The file is empty.");
+  }
+
+  const headerColumns = table[0].cells.map((cell) => HEADER_ALIASES[cell.trim().toLowerCase()]);
+  const hasHeader = headerColumns.includes("contact");
+  const columns = hasHeader ? headerColumns : [...POSITIONAL_COLUMNS];
+  const body = hasHeader ? table.slice(1) : table;
+
+  if (!body.length) {
+    throw new Error("The file has a header but no rows.");
+  }
+  if (body.length > MAX_BULK_INVITE_ROWS) {
+    throw new Error(`Upload at most ${MAX_BULK_INVITE_ROWS} rows at a time.`);
+  }
+
+  const memberContacts = new Set(
+    members.flatMap((item) => [item.email?.toLowerCase(), item.phone ? normalizePhone(item.phone) : undefined]).filter(Boolean)
+  );
+  const seen = new Set<string>();
+
+  return body.map(({ line, cells }) => {
+    const read = (column: (typeof POSITIONAL_COLUMNS)[number]): string => {
+      const position = columns.indexOf(column);
+      return position >= 0 ? (cells[position] ?? "").trim() : "";
+    };
+
+    const contact = read("contact");
+    const roleText = (read("role") || "editor").toLowerCase();
+    const deleteFlag = parseFlag(read("delete"));
+    const categoriesFlag = parseFlag(read("categories"));
+    const role = (["admin", "editor", "viewer"].includes(roleText) ? roleText : "editor") as AppRole;
+    const row: BulkInviteRow = {
+      line,
+      contact,
+      role,
+      can_delete_entries: role === "admin" || (role === "editor" && Boolean(deleteFlag)),
+      can_manage_categories: role === "admin" || (role === "editor" && Boolean(categoriesFlag)),
+      status: "ready",
+      detail: ""
+    };
+
+    const invalidContact = contactError(contact);
+    if (invalidContact) {
+      return { ...row, status: "invalid_contact", detail: invalidContact };
+    }
+    if (role !== roleText) {
+      return { ...row, status: "invalid_role", detail: `Use admin, editor or viewer (got "${roleText}").` };
+    }
+    if (deleteFlag === null || categoriesFlag === null) {
+      return { ...row, status: "invalid_permission", detail: "Use yes or no for permission columns." };
+    }
+
+    const key = contactKey(contact);
+    if (memberContacts.has(key)) {
+      return { ...row, status: "already_member", detail: "Already has workspace access." };
+    }
+    if (seen.has(key)) {
+      return { ...row, status: "duplicate", detail: "Same contact appears earlier in the file." };
+    }
+    seen.add(key);
+    return row;
+  });
+}
+
+// Maps request_workspace_access_by_contact errors onto report statuses.
+export function bulkInviteResultFromError(error: unknown): Pick<BulkInviteRow, "status" | "detail"> {
+  const detail =
+    typeof error === "object" && error && "message" in error && typeof error.message === "string"
+      ? error.message
+      : "Could not send access request.";
+  const message = detail.toLowerCase();
+  if (message.includes("not registered")) {
+    return { status: "no_account", detail: "No account uses this contact yet. Send an invite link instead." };
+  }
+  if (message.includes("already has workspace access") || message.includes("already part of this workspace")) {
+    return { status: "already_member", detail };
+  }
+  return { status: "failed", detail };
+}
+
+export function bulkInviteReportCsv(rows: BulkInviteRow[]): string {
+  return toCsv(
+    ["line", "contact", "role", "can_delete_entries", "can_manage_categories", "status", "detail"],
+    rows.map((row) => [
+      String(row.line),
+      row.contact,
+      row.role,
+      row.can_delete_entries ? "yes" : "no",
+      row.can_manage_categories ? "yes" : "no",
+      BULK_INVITE_STATUS_LABELS[row.status],
+      row.detail
+    ])
+  );
+}
+
+// Sends the ready rows a few at a time and returns every row with its final status, in file order.
+export async function sendBulkInvites(
+  rows: BulkInviteRow[],
+  send: (row: BulkInviteRow) => Promise<void>
+): Promise<BulkInviteRow[]> {
+  const results = [...rows];
+  const ready = rows.flatMap((row, index) => (row.status === "ready" ? [index] : []));
+
+  for (let start = 0; start < ready.length; start += BULK_INVITE_BATCH_SIZE) {
+    await Promise.all(
+      ready.slice(start, start + BULK_INVITE_BATCH_SIZE).map(async (index) => {
+        try {
+          await send(rows[index]);
+          results[index] = { ...rows[index], status: "invited", detail: "" };
+        } catch (error) {
+          results[index] = { ...rows[index], ...bulkInviteResultFromError(error) };
+        }
+      })
+    );
+  }
+
+  return results;
+}
@@ -0,0 +1,30 @@
+import type { Category } from "@/types/domain";
+
+export interface CategoryGroup {
+  category: Category;
+  // Empty for a category that holds no subcategories.
+  children: Category[];
+}
+
+// Top-level categories with their subcategories, in order of first appearance so usage sorting carries over.
+// A subcategory whose group is not in the list (other type, archived) is shown as its own top-level row.
+export function groupCategories(categories: Category[]): CategoryGroup[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const groups = new Map<string, CategoryGroup>();
+
+  for (const category of categories) {
+    const parent = category.parent_id ? byId.get(category.parent_id) : undefined;
+    const root = parent ?? category;
+    const group = groups.get(root.id) ?? { category: root, children: [] };
+    groups.set(root.id, group);
+    if (parent) {
+      group.children.push(category);
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+export function subcategoryIds(categories: Category[], categoryId: string): string[] {
+  return categories.filter((category) => category.parent_id === categoryId).map((category) => category.id);
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+import { BULK_INVITE_TEMPLATE, parseBulkInviteCsv } from "./bulkInvite";
+
+describe("parseCsv", () => {
+  it("reports the source line of each row across blank lines and multiline cells", () => {
+    const text = 'contact,role\r\n\r\n"a@example.com",editor\n"b@example.com","multi\nline"\nc@example.com,viewer\n';
+
+    expect(parseCsv(text)).toEqual([
+      { line: 1, cells: ["contact", "role"] },
+      { line: 3, cells: ["a@example.com", "editor"] },
+      { line: 4, cells: ["b@example.com", "multi\nline"] },
+      { line: 6, cells: ["c@example.com", "viewer"] }
+    ]);
+  });
+
+  it("reads the downloaded invite template back to its original contacts", () => {
+    const rows = parseBulkInviteCsv(BULK_INVITE_TEMPLATE, []);
+
+    expect(rows.map((row) => [row.contact, row.role, row.status])).toEqual([
+      ["cashier1@example.com", "editor", "ready"],
+      ["+919876543210", "viewer", "ready"]
+    ]);
+  });
+
+  it("gives bulk invite rows their line in the file", () => {
+    const rows = parseBulkInviteCsv('contact,role\n\nmeena@example.com,editor\n"x@example.com","ad\nmin"\nbad@,editor\n', []);
+
+    expect(rows.map((row) => [row.line, row.status])).toEqual([
+      [3, "ready"],
+      [4, "invalid_role"],
+      [6, "invalid_contact"]
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("neutralises cells a spreadsheet would run as a formula", () => {
+    expect(toCsv(["contact", "detail"], [["=HYPERLINK(\"http://x\")", "@SUM(A1)"], ["+1+cmd", "-2"]])).toBe(
+      'contact,detail\r\n"\'=HYPERLINK(""http://x"")",\'@SUM(A1)\r\n\'+1+cmd,\'-2'
+    );
+  });
+
+  it("leaves phone numbers as written and strips the guard when reading back", () => {
+    const csv = toCsv(["contact", "detail"], [["+91 98765-43210", "=1+1"]]);
+
+    expect(csv).toBe("contact,detail\r\n+91 98765-43210,'=1+1");
+    expect(parseCsv(csv)[1].cells).toEqual(["+91 98765-43210", "=1+1"]);
+  });
+});
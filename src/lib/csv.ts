@@ -0,0 +1,89 @@
+// Minimal RFC 4180 writer for exports that are plain rows rather than the printable statement.
+
+// Cells starting with = + - @ are prefixed with ' so spreadsheets show them as text instead of running a formula.
+// Plain phone numbers (+91 98765 43210) are not formulas and stay as written.
+export function escapeCsvCell(value: string): string {
+  const safe = /^[=+\-@]/.test(value) && !/^\+\d[\d\s-]*$/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replaceAll('"', '""')}"` : safe;
+}
+
+export function toCsv(header: string[], rows: string[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+export function downloadCsv(csv: string, fileName: string): void {
+  // The BOM makes Excel read the file as UTF-8 so currency symbols survive.
+  const blob = new Blob(["﻿", csv], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export interface CsvRow {
+  // 1-based line in the source where the row starts; quoted cells can span several lines.
+  line: number;
+  cells: string[];
+}
+
+// Reader counterpart for uploads: quoted cells, doubled quotes and CRLF or LF line ends. Blank lines are dropped,
+// and one leading ' (the formula guard added by escapeCsvCell) is removed so exported files read back unchanged.
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const source = text.replace(/^\uFEFF/, "");
+
+  const pushCell = (): void => {
+    row.push(cell.startsWith("'") ? cell.slice(1) : cell);
+    cell = "";
+  };
+
+  const endRow = (): void => {
+    pushCell();
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push({ line: rowLine, cells: row });
+    }
+    row = [];
+  };
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n" || (char === "\r" && source[index + 1] !== "\n")) {
+          line += 1;
+        }
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      pushCell();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      endRow();
+      line += 1;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length) {
+    endRow();
+  }
+  return rows;
+}
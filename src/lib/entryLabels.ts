@@ -0,0 +1,52 @@
+import type { Account, AccountKind, Entry } from "@/types/domain";
+
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+  cash: "Cash",
+  bank: "Bank",
+  upi: "UPI",
+  wallet: "Wallet"
+};
+
+export function buildAccountNameMap(accounts: Account[]): Map<string, string> {
+  return new Map(accounts.map((account) => [account.id, account.name]));
+}
+
+export function transferRouteLabel(
+  entry: Pick<Entry, "account_id" | "transfer_account_id">,
+  accountNames: Map<string, string>
+): string {
+  const from = accountNames.get(entry.account_id) ?? "Unknown account";
+  const to = (entry.transfer_account_id && accountNames.get(entry.transfer_account_id)) || "Unknown account";
+  return `${from} → ${to}`;
+}
+
+export function entryTypeLabel(entry: Pick<Entry, "kind" | "direction">): string {
+  if (entry.kind === "transfer") {
+    return "Transfer";
+  }
+  if (entry.kind === "credit") {
+    return entry.direction === "cash_out" ? "Credit Given" : "Credit Received";
+  }
+  return entry.direction === "cash_in" ? "Cash In" : "Cash Out";
+}
+
+// Transfers have no category, so lists show the account route in its place; credit entries show the party.
+// Split entries show the first line's category and how many more lines follow.
+export function entryTitle(
+  entry: Pick<Entry, "kind" | "direction" | "category_id" | "account_id" | "transfer_account_id"> &
+    Partial<Pick<Entry, "split_lines" | "party_id">>,
+  categoryNames: Map<string, string>,
+  accountNames: Map<string, string>,
+  partyNames: Map<string, string> = new Map()
+): string {
+  if (entry.kind === "transfer") {
+    return `Transfer: ${transferRouteLabel(entry, accountNames)}`;
+  }
+  const partyName = entry.party_id ? partyNames.get(entry.party_id) ?? "Unknown party" : "";
+  if (entry.kind === "credit") {
+    return `${entryTypeLabel(entry)}: ${partyName}`;
+  }
+  const name = (entry.category_id && categoryNames.get(entry.category_id)) || "Unknown";
+  const title = entry.split_lines?.length ? `${name} +${entry.split_lines.length - 1} more` : name;
+  return partyName ? `${title} • ${partyName}` : title;
+}
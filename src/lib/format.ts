@@ -23,6 +23,16 @@ export function formatCurrency(amount: number, currency: string): string {
   }).format(amount);
 }
 
+export function sanitizeAmountInput(value: string): string {
+  const normalized = value.replace(/,/g, ".").replace(/[^\d.]/g, "");
+  const [whole, ...fractionParts] = normalized.split(".");
+  if (!fractionParts.length) {
+    return whole;
+  }
+  const fraction = fractionParts.join("").slice(0, 2);
+  return `${whole}.${fraction}`;
+}
+
 export function isoNow(): string {
   return new Date().toISOString();
 }
@@ -134,14 +144,45 @@ export function formatDateTimeInTimeZone(value: string, timeZone: string): strin
   }).format(date);
 }
 
-export function timeInTimeZoneHHmm(timeZone: string): string {
+export function formatDateInTimeZone(value: string, timeZone: string): string {
+  const date = parseDate(value);
+  if (!date) {
+    return "-";
+  }
+
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone: resolveTimeZone(timeZone),
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric"
+  }).format(date);
+}
+
+export function timeInTimeZoneHHmm(timeZone: string, value: string | Date = new Date()): string {
   const parts = new Intl.DateTimeFormat("en-GB", {
     timeZone: resolveTimeZone(timeZone),
     hour: "2-digit",
     minute: "2-digit",
     hour12: false
-  }).formatToParts(new Date());
+  }).formatToParts(parseDate(value) ?? new Date());
 
   const map = Object.fromEntries(parts.filter((item) => item.type !== "literal").map((item) => [item.type, item.value]));
   return `${map.hour ?? "00"}:${map.minute ?? "00"}`;
 }
+
+export function shiftDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Last instant of a calendar day in the given time zone, for inclusive "to" bounds and day-end balances.
+export function endOfDateKeyIso(dateKey: string, timeZone: string): string {
+  return new Date(new Date(zonedDateToIso(shiftDateKey(dateKey, 1), timeZone)).getTime() - 1).toISOString();
+}
+
+export function formatDuration(fromIso: string, toIso: string): string {
+  const minutes = Math.max(0, Math.round((new Date(toIso).getTime() - new Date(fromIso).getTime()) / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
@@ -0,0 +1,28 @@
+// Invite links carry their token in the query string. Auth storage is wiped on every load, so the URL
+// is the only place the token survives sign-up, email confirmation and the Google redirect.
+export const INVITE_LINK_PARAM = "invite";
+
+export function readInviteLinkToken(): string {
+  if (typeof window === "undefined") {
+    return "";
+  }
+  return (new URL(window.location.href).searchParams.get(INVITE_LINK_PARAM) ?? "").trim();
+}
+
+export function clearInviteLinkToken(): void {
+  const cleanUrl = new URL(window.location.href);
+  cleanUrl.searchParams.delete(INVITE_LINK_PARAM);
+  window.history.replaceState({}, "", cleanUrl.toString());
+}
+
+export function inviteLinkUrl(token: string): string {
+  const url = new URL("/", window.location.origin);
+  url.searchParams.set(INVITE_LINK_PARAM, token);
+  return url.toString();
+}
+
+// Where Supabase sends the user back after confirming email or signing in with Google.
+export function authRedirectUrl(): string {
+  const token = readInviteLinkToken();
+  return token ? inviteLinkUrl(token) : window.location.origin;
+}
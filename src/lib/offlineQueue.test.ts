@@ -0,0 +1,135 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  discardOutboxItem,
+  enqueueEntry,
+  flushOutbox,
+  isRetryableSyncError,
+  listOutbox,
+  type OutboxItem
+} from "./offlineQueue";
+import type { Entry } from "@/types/domain";
+
+const USER = "user-1";
+
+const queue = (clientRef: string, amount = 100): Promise<void> =>
+  enqueueEntry(
+    {
+      client_ref: clientRef,
+      workspace_id: "ws-1",
+      direction: "cash_out",
+      amount,
+      category_id: "cat-1",
+      created_by: USER,
+      entry_at: "2026-10-17T08:30:00Z"
+    },
+    null
+  );
+
+const stored = (item: OutboxItem): Entry => ({
+  id: `entry-${item.client_ref}`,
+  workspace_id: item.payload.workspace_id,
+  kind: "standard",
+  direction: item.payload.direction,
+  amount: item.payload.amount,
+  category_id: item.payload.category_id,
+  split_lines: null,
+  account_id: "acc-1",
+  transfer_account_id: null,
+  party_id: null,
+  shift_id: null,
+  remarks: null,
+  receipt_url: null,
+  entry_at: item.payload.entry_at ?? item.queued_at,
+  created_by: USER,
+  status: "active",
+  created_at: item.queued_at
+});
+
+describe("flushOutbox", () => {
+  afterEach(async () => {
+    for (const item of await listOutbox(USER)) {
+      await discardOutboxItem(item.client_ref);
+    }
+  });
+
+  it("removes items once they sync", async () => {
+    await queue("ref-1");
+    await queue("ref-2");
+
+    const result = await flushOutbox(USER, async (item) => stored(item));
+
+    expect(result.synced.map((entry) => entry.id)).toEqual(["entry-ref-1", "entry-ref-2"]);
+    expect(result.remaining).toBe(0);
+    expect(result.failed).toBe(0);
+    expect(await listOutbox(USER)).toEqual([]);
+  });
+
+  it("keeps items queued and stops on a network failure", async () => {
+    await queue("ref-1");
+    await queue("ref-2");
+    const sync = vi.fn(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+
+    const result = await flushOutbox(USER, sync);
+
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(result.remaining).toBe(2);
+    expect(result.failed).toBe(0);
+    const items = await listOutbox(USER);
+    expect(items.map((item) => item.status)).toEqual(["queued", "queued"]);
+    expect(items[0].last_error).toBe("Failed to fetch");
+  });
+
+  it("marks permanent failures failed and skips them on the next run", async () => {
+    await queue("ref-1");
+    await queue("ref-2");
+    const sync = vi.fn(async (item: OutboxItem) => {
+      if (item.client_ref === "ref-1") {
+        throw { message: "Business day is closed", details: null, hint: null, code: "P0001" };
+      }
+      return stored(item);
+    });
+
+    const result = await flushOutbox(USER, sync);
+
+    expect(result.synced.map((entry) => entry.id)).toEqual(["entry-ref-2"]);
+    expect(result.failed).toBe(1);
+    expect(result.remaining).toBe(0);
+    const [failed, ...rest] = await listOutbox(USER);
+    expect(rest).toEqual([]);
+    expect(failed.status).toBe("failed");
+    expect(failed.last_error).toBe("Business day is closed");
+
+    sync.mockClear();
+    await flushOutbox(USER, sync);
+    expect(sync).not.toHaveBeenCalled();
+  });
+
+  it("treats a replay of an already stored client_ref as synced", async () => {
+    await queue("ref-1");
+    const existing = stored((await listOutbox(USER))[0]);
+    // addEntry answers a client_ref unique violation with the row that is already stored.
+    const sync = vi.fn(async () => existing);
+
+    const result = await flushOutbox(USER, sync);
+
+    expect(result.synced).toEqual([existing]);
+    expect(await listOutbox(USER)).toEqual([]);
+  });
+});
+
+describe("isRetryableSyncError", () => {
+  it("retries network and server failures only", () => {
+    expect(isRetryableSyncError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isRetryableSyncError({ message: "TypeError: Failed to fetch", details: "", hint: "", code: "" })).toBe(true);
+    expect(isRetryableSyncError({ message: "<html>502 Bad Gateway</html>" })).toBe(true);
+    expect(isRetryableSyncError({ message: "canceling statement due to statement timeout", code: "57014" })).toBe(true);
+    expect(isRetryableSyncError({ message: "Gateway timeout", status: 504 })).toBe(true);
+
+    expect(isRetryableSyncError({ message: "new row violates row-level security policy", code: "42501" })).toBe(false);
+    expect(isRetryableSyncError({ message: "Business day is closed", code: "P0001" })).toBe(false);
+    expect(isRetryableSyncError(new Error("Receipt is too large"))).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+import type { Entry, EntryInsertInput } from "@/types/domain";
+
+// localStorage is wiped on every load (see registerSW.ts / supabase.ts), so the outbox lives in IndexedDB.
+const DB_NAME = "cashbook-offline";
+const DB_VERSION = 1;
+const STORE = "entry-outbox";
+
+export interface OutboxReceipt {
+  blob: Blob;
+  name: string;
+}
+
+// queued items are replayed automatically; failed ones were rejected by the server and wait for the user.
+export type OutboxStatus = "queued" | "failed";
+
+export interface OutboxItem {
+  client_ref: string;
+  payload: EntryInsertInput & { client_ref: string };
+  receipt: OutboxReceipt | null;
+  queued_at: string;
+  status: OutboxStatus;
+  attempts: number;
+  last_error: string | null;
+}
+
+export interface OutboxFlushResult {
+  synced: Entry[];
+  remaining: number;
+  failed: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isOfflineQueueSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!isOfflineQueueSupported()) {
+    return Promise.reject(new Error("Offline storage is not available in this browser."));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: "client_ref" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Could not open offline storage."));
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error ?? new Error("Offline storage request failed."));
+    tx.onabort = () => reject(tx.error ?? new Error("Offline storage request was aborted."));
+  });
+}
+
+export function createClientRef(): string {
+  return crypto.randomUUID();
+}
+
+export async function enqueueEntry(
+  payload: EntryInsertInput & { client_ref: string },
+  receipt: OutboxReceipt | null
+): Promise<void> {
+  const item: OutboxItem = {
+    client_ref: payload.client_ref,
+    payload,
+    receipt,
+    queued_at: new Date().toISOString(),
+    status: "queued",
+    attempts: 0,
+    last_error: null
+  };
+  await withStore("readwrite", (store) => store.put(item));
+}
+
+export async function listOutbox(userId: string): Promise<OutboxItem[]> {
+  const items = await withStore<OutboxItem[]>("readonly", (store) => store.getAll());
+  // Items queued before statuses existed have none and are still waiting to sync.
+  return items
+    .filter((item) => item.payload.created_by === userId)
+    .map((item) => ({ ...item, status: item.status ?? "queued" }))
+    .sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+}
+
+export async function discardOutboxItem(clientRef: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(clientRef));
+}
+
+// Puts a failed item back in line, e.g. after an admin restored the permission it was missing.
+export async function requeueOutboxItem(item: OutboxItem): Promise<void> {
+  await saveOutboxItem({ ...item, status: "queued", last_error: null });
+}
+
+async function saveOutboxItem(item: OutboxItem): Promise<void> {
+  await withStore("readwrite", (store) => store.put(item));
+}
+
+function errorMessage(error: unknown): string {
+  if (typeof error === "object" && error && "message" in error && typeof error.message === "string") {
+    return error.message;
+  }
+  return String(error ?? "");
+}
+
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    return true;
+  }
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(errorMessage(error));
+}
+
+// SQLSTATE classes PostgREST answers with a 5xx (connection, resources, locks, internal errors).
+const SERVER_SQLSTATE_CLASSES = ["08", "09", "25", "2D", "38", "39", "3B", "40", "53", "54", "55", "57", "58", "F0", "HV", "XX"];
+
+// Network and server-side (5xx) failures are worth retrying; anything else (RLS denial, closed day,
+// validation, revoked membership) fails the same way on every replay.
+export function isRetryableSyncError(error: unknown): boolean {
+  if (isNetworkError(error)) {
+    return true;
+  }
+  if (typeof error !== "object" || !error) {
+    return false;
+  }
+  if ("status" in error && typeof error.status === "number" && error.status >= 500) {
+    return true;
+  }
+  const code = "code" in error && typeof error.code === "string" ? error.code : "";
+  if (!code) {
+    // PostgREST errors always carry a code; a bare message is a non-JSON body from the gateway (502/503/504).
+    return !(error instanceof Error) && "message" in error;
+  }
+  if (/^PGRST00[0-3]$/.test(code)) {
+    return true;
+  }
+  if (code.startsWith("P0")) {
+    return code !== "P0001";
+  }
+  return SERVER_SQLSTATE_CLASSES.includes(code.slice(0, 2));
+}
+
+// Replays queued entries oldest-first; the server-side client_ref unique key makes a replay of an
+// already-stored entry return the existing row. A network or server failure stops the run and leaves
+// the rest queued; any other failure marks that item failed so it is not retried until the user acts.
+export async function flushOutbox(
+  userId: string,
+  sync: (item: OutboxItem) => Promise<Entry>
+): Promise<OutboxFlushResult> {
+  const items = (await listOutbox(userId)).filter((item) => item.status === "queued");
+  const synced: Entry[] = [];
+  let failed = 0;
+
+  for (const item of items) {
+    try {
+      synced.push(await sync(item));
+      await discardOutboxItem(item.client_ref);
+    } catch (error) {
+      const retryable = isRetryableSyncError(error);
+      if (!retryable) {
+        failed += 1;
+      }
+      await saveOutboxItem({
+        ...item,
+        status: retryable ? "queued" : "failed",
+        attempts: item.attempts + 1,
+        last_error: errorMessage(error)
+      });
+      if (retryable) {
+        break;
+      }
+    }
+  }
+
+  return {
+    synced,
+    remaining: items.length - synced.length - failed,
+    failed
+  };
+}
@@ -0,0 +1,101 @@
+import { dateKeyInTimeZone, todayInTimeZone } from "@/lib/format";
+import type {
+  AppRole,
+  CashDirection,
+  MemberPermissions,
+  WorkspaceMember,
+  WorkspaceMemberDirectory,
+  WorkspacePermission,
+  WorkspaceRole
+} from "@/types/domain";
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Admin",
+  editor: "Editor",
+  viewer: "Viewer"
+};
+
+// Same order and meaning as public.member_has_permission; the database enforces, the UI only hides what would fail.
+export const PERMISSION_LABELS: Record<WorkspacePermission, string> = {
+  can_view_reports: "View reports",
+  can_export: "Export",
+  can_add_cash_in: "Add cash in",
+  can_add_cash_out: "Add cash out",
+  can_backdate_entries: "Backdate entries",
+  can_manage_categories: "Manage categories",
+  can_manage_members: "Manage members",
+  can_edit_entries: "Edit entries",
+  can_delete_entries: "Delete entries"
+};
+
+export const PERMISSION_KEYS = Object.keys(PERMISSION_LABELS) as WorkspacePermission[];
+
+export const DEFAULT_ROLE_PERMISSIONS: MemberPermissions = {
+  can_view_reports: true,
+  can_export: false,
+  can_add_cash_in: true,
+  can_add_cash_out: true,
+  can_backdate_entries: false,
+  can_manage_categories: false,
+  can_manage_members: false,
+  can_edit_entries: false,
+  can_delete_entries: false
+};
+
+// Same rule as public.member_access_active: a suspension whose end has passed no longer applies,
+// even before end_expired_member_suspensions clears the flag.
+export function isMemberAccessActive(
+  member: Pick<WorkspaceMemberDirectory, "access_disabled" | "disabled_until">
+): boolean {
+  if (!member.access_disabled) {
+    return true;
+  }
+  return member.disabled_until !== null && new Date(member.disabled_until).getTime() <= Date.now();
+}
+
+function allPermissions(value: boolean): MemberPermissions {
+  return Object.fromEntries(PERMISSION_KEYS.map((key) => [key, value])) as MemberPermissions;
+}
+
+export function pickPermissions(source: MemberPermissions): MemberPermissions {
+  return Object.fromEntries(PERMISSION_KEYS.map((key) => [key, Boolean(source[key])])) as MemberPermissions;
+}
+
+// Admins hold everything and viewers only read and export; a custom role replaces the editor flags; without one an editor keeps the legacy defaults.
+export function memberPermissions(member: WorkspaceMember, roles: WorkspaceRole[]): MemberPermissions {
+  if (member.role === "admin") {
+    return allPermissions(true);
+  }
+  if (member.role === "viewer") {
+    return { ...allPermissions(false), can_view_reports: true, can_export: true };
+  }
+
+  const role = member.custom_role_id ? roles.find((item) => item.id === member.custom_role_id) : undefined;
+  if (role) {
+    return pickPermissions(role);
+  }
+  if (member.custom_role_id) {
+    // The role row has not loaded (or was just removed); deny rather than fall back to broader flags.
+    return allPermissions(false);
+  }
+
+  return {
+    can_view_reports: true,
+    can_export: true,
+    can_add_cash_in: true,
+    can_add_cash_out: true,
+    can_backdate_entries: true,
+    can_manage_categories: member.can_manage_categories,
+    can_manage_members: member.can_manage_users,
+    can_edit_entries: member.can_delete_entries,
+    can_delete_entries: member.can_delete_entries
+  };
+}
+
+export function canAddDirection(permissions: MemberPermissions, direction: CashDirection): boolean {
+  return direction === "cash_in" ? permissions.can_add_cash_in : permissions.can_add_cash_out;
+}
+
+export function isBackdated(entryAtIso: string, timeZone: string): boolean {
+  return dateKeyInTimeZone(entryAtIso, timeZone) < todayInTimeZone(timeZone);
+}
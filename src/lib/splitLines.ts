@@ -0,0 +1,64 @@
+import type { Category, SplitLine } from "@/types/domain";
+
+// Form state for one split line; amount stays a string while the user types.
+export interface SplitLineDraft {
+  category_id: string;
+  amount: string;
+}
+
+function toCents(value: number | string): number {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? Math.round(numeric * 100) : 0;
+}
+
+export function splitDraftsFromLines(lines: SplitLine[]): SplitLineDraft[] {
+  return lines.map((line) => ({ category_id: line.category_id, amount: String(line.amount) }));
+}
+
+export function toSplitLines(drafts: SplitLineDraft[]): SplitLine[] {
+  return drafts.map((draft) => ({ category_id: draft.category_id, amount: toCents(draft.amount) / 100 }));
+}
+
+// Amount still to allocate; negative when the lines add up to more than the total.
+export function unallocatedAmount(drafts: SplitLineDraft[], total: number): number {
+  const allocated = drafts.reduce((sum, draft) => sum + toCents(draft.amount), 0);
+  return (toCents(total) - allocated) / 100;
+}
+
+// Mirrors the split checks in enforce_entry_rules so the form can fail before the round trip.
+export function validateSplitDrafts(drafts: SplitLineDraft[], total: number, categories: Category[]): string {
+  if (drafts.length < 2) {
+    return "Add at least two category lines.";
+  }
+
+  const allowed = new Set(categories.map((category) => category.id));
+  const seen = new Set<string>();
+  for (const draft of drafts) {
+    if (!allowed.has(draft.category_id)) {
+      return "Pick a category for every line.";
+    }
+    if (seen.has(draft.category_id)) {
+      return "Each category can appear only once in a split.";
+    }
+    seen.add(draft.category_id);
+    if (toCents(draft.amount) <= 0) {
+      return "Every line needs an amount greater than zero.";
+    }
+  }
+
+  if (unallocatedAmount(drafts, total) !== 0) {
+    return "Split lines must add up to the entry amount.";
+  }
+
+  return "";
+}
+
+export function sameSplitLines(a: SplitLine[] | null, b: SplitLine[] | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return (
+    a.length === b.length &&
+    a.every((line, index) => line.category_id === b[index].category_id && toCents(line.amount) === toCents(b[index].amount))
+  );
+}
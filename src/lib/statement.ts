@@ -0,0 +1,184 @@
+// Printable statement shared by the cashbook export (HistoryPage) and party statements (PartiesPage).
+// The same HTML is saved as .xls for Excel and printed to PDF from a new window.
+
+export interface StatementRow {
+  dateTime: string;
+  title: string;
+  type: string;
+  amount: string;
+  amountColor: string;
+  balance: string;
+  remarks: string;
+}
+
+export interface StatementSummaryItem {
+  label: string;
+  value: string;
+  strong?: boolean;
+}
+
+export interface StatementBudgetRow {
+  category: string;
+  period: string;
+  budget: string;
+  actual: string;
+  remaining: string;
+  used: string;
+  over: boolean;
+}
+
+export interface StatementDocument {
+  heading: string;
+  workspaceName: string;
+  period: string;
+  scopeLabel: string;
+  scopeValue: string;
+  titleColumn: string;
+  rows: StatementRow[];
+  summary: StatementSummaryItem[];
+  // Optional budget-vs-actual table printed under the entries.
+  budgets?: StatementBudgetRow[];
+}
+
+export const STATEMENT_AMOUNT_COLORS = {
+  in: "#0f766e",
+  out: "#b91c1c",
+  move: "#1d4ed8"
+} as const;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+export function buildStatementHtml(doc: StatementDocument): string {
+  const safe = escapeHtml;
+  const rows = doc.rows
+    .map(
+      (row) => `<tr>
+          <td>${safe(row.dateTime)}</td>
+          <td>${safe(row.title)}</td>
+          <td>${safe(row.type)}</td>
+          <td style="text-align:right; color:${row.amountColor}; font-weight:700;">${safe(row.amount)}</td>
+          <td style="text-align:right;">${safe(row.balance)}</td>
+          <td>${safe(row.remarks)}</td>
+        </tr>`
+    )
+    .join("");
+  const summary = doc.summary
+    .map((item) =>
+      item.strong
+        ? `<span class="pill"><strong>${safe(item.label)}: ${safe(item.value)}</strong></span>`
+        : `<span class="pill">${safe(item.label)}: ${safe(item.value)}</span>`
+    )
+    .join("\n      ");
+  const budgetRows = (doc.budgets ?? [])
+    .map(
+      (row) => `<tr>
+          <td>${safe(row.category)}</td>
+          <td>${safe(row.period)}</td>
+          <td style="text-align:right;">${safe(row.budget)}</td>
+          <td style="text-align:right;">${safe(row.actual)}</td>
+          <td style="text-align:right; color:${row.over ? STATEMENT_AMOUNT_COLORS.out : STATEMENT_AMOUNT_COLORS.in};">${safe(row.remaining)}</td>
+          <td style="text-align:right; font-weight:700;">${safe(row.used)}</td>
+        </tr>`
+    )
+    .join("");
+  const budgetTable = budgetRows
+    ? `<table>
+      <thead>
+        <tr><th colspan="6">Budget vs Actual</th></tr>
+        <tr>
+          <th>Category</th>
+          <th>Period</th>
+          <th style="text-align:right;">Budget</th>
+          <th style="text-align:right;">Actual</th>
+          <th style="text-align:right;">Remaining</th>
+          <th style="text-align:right;">Used</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${budgetRows}
+      </tbody>
+    </table>`
+    : "";
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${safe(doc.heading)}</title>
+  <style>
+    body { font-family: "Segoe UI", Arial, sans-serif; margin: 24px; color: #0f172a; }
+    .sheet { border: 1px solid #bfdbfe; border-radius: 14px; overflow: hidden; }
+    .head { padding: 18px; background: linear-gradient(135deg, #1d4ed8, #2563eb); color: #fff; }
+    .sub { display:flex; flex-wrap:wrap; gap:12px; margin-top:8px; font-size:13px; opacity:0.95; }
+    .meta { display:grid; grid-template-columns: repeat(3, minmax(0,1fr)); gap:10px; padding:12px 16px; background:#eff6ff; border-bottom:1px solid #bfdbfe; }
+    .meta-item { background:#fff; border:1px solid #bfdbfe; border-radius:10px; padding:8px 10px; }
+    table { width:100%; border-collapse: collapse; }
+    th, td { padding: 10px 12px; border-bottom: 1px solid #dbeafe; font-size: 13px; vertical-align: top; }
+    th { background: #eff6ff; color: #1e3a8a; text-align: left; }
+    .foot { display:flex; justify-content:flex-end; gap:12px; padding:12px 16px; background:#f8fbff; }
+    .pill { border:1px solid #bfdbfe; background:#fff; border-radius:999px; padding:6px 10px; font-size:12px; }
+    .empty { padding: 16px; color: #475569; }
+  </style>
+</head>
+<body>
+  <div class="sheet">
+    <div class="head">
+      <h2 style="margin:0;">${safe(doc.heading)}</h2>
+      <div class="sub">
+        <span><strong>Workspace:</strong> ${safe(doc.workspaceName)}</span>
+        <span><strong>Generated:</strong> ${safe(new Date().toLocaleString())}</span>
+      </div>
+    </div>
+    <div class="meta">
+      <div class="meta-item"><strong>Period</strong><br/>${safe(doc.period)}</div>
+      <div class="meta-item"><strong>${safe(doc.scopeLabel)}</strong><br/>${safe(doc.scopeValue)}</div>
+      <div class="meta-item"><strong>Total Entries</strong><br/>${doc.rows.length}</div>
+    </div>
+    <table>
+      <thead>
+        <tr>
+          <th>Date & Time</th>
+          <th>${safe(doc.titleColumn)}</th>
+          <th>Type</th>
+          <th style="text-align:right;">Amount</th>
+          <th style="text-align:right;">Balance</th>
+          <th>Remarks</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${rows || `<tr><td class="empty" colspan="6">No entries for selected filters.</td></tr>`}
+      </tbody>
+    </table>
+    ${budgetTable}
+    <div class="foot">
+      ${summary}
+    </div>
+  </div>
+</body>
+</html>`;
+}
+
+export function downloadStatementExcel(html: string, fileName: string): void {
+  const blob = new Blob([html], { type: "application/vnd.ms-excel;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// The window must be opened synchronously in the click handler; see HistoryPage.exportPdf.
+export function printStatement(win: Window, html: string): void {
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+}
@@ -0,0 +1,39 @@
+export interface TimeZoneOption {
+  zone: string;
+  label: string;
+}
+
+const FALLBACK_TIME_ZONES = ["Asia/Kolkata", "UTC", "Asia/Dubai", "Europe/London", "America/New_York", "Asia/Singapore"];
+
+function listTimeZones(): string[] {
+  const intlWithSupported = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
+  if (typeof Intl !== "undefined" && typeof intlWithSupported.supportedValuesOf === "function") {
+    try {
+      const list = intlWithSupported.supportedValuesOf("timeZone");
+      if (list.length) {
+        return list;
+      }
+    } catch {
+      // Fall through to the short list below.
+    }
+  }
+  return FALLBACK_TIME_ZONES;
+}
+
+function readOffset(zone: string): string {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      timeZoneName: "shortOffset"
+    }).formatToParts(new Date());
+    const value = parts.find((part) => part.type === "timeZoneName")?.value ?? "";
+    return value || "GMT";
+  } catch {
+    return "GMT";
+  }
+}
+
+// Every zone the browser knows, labelled with its current offset, e.g. "Asia/Kolkata (GMT+5:30)".
+export function timeZoneOptions(): TimeZoneOption[] {
+  return listTimeZones().map((zone) => ({ zone, label: `${zone} (${readOffset(zone)})` }));
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
+import { AccountStatePage } from "./AccountStatePage";
+import type { WorkspaceSuspension } from "@/types/domain";
+
+const suspensions: WorkspaceSuspension[] = [
+  {
+    workspace_id: "ws-1",
+    workspace_name: "Corner Store",
+    workspace_timezone: "Asia/Kolkata",
+    role: "editor",
+    disabled_until: "2026-10-19T18:30:00.000Z",
+    disable_reason: "Cash count mismatch under review"
+  },
+  {
+    workspace_id: "ws-2",
+    workspace_name: "Warehouse",
+    workspace_timezone: "Asia/Kolkata",
+    role: "viewer",
+    disabled_until: null,
+    disable_reason: null
+  }
+];
+
+describe("AccountStatePage", () => {
+  afterEach(cleanup);
+
+  it("shows each suspension's reason and end date", () => {
+    render(<AccountStatePage suspensions={suspensions} onCheckAgain={vi.fn()} onContinue={vi.fn()} />);
+
+    expect(screen.getByText("Corner Store")).toBeTruthy();
+    expect(screen.getByText("Reason: Cash count mismatch under review")).toBeTruthy();
+    expect(screen.getByText(/Access returns on .*20/)).toBeTruthy();
+    expect(screen.getByText("Access returns when an admin restores it.")).toBeTruthy();
+    expect(screen.getByText("Reason: No reason given.")).toBeTruthy();
+  });
+
+  it("checks again and lets the user move on", async () => {
+    const onCheckAgain = vi.fn().mockResolvedValue(undefined);
+    const onContinue = vi.fn();
+    render(<AccountStatePage suspensions={suspensions} onCheckAgain={onCheckAgain} onContinue={onContinue} />);
+
+    fireEvent.click(screen.getByText("Check Again"));
+    await waitFor(() => expect(onCheckAgain).toHaveBeenCalled());
+    fireEvent.click(screen.getByText("Join or Create Another Workspace"));
+    expect(onContinue).toHaveBeenCalled();
+  });
+});
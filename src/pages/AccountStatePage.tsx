@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import { formatDateInTimeZone } from "@/lib/format";
+import { ROLE_LABELS } from "@/lib/permissions";
+import type { WorkspaceSuspension } from "@/types/domain";
+
+interface AccountStatePageProps {
+  suspensions: WorkspaceSuspension[];
+  onCheckAgain: () => Promise<void>;
+  onContinue: () => void;
+}
+
+// Shown instead of the join/create gate when the user's only workspaces have suspended them.
+export function AccountStatePage({ suspensions, onCheckAgain, onContinue }: AccountStatePageProps): JSX.Element {
+  const [checking, setChecking] = useState(false);
+
+  return (
+    <div className="center-layout">
+      <NeonCard
+        className="max-w-xl"
+        title="Access Suspended"
+        subtitle="A workspace admin has paused your access. Your account and membership are kept."
+      >
+        <div className="stack">
+          {suspensions.map((item) => (
+            <article key={item.workspace_id} className="invite-card">
+              <div className="invite-card-head">
+                <div>
+                  <strong>{item.workspace_name}</strong>
+                  <small>{ROLE_LABELS[item.role]} access</small>
+                </div>
+                <span className="member-status-pill member-status-pill-suspended">Suspended</span>
+              </div>
+              <div className="invite-meta">
+                <small>
+                  {item.disabled_until
+                    ? `Access returns on ${formatDateInTimeZone(item.disabled_until, item.workspace_timezone)}.`
+                    : "Access returns when an admin restores it."}
+                </small>
+                <small>Reason: {item.disable_reason || "No reason given."}</small>
+              </div>
+            </article>
+          ))}
+
+          <div className="inline-actions">
+            <button
+              className="secondary-btn"
+              type="button"
+              disabled={checking}
+              onClick={() => {
+                void (async () => {
+                  setChecking(true);
+                  try {
+                    await onCheckAgain();
+                  } finally {
+                    setChecking(false);
+                  }
+                })();
+              }}
+            >
+              {checking ? "Checking..." : "Check Again"}
+            </button>
+            <button className="primary-btn" type="button" onClick={onContinue}>
+              Join or Create Another Workspace
+            </button>
+          </div>
+        </div>
+      </NeonCard>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ interface AuthPageProps {
   onSignUp: (input: SignUpInput, staySignedIn: boolean) => Promise<void>;
   onGoogle: (emailHint: string | undefined, staySignedIn: boolean) => Promise<void>;
   onReportError: (location: string, error: unknown, detail?: string) => void;
+  // Opened from a workspace invite link; the token stays in the URL until the user is signed in.
+  invited?: boolean;
 }
 
 type AuthMode = "signin" | "signup";
@@ -35,10 +37,10 @@ function mapAuthError(error: unknown, fallback: string): string {
   return raw;
 }
 
-export function AuthPage({ onSignIn, onSignUp, onGoogle, onReportError }: AuthPageProps): JSX.Element {
+export function AuthPage({ onSignIn, onSignUp, onGoogle, onReportError, invited = false }: AuthPageProps): JSX.Element {
   const defaultCountry = useMemo(() => detectCountryPreference(), []);
 
-  const [mode, setMode] = useState<AuthMode>("signin");
+  const [mode, setMode] = useState<AuthMode>(invited ? "signup" : "signin");
   const [busy, setBusy] = useState(false);
   const [message, setMessage] = useState("");
   const [error, setError] = useState("");
@@ -144,6 +146,11 @@ export function AuthPage({ onSignIn, onSignUp, onGoogle, onReportError }: AuthPa
     <div className="center-layout auth-page">
       <NeonCard className="max-w-xl auth-card">
         <BrandLogo className="auth-logo auth-logo-hero" />
+        {invited && (
+          <p className="auth-invite-note" role="status">
+            You have been invited to a workspace. Create an account or sign in to review the invite.
+          </p>
+        )}
         <div className="segment-row">
           <button
             type="button"
@@ -1,7 +1,18 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
-import { render, screen, cleanup } from "@testing-library/react";
+import { render, screen, cleanup, fireEvent } from "@testing-library/react";
 import { DashboardPage } from "./DashboardPage";
-import type { Workspace, WorkspaceMember, Entry } from "@/types/domain";
+import { memberPermissions } from "@/lib/permissions";
+import type {
+  BudgetProgress,
+  DayClosing,
+  Entry,
+  EntryEditRequest,
+  RecurringEntry,
+  Shift,
+  ShiftReportRow,
+  Workspace,
+  WorkspaceMember
+} from "@/types/domain";
 
 const mockWorkspace: Workspace = { 
   id: "ws-1", 
@@ -9,7 +20,9 @@ const mockWorkspace: Workspace = {
   industry: "Retail", 
   currency: "USD", 
   timezone: "UTC", 
+  opening_balance: 0,
   created_by: "user-1", 
+  owner_id: "user-1",
   created_at: new Date().toISOString() 
 };
 
@@ -21,16 +34,23 @@ const mockMember: WorkspaceMember = {
   can_manage_categories: true, 
   can_manage_users: true, 
   dashboard_scope: "full",
-  access_disabled: false
+  access_disabled: false,
+  custom_role_id: null
 };
 
 // Helper to quickly generate entries for "today" to trigger the AI Coach logic
 const createEntry = (amount: number, direction: "cash_in" | "cash_out"): Entry => ({
   id: Math.random().toString(),
   workspace_id: "ws-1",
+  kind: "standard",
   amount,
   direction,
   category_id: "cat-1",
+  split_lines: null,
+  account_id: "acc-1",
+  transfer_account_id: null,
+  party_id: null,
+  shift_id: null,
   remarks: "",
   created_by: "user-1",
   entry_at: new Date().toISOString(), // Matches "today" in tests
@@ -45,11 +65,42 @@ describe("DashboardPage AI Coach Logic", () => {
   const defaultProps = {
     workspace: mockWorkspace,
     member: mockMember,
+    permissions: memberPermissions(mockMember, []),
     categories: [],
+    accounts: [],
+    accountBalances: [],
+    parties: [],
+    budgets: [],
+    budgetProgress: [],
+    dayClosings: [],
+    openShift: null,
+    shiftEntries: [],
+    shiftReport: [],
+    recurringEntries: [],
     pendingDeleteRequests: [],
+    myDeleteRequests: [],
+    pendingEditRequests: [],
+    failedOutboxItems: [],
+    workspaceOptions: [],
     onOpenQuickAdd: vi.fn(),
+    onOpenTransfer: vi.fn(),
+    onOpenCloseDay: vi.fn(),
+    onOpenShift: vi.fn(),
+    onCloseShift: vi.fn(),
+    onPostRecurring: vi.fn(),
+    onSkipRecurring: vi.fn(),
+    onAddAccount: vi.fn(),
+    onArchiveAccount: vi.fn(),
+    onSaveBudget: vi.fn(),
+    onRemoveBudget: vi.fn(),
+    onOpenEntry: vi.fn(),
     onDeleteEntry: vi.fn(),
     onReviewDeleteRequest: vi.fn(),
+    onLoadDeleteRequestHistory: vi.fn(async () => []),
+    onOpenReceipt: vi.fn(),
+    onReviewEditRequest: vi.fn(),
+    onRetryOutboxItem: vi.fn(),
+    onDiscardOutboxItem: vi.fn(),
   };
 
   it("shows a neutral tone when there are no entries today", () => {
@@ -75,9 +126,274 @@ describe("DashboardPage AI Coach Logic", () => {
     expect(screen.getByText(/Expense is higher than income today/i)).toBeTruthy();
   });
 
+  it("does not count transfers between accounts as expense", () => {
+    const transfer: Entry = {
+      ...createEntry(500, "cash_out"),
+      kind: "transfer",
+      category_id: null,
+      transfer_account_id: "acc-2"
+    };
+    render(<DashboardPage {...defaultProps} entries={[createEntry(100, "cash_in"), transfer]} />);
+    expect(screen.getByText(/Positive day so far/i)).toBeTruthy();
+  });
+
+  it("shows cash on hand from account balances, not today's net", () => {
+    const accountBalances = [
+      { account_id: "acc-1", name: "Cash Drawer", kind: "cash" as const, is_default: true, balance: 1200 },
+      { account_id: "acc-2", name: "Bank", kind: "bank" as const, is_default: false, balance: 300 }
+    ];
+    render(<DashboardPage {...defaultProps} accountBalances={accountBalances} entries={[createEntry(100, "cash_in")]} />);
+    expect(screen.getByText("Cash on hand").nextElementSibling?.textContent).toBe("$1,500.00");
+  });
+
+  it("warns when yesterday was never closed and opens the close for that date", () => {
+    const onOpenCloseDay = vi.fn();
+    const olderWorkspace = { ...mockWorkspace, created_at: "2020-01-01T00:00:00.000Z" };
+    render(<DashboardPage {...defaultProps} workspace={olderWorkspace} entries={[]} onOpenCloseDay={onOpenCloseDay} />);
+    expect(screen.getByRole("alert").textContent).toMatch(/was never closed/);
+    fireEvent.click(screen.getByRole("button", { name: "Close Yesterday" }));
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    expect(onOpenCloseDay).toHaveBeenCalledWith(yesterday);
+  });
+
+  it("does not warn once yesterday is closed", () => {
+    const olderWorkspace = { ...mockWorkspace, created_at: "2020-01-01T00:00:00.000Z" };
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const closing: DayClosing = {
+      id: "close-1",
+      workspace_id: "ws-1",
+      business_date: yesterday,
+      account_id: "acc-1",
+      denominations: { "100": 2 },
+      counted_total: 200,
+      expected_balance: 200,
+      difference: 0,
+      note: null,
+      adjustment_entry_id: null,
+      closed_by: "user-1",
+      closed_at: new Date().toISOString()
+    };
+    render(<DashboardPage {...defaultProps} workspace={olderWorkspace} entries={[]} dayClosings={[closing]} />);
+    expect(screen.queryByRole("alert")).toBeNull();
+  });
+
+  it("limits a shift-scoped member to their open shift's entries and totals", () => {
+    const cashier: WorkspaceMember = { ...mockMember, role: "editor", dashboard_scope: "shift" };
+    const shift: Shift = {
+      id: "shift-1",
+      workspace_id: "ws-1",
+      user_id: "user-1",
+      account_id: "acc-1",
+      opening_float: 50,
+      opened_at: new Date().toISOString(),
+      closed_at: null,
+      counted_cash: null,
+      expected_cash: null,
+      variance: null,
+      note: null
+    };
+    const shiftSale = { ...createEntry(30, "cash_in"), shift_id: "shift-1" };
+    const otherSale = createEntry(900, "cash_in");
+    render(
+      <DashboardPage
+        {...defaultProps}
+        member={cashier}
+        entries={[otherSale, shiftSale]}
+        openShift={shift}
+        shiftEntries={[shiftSale]}
+      />
+    );
+    expect(screen.getByText("Current Shift")).toBeTruthy();
+    expect(screen.getByText("Income").nextElementSibling?.textContent).toBe("$30.00");
+    expect(screen.getByText("Expected in drawer").nextElementSibling?.textContent).toBe("$80.00");
+    expect(screen.queryByText("$900.00")).toBeNull();
+    expect(screen.queryByText("Shift Report")).toBeNull();
+  });
+
+  it("shows admins the shift report with variance per shift", () => {
+    const report: ShiftReportRow[] = [
+      {
+        shift_id: "shift-1",
+        user_id: "user-2",
+        cashier_name: "Asha",
+        account_id: "acc-1",
+        opened_at: "2026-10-17T08:00:00.000Z",
+        closed_at: "2026-10-17T16:30:00.000Z",
+        opening_float: 50,
+        cash_in: 400,
+        cash_out: 120,
+        expected_cash: 330,
+        counted_cash: 320,
+        variance: -10
+      }
+    ];
+    render(<DashboardPage {...defaultProps} entries={[]} shiftReport={report} />);
+    expect(screen.getByText("Asha")).toBeTruthy();
+    expect(screen.getByText(/8h 30m/)).toBeTruthy();
+    expect(screen.getByText("-$10.00")).toBeTruthy();
+  });
+
+  it("lists due recurring entries and posts one with a single tap", () => {
+    const onPostRecurring = vi.fn().mockResolvedValue(undefined);
+    const today = new Date().toISOString().slice(0, 10);
+    const rent: RecurringEntry = {
+      id: "rec-1",
+      workspace_id: "ws-1",
+      name: "Shop rent",
+      direction: "cash_out",
+      amount: 1500,
+      category_id: "cat-rent",
+      account_id: "acc-1",
+      remarks: null,
+      frequency: "monthly",
+      mode: "remind",
+      start_date: "2026-01-01",
+      end_date: null,
+      next_due_date: today,
+      is_active: true,
+      last_error: null,
+      created_by: "user-1"
+    };
+    const later: RecurringEntry = { ...rent, id: "rec-2", name: "Internet", next_due_date: "2999-01-01" };
+    render(
+      <DashboardPage
+        {...defaultProps}
+        entries={[]}
+        recurringEntries={[rent, later]}
+        onPostRecurring={onPostRecurring}
+      />
+    );
+    expect(screen.getByText("Due Today")).toBeTruthy();
+    expect(screen.queryByText("Internet")).toBeNull();
+    fireEvent.click(screen.getByRole("button", { name: "Post" }));
+    expect(onPostRecurring).toHaveBeenCalledWith(rent);
+  });
+
   it("shows a neutral tone when breaking even", () => {
     const entries = [createEntry(100, "cash_in"), createEntry(100, "cash_out")];
     render(<DashboardPage {...defaultProps} entries={entries} />);
     expect(screen.getByText(/Break-even trend/i)).toBeTruthy();
   });
-});
\ No newline at end of file
+
+  it("shows budget progress with the warning level past 80%", () => {
+    const progress: BudgetProgress = {
+      budget_id: "b-1",
+      category_id: "cat-ads",
+      period: "monthly",
+      amount: 1000,
+      period_start: "2026-10-01T00:00:00.000Z",
+      period_end: "2026-11-01T00:00:00.000Z",
+      spent: 850
+    };
+    render(
+      <DashboardPage
+        {...defaultProps}
+        entries={[]}
+        categories={[
+          {
+            id: "cat-ads",
+            workspace_id: "ws-1",
+            name: "Marketing",
+            type: "expense",
+            icon: null,
+            color: null,
+            source: "manual",
+            is_active: true,
+            parent_id: null
+          }
+        ]}
+        budgets={[{ id: "b-1", workspace_id: "ws-1", category_id: "cat-ads", period: "monthly", amount: 1000 }]}
+        budgetProgress={[progress]}
+      />
+    );
+    expect(screen.getByText("Budgets")).toBeTruthy();
+    expect(screen.getByText("$850.00 of $1,000.00 • 85%").className).toBe("budget-level-warn");
+    expect(screen.getByText("Monthly • $150.00 left")).toBeTruthy();
+    expect(screen.getByRole("progressbar", { name: "Marketing budget used" }).getAttribute("aria-valuenow")).toBe("85");
+  });
+
+  it("hides the add buttons and budgets a custom role does not allow", () => {
+    const cashier: WorkspaceMember = { ...mockMember, role: "editor", custom_role_id: "role-1" };
+    const permissions = memberPermissions(cashier, [
+      {
+        id: "role-1",
+        workspace_id: "ws-1",
+        name: "Cashier",
+        ...memberPermissions({ ...mockMember, role: "editor", custom_role_id: null }, []),
+        can_add_cash_out: false,
+        can_view_reports: false,
+        can_manage_categories: false
+      }
+    ]);
+    render(
+      <DashboardPage
+        {...defaultProps}
+        member={cashier}
+        permissions={permissions}
+        entries={[]}
+        budgetProgress={[
+          {
+            budget_id: "b-1",
+            category_id: "cat-ads",
+            period: "monthly",
+            amount: 1000,
+            period_start: "2026-10-01T00:00:00.000Z",
+            period_end: "2026-11-01T00:00:00.000Z",
+            spent: 850
+          }
+        ]}
+      />
+    );
+    expect(screen.getByText("Cash In")).toBeTruthy();
+    expect(screen.queryByText("Cash Out")).toBeNull();
+    expect(screen.queryByText("Budgets")).toBeNull();
+  });
+
+  it("gives a viewer a read-only dashboard", () => {
+    const viewer: WorkspaceMember = { ...mockMember, role: "viewer" };
+    render(
+      <DashboardPage
+        {...defaultProps}
+        member={viewer}
+        permissions={memberPermissions(viewer, [])}
+        entries={[createEntry(100, "cash_in")]}
+      />
+    );
+    expect(screen.getByText("Recent Entries")).toBeTruthy();
+    expect(screen.getByText("Details")).toBeTruthy();
+    expect(screen.queryByText("Cash In")).toBeNull();
+    expect(screen.queryByText("Cash Out")).toBeNull();
+    expect(screen.queryByText("Close Day")).toBeNull();
+    expect(screen.queryByText("Request Delete")).toBeNull();
+    expect(screen.queryByText("Transfer")).toBeNull();
+  });
+
+  it("passes the reviewer note with an edit request decision", () => {
+    const onReviewEditRequest = vi.fn();
+    const request: EntryEditRequest = {
+      id: "edit-1",
+      workspace_id: "ws-1",
+      entry_id: "entry-123456789",
+      requested_by: "user-2",
+      reason: "Wrong amount",
+      proposed: { amount: 250 },
+      status: "pending",
+      reviewed_by: null,
+      reviewed_at: null,
+      review_note: null,
+      created_at: new Date().toISOString()
+    };
+    render(
+      <DashboardPage
+        {...defaultProps}
+        entries={[]}
+        pendingEditRequests={[request]}
+        onReviewEditRequest={onReviewEditRequest}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText("Reviewer note"), { target: { value: " Bill shows 250 " } });
+    fireEvent.click(screen.getAllByText("Reject")[0]);
+    expect(onReviewEditRequest).toHaveBeenCalledWith("edit-1", false, "Bill shows 250");
+  });
+});
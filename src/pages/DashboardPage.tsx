@@ -1,34 +1,146 @@
+import { useState } from "react";
+import { AccountsCard } from "@/components/accounts/AccountsCard";
+import { BudgetProgressCard } from "@/components/budgets/BudgetProgressCard";
 import { NeonCard } from "@/components/common/NeonCard";
-import { dateKeyInTimeZone, formatCurrency, formatDateTimeInTimeZone, todayInTimeZone } from "@/lib/format";
-import type { CashDirection, Category, DeleteRequest, Entry, Workspace, WorkspaceMember } from "@/types/domain";
+import { DeleteRequestsCard } from "@/components/entries/DeleteRequestsCard";
+import { FailedSyncCard } from "@/components/entries/FailedSyncCard";
+import { SplitLinesDetails } from "@/components/entries/SplitLinesDetails";
+import { DueTodayCard } from "@/components/recurring/DueTodayCard";
+import { ShiftCard } from "@/components/shifts/ShiftCard";
+import { ShiftReportCard } from "@/components/shifts/ShiftReportCard";
+import { buildAccountNameMap, entryTitle } from "@/lib/entryLabels";
+import {
+  dateKeyInTimeZone,
+  formatCurrency,
+  formatDateTimeInTimeZone,
+  shiftDateKey,
+  todayInTimeZone
+} from "@/lib/format";
+import type { OutboxItem } from "@/lib/offlineQueue";
+import type {
+  Account,
+  AccountBalance,
+  AccountKind,
+  BudgetPeriod,
+  BudgetProgress,
+  CashDirection,
+  Category,
+  CategoryBudget,
+  DayClosing,
+  DeleteRequestDetail,
+  Entry,
+  EntryEditRequest,
+  MemberPermissions,
+  Party,
+  RecurringEntry,
+  Shift,
+  ShiftReportRow,
+  Workspace,
+  WorkspaceContext,
+  WorkspaceMember
+} from "@/types/domain";
 
 interface DashboardPageProps {
   workspace: Workspace;
   member: WorkspaceMember;
+  permissions: MemberPermissions;
   categories: Category[];
+  accounts: Account[];
+  accountBalances: AccountBalance[];
+  parties: Party[];
+  budgets: CategoryBudget[];
+  budgetProgress: BudgetProgress[];
   entries: Entry[];
-  pendingDeleteRequests: DeleteRequest[];
+  dayClosings: DayClosing[];
+  openShift: Shift | null;
+  shiftEntries: Entry[];
+  shiftReport: ShiftReportRow[];
+  recurringEntries: RecurringEntry[];
+  pendingDeleteRequests: DeleteRequestDetail[];
+  myDeleteRequests: DeleteRequestDetail[];
+  pendingEditRequests: EntryEditRequest[];
+  failedOutboxItems: OutboxItem[];
+  workspaceOptions: WorkspaceContext[];
   onOpenQuickAdd: (direction: CashDirection) => void;
+  onOpenTransfer: () => void;
+  onOpenCloseDay: (businessDate: string) => void;
+  onOpenShift: (openingFloat: number) => Promise<boolean>;
+  onCloseShift: (countedCash: number, note: string) => Promise<boolean>;
+  onPostRecurring: (item: RecurringEntry) => Promise<void>;
+  onSkipRecurring: (item: RecurringEntry) => Promise<void>;
+  onAddAccount: (name: string, kind: AccountKind) => Promise<boolean>;
+  onArchiveAccount: (account: Account) => Promise<void>;
+  onSaveBudget: (categoryId: string, period: BudgetPeriod, amount: number) => Promise<boolean>;
+  onRemoveBudget: (budget: CategoryBudget) => Promise<void>;
+  onOpenEntry: (entry: Entry) => void;
   onDeleteEntry: (entry: Entry) => Promise<void>;
-  onReviewDeleteRequest: (id: string, approved: boolean) => Promise<void>;
+  onReviewDeleteRequest: (id: string, approved: boolean, note: string) => Promise<void>;
+  onLoadDeleteRequestHistory: () => Promise<DeleteRequestDetail[]>;
+  onOpenReceipt: (path: string) => Promise<void>;
+  onReviewEditRequest: (id: string, approved: boolean, note: string) => Promise<void>;
+  onRetryOutboxItem: (item: OutboxItem) => Promise<void>;
+  onDiscardOutboxItem: (item: OutboxItem) => Promise<void>;
 }
 
 export function DashboardPage(props: DashboardPageProps): JSX.Element {
   const {
     workspace,
     member,
+    permissions,
     categories,
-    entries,
+    accounts,
+    accountBalances,
+    parties,
+    budgets,
+    budgetProgress,
+    entries: workspaceEntries,
+    dayClosings,
+    openShift,
+    shiftEntries,
+    shiftReport,
+    recurringEntries,
     pendingDeleteRequests,
+    myDeleteRequests,
+    pendingEditRequests,
+    failedOutboxItems,
+    workspaceOptions,
     onOpenQuickAdd,
+    onOpenTransfer,
+    onOpenCloseDay,
+    onOpenShift,
+    onCloseShift,
+    onPostRecurring,
+    onSkipRecurring,
+    onAddAccount,
+    onArchiveAccount,
+    onSaveBudget,
+    onRemoveBudget,
+    onOpenEntry,
     onDeleteEntry,
-    onReviewDeleteRequest
+    onReviewDeleteRequest,
+    onLoadDeleteRequestHistory,
+    onOpenReceipt,
+    onReviewEditRequest,
+    onRetryOutboxItem,
+    onDiscardOutboxItem
   } = props;
 
+  const [editNotes, setEditNotes] = useState<Record<string, string>>({});
+
   const categoryMap = new Map(categories.map((category) => [category.id, category.name]));
+  const accountMap = buildAccountNameMap(accounts);
+  const partyMap = new Map(parties.map((party) => [party.id, party.name]));
 
   const today = todayInTimeZone(workspace.timezone);
-  const todayEntries = entries.filter((entry) => dateKeyInTimeZone(entry.entry_at, workspace.timezone) === today);
+  // Shift-scoped members see only their open shift's entries and totals.
+  const usesShifts = member.dashboard_scope === "shift";
+  const activeShift = usesShifts ? openShift : null;
+  const entries = activeShift ? shiftEntries : workspaceEntries;
+  // Transfers only move money between accounts and credit entries move none, so neither counts as income or expense.
+  const todayEntries = entries.filter(
+    (entry) =>
+      entry.kind === "standard" && (activeShift !== null || dateKeyInTimeZone(entry.entry_at, workspace.timezone) === today)
+  );
   const todayIncome = todayEntries
     .filter((entry) => entry.direction === "cash_in")
     .reduce((sum, entry) => sum + entry.amount, 0);
@@ -38,6 +150,30 @@ export function DashboardPage(props: DashboardPageProps): JSX.Element {
   const todayBalance = todayEntries.reduce((sum, entry) => {
     return sum + (entry.direction === "cash_in" ? entry.amount : -entry.amount);
   }, 0);
+  const yesterday = shiftDateKey(today, -1);
+  // Workspaces created today have no yesterday to close.
+  const yesterdayUnclosed =
+    dateKeyInTimeZone(workspace.created_at, workspace.timezone) <= yesterday &&
+    !dayClosings.some((closing) => closing.business_date === yesterday);
+  const shiftExpectedCash = activeShift
+    ? shiftEntries.reduce((sum, entry) => {
+        if (entry.kind === "credit") {
+          return sum;
+        }
+        if (entry.kind === "transfer") {
+          if (entry.account_id === activeShift.account_id) {
+            return sum - entry.amount;
+          }
+          return entry.transfer_account_id === activeShift.account_id ? sum + entry.amount : sum;
+        }
+        if (entry.account_id !== activeShift.account_id) {
+          return sum;
+        }
+        return sum + (entry.direction === "cash_in" ? entry.amount : -entry.amount);
+      }, activeShift.opening_float)
+    : 0;
+  const dueRecurring = recurringEntries.filter((item) => item.is_active && item.next_due_date <= today);
+  const cashOnHand = accountBalances.reduce((sum, row) => sum + row.balance, 0);
   const balanceLabel = `${todayBalance >= 0 ? "+" : "-"}${formatCurrency(Math.abs(todayBalance), workspace.currency)}`;
   const needsExpenseControl = todayExpense > todayIncome;
   const expenseRatio = todayIncome > 0 ? todayExpense / todayIncome : todayExpense > 0 ? Number.POSITIVE_INFINITY : 0;
@@ -72,12 +208,78 @@ export function DashboardPage(props: DashboardPageProps): JSX.Element {
     };
   })();
 
+  const describeProposal = (request: EntryEditRequest): string => {
+    const parts: string[] = [];
+    if (request.proposed.direction) {
+      parts.push(request.proposed.direction === "cash_in" ? "Cash In" : "Cash Out");
+    }
+    if (request.proposed.amount !== undefined) {
+      parts.push(formatCurrency(request.proposed.amount, workspace.currency));
+    }
+    if (request.proposed.category_id) {
+      parts.push(categoryMap.get(request.proposed.category_id) ?? "Unknown category");
+    }
+    if (request.proposed.split_lines !== undefined) {
+      parts.push(
+        request.proposed.split_lines
+          ? `Split across ${request.proposed.split_lines.length} categories`
+          : "Single category"
+      );
+    }
+    if (request.proposed.account_id) {
+      parts.push(accountMap.get(request.proposed.account_id) ?? "Unknown account");
+    }
+    if (request.proposed.transfer_account_id) {
+      parts.push(`to ${accountMap.get(request.proposed.transfer_account_id) ?? "Unknown account"}`);
+    }
+    if (request.proposed.entry_at) {
+      parts.push(formatDateTimeInTimeZone(request.proposed.entry_at, workspace.timezone));
+    }
+    if (request.proposed.remarks !== undefined) {
+      parts.push(request.proposed.remarks ? `"${request.proposed.remarks}"` : "Remarks cleared");
+    }
+    return parts.join(" • ");
+  };
+
   const ticker = entries.slice(0, 3);
-  const canDeleteDirect = member.role === "admin" || member.can_delete_entries;
+  const canDeleteDirect = permissions.can_delete_entries;
+  // Viewers see the book but every write path (close, post, delete, transfer) is hidden.
+  const readOnly = member.role === "viewer";
+  const canManageCategories = permissions.can_manage_categories;
+  const sideLabel = (entry: Entry): string =>
+    entry.kind === "transfer"
+      ? "MOVE"
+      : entry.kind === "credit"
+        ? "CREDIT"
+        : entry.direction === "cash_in"
+          ? "IN"
+          : "OUT";
 
   return (
     <section className="stack-lg">
-      <NeonCard title="Today" subtitle={today} className="dashboard-hero-card">
+      {yesterdayUnclosed && !readOnly && (
+        <div className="day-close-warning" role="alert">
+          <span>Yesterday ({yesterday}) was never closed. Count the drawer to reconcile the book.</span>
+          <button className="text-btn" type="button" onClick={() => onOpenCloseDay(yesterday)}>
+            Close Yesterday
+          </button>
+        </div>
+      )}
+
+      {failedOutboxItems.length > 0 && (
+        <FailedSyncCard
+          items={failedOutboxItems}
+          workspaces={workspaceOptions}
+          onRetry={onRetryOutboxItem}
+          onDiscard={onDiscardOutboxItem}
+        />
+      )}
+
+      <NeonCard
+        title={activeShift ? "Current Shift" : "Today"}
+        subtitle={activeShift ? `Since ${formatDateTimeInTimeZone(activeShift.opened_at, workspace.timezone)}` : today}
+        className="dashboard-hero-card"
+      >
         <div className="dashboard-hero">
           <div className="dashboard-hero-main">
             <p className={`hud-balance ${todayBalance >= 0 ? "positive" : "negative"}`.trim()}>
@@ -97,6 +299,14 @@ export function DashboardPage(props: DashboardPageProps): JSX.Element {
                 <strong>{todayEntries.length}</strong>
               </article>
             </div>
+            {!activeShift && (
+              <p className="cash-on-hand">
+                <small>Cash on hand</small>
+                <strong className={cashOnHand >= 0 ? "amt-in" : "amt-out"}>
+                  {formatCurrency(cashOnHand, workspace.currency)}
+                </strong>
+              </p>
+            )}
           </div>
 
           <div 
@@ -113,16 +323,73 @@ export function DashboardPage(props: DashboardPageProps): JSX.Element {
           </div>
 
           <div className="dashboard-primary-actions">
-            <button className="fab-action fab-in" onClick={() => onOpenQuickAdd("cash_in")}>
-              Cash In
-            </button>
-            <button className="fab-action fab-out" onClick={() => onOpenQuickAdd("cash_out")}>
-              Cash Out
-            </button>
+            {permissions.can_add_cash_in && (
+              <button className="fab-action fab-in" onClick={() => onOpenQuickAdd("cash_in")}>
+                Cash In
+              </button>
+            )}
+            {permissions.can_add_cash_out && (
+              <button className="fab-action fab-out" onClick={() => onOpenQuickAdd("cash_out")}>
+                Cash Out
+              </button>
+            )}
           </div>
+          {!readOnly && (
+            <button className="secondary-btn close-day-btn" type="button" onClick={() => onOpenCloseDay(today)}>
+              Close Day
+            </button>
+          )}
         </div>
       </NeonCard>
 
+      {dueRecurring.length > 0 && !readOnly && (
+        <DueTodayCard
+          items={dueRecurring}
+          today={today}
+          currency={workspace.currency}
+          categoryNames={categoryMap}
+          canSkip={permissions.can_edit_entries}
+          onPost={onPostRecurring}
+          onSkip={onSkipRecurring}
+        />
+      )}
+
+      {usesShifts && (
+        <ShiftCard
+          shift={activeShift}
+          currency={workspace.currency}
+          timezone={workspace.timezone}
+          expectedCash={shiftExpectedCash}
+          onOpenShift={onOpenShift}
+          onCloseShift={onCloseShift}
+        />
+      )}
+
+      {!activeShift && (
+        <AccountsCard
+          accounts={accounts}
+          balances={accountBalances}
+          currency={workspace.currency}
+          canManage={member.role === "admin"}
+          canTransfer={permissions.can_add_cash_out}
+          onOpenTransfer={onOpenTransfer}
+          onAddAccount={onAddAccount}
+          onArchiveAccount={onArchiveAccount}
+        />
+      )}
+
+      {!activeShift && ((budgetProgress.length > 0 && permissions.can_view_reports) || canManageCategories) && (
+        <BudgetProgressCard
+          budgets={budgets}
+          progress={budgetProgress}
+          categories={categories}
+          currency={workspace.currency}
+          canManage={canManageCategories}
+          onSaveBudget={onSaveBudget}
+          onRemoveBudget={onRemoveBudget}
+        />
+      )}
+
       <NeonCard title="Live Ticker" subtitle="Latest transactions">
         <div className="ticker-wrap">
           {ticker.length === 0 && <p className="muted">No transactions yet.</p>}
@@ -130,12 +397,16 @@ export function DashboardPage(props: DashboardPageProps): JSX.Element {
             <div className="ticker-row" key={entry.id}>
               <span
                 className={`ticker-side-chip ${
-                  entry.direction === "cash_in" ? "ticker-side-chip-in" : "ticker-side-chip-out"
+                  entry.kind !== "standard"
+                    ? "ticker-side-chip-move"
+                    : entry.direction === "cash_in"
+                      ? "ticker-side-chip-in"
+                      : "ticker-side-chip-out"
                 }`.trim()}
               >
-                {entry.direction === "cash_in" ? "IN" : "OUT"}
+                {sideLabel(entry)}
               </span>
-              <span>{categoryMap.get(entry.category_id) ?? "Unknown"}</span>
+              <span>{entryTitle(entry, categoryMap, accountMap, partyMap)}</span>
               <strong>{formatCurrency(entry.amount, workspace.currency)}</strong>
             </div>
           ))}
@@ -147,17 +418,29 @@ export function DashboardPage(props: DashboardPageProps): JSX.Element {
           {entries.slice(0, 15).map((entry) => (
             <article className="entry-row" key={entry.id}>
               <div>
-                <strong>{categoryMap.get(entry.category_id) ?? "Unknown"}</strong>
+                <strong>{entryTitle(entry, categoryMap, accountMap, partyMap)}</strong>
                 <small>{formatDateTimeInTimeZone(entry.entry_at, workspace.timezone)}</small>
+                {entry.split_lines && (
+                  <SplitLinesDetails lines={entry.split_lines} categoryNames={categoryMap} currency={workspace.currency} />
+                )}
               </div>
               <div className="entry-row-right">
-                <span className={entry.direction === "cash_in" ? "amt-in" : "amt-out"}>
-                  {entry.direction === "cash_in" ? "+" : "-"}
-                  {formatCurrency(entry.amount, workspace.currency)}
-                </span>
-                <button className="text-btn" onClick={() => onDeleteEntry(entry)}>
-                  {canDeleteDirect ? "Delete" : "Request Delete"}
+                {entry.kind !== "standard" ? (
+                  <span className="amt-move">{formatCurrency(entry.amount, workspace.currency)}</span>
+                ) : (
+                  <span className={entry.direction === "cash_in" ? "amt-in" : "amt-out"}>
+                    {entry.direction === "cash_in" ? "+" : "-"}
+                    {formatCurrency(entry.amount, workspace.currency)}
+                  </span>
+                )}
+                <button className="text-btn" onClick={() => onOpenEntry(entry)}>
+                  Details
                 </button>
+                {!readOnly && (
+                  <button className="text-btn" onClick={() => onDeleteEntry(entry)}>
+                    {canDeleteDirect ? "Delete" : "Request Delete"}
+                  </button>
+                )}
               </div>
             </article>
           ))}
@@ -165,26 +448,59 @@ export function DashboardPage(props: DashboardPageProps): JSX.Element {
         </div>
       </NeonCard>
 
-      {(member.role === "admin" || member.can_delete_entries) && (
-        <NeonCard title="Delete Requests" subtitle="Approval queue">
+      {member.role === "admin" && (
+        <ShiftReportCard rows={shiftReport} currency={workspace.currency} timezone={workspace.timezone} />
+      )}
+
+      {(canDeleteDirect || !readOnly) && (
+        <DeleteRequestsCard
+          canReview={canDeleteDirect}
+          requests={canDeleteDirect ? pendingDeleteRequests : myDeleteRequests}
+          currency={workspace.currency}
+          timezone={workspace.timezone}
+          categoryNames={categoryMap}
+          accountNames={accountMap}
+          partyNames={partyMap}
+          onReview={onReviewDeleteRequest}
+          onLoadHistory={onLoadDeleteRequestHistory}
+          onOpenReceipt={onOpenReceipt}
+        />
+      )}
+
+      {permissions.can_edit_entries && (
+        <NeonCard title="Edit Requests" subtitle="Proposed corrections">
           <div className="stack">
-            {pendingDeleteRequests.map((request) => (
+            {pendingEditRequests.map((request) => (
               <article className="entry-row" key={request.id}>
                 <div>
                   <strong>Entry #{request.entry_id.slice(0, 8)}</strong>
+                  <small>{describeProposal(request)}</small>
                   <small>{request.reason}</small>
+                  <textarea
+                    aria-label="Reviewer note"
+                    value={editNotes[request.id] ?? ""}
+                    onChange={(event) => setEditNotes((prev) => ({ ...prev, [request.id]: event.target.value }))}
+                    placeholder="Note for the requester (optional)"
+                    maxLength={280}
+                  />
                 </div>
                 <div className="inline-actions">
-                  <button className="approve-btn" onClick={() => onReviewDeleteRequest(request.id, true)}>
+                  <button
+                    className="approve-btn"
+                    onClick={() => onReviewEditRequest(request.id, true, (editNotes[request.id] ?? "").trim())}
+                  >
                     Approve
                   </button>
-                  <button className="reject-btn" onClick={() => onReviewDeleteRequest(request.id, false)}>
+                  <button
+                    className="reject-btn"
+                    onClick={() => onReviewEditRequest(request.id, false, (editNotes[request.id] ?? "").trim())}
+                  >
                     Reject
                   </button>
                 </div>
               </article>
             ))}
-            {!pendingDeleteRequests.length && <p className="muted">No pending requests.</p>}
+            {!pendingEditRequests.length && <p className="muted">No pending edits.</p>}
           </div>
         </NeonCard>
       )}
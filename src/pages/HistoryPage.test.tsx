@@ -0,0 +1,377 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, cleanup } from "@testing-library/react";
+import { HistoryPage } from "./HistoryPage";
+import { memberPermissions } from "@/lib/permissions";
+import { downloadStatementExcel } from "@/lib/statement";
+import type { Category, LedgerEntry, WorkspaceMember } from "@/types/domain";
+
+vi.mock("@/lib/statement", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/statement")>()),
+  downloadStatementExcel: vi.fn()
+}));
+
+const mockMember: WorkspaceMember = {
+  workspace_id: "ws-1",
+  user_id: "user-1",
+  role: "editor",
+  can_delete_entries: false,
+  can_manage_categories: false,
+  can_manage_users: false,
+  dashboard_scope: "full",
+  access_disabled: false,
+  custom_role_id: null
+};
+
+const createEntry = (id: string, amount: number, runningBalance = amount): LedgerEntry => ({
+  id,
+  workspace_id: "ws-1",
+  kind: "standard",
+  amount,
+  direction: "cash_in",
+  category_id: "cat-1",
+  split_lines: null,
+  account_id: "acc-1",
+  transfer_account_id: null,
+  party_id: null,
+  shift_id: null,
+  remarks: null,
+  created_by: "user-1",
+  entry_at: new Date().toISOString(),
+  status: "active",
+  created_at: new Date().toISOString(),
+  receipt_url: null,
+  running_balance: runningBalance
+});
+
+describe("HistoryPage server queries", () => {
+  afterEach(cleanup);
+
+  const defaultProps = {
+    workspaceName: "Test Workspace",
+    currency: "USD",
+    timezone: "UTC",
+    permissions: memberPermissions(mockMember, []),
+    categories: [],
+    accounts: [],
+    parties: [],
+    memberNames: new Map([["user-1", "You"]]),
+    dataVersion: 1,
+    onClosingBalance: vi.fn().mockResolvedValue(0),
+    onBudgetVsActual: vi.fn().mockResolvedValue([]),
+    onReportError: vi.fn(),
+    onAddCategory: vi.fn(),
+    onDropCategory: vi.fn(),
+    onEditCategory: vi.fn(),
+    onMergeCategory: vi.fn(),
+    onListArchivedCategories: vi.fn().mockResolvedValue([]),
+    onRestoreCategory: vi.fn(),
+    onOpenEntry: vi.fn()
+  };
+
+  it("shows server totals instead of summing loaded rows", async () => {
+    const onQueryEntries = vi.fn().mockResolvedValue({ rows: [createEntry("e-1", 10)], nextCursor: null });
+    const onSummarizeEntries = vi.fn().mockResolvedValue({ cashIn: 9000, cashOut: 250, count: 412 });
+
+    render(<HistoryPage {...defaultProps} onQueryEntries={onQueryEntries} onSummarizeEntries={onSummarizeEntries} />);
+
+    await waitFor(() => {
+      expect(screen.getByText("$9,000.00")).toBeTruthy();
+    });
+    expect(screen.getByText("412 matching entries")).toBeTruthy();
+  });
+
+  it("requests the next page with the returned cursor", async () => {
+    const cursor = { entry_at: "2026-03-01T10:00:00.000Z", id: "e-1" };
+    const onQueryEntries = vi
+      .fn()
+      .mockResolvedValueOnce({ rows: [createEntry("e-1", 10)], nextCursor: cursor })
+      .mockResolvedValueOnce({ rows: [createEntry("e-2", 20)], nextCursor: null });
+    const onSummarizeEntries = vi.fn().mockResolvedValue({ cashIn: 30, cashOut: 0, count: 2 });
+
+    render(<HistoryPage {...defaultProps} onQueryEntries={onQueryEntries} onSummarizeEntries={onSummarizeEntries} />);
+
+    fireEvent.click(await screen.findByText("Load more"));
+
+    await waitFor(() => {
+      expect(onQueryEntries).toHaveBeenLastCalledWith(expect.any(Object), cursor, 50, false);
+    });
+    await waitFor(() => {
+      expect(screen.queryByText("Load more")).toBeNull();
+    });
+  });
+
+  it("shows a split entry as one row with expandable category lines", async () => {
+    const split: LedgerEntry = {
+      ...createEntry("e-1", 100),
+      direction: "cash_out",
+      category_id: "cat-veg",
+      split_lines: [
+        { category_id: "cat-veg", amount: 60 },
+        { category_id: "cat-meat", amount: 40 }
+      ]
+    };
+    const onQueryEntries = vi.fn().mockResolvedValue({ rows: [split], nextCursor: null });
+    const onSummarizeEntries = vi.fn().mockResolvedValue({ cashIn: 0, cashOut: 100, count: 1 });
+    const category = (id: string, name: string): Category => ({
+      id,
+      workspace_id: "ws-1",
+      name,
+      type: "expense",
+      icon: null,
+      color: null,
+      source: "manual",
+      is_active: true,
+      parent_id: null
+    });
+    const categories = [category("cat-veg", "Vegetables"), category("cat-meat", "Meat")];
+
+    render(
+      <HistoryPage
+        {...defaultProps}
+        categories={categories}
+        onQueryEntries={onQueryEntries}
+        onSummarizeEntries={onSummarizeEntries}
+      />
+    );
+
+    expect(await screen.findByText("Vegetables +1 more")).toBeTruthy();
+    expect(screen.getByText("Split across 2 categories")).toBeTruthy();
+    expect(screen.getByText("$40.00")).toBeTruthy();
+  });
+
+  it("shows running and period balances in ledger view", async () => {
+    const onQueryEntries = vi.fn().mockResolvedValue({ rows: [createEntry("e-1", 40, 1040)], nextCursor: null });
+    const onSummarizeEntries = vi.fn().mockResolvedValue({ cashIn: 40, cashOut: 0, count: 1 });
+    const onClosingBalance = vi.fn().mockResolvedValueOnce(1000).mockResolvedValueOnce(1040);
+
+    render(
+      <HistoryPage
+        {...defaultProps}
+        onQueryEntries={onQueryEntries}
+        onSummarizeEntries={onSummarizeEntries}
+        onClosingBalance={onClosingBalance}
+      />
+    );
+
+    fireEvent.click(await screen.findByText("Ledger view"));
+
+    expect(await screen.findByText("Bal $1,040.00")).toBeTruthy();
+    expect(onQueryEntries).toHaveBeenLastCalledWith(expect.any(Object), null, 50, true);
+    await waitFor(() => {
+      expect(screen.getByText("Opening Balance").nextElementSibling?.textContent).toBe("$1,000.00");
+    });
+    expect(screen.getByText("Closing Balance").nextElementSibling?.textContent).toBe("$1,040.00");
+  });
+
+  it("skips totals, ledger view and export when the role cannot view reports", async () => {
+    const onQueryEntries = vi.fn().mockResolvedValue({ rows: [createEntry("e-1", 40)], nextCursor: null });
+    const onSummarizeEntries = vi.fn();
+
+    render(
+      <HistoryPage
+        {...defaultProps}
+        permissions={{ ...defaultProps.permissions, can_view_reports: false }}
+        onQueryEntries={onQueryEntries}
+        onSummarizeEntries={onSummarizeEntries}
+      />
+    );
+
+    await waitFor(() => {
+      expect(onQueryEntries).toHaveBeenCalledWith(expect.any(Object), null, 50, false);
+    });
+    expect(onSummarizeEntries).not.toHaveBeenCalled();
+    expect(screen.queryByText("Ledger view")).toBeNull();
+    expect(screen.queryByText("Export Excel")).toBeNull();
+  });
+
+  it("adds budget vs actual to the exported statement", async () => {
+    const onQueryEntries = vi.fn().mockResolvedValue({ rows: [createEntry("e-1", 40)], nextCursor: null });
+    const onSummarizeEntries = vi.fn().mockResolvedValue({ cashIn: 40, cashOut: 0, count: 1 });
+    const onBudgetVsActual = vi.fn().mockResolvedValue([
+      {
+        budget_id: "b-1",
+        category_id: "cat-1",
+        period: "monthly",
+        amount: 500,
+        periods: 1,
+        budget_total: 500,
+        actual: 600
+      }
+    ]);
+    const categories: Category[] = [
+      {
+        id: "cat-1",
+        workspace_id: "ws-1",
+        name: "Marketing",
+        type: "expense",
+        icon: null,
+        color: null,
+        source: "manual",
+        is_active: true,
+        parent_id: null
+      }
+    ];
+
+    render(
+      <HistoryPage
+        {...defaultProps}
+        categories={categories}
+        onQueryEntries={onQueryEntries}
+        onSummarizeEntries={onSummarizeEntries}
+        onBudgetVsActual={onBudgetVsActual}
+      />
+    );
+
+    await screen.findByText("$40.00");
+    fireEvent.click(screen.getByText("Export Excel"));
+
+    await waitFor(() => expect(downloadStatementExcel).toHaveBeenCalled());
+    expect(onQueryEntries).toHaveBeenLastCalledWith(expect.any(Object), null, 500, true, true);
+    const html = vi.mocked(downloadStatementExcel).mock.calls[0][0];
+    expect(html).toContain("Budget vs Actual");
+    expect(html).toContain("Marketing");
+    expect(html).toContain("120%");
+    expect(html).toContain("-$100.00");
+  });
+
+  it("keeps the budgets of a group's subcategories when exporting a group filter", async () => {
+    vi.mocked(downloadStatementExcel).mockClear();
+    const onQueryEntries = vi.fn().mockResolvedValue({ rows: [createEntry("e-1", 40)], nextCursor: null });
+    const onSummarizeEntries = vi.fn().mockResolvedValue({ cashIn: 40, cashOut: 0, count: 1 });
+    const budget = (id: string, categoryId: string) => ({
+      budget_id: id,
+      category_id: categoryId,
+      period: "monthly",
+      amount: 500,
+      periods: 1,
+      budget_total: 500,
+      actual: 100
+    });
+    const onBudgetVsActual = vi.fn().mockResolvedValue([budget("b-1", "cat-ads"), budget("b-2", "cat-rent")]);
+    const category = (id: string, name: string, parentId: string | null): Category => ({
+      id,
+      workspace_id: "ws-1",
+      name,
+      type: "expense",
+      icon: null,
+      color: null,
+      source: "manual",
+      is_active: true,
+      parent_id: parentId
+    });
+
+    const { container } = render(
+      <HistoryPage
+        {...defaultProps}
+        categories={[
+          category("cat-marketing", "Marketing", null),
+          category("cat-ads", "Online Ads", "cat-marketing"),
+          category("cat-rent", "Rent", null)
+        ]}
+        onQueryEntries={onQueryEntries}
+        onSummarizeEntries={onSummarizeEntries}
+        onBudgetVsActual={onBudgetVsActual}
+      />
+    );
+
+    fireEvent.change(container.querySelector(".history-filter-row select")!, { target: { value: "cat-marketing" } });
+    await screen.findByText("$40.00");
+    fireEvent.click(screen.getByText("Export Excel"));
+
+    await waitFor(() => expect(downloadStatementExcel).toHaveBeenCalled());
+    const html = vi.mocked(downloadStatementExcel).mock.calls[0][0];
+    expect(html).toContain("Online Ads");
+    expect(html).not.toContain("Rent");
+  });
+
+  it("merges a category into another of the same type and restores archived ones", async () => {
+    const onQueryEntries = vi.fn().mockResolvedValue({ rows: [], nextCursor: null });
+    const onSummarizeEntries = vi.fn().mockResolvedValue({ cashIn: 0, cashOut: 0, count: 0 });
+    const onMergeCategory = vi.fn().mockResolvedValue(undefined);
+    const onRestoreCategory = vi.fn().mockResolvedValue(undefined);
+    const category = (id: string, name: string, type: "income" | "expense", isActive = true): Category => ({
+      id,
+      workspace_id: "ws-1",
+      name,
+      type,
+      icon: null,
+      color: null,
+      source: "manual",
+      is_active: isActive,
+      parent_id: null
+    });
+    const onListArchivedCategories = vi.fn().mockResolvedValue([category("cat-9", "Old Stock", "expense", false)]);
+
+    render(
+      <HistoryPage
+        {...defaultProps}
+        permissions={memberPermissions({ ...mockMember, role: "admin" }, [])}
+        categories={[category("cat-2", "Ads", "expense"), category("cat-3", "Marketing", "expense"), category("cat-4", "Sales", "income")]}
+        onQueryEntries={onQueryEntries}
+        onSummarizeEntries={onSummarizeEntries}
+        onMergeCategory={onMergeCategory}
+        onListArchivedCategories={onListArchivedCategories}
+        onRestoreCategory={onRestoreCategory}
+      />
+    );
+
+    fireEvent.click(screen.getByText("Manage existing categories"));
+    fireEvent.click(screen.getAllByText("Edit")[0]);
+
+    const target = screen.getByLabelText("Merge into") as HTMLSelectElement;
+    expect(Array.from(target.options).map((option) => option.text)).toEqual(["Select a category", "Marketing"]);
+    fireEvent.change(target, { target: { value: "cat-3" } });
+    fireEvent.click(screen.getByText("Merge"));
+    expect(onMergeCategory).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByText("Confirm Merge"));
+    await waitFor(() => expect(onMergeCategory).toHaveBeenCalledWith("cat-2", "cat-3"));
+
+    expect(await screen.findByText("Old Stock")).toBeTruthy();
+    fireEvent.click(screen.getByText("Restore"));
+    await waitFor(() => expect(onRestoreCategory).toHaveBeenCalledWith("cat-9"));
+  });
+
+  it("filters and totals by a category group, listing its subcategories under it", async () => {
+    const onQueryEntries = vi.fn().mockResolvedValue({ rows: [], nextCursor: null });
+    const onSummarizeEntries = vi.fn().mockResolvedValue({ cashIn: 0, cashOut: 700, count: 3 });
+    const category = (id: string, name: string, parentId: string | null = null): Category => ({
+      id,
+      workspace_id: "ws-1",
+      name,
+      type: "expense",
+      icon: null,
+      color: null,
+      source: "manual",
+      is_active: true,
+      parent_id: parentId
+    });
+
+    render(
+      <HistoryPage
+        {...defaultProps}
+        categories={[
+          category("cat-kitchen", "Kitchen Staff Salary", "cat-staff"),
+          category("cat-rent", "Rent"),
+          category("cat-staff", "Staff"),
+          category("cat-stylist", "Stylist Commission", "cat-staff")
+        ]}
+        onQueryEntries={onQueryEntries}
+        onSummarizeEntries={onSummarizeEntries}
+      />
+    );
+
+    const select = screen.getByDisplayValue("All categories") as HTMLSelectElement;
+    expect(Array.from(select.options).map((option) => option.text.trim())).toEqual([
+      "All categories",
+      "Staff (all)",
+      "Kitchen Staff Salary",
+      "Stylist Commission",
+      "Rent"
+    ]);
+
+    fireEvent.change(select, { target: { value: "cat-staff" } });
+    await waitFor(() => {
+      expect(onSummarizeEntries).toHaveBeenLastCalledWith(expect.objectContaining({ categoryId: "cat-staff" }));
+    });
+  });
+});
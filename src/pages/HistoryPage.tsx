@@ -1,7 +1,36 @@
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { NeonCard } from "@/components/common/NeonCard";
-import { dateKeyInTimeZone, formatCurrency, formatDateTimeInTimeZone } from "@/lib/format";
-import type { Category, Entry, WorkspaceMember } from "@/types/domain";
+import { CategoryEditForm } from "@/components/categories/CategoryEditForm";
+import { CategoryOptions } from "@/components/categories/CategoryOptions";
+import { SplitLinesDetails } from "@/components/entries/SplitLinesDetails";
+import {
+  endOfDateKeyIso,
+  formatCurrency,
+  formatDateTimeInTimeZone,
+  sanitizeAmountInput,
+  shiftDateKey,
+  todayInTimeZone,
+  zonedDateToIso
+} from "@/lib/format";
+import { buildAccountNameMap, entryTitle, entryTypeLabel } from "@/lib/entryLabels";
+import { BUDGET_PERIOD_LABELS, budgetPercent } from "@/lib/budgets";
+import { groupCategories, subcategoryIds } from "@/lib/categoryTree";
+import { buildStatementHtml, downloadStatementExcel, printStatement, STATEMENT_AMOUNT_COLORS } from "@/lib/statement";
+import type {
+  Account,
+  BudgetActual,
+  CashDirection,
+  Category,
+  CategoryUpdateInput,
+  Entry,
+  EntryCursor,
+  EntryPage,
+  EntryQueryFilters,
+  EntryTotals,
+  LedgerEntry,
+  MemberPermissions,
+  Party
+} from "@/types/domain";
 
 type DatePreset =
   | "today_so_far"
@@ -17,22 +46,77 @@ interface HistoryPageProps {
   workspaceName: string;
   currency: string;
   timezone: string;
-  member: WorkspaceMember;
+  permissions: MemberPermissions;
   categories: Category[];
-  entries: Entry[];
-  onAddCategory: (name: string, type: "income" | "expense") => Promise<void>;
+  accounts: Account[];
+  parties: Party[];
+  memberNames: Map<string, string>;
+  dataVersion: number;
+  // Running balances cost an extra aggregate, so they are requested only for ledger view and exports.
+  onQueryEntries: (
+    filters: EntryQueryFilters,
+    cursor: EntryCursor | null,
+    limit?: number,
+    withBalance?: boolean,
+    forExport?: boolean
+  ) => Promise<EntryPage>;
+  onSummarizeEntries: (filters: EntryQueryFilters) => Promise<EntryTotals>;
+  onClosingBalance: (asOf: string, accountId: string | null) => Promise<number>;
+  onBudgetVsActual: (from: string | null, to: string | null) => Promise<BudgetActual[]>;
+  onReportError: (location: string, error: unknown, detail?: string) => void;
+  onAddCategory: (name: string, type: "income" | "expense", parentId: string | null) => Promise<void>;
   onDropCategory: (categoryId: string) => Promise<void>;
+  onEditCategory: (categoryId: string, input: CategoryUpdateInput) => Promise<void>;
+  onMergeCategory: (sourceCategoryId: string, targetCategoryId: string) => Promise<void>;
+  onListArchivedCategories: () => Promise<Category[]>;
+  onRestoreCategory: (categoryId: string) => Promise<void>;
+  onOpenEntry: (entry: Entry) => void;
+}
+
+const PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 500;
+
+interface PeriodBalances {
+  opening: number;
+  closing: number;
+}
+
+// Opening is the closing balance just before the range starts; an open start means "before any entry".
+async function loadPeriodBalances(
+  filters: EntryQueryFilters,
+  closingBalance: (asOf: string, accountId: string | null) => Promise<number>
+): Promise<PeriodBalances> {
+  const openingAsOf = filters.from ? new Date(new Date(filters.from).getTime() - 1).toISOString() : new Date(0).toISOString();
+  const closingAsOf = filters.to ?? new Date().toISOString();
+  const [opening, closing] = await Promise.all([
+    closingBalance(openingAsOf, filters.accountId ?? null),
+    closingBalance(closingAsOf, filters.accountId ?? null)
+  ]);
+  return { opening, closing };
 }
 
 export function HistoryPage({
   workspaceName,
   currency,
   timezone,
-  member,
+  permissions,
   categories,
-  entries,
+  accounts,
+  parties,
+  memberNames,
+  dataVersion,
+  onQueryEntries,
+  onSummarizeEntries,
+  onClosingBalance,
+  onBudgetVsActual,
+  onReportError,
   onAddCategory,
-  onDropCategory
+  onDropCategory,
+  onEditCategory,
+  onMergeCategory,
+  onListArchivedCategories,
+  onRestoreCategory,
+  onOpenEntry
 }: HistoryPageProps): JSX.Element {
   const presetOptions: Array<{ value: DatePreset; label: string }> = [
     { value: "today_so_far", label: "Today" },
@@ -49,212 +133,369 @@ export function HistoryPage({
   const [datePreset, setDatePreset] = useState<DatePreset>("this_month");
   const [customFrom, setCustomFrom] = useState<string>("");
   const [customTo, setCustomTo] = useState<string>("");
+  const [directionFilter, setDirectionFilter] = useState<CashDirection | "transfer" | "credit" | "">("");
+  const [accountFilter, setAccountFilter] = useState("");
+  const [createdByFilter, setCreatedByFilter] = useState("");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [remarksInput, setRemarksInput] = useState("");
+  const [remarksQuery, setRemarksQuery] = useState("");
+  const [rows, setRows] = useState<LedgerEntry[]>([]);
+  const [ledgerMode, setLedgerMode] = useState(false);
+  const [periodBalances, setPeriodBalances] = useState<PeriodBalances | null>(null);
+  const [nextCursor, setNextCursor] = useState<EntryCursor | null>(null);
+  const [loadingRows, setLoadingRows] = useState(false);
+  const [totals, setTotals] = useState<EntryTotals>({ cashIn: 0, cashOut: 0, count: 0 });
+  const [queryError, setQueryError] = useState("");
+  const [exporting, setExporting] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState("");
   const [newCategoryType, setNewCategoryType] = useState<"income" | "expense">("expense");
+  const [newCategoryParentId, setNewCategoryParentId] = useState("");
   const [savingCategory, setSavingCategory] = useState(false);
   const [categoryError, setCategoryError] = useState("");
   const [droppingId, setDroppingId] = useState("");
   const [confirmDropId, setConfirmDropId] = useState("");
   const [showCategoryList, setShowCategoryList] = useState(false);
+  const [editingCategoryId, setEditingCategoryId] = useState("");
+  const [archivedCategories, setArchivedCategories] = useState<Category[]>([]);
+  const [restoringId, setRestoringId] = useState("");
+  const querySeqRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
 
-  const canManageCategories = member.role === "admin" || member.can_manage_categories;
+  const canManageCategories = permissions.can_manage_categories;
+  const canViewReports = permissions.can_view_reports;
 
+  useEffect(() => {
+    const handle = window.setTimeout(() => setRemarksQuery(remarksInput.trim()), 300);
+    return () => window.clearTimeout(handle);
+  }, [remarksInput]);
+
+  // Ranges are resolved in the workspace timezone so server totals match the dashboard's notion of "today".
   const dateRange = useMemo(() => {
-    const now = new Date();
-    const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, 0, 0, 0);
-    const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
-    const startOfWeek = (date: Date) => {
-      const day = date.getDay();
-      const diff = day === 0 ? -6 : 1 - day;
-      const d = new Date(date);
-      d.setDate(date.getDate() + diff);
-      return startOfDay(d);
-    };
-    const endOfWeek = (date: Date) => {
-      const start = startOfWeek(date);
-      const end = new Date(start);
-      end.setDate(start.getDate() + 6);
-      return endOfDay(end);
-    };
-    const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1, 0, 0, 0, 0);
-    const endOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999);
+    const today = todayInTimeZone(timezone);
+    const nowIso = new Date().toISOString();
+    const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+    const weekStart = shiftDateKey(today, weekday === 0 ? -6 : 1 - weekday);
+    const monthStart = `${today.slice(0, 7)}-01`;
+    const nextMonthStart = `${shiftDateKey(monthStart, 32).slice(0, 7)}-01`;
+    const prevMonthStart = `${shiftDateKey(monthStart, -1).slice(0, 7)}-01`;
+    const range = (fromKey: string | null, toIso: string | null, toKey: string | null, label: string) => ({
+      from: fromKey ? zonedDateToIso(fromKey, timezone) : null,
+      to: toIso,
+      fromKey,
+      toKey,
+      label
+    });
 
     if (datePreset === "today_so_far") {
-      return { from: startOfDay(now), to: now, label: "Today so far" };
+      return range(today, nowIso, today, "Today so far");
     }
     if (datePreset === "yesterday") {
-      const y = new Date(now);
-      y.setDate(y.getDate() - 1);
-      return { from: startOfDay(y), to: endOfDay(y), label: "Yesterday" };
+      const yesterday = shiftDateKey(today, -1);
+      return range(yesterday, endOfDateKeyIso(yesterday, timezone), yesterday, "Yesterday");
     }
     if (datePreset === "this_week_so_far") {
-      return { from: startOfWeek(now), to: now, label: "This week so far" };
+      return range(weekStart, nowIso, today, "This week so far");
     }
     if (datePreset === "last_week") {
-      const w = new Date(now);
-      w.setDate(w.getDate() - 7);
-      return { from: startOfWeek(w), to: endOfWeek(w), label: "Last week" };
+      const lastWeekEnd = shiftDateKey(weekStart, -1);
+      return range(shiftDateKey(weekStart, -7), endOfDateKeyIso(lastWeekEnd, timezone), lastWeekEnd, "Last week");
     }
     if (datePreset === "this_month") {
-      return { from: startOfMonth(now), to: endOfMonth(now), label: "This month" };
+      const monthEnd = shiftDateKey(nextMonthStart, -1);
+      return range(monthStart, endOfDateKeyIso(monthEnd, timezone), monthEnd, "This month");
     }
     if (datePreset === "last_month") {
-      const prev = new Date(now.getFullYear(), now.getMonth() - 1, 15);
-      return { from: startOfMonth(prev), to: endOfMonth(prev), label: "Last month" };
+      const prevMonthEnd = shiftDateKey(monthStart, -1);
+      return range(prevMonthStart, endOfDateKeyIso(prevMonthEnd, timezone), prevMonthEnd, "Last month");
     }
     if (datePreset === "custom") {
-      const from = customFrom ? startOfDay(new Date(customFrom)) : null;
-      const to = customTo ? endOfDay(new Date(customTo)) : null;
-      return {
-        from,
-        to,
-        label: from && to ? "Custom range" : "Custom range (set start and end date)"
-      };
+      const complete = Boolean(customFrom && customTo);
+      return range(
+        customFrom || null,
+        customTo ? endOfDateKeyIso(customTo, timezone) : null,
+        customTo || null,
+        complete ? "Custom range" : "Custom range (set start and end date)"
+      );
     }
-    return { from: startOfMonth(now), to: now, label: "This month so far" };
-  }, [datePreset, customFrom, customTo]);
-
-  const filtered = useMemo(() => {
-    const fromTs = dateRange.from ? dateRange.from.getTime() : null;
-    const toTs = dateRange.to ? dateRange.to.getTime() : null;
-
-    return entries.filter((entry) => {
-      const entryTs = new Date(entry.entry_at).getTime();
-      const inTimeRange = (fromTs === null || entryTs >= fromTs) && (toTs === null || entryTs <= toTs);
-      const inCategory = !categoryId || entry.category_id === categoryId;
-      return inTimeRange && inCategory;
-    });
-  }, [entries, categoryId, dateRange.from, dateRange.to]);
+    return range(monthStart, nowIso, today, "This month so far");
+  }, [datePreset, customFrom, customTo, timezone, dataVersion]);
 
-  const categoryMap = new Map(categories.map((item) => [item.id, item.name]));
-  const activeCategoryName = categoryId ? categoryMap.get(categoryId) ?? "Unknown" : "All categories";
-  const fromLabel = dateRange.from ? dateRange.from.toLocaleDateString() : "Start";
-  const toLabel = dateRange.to ? dateRange.to.toLocaleDateString() : "End";
-  const exportDisabled = (datePreset === "custom" && (!dateRange.from || !dateRange.to)) || filtered.length === 0;
-  const totals = useMemo(() => {
-    return filtered.reduce(
-      (acc, item) => {
-        if (item.direction === "cash_in") {
-          acc.cashIn += item.amount;
-        } else {
-          acc.cashOut += item.amount;
+  const customIncomplete = datePreset === "custom" && (!dateRange.from || !dateRange.to);
+
+  const filters = useMemo<EntryQueryFilters>(
+    () => ({
+      from: dateRange.from,
+      to: dateRange.to,
+      categoryId: categoryId || null,
+      direction: directionFilter === "transfer" || directionFilter === "credit" ? null : directionFilter || null,
+      kind: directionFilter === "transfer" || directionFilter === "credit" ? directionFilter : null,
+      accountId: accountFilter || null,
+      createdBy: createdByFilter || null,
+      minAmount: minAmount ? Number(minAmount) : null,
+      maxAmount: maxAmount ? Number(maxAmount) : null,
+      remarks: remarksQuery || null
+    }),
+    [
+      dateRange.from,
+      dateRange.to,
+      categoryId,
+      directionFilter,
+      accountFilter,
+      createdByFilter,
+      minAmount,
+      maxAmount,
+      remarksQuery
+    ]
+  );
+
+  useEffect(() => {
+    const seq = ++querySeqRef.current;
+    setRows([]);
+    setNextCursor(null);
+    setQueryError("");
+
+    if (customIncomplete) {
+      setTotals({ cashIn: 0, cashOut: 0, count: 0 });
+      return;
+    }
+
+    setLoadingRows(true);
+    // Totals are a report: summarize_entries rejects members whose role cannot view reports.
+    Promise.all([
+      onQueryEntries(filters, null, PAGE_SIZE, ledgerMode),
+      canViewReports ? onSummarizeEntries(filters) : Promise.resolve<EntryTotals>({ cashIn: 0, cashOut: 0, count: 0 })
+    ])
+      .then(([page, summary]) => {
+        if (seq !== querySeqRef.current) {
+          return;
+        }
+        setRows(page.rows);
+        setNextCursor(page.nextCursor);
+        setTotals(summary);
+      })
+      .catch((error) => {
+        if (seq !== querySeqRef.current) {
+          return;
+        }
+        setQueryError(error instanceof Error ? error.message : "Could not load entries.");
+        onReportError("HistoryPage.query", error);
+      })
+      .finally(() => {
+        if (seq === querySeqRef.current) {
+          setLoadingRows(false);
+        }
+      });
+  }, [
+    filters,
+    ledgerMode,
+    canViewReports,
+    customIncomplete,
+    dataVersion,
+    onQueryEntries,
+    onSummarizeEntries,
+    onReportError
+  ]);
+
+  useEffect(() => {
+    if (!ledgerMode || customIncomplete) {
+      setPeriodBalances(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadPeriodBalances(filters, onClosingBalance)
+      .then((balances) => {
+        if (!cancelled) {
+          setPeriodBalances(balances);
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          onReportError("HistoryPage.periodBalances", error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ledgerMode, filters, customIncomplete, dataVersion, onClosingBalance, onReportError]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingRows) {
+      return;
+    }
+
+    const seq = querySeqRef.current;
+    setLoadingRows(true);
+    try {
+      const page = await onQueryEntries(filters, nextCursor, PAGE_SIZE, ledgerMode);
+      if (seq !== querySeqRef.current) {
+        return;
+      }
+      setRows((prev) => [...prev, ...page.rows]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      setQueryError(error instanceof Error ? error.message : "Could not load more entries.");
+      onReportError("HistoryPage.loadMore", error);
+    } finally {
+      if (seq === querySeqRef.current) {
+        setLoadingRows(false);
+      }
+    }
+  }, [nextCursor, loadingRows, onQueryEntries, filters, ledgerMode, onReportError]);
+
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || !nextCursor || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (items) => {
+        if (items.some((item) => item.isIntersecting)) {
+          void loadMore();
         }
-        return acc;
       },
-      { cashIn: 0, cashOut: 0 }
+      { rootMargin: "240px" }
     );
-  }, [filtered]);
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  const collectAllRows = async (): Promise<LedgerEntry[]> => {
+    const all: LedgerEntry[] = [];
+    let cursor: EntryCursor | null = null;
+    do {
+      const page: EntryPage = await onQueryEntries(filters, cursor, EXPORT_PAGE_SIZE, true, true);
+      all.push(...page.rows);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return all;
+  };
+
+  const categoryMap = new Map(categories.map((item) => [item.id, item.name]));
+  const accountMap = buildAccountNameMap(accounts);
+  const partyMap = new Map(parties.map((party) => [party.id, party.name]));
+  const activeCategoryName = categoryId ? categoryMap.get(categoryId) ?? "Unknown" : "All categories";
+  const fromLabel = dateRange.fromKey ?? "Start";
+  const toLabel = dateRange.toKey ?? "End";
+  const exportDisabled = customIncomplete || totals.count === 0 || exporting;
   const net = totals.cashIn - totals.cashOut;
+  const memberOptions = Array.from(memberNames.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  const hasAdvancedFilters = Boolean(
+    directionFilter || accountFilter || createdByFilter || minAmount || maxAmount || remarksInput
+  );
 
-  const safe = (value: string): string =>
-    value
-      .replaceAll("&", "&amp;")
-      .replaceAll("<", "&lt;")
-      .replaceAll(">", "&gt;")
-      .replaceAll('"', "&quot;");
-
-  const buildReportHtml = (): string => {
-    const rows = filtered
-      .map((entry) => {
-        const amount =
-          entry.direction === "cash_in"
-            ? `+${formatCurrency(entry.amount, currency)}`
-            : `-${formatCurrency(entry.amount, currency)}`;
-        return `<tr>
-          <td>${safe(new Date(entry.entry_at).toLocaleString())}</td>
-          <td>${safe(categoryMap.get(entry.category_id) ?? "Unknown")}</td>
-          <td>${entry.direction === "cash_in" ? "Cash In" : "Cash Out"}</td>
-          <td style="text-align:right; color:${entry.direction === "cash_in" ? "#0f766e" : "#b91c1c"}; font-weight:700;">${safe(amount)}</td>
-          <td>${safe(entry.remarks ?? "-")}</td>
-        </tr>`;
-      })
-      .join("");
-
-    return `<!doctype html>
-<html>
-<head>
-  <meta charset="utf-8" />
-  <title>Cashbook Statement</title>
-  <style>
-    body { font-family: "Segoe UI", Arial, sans-serif; margin: 24px; color: #0f172a; }
-    .sheet { border: 1px solid #bfdbfe; border-radius: 14px; overflow: hidden; }
-    .head { padding: 18px; background: linear-gradient(135deg, #1d4ed8, #2563eb); color: #fff; }
-    .sub { display:flex; flex-wrap:wrap; gap:12px; margin-top:8px; font-size:13px; opacity:0.95; }
-    .meta { display:grid; grid-template-columns: repeat(3, minmax(0,1fr)); gap:10px; padding:12px 16px; background:#eff6ff; border-bottom:1px solid #bfdbfe; }
-    .meta-item { background:#fff; border:1px solid #bfdbfe; border-radius:10px; padding:8px 10px; }
-    table { width:100%; border-collapse: collapse; }
-    th, td { padding: 10px 12px; border-bottom: 1px solid #dbeafe; font-size: 13px; vertical-align: top; }
-    th { background: #eff6ff; color: #1e3a8a; text-align: left; }
-    .foot { display:flex; justify-content:flex-end; gap:12px; padding:12px 16px; background:#f8fbff; }
-    .pill { border:1px solid #bfdbfe; background:#fff; border-radius:999px; padding:6px 10px; font-size:12px; }
-    .empty { padding: 16px; color: #475569; }
-  </style>
-</head>
-<body>
-  <div class="sheet">
-    <div class="head">
-      <h2 style="margin:0;">Cashbook Balance Statement</h2>
-      <div class="sub">
-        <span><strong>Workspace:</strong> ${safe(workspaceName)}</span>
-        <span><strong>Generated:</strong> ${safe(new Date().toLocaleString())}</span>
-      </div>
-    </div>
-    <div class="meta">
-      <div class="meta-item"><strong>Period</strong><br/>${safe(fromLabel)} - ${safe(toLabel)}</div>
-      <div class="meta-item"><strong>Category</strong><br/>${safe(activeCategoryName)}</div>
-      <div class="meta-item"><strong>Total Entries</strong><br/>${filtered.length}</div>
-    </div>
-    <table>
-      <thead>
-        <tr>
-          <th>Date & Time</th>
-          <th>Category</th>
-          <th>Type</th>
-          <th style="text-align:right;">Amount</th>
-          <th>Remarks</th>
-        </tr>
-      </thead>
-      <tbody>
-        ${rows || `<tr><td class="empty" colspan="5">No entries for selected filters.</td></tr>`}
-      </tbody>
-    </table>
-    <div class="foot">
-      <span class="pill">Cash In: ${safe(formatCurrency(totals.cashIn, currency))}</span>
-      <span class="pill">Cash Out: ${safe(formatCurrency(totals.cashOut, currency))}</span>
-      <span class="pill"><strong>Net: ${safe(formatCurrency(net, currency))}</strong></span>
-    </div>
-  </div>
-</body>
-</html>`;
+  // Budgets are an extra table in the export; failing to load them should not block the statement itself.
+  // A group filter covers the group and its subcategories, the same scope entry_in_category uses for the entries.
+  const loadBudgetRows = (): Promise<BudgetActual[]> => {
+    const scope = categoryId ? new Set([categoryId, ...subcategoryIds(categories, categoryId)]) : null;
+    return onBudgetVsActual(filters.from ?? null, filters.to ?? null)
+      .then((rows) => (scope ? rows.filter((row) => scope.has(row.category_id)) : rows))
+      .catch((error) => {
+        onReportError("HistoryPage.budgetVsActual", error);
+        return [];
+      });
   };
 
-  const downloadExcel = () => {
+  const buildReportHtml = (reportRows: LedgerEntry[], balances: PeriodBalances, budgetRows: BudgetActual[]): string =>
+    buildStatementHtml({
+      heading: "Cashbook Balance Statement",
+      workspaceName,
+      period: `${fromLabel} - ${toLabel}`,
+      scopeLabel: "Category",
+      scopeValue: activeCategoryName,
+      titleColumn: "Category",
+      rows: reportRows.map((entry) => {
+        const isCashMove = entry.kind === "standard";
+        return {
+          dateTime: formatDateTimeInTimeZone(entry.entry_at, timezone),
+          title: entry.split_lines
+            ? entry.split_lines
+                .map((line) => `${categoryMap.get(line.category_id) ?? "Unknown"} ${formatCurrency(line.amount, currency)}`)
+                .join(", ")
+            : entryTitle(entry, categoryMap, accountMap, partyMap),
+          type: entryTypeLabel(entry),
+          amount: !isCashMove
+            ? formatCurrency(entry.amount, currency)
+            : entry.direction === "cash_in"
+              ? `+${formatCurrency(entry.amount, currency)}`
+              : `-${formatCurrency(entry.amount, currency)}`,
+          amountColor: !isCashMove
+            ? STATEMENT_AMOUNT_COLORS.move
+            : entry.direction === "cash_in"
+              ? STATEMENT_AMOUNT_COLORS.in
+              : STATEMENT_AMOUNT_COLORS.out,
+          balance: entry.running_balance === null ? "-" : formatCurrency(entry.running_balance, currency),
+          remarks: entry.remarks ?? "-"
+        };
+      }),
+      summary: [
+        { label: "Opening", value: formatCurrency(balances.opening, currency) },
+        { label: "Cash In", value: formatCurrency(totals.cashIn, currency) },
+        { label: "Cash Out", value: formatCurrency(totals.cashOut, currency) },
+        { label: "Net", value: formatCurrency(net, currency), strong: true },
+        { label: "Closing", value: formatCurrency(balances.closing, currency), strong: true }
+      ],
+      budgets: budgetRows.map((row) => ({
+        category: categoryMap.get(row.category_id) ?? "Unknown",
+        period: row.periods > 1 ? `${BUDGET_PERIOD_LABELS[row.period]} × ${row.periods}` : BUDGET_PERIOD_LABELS[row.period],
+        budget: formatCurrency(row.budget_total, currency),
+        actual: formatCurrency(row.actual, currency),
+        remaining: formatCurrency(row.budget_total - row.actual, currency),
+        used: `${budgetPercent(row.actual, row.budget_total)}%`,
+        over: row.actual > row.budget_total
+      }))
+    });
+
+  const downloadExcel = async () => {
     if (exportDisabled) {
       return;
     }
-    const html = buildReportHtml();
-    const blob = new Blob([html], { type: "application/vnd.ms-excel;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `cashbook-statement-${new Date().toISOString().slice(0, 10)}.xls`;
-    link.click();
-    URL.revokeObjectURL(url);
+    setExporting(true);
+    try {
+      const [reportRows, balances, budgetRows] = await Promise.all([
+        collectAllRows(),
+        loadPeriodBalances(filters, onClosingBalance),
+        loadBudgetRows()
+      ]);
+      downloadStatementExcel(
+        buildReportHtml(reportRows, balances, budgetRows),
+        `cashbook-statement-${new Date().toISOString().slice(0, 10)}.xls`
+      );
+    } catch (error) {
+      setQueryError(error instanceof Error ? error.message : "Could not export entries.");
+      onReportError("HistoryPage.downloadExcel", error);
+    } finally {
+      setExporting(false);
+    }
   };
 
-  const exportPdf = () => {
+  const exportPdf = async () => {
     if (exportDisabled) {
       return;
     }
+    // Open the window before awaiting so popup blockers still treat it as a user gesture.
     const win = window.open("", "_blank", "width=1100,height=900");
     if (!win) {
       return;
     }
-    win.document.open();
-    win.document.write(buildReportHtml());
-    win.document.close();
-    win.focus();
-    win.print();
+    setExporting(true);
+    try {
+      const [reportRows, balances, budgetRows] = await Promise.all([
+        collectAllRows(),
+        loadPeriodBalances(filters, onClosingBalance),
+        loadBudgetRows()
+      ]);
+      printStatement(win, buildReportHtml(reportRows, balances, budgetRows));
+    } catch (error) {
+      win.close();
+      setQueryError(error instanceof Error ? error.message : "Could not export entries.");
+      onReportError("HistoryPage.exportPdf", error);
+    } finally {
+      setExporting(false);
+    }
   };
 
   const createCategory = async () => {
@@ -267,7 +508,7 @@ export function HistoryPage({
     setSavingCategory(true);
     setCategoryError("");
     try {
-      await onAddCategory(name, newCategoryType);
+      await onAddCategory(name, newCategoryType, newCategoryParentId || null);
       setNewCategoryName("");
     } catch (err) {
       setCategoryError(err instanceof Error ? err.message : "Could not add category.");
@@ -301,6 +542,46 @@ export function HistoryPage({
     }
   };
 
+  const loadArchivedCategories = useCallback(async () => {
+    try {
+      setArchivedCategories(await onListArchivedCategories());
+    } catch (error) {
+      onReportError("HistoryPage.loadArchivedCategories", error);
+    }
+  }, [onListArchivedCategories, onReportError]);
+
+  useEffect(() => {
+    // Active categories change on drop, merge and restore, so the archived list reloads with them.
+    if (showCategoryList) {
+      void loadArchivedCategories();
+    }
+  }, [showCategoryList, categories, loadArchivedCategories]);
+
+  // Only top-level categories can hold subcategories.
+  const groupOptions = (type: "income" | "expense"): Category[] =>
+    categories.filter((category) => category.type === type && !category.parent_id);
+
+  const adminCategoryRows = groupCategories(categories).flatMap((group) => [group.category, ...group.children]);
+
+  const mergeCategory = async (sourceCategoryId: string, targetCategoryId: string) => {
+    await onMergeCategory(sourceCategoryId, targetCategoryId);
+    if (categoryId === sourceCategoryId) {
+      setCategoryId(targetCategoryId);
+    }
+  };
+
+  const restoreCategory = async (targetCategoryId: string) => {
+    setRestoringId(targetCategoryId);
+    setCategoryError("");
+    try {
+      await onRestoreCategory(targetCategoryId);
+    } catch (err) {
+      setCategoryError(err instanceof Error ? err.message : "Could not restore category.");
+    } finally {
+      setRestoringId("");
+    }
+  };
+
   return (
     <section className="stack-lg history-page">
       <NeonCard title="Time Travel Dial" subtitle={dateRange.label}>
@@ -322,22 +603,10 @@ export function HistoryPage({
           <select value={categoryId} onChange={(event) => setCategoryId(event.target.value)}>
             <option value="">All categories</option>
             <optgroup label="Income">
-              {categories
-                .filter((category) => category.type === "income")
-                .map((category) => (
-                  <option key={category.id} value={category.id}>
-                    {category.name}
-                  </option>
-                ))}
+              <CategoryOptions categories={categories.filter((category) => category.type === "income")} groupSuffix=" (all)" />
             </optgroup>
             <optgroup label="Expense">
-              {categories
-                .filter((category) => category.type === "expense")
-                .map((category) => (
-                  <option key={category.id} value={category.id}>
-                    {category.name}
-                  </option>
-                ))}
+              <CategoryOptions categories={categories.filter((category) => category.type === "expense")} groupSuffix=" (all)" />
             </optgroup>
           </select>
           <button className="secondary-btn" type="button" disabled={!categoryId} onClick={() => setCategoryId("")}>
@@ -345,6 +614,75 @@ export function HistoryPage({
           </button>
         </div>
 
+        <div className="history-advanced-filters">
+          <select
+            aria-label="Entry type"
+            value={directionFilter}
+            onChange={(event) => setDirectionFilter(event.target.value as CashDirection | "transfer" | "credit" | "")}
+          >
+            <option value="">All entry types</option>
+            <option value="cash_in">Cash In only</option>
+            <option value="cash_out">Cash Out only</option>
+            <option value="transfer">Transfers only</option>
+            <option value="credit">Party credit only</option>
+          </select>
+          <select aria-label="Account" value={accountFilter} onChange={(event) => setAccountFilter(event.target.value)}>
+            <option value="">Any account</option>
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.name}
+                {account.is_active ? "" : " (archived)"}
+              </option>
+            ))}
+          </select>
+          <select aria-label="Added by" value={createdByFilter} onChange={(event) => setCreatedByFilter(event.target.value)}>
+            <option value="">Any member</option>
+            {memberOptions.map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            inputMode="decimal"
+            aria-label="Minimum amount"
+            placeholder="Min amount"
+            value={minAmount}
+            onChange={(event) => setMinAmount(sanitizeAmountInput(event.target.value))}
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            aria-label="Maximum amount"
+            placeholder="Max amount"
+            value={maxAmount}
+            onChange={(event) => setMaxAmount(sanitizeAmountInput(event.target.value))}
+          />
+          <input
+            type="search"
+            aria-label="Remarks contain"
+            placeholder="Remarks contain..."
+            value={remarksInput}
+            onChange={(event) => setRemarksInput(event.target.value)}
+          />
+          <button
+            className="ghost-btn"
+            type="button"
+            disabled={!hasAdvancedFilters}
+            onClick={() => {
+              setDirectionFilter("");
+              setAccountFilter("");
+              setCreatedByFilter("");
+              setMinAmount("");
+              setMaxAmount("");
+              setRemarksInput("");
+            }}
+          >
+            Clear filters
+          </button>
+        </div>
+
         {datePreset === "custom" && (
           <div className="grid-2">
             <input type="date" value={customFrom} onChange={(event) => setCustomFrom(event.target.value)} />
@@ -352,23 +690,51 @@ export function HistoryPage({
           </div>
         )}
 
-        <div className="history-summary-row">
-          <div className="history-summary-tile history-summary-in">
-            <small>Cash In</small>
-            <strong>{formatCurrency(totals.cashIn, currency)}</strong>
-          </div>
-          <div className="history-summary-tile history-summary-out">
-            <small>Cash Out</small>
-            <strong>{formatCurrency(totals.cashOut, currency)}</strong>
+        {canViewReports && (
+          <div className="history-summary-row">
+            <div className="history-summary-tile history-summary-in">
+              <small>Cash In</small>
+              <strong>{formatCurrency(totals.cashIn, currency)}</strong>
+            </div>
+            <div className="history-summary-tile history-summary-out">
+              <small>Cash Out</small>
+              <strong>{formatCurrency(totals.cashOut, currency)}</strong>
+            </div>
+            <div className="history-summary-tile history-summary-net">
+              <small>Net</small>
+              <strong className={net >= 0 ? "amt-in" : "amt-out"}>
+                {net >= 0 ? "+" : "-"}
+                {formatCurrency(Math.abs(net), currency)}
+              </strong>
+            </div>
+            {ledgerMode && (
+              <>
+                <div className="history-summary-tile">
+                  <small>Opening Balance</small>
+                  <strong>{periodBalances ? formatCurrency(periodBalances.opening, currency) : "..."}</strong>
+                </div>
+                <div className="history-summary-tile">
+                  <small>Closing Balance</small>
+                  <strong>{periodBalances ? formatCurrency(periodBalances.closing, currency) : "..."}</strong>
+                </div>
+              </>
+            )}
           </div>
-          <div className="history-summary-tile history-summary-net">
-            <small>Net</small>
-            <strong className={net >= 0 ? "amt-in" : "amt-out"}>
-              {net >= 0 ? "+" : "-"}
-              {formatCurrency(Math.abs(net), currency)}
-            </strong>
+        )}
+
+        {canViewReports && (
+          <div className="inline-actions">
+            <button
+              type="button"
+              className={`chip ${ledgerMode ? "chip-active" : ""}`.trim()}
+              aria-pressed={ledgerMode}
+              onClick={() => setLedgerMode((prev) => !prev)}
+            >
+              Ledger view
+            </button>
+            {ledgerMode && <small className="muted">Balance after each entry, including entries hidden by filters.</small>}
           </div>
-        </div>
+        )}
 
         {canManageCategories && (
           <div className="category-admin">
@@ -386,7 +752,10 @@ export function HistoryPage({
                   type="button"
                   className={`type-option type-option-expense ${newCategoryType === "expense" ? "type-option-active" : ""}`.trim()}
                   aria-pressed={newCategoryType === "expense"}
-                  onClick={() => setNewCategoryType("expense")}
+                  onClick={() => {
+                    setNewCategoryType("expense");
+                    setNewCategoryParentId("");
+                  }}
                 >
                   <span className="type-option-check" aria-hidden="true">
                     {newCategoryType === "expense" ? "✓" : ""}
@@ -397,7 +766,10 @@ export function HistoryPage({
                   type="button"
                   className={`type-option type-option-income ${newCategoryType === "income" ? "type-option-active" : ""}`.trim()}
                   aria-pressed={newCategoryType === "income"}
-                  onClick={() => setNewCategoryType("income")}
+                  onClick={() => {
+                    setNewCategoryType("income");
+                    setNewCategoryParentId("");
+                  }}
                 >
                   <span className="type-option-check" aria-hidden="true">
                     {newCategoryType === "income" ? "✓" : ""}
@@ -416,6 +788,20 @@ export function HistoryPage({
                 {newCategoryType === "income" ? "Income" : "Expense"}
               </span>
             </div>
+            {groupOptions(newCategoryType).length > 0 && (
+              <select
+                aria-label="Group"
+                value={newCategoryParentId}
+                onChange={(event) => setNewCategoryParentId(event.target.value)}
+              >
+                <option value="">No group (top level)</option>
+                {groupOptions(newCategoryType).map((category) => (
+                  <option key={category.id} value={category.id}>
+                    Inside {category.name}
+                  </option>
+                ))}
+              </select>
+            )}
             <div className="category-actions-row">
               <button className="primary-btn" type="button" onClick={createCategory} disabled={savingCategory}>
                 {savingCategory ? "Adding..." : "Add Category"}
@@ -434,9 +820,31 @@ export function HistoryPage({
 
               {showCategoryList && (
                 <div className="stack">
-                  {categories.map((category) => (
-                    <div key={category.id} className="category-admin-row">
+                  {adminCategoryRows.map((category) =>
+                    editingCategoryId === category.id ? (
+                      <CategoryEditForm
+                        key={category.id}
+                        category={category}
+                        mergeTargets={categories.filter((item) => item.type === category.type && item.id !== category.id)}
+                        groupTargets={groupOptions(category.type).filter((item) => item.id !== category.id)}
+                        hasSubcategories={categories.some((item) => item.parent_id === category.id)}
+                        onSave={(input) => onEditCategory(category.id, input)}
+                        onMerge={(targetCategoryId) => mergeCategory(category.id, targetCategoryId)}
+                        onClose={() => setEditingCategoryId("")}
+                      />
+                    ) : (
+                    <div
+                      key={category.id}
+                      className={`category-admin-row ${category.parent_id ? "category-admin-child" : ""}`.trim()}
+                    >
                       <span className="category-admin-label">
+                        <span
+                          className="category-swatch"
+                          aria-hidden="true"
+                          style={category.color ? { borderColor: category.color } : undefined}
+                        >
+                          {category.icon ?? "•"}
+                        </span>
                         <strong>{category.name}</strong>
                         <span
                           className={`category-type-badge ${
@@ -450,6 +858,9 @@ export function HistoryPage({
                         {confirmDropId === category.id && droppingId !== category.id && (
                           <small className="error-text">Confirm drop?</small>
                         )}
+                        <button className="text-btn" type="button" onClick={() => setEditingCategoryId(category.id)}>
+                          Edit
+                        </button>
                         <button
                           className={confirmDropId === category.id ? "reject-btn drop-armed" : "reject-btn"}
                           type="button"
@@ -464,7 +875,38 @@ export function HistoryPage({
                         </button>
                       </div>
                     </div>
-                  ))}
+                    )
+                  )}
+
+                  {archivedCategories.length > 0 && (
+                    <div className="stack category-archived">
+                      <h4>Archived categories</h4>
+                      {archivedCategories.map((category) => (
+                        <div key={category.id} className="category-admin-row">
+                          <span className="category-admin-label">
+                            <strong>{category.name}</strong>
+                            <span
+                              className={`category-type-badge ${
+                                category.type === "income" ? "category-type-income" : "category-type-expense"
+                              }`.trim()}
+                            >
+                              {category.type === "income" ? "Income" : "Expense"}
+                            </span>
+                          </span>
+                          <div className="category-row-actions">
+                            <button
+                              className="ghost-btn"
+                              type="button"
+                              disabled={restoringId === category.id}
+                              onClick={() => void restoreCategory(category.id)}
+                            >
+                              {restoringId === category.id ? "Restoring..." : "Restore"}
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -474,47 +916,73 @@ export function HistoryPage({
         )}
       </NeonCard>
 
-      <NeonCard title="Filtered Entries" subtitle="Smart lookup output">
+      <NeonCard title="Filtered Entries" subtitle={canViewReports ? `${totals.count} matching entries` : "Newest first"}>
         <div className="stack">
-          {filtered.map((entry) => (
+          {rows.map((entry) => (
             <article className="entry-row" key={entry.id}>
               <div>
-                <strong>{categoryMap.get(entry.category_id) ?? "Unknown"}</strong>
+                <strong>{entryTitle(entry, categoryMap, accountMap, partyMap)}</strong>
                 <small>{formatDateTimeInTimeZone(entry.entry_at, timezone)}</small>
+                {entry.split_lines && (
+                  <SplitLinesDetails lines={entry.split_lines} categoryNames={categoryMap} currency={currency} />
+                )}
+              </div>
+              <div className="entry-row-right">
+                {entry.kind !== "standard" ? (
+                  <span className="amt-move">{formatCurrency(entry.amount, currency)}</span>
+                ) : (
+                  <span className={entry.direction === "cash_in" ? "amt-in" : "amt-out"}>
+                    {entry.direction === "cash_in" ? "+" : "-"}
+                    {formatCurrency(entry.amount, currency)}
+                  </span>
+                )}
+                {ledgerMode && entry.running_balance !== null && (
+                  <small className="ledger-balance">Bal {formatCurrency(entry.running_balance, currency)}</small>
+                )}
+                <button className="text-btn" onClick={() => onOpenEntry(entry)}>
+                  Details
+                </button>
               </div>
-              <span className={entry.direction === "cash_in" ? "amt-in" : "amt-out"}>
-                {entry.direction === "cash_in" ? "+" : "-"}
-                {formatCurrency(entry.amount, currency)}
-              </span>
             </article>
           ))}
-          {!filtered.length && <p className="muted">No entries in selected range.</p>}
-        </div>
-      </NeonCard>
-
-      <NeonCard title="Balance Sheet Export" subtitle="Professional report from current filters">
-        <div className="stack">
-          <div className="inline-actions">
-            <button className="secondary-btn" type="button" onClick={downloadExcel} disabled={exportDisabled}>
-              Export Excel
-            </button>
-            <button className="primary-btn" type="button" onClick={exportPdf} disabled={exportDisabled}>
-              Export PDF
+          {!rows.length && !loadingRows && !queryError && <p className="muted">No entries in selected range.</p>}
+          {queryError && <p className="error-text">{queryError}</p>}
+          <div ref={sentinelRef} aria-hidden="true" />
+          {loadingRows && <p className="muted">Loading entries...</p>}
+          {nextCursor && !loadingRows && (
+            <button className="secondary-btn" type="button" onClick={() => void loadMore()}>
+              Load more
             </button>
-          </div>
-          <small>Records in current filter: {filtered.length}</small>
-          {exportDisabled && (
-            <small className="error-text">
-              {datePreset === "custom" && (!dateRange.from || !dateRange.to)
-                ? "Set both custom date fields to export the statement."
-                : "No records found for current filters. Change date/category filter and try export again."}
-            </small>
           )}
-          <small>
-            Export includes selected period, selected category, entry list, and cash in/out/net totals in Cashbook template.
-          </small>
         </div>
       </NeonCard>
+
+      {canViewReports && permissions.can_export && (
+        <NeonCard title="Balance Sheet Export" subtitle="Professional report from current filters">
+          <div className="stack">
+            <div className="inline-actions">
+              <button className="secondary-btn" type="button" onClick={() => void downloadExcel()} disabled={exportDisabled}>
+                Export Excel
+              </button>
+              <button className="primary-btn" type="button" onClick={() => void exportPdf()} disabled={exportDisabled}>
+                Export PDF
+              </button>
+            </div>
+            <small>Records in current filter: {totals.count}</small>
+            {exporting && <small className="muted">Preparing statement...</small>}
+            {exportDisabled && !exporting && (
+              <small className="error-text">
+                {customIncomplete
+                  ? "Set both custom date fields to export the statement."
+                  : "No records found for current filters. Change date/category filter and try export again."}
+              </small>
+            )}
+            <small>
+              Export includes selected period, selected category, entry list, and cash in/out/net totals in Cashbook template.
+            </small>
+          </div>
+        </NeonCard>
+      )}
     </section>
   );
 }
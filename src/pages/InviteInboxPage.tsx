@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { NeonCard } from "@/components/common/NeonCard";
+import { ROLE_LABELS } from "@/lib/permissions";
 import type { WorkspaceAccessRequest } from "@/types/domain";
 
 interface InviteInboxPageProps {
@@ -136,9 +137,7 @@ export function InviteInboxPage(props: InviteInboxPageProps): JSX.Element {
                           {invite.workspace_industry} | {invite.workspace_currency} | {invite.workspace_timezone}
                         </small>
                       </div>
-                      <span className={`invite-role-badge ${invite.role === "admin" ? "invite-role-admin" : "invite-role-editor"}`}>
-                        {invite.role === "admin" ? "Admin Access" : "Editor Access"}
-                      </span>
+                      <span className={`invite-role-badge invite-role-${invite.role}`}>{ROLE_LABELS[invite.role]} Access</span>
                     </div>
                     <div className="invite-meta">
                       <small>Requested by: {requester}</small>
@@ -150,6 +149,11 @@ export function InviteInboxPage(props: InviteInboxPageProps): JSX.Element {
                           <span className="invite-perm-chip invite-perm-admin">Full workspace control</span>
                           <span className="invite-perm-chip invite-perm-admin">Manage users & permissions</span>
                         </>
+                      ) : invite.role === "viewer" ? (
+                        <>
+                          <span className="invite-perm-chip invite-perm-editor">View history & export statements</span>
+                          <span className="invite-perm-chip invite-perm-muted">Cannot add, edit or delete entries</span>
+                        </>
                       ) : (
                         <>
                           <span className="invite-perm-chip invite-perm-editor">Can add/edit entries</span>
@@ -2,6 +2,7 @@ import { useMemo, useState, type FormEvent } from "react";
 import type { CreateWorkspaceInput } from "@/types/domain";
 import { industries } from "@/data/industries";
 import { NeonCard } from "@/components/common/NeonCard";
+import { sanitizeAmountInput } from "@/lib/format";
 import type { AICategorySuggestion } from "@/services/aiCategories";
 
 interface OnboardingPageProps {
@@ -18,6 +19,7 @@ export function OnboardingPage(props: OnboardingPageProps): JSX.Element {
   const [industry, setIndustry] = useState<string>(industries[0]);
   const [currency, setCurrency] = useState(defaultCurrency);
   const [timezone, setTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC");
+  const [openingBalance, setOpeningBalance] = useState("");
   const [niche, setNiche] = useState("");
   const [aiCategories, setAICategories] = useState<AICategorySuggestion[]>([]);
   const [generating, setGenerating] = useState(false);
@@ -41,7 +43,8 @@ export function OnboardingPage(props: OnboardingPageProps): JSX.Element {
         name: name.trim(),
         industry,
         currency: currency.toUpperCase(),
-        timezone
+        timezone,
+        opening_balance: Number(openingBalance || "0")
       },
       aiCategories
     );
@@ -89,6 +92,17 @@ export function OnboardingPage(props: OnboardingPageProps): JSX.Element {
             </div>
           </div>
 
+          <label htmlFor="opening-balance">Opening Cash Balance</label>
+          <input
+            id="opening-balance"
+            type="text"
+            inputMode="decimal"
+            autoComplete="off"
+            value={openingBalance}
+            onChange={(event) => setOpeningBalance(sanitizeAmountInput(event.target.value))}
+            placeholder="0.00"
+          />
+
           <label htmlFor="niche">Niche Description (AI Categories)</label>
           <textarea
             id="niche"
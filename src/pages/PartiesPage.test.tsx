@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, cleanup, fireEvent, waitFor } from "@testing-library/react";
+import { PartiesPage } from "./PartiesPage";
+import type { Party, PartyBalance, PartyStatementRow } from "@/types/domain";
+
+const party = (id: string, name: string, kind: Party["kind"]): Party => ({
+  id,
+  workspace_id: "ws-1",
+  name,
+  kind,
+  phone: null,
+  opening_balance: 0,
+  is_active: true,
+  created_at: "2026-10-01T00:00:00.000Z"
+});
+
+const parties: Party[] = [party("p-1", "Ravi", "customer"), party("p-2", "Metro Supplies", "supplier")];
+
+const balances: PartyBalance[] = [
+  { party_id: "p-1", name: "Ravi", kind: "customer", phone: null, opening_balance: 0, balance: 250 },
+  { party_id: "p-2", name: "Metro Supplies", kind: "supplier", phone: null, opening_balance: 0, balance: -400 }
+];
+
+const statementRows: PartyStatementRow[] = [
+  {
+    id: "e-2",
+    kind: "standard",
+    direction: "cash_in",
+    amount: 50,
+    category_id: null,
+    account_id: "acc-1",
+    remarks: null,
+    entry_at: "2026-10-12T10:00:00.000Z",
+    created_by: "user-1",
+    balance_after: 250
+  },
+  {
+    id: "e-1",
+    kind: "credit",
+    direction: "cash_out",
+    amount: 300,
+    category_id: null,
+    account_id: "acc-1",
+    remarks: "Rice bags",
+    entry_at: "2026-10-10T10:00:00.000Z",
+    created_by: "user-1",
+    balance_after: 300
+  }
+];
+
+describe("PartiesPage", () => {
+  afterEach(cleanup);
+
+  const defaultProps = {
+    workspaceName: "Test Workspace",
+    currency: "USD",
+    timezone: "UTC",
+    parties,
+    balances,
+    categories: [],
+    canManage: true,
+    canRecord: true,
+    dataVersion: 0,
+    onAddParty: vi.fn(),
+    onArchiveParty: vi.fn(),
+    onLoadStatement: vi.fn(),
+    onBalanceAsOf: vi.fn(),
+    onRecordMovement: vi.fn(),
+    onReportError: vi.fn()
+  };
+
+  it("shows who owes whom and the receivable/payable totals", () => {
+    render(<PartiesPage {...defaultProps} />);
+
+    expect(screen.getByText("Owes you $250.00")).toBeTruthy();
+    expect(screen.getByText("You owe $400.00")).toBeTruthy();
+    expect(screen.getByText("To collect: $250.00 • To pay: $400.00")).toBeTruthy();
+  });
+
+  it("lets counter staff add a party but not archive one, and hides adding from viewers", () => {
+    const { rerender } = render(<PartiesPage {...defaultProps} canManage={false} />);
+    expect(screen.getByText("Add Party")).toBeTruthy();
+    expect(screen.queryByText("Archive")).toBeNull();
+
+    rerender(<PartiesPage {...defaultProps} canManage={false} canRecord={false} />);
+    expect(screen.queryByText("Add Party")).toBeNull();
+  });
+
+  it("saves an opening balance the workspace owes as negative", async () => {
+    const onAddParty = vi.fn().mockResolvedValue(true);
+    render(<PartiesPage {...defaultProps} onAddParty={onAddParty} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Add Party" }));
+    fireEvent.change(screen.getByLabelText("Name"), { target: { value: "Lakshmi Dairy" } });
+    fireEvent.click(screen.getByRole("button", { name: "Supplier" }));
+    fireEvent.change(screen.getByLabelText("Opening balance"), { target: { value: "120" } });
+    fireEvent.click(screen.getByRole("button", { name: "You owe them" }));
+    fireEvent.click(screen.getByRole("button", { name: "Save Party" }));
+
+    await waitFor(() =>
+      expect(onAddParty).toHaveBeenCalledWith({
+        name: "Lakshmi Dairy",
+        kind: "supplier",
+        phone: null,
+        opening_balance: -120
+      })
+    );
+  });
+
+  it("loads the statement with running balances and records credit for the party", async () => {
+    const onLoadStatement = vi.fn().mockResolvedValue(statementRows);
+    const onRecordMovement = vi.fn();
+    render(<PartiesPage {...defaultProps} onLoadStatement={onLoadStatement} onRecordMovement={onRecordMovement} />);
+
+    fireEvent.click(screen.getByRole("button", { name: /Ravi/ }));
+
+    expect(await screen.findByText("Owes you $300.00")).toBeTruthy();
+    expect(onLoadStatement).toHaveBeenCalledWith("p-1", null, null);
+    // Each movement label shows once as a statement row and once as its record button.
+    expect(screen.getAllByText("Credit Given")).toHaveLength(2);
+    expect(screen.getAllByText("Payment Received")).toHaveLength(2);
+    expect(screen.getByText("Closing: Owes you $250.00")).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "Credit Received" }));
+    expect(onRecordMovement).toHaveBeenCalledWith(parties[0], "credit_received");
+  });
+});
@@ -0,0 +1,415 @@
+import { useEffect, useMemo, useState } from "react";
+import { NeonCard } from "@/components/common/NeonCard";
+import {
+  endOfDateKeyIso,
+  formatCurrency,
+  formatDateTimeInTimeZone,
+  sanitizeAmountInput,
+  zonedDateToIso
+} from "@/lib/format";
+import { buildStatementHtml, downloadStatementExcel, printStatement, STATEMENT_AMOUNT_COLORS } from "@/lib/statement";
+import type { Category, Party, PartyBalance, PartyInput, PartyKind, PartyStatementRow } from "@/types/domain";
+
+export type PartyMovement = "credit_given" | "credit_received" | "payment_received" | "payment_paid";
+
+interface PartiesPageProps {
+  workspaceName: string;
+  currency: string;
+  timezone: string;
+  parties: Party[];
+  balances: PartyBalance[];
+  categories: Category[];
+  canManage: boolean;
+  // False for viewers: credit and payment movements are entries.
+  canRecord: boolean;
+  dataVersion: number;
+  onAddParty: (input: PartyInput) => Promise<boolean>;
+  onArchiveParty: (party: Party) => Promise<void>;
+  onLoadStatement: (partyId: string, from: string | null, to: string | null) => Promise<PartyStatementRow[]>;
+  onBalanceAsOf: (partyId: string, asOf: string) => Promise<number>;
+  onRecordMovement: (party: Party, movement: PartyMovement) => void;
+  onReportError: (location: string, error: unknown, detail?: string) => void;
+}
+
+const partyKinds: Array<{ value: PartyKind; label: string }> = [
+  { value: "customer", label: "Customer" },
+  { value: "supplier", label: "Supplier" }
+];
+
+const movementButtons: Array<{ value: PartyMovement; label: string }> = [
+  { value: "credit_given", label: "Credit Given" },
+  { value: "credit_received", label: "Credit Received" },
+  { value: "payment_received", label: "Payment Received" },
+  { value: "payment_paid", label: "Payment Paid" }
+];
+
+function describeBalance(balance: number, currency: string): string {
+  if (balance > 0) {
+    return `Owes you ${formatCurrency(balance, currency)}`;
+  }
+  if (balance < 0) {
+    return `You owe ${formatCurrency(-balance, currency)}`;
+  }
+  return "Settled";
+}
+
+function movementLabel(row: Pick<PartyStatementRow, "kind" | "direction">): string {
+  if (row.kind === "credit") {
+    return row.direction === "cash_out" ? "Credit Given" : "Credit Received";
+  }
+  return row.direction === "cash_in" ? "Payment Received" : "Payment Paid";
+}
+
+export function PartiesPage(props: PartiesPageProps): JSX.Element {
+  const {
+    workspaceName,
+    currency,
+    timezone,
+    parties,
+    balances,
+    categories,
+    canManage,
+    canRecord,
+    dataVersion,
+    onAddParty,
+    onArchiveParty,
+    onLoadStatement,
+    onBalanceAsOf,
+    onRecordMovement,
+    onReportError
+  } = props;
+
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<PartyKind>("customer");
+  const [phone, setPhone] = useState("");
+  const [openingAmount, setOpeningAmount] = useState("");
+  const [openingOwedToUs, setOpeningOwedToUs] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [selectedPartyId, setSelectedPartyId] = useState("");
+  const [fromKey, setFromKey] = useState("");
+  const [toKey, setToKey] = useState("");
+  const [statementRows, setStatementRows] = useState<PartyStatementRow[]>([]);
+  const [openingBalance, setOpeningBalance] = useState(0);
+  const [statementLoading, setStatementLoading] = useState(false);
+  const [statementError, setStatementError] = useState("");
+
+  const activeParties = useMemo(() => parties.filter((party) => party.is_active), [parties]);
+  const selectedParty = activeParties.find((party) => party.id === selectedPartyId) ?? null;
+  const categoryMap = useMemo(() => new Map(categories.map((item) => [item.id, item.name])), [categories]);
+  const receivable = balances.reduce((sum, row) => sum + Math.max(row.balance, 0), 0);
+  const payable = balances.reduce((sum, row) => sum + Math.max(-row.balance, 0), 0);
+  const rangeFrom = fromKey ? zonedDateToIso(fromKey, timezone) : null;
+  const rangeTo = toKey ? endOfDateKeyIso(toKey, timezone) : null;
+  const closingBalance = statementRows.length ? statementRows[0].balance_after : openingBalance;
+
+  useEffect(() => {
+    if (!selectedParty) {
+      setStatementRows([]);
+      setOpeningBalance(0);
+      return;
+    }
+
+    let cancelled = false;
+    setStatementLoading(true);
+    setStatementError("");
+    // The opening balance is everything owed just before the range starts.
+    const openingPromise = rangeFrom
+      ? onBalanceAsOf(selectedParty.id, new Date(new Date(rangeFrom).getTime() - 1).toISOString())
+      : Promise.resolve(selectedParty.opening_balance);
+
+    void Promise.all([onLoadStatement(selectedParty.id, rangeFrom, rangeTo), openingPromise])
+      .then(([rows, opening]) => {
+        if (!cancelled) {
+          setStatementRows(rows);
+          setOpeningBalance(opening);
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setStatementError(error instanceof Error ? error.message : "Could not load the statement.");
+        }
+        onReportError("PartiesPage.loadStatement", error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setStatementLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedParty, rangeFrom, rangeTo, dataVersion, onLoadStatement, onBalanceAsOf, onReportError]);
+
+  const submit = async (): Promise<void> => {
+    if (!name.trim()) {
+      return;
+    }
+    const amount = Number(openingAmount || "0");
+    setSaving(true);
+    try {
+      const saved = await onAddParty({
+        name: name.trim(),
+        kind,
+        phone: phone.trim() || null,
+        opening_balance: openingOwedToUs ? amount : -amount
+      });
+      if (saved) {
+        setName("");
+        setPhone("");
+        setOpeningAmount("");
+        setOpeningOwedToUs(true);
+        setAdding(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const buildReportHtml = (party: Party): string =>
+    buildStatementHtml({
+      heading: "Party Statement",
+      workspaceName,
+      period: `${fromKey || "Start"} - ${toKey || "End"}`,
+      scopeLabel: "Party",
+      scopeValue: party.phone ? `${party.name} (${party.phone})` : party.name,
+      titleColumn: "Entry",
+      rows: statementRows.map((row) => ({
+        dateTime: formatDateTimeInTimeZone(row.entry_at, timezone),
+        title: row.category_id ? `${movementLabel(row)} • ${categoryMap.get(row.category_id) ?? "Unknown"}` : movementLabel(row),
+        type: row.kind === "credit" ? "Credit" : "Cash",
+        amount:
+          row.direction === "cash_out"
+            ? `+${formatCurrency(row.amount, currency)}`
+            : `-${formatCurrency(row.amount, currency)}`,
+        amountColor:
+          row.kind === "credit"
+            ? STATEMENT_AMOUNT_COLORS.move
+            : row.direction === "cash_in"
+              ? STATEMENT_AMOUNT_COLORS.in
+              : STATEMENT_AMOUNT_COLORS.out,
+        balance: describeBalance(row.balance_after, currency),
+        remarks: row.remarks ?? "-"
+      })),
+      summary: [
+        { label: "Opening", value: describeBalance(openingBalance, currency) },
+        { label: "Closing", value: describeBalance(closingBalance, currency), strong: true }
+      ]
+    });
+
+  const downloadExcel = (): void => {
+    if (!selectedParty) {
+      return;
+    }
+    downloadStatementExcel(
+      buildReportHtml(selectedParty),
+      `party-statement-${selectedParty.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${new Date().toISOString().slice(0, 10)}.xls`
+    );
+  };
+
+  const exportPdf = (): void => {
+    if (!selectedParty) {
+      return;
+    }
+    const win = window.open("", "_blank", "width=1100,height=900");
+    if (!win) {
+      return;
+    }
+    printStatement(win, buildReportHtml(selectedParty));
+  };
+
+  return (
+    <section className="stack-lg">
+      <NeonCard
+        title="Parties"
+        subtitle={`To collect: ${formatCurrency(receivable, currency)} • To pay: ${formatCurrency(payable, currency)}`}
+      >
+        <div className="stack">
+          {balances.map((row) => {
+            const party = activeParties.find((item) => item.id === row.party_id);
+            return (
+              <article className="entry-row" key={row.party_id}>
+                <button
+                  className="party-row-open"
+                  type="button"
+                  onClick={() => setSelectedPartyId(row.party_id)}
+                  aria-pressed={row.party_id === selectedPartyId}
+                >
+                  <strong>{row.name}</strong>
+                  <small>
+                    {row.kind === "customer" ? "Customer" : "Supplier"}
+                    {row.phone ? ` • ${row.phone}` : ""}
+                  </small>
+                </button>
+                <div className="entry-row-right">
+                  <span className={row.balance > 0 ? "amt-in" : row.balance < 0 ? "amt-out" : "muted"}>
+                    {describeBalance(row.balance, currency)}
+                  </span>
+                  {canManage && party && (
+                    <button className="text-btn" type="button" onClick={() => void onArchiveParty(party)}>
+                      Archive
+                    </button>
+                  )}
+                </div>
+              </article>
+            );
+          })}
+          {!balances.length && <p className="muted">No parties yet. Add a customer or supplier you give or take credit from.</p>}
+
+          {canRecord && !adding && (
+            <div className="inline-actions">
+              <button className="ghost-btn" type="button" onClick={() => setAdding(true)}>
+                Add Party
+              </button>
+            </div>
+          )}
+
+          {adding && (
+            <div className="stack account-add-form">
+              <label htmlFor="party-name">Name</label>
+              <input id="party-name" value={name} onChange={(event) => setName(event.target.value)} placeholder="Ravi Traders" />
+              <div className="inline-actions">
+                {partyKinds.map((item) => (
+                  <button
+                    key={item.value}
+                    type="button"
+                    className={`chip ${kind === item.value ? "chip-active" : ""}`.trim()}
+                    onClick={() => setKind(item.value)}
+                  >
+                    {item.label}
+                  </button>
+                ))}
+              </div>
+              <label htmlFor="party-phone">Phone</label>
+              <input
+                id="party-phone"
+                type="tel"
+                value={phone}
+                onChange={(event) => setPhone(event.target.value)}
+                placeholder="Optional"
+              />
+              <label htmlFor="party-opening">Opening balance</label>
+              <input
+                id="party-opening"
+                type="text"
+                inputMode="decimal"
+                autoComplete="off"
+                placeholder="0.00"
+                value={openingAmount}
+                onChange={(event) => setOpeningAmount(sanitizeAmountInput(event.target.value))}
+              />
+              <div className="inline-actions">
+                <button
+                  type="button"
+                  className={`chip ${openingOwedToUs ? "chip-active" : ""}`.trim()}
+                  onClick={() => setOpeningOwedToUs(true)}
+                >
+                  They owe you
+                </button>
+                <button
+                  type="button"
+                  className={`chip ${!openingOwedToUs ? "chip-active" : ""}`.trim()}
+                  onClick={() => setOpeningOwedToUs(false)}
+                >
+                  You owe them
+                </button>
+              </div>
+              <div className="inline-actions">
+                <button className="ghost-btn" type="button" onClick={() => setAdding(false)} disabled={saving}>
+                  Cancel
+                </button>
+                <button className="save-btn" type="button" onClick={() => void submit()} disabled={saving || !name.trim()}>
+                  {saving ? "Saving..." : "Save Party"}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </NeonCard>
+
+      {selectedParty && (
+        <NeonCard
+          title={`${selectedParty.name} Statement`}
+          subtitle={`Closing: ${describeBalance(closingBalance, currency)}`}
+        >
+          <div className="stack">
+            {canRecord && (
+              <div className="inline-actions party-movements">
+                {movementButtons.map((item) => (
+                  <button
+                    key={item.value}
+                    className="ghost-btn"
+                    type="button"
+                    onClick={() => onRecordMovement(selectedParty, item.value)}
+                  >
+                    {item.label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid-2">
+              <div>
+                <label htmlFor="party-statement-from">From</label>
+                <input
+                  id="party-statement-from"
+                  type="date"
+                  value={fromKey}
+                  onChange={(event) => setFromKey(event.target.value)}
+                />
+              </div>
+              <div>
+                <label htmlFor="party-statement-to">To</label>
+                <input id="party-statement-to" type="date" value={toKey} onChange={(event) => setToKey(event.target.value)} />
+              </div>
+            </div>
+
+            <article className="entry-row">
+              <div>
+                <strong>Opening</strong>
+                <small>{fromKey ? `Before ${fromKey}` : "When the party was added"}</small>
+              </div>
+              <div className="entry-row-right">
+                <span>{describeBalance(openingBalance, currency)}</span>
+              </div>
+            </article>
+
+            {statementRows.map((row) => (
+              <article className="entry-row" key={row.id}>
+                <div>
+                  <strong>{movementLabel(row)}</strong>
+                  <small>
+                    {formatDateTimeInTimeZone(row.entry_at, timezone)}
+                    {row.remarks ? ` • ${row.remarks}` : ""}
+                  </small>
+                </div>
+                <div className="entry-row-right">
+                  <span className={row.kind === "credit" ? "amt-move" : row.direction === "cash_in" ? "amt-in" : "amt-out"}>
+                    {formatCurrency(row.amount, currency)}
+                  </span>
+                  <small>{describeBalance(row.balance_after, currency)}</small>
+                </div>
+              </article>
+            ))}
+            {statementLoading && <p className="muted">Loading statement...</p>}
+            {!statementLoading && !statementRows.length && !statementError && (
+              <p className="muted">No entries with this party in the selected period.</p>
+            )}
+            {statementError && <small className="error-text">{statementError}</small>}
+
+            <div className="inline-actions">
+              <button className="ghost-btn" type="button" onClick={downloadExcel} disabled={statementLoading}>
+                Export Excel
+              </button>
+              <button className="primary-btn" type="button" onClick={exportPdf} disabled={statementLoading}>
+                Export PDF
+              </button>
+            </div>
+          </div>
+        </NeonCard>
+      )}
+    </section>
+  );
+}
@@ -1,13 +1,67 @@
+import { useEffect, useState } from "react";
 import { NeonCard } from "@/components/common/NeonCard";
+import { RecurringEntriesCard, type RecurringEntryDraft } from "@/components/recurring/RecurringEntriesCard";
+import { WorkspaceSettingsCard } from "@/components/workspace/WorkspaceSettingsCard";
 import type { AppErrorLogEntry } from "@/lib/errorLog";
+import { formatCurrency, sanitizeAmountInput, todayInTimeZone } from "@/lib/format";
+import type { Account, Category, RecurringEntry, Workspace, WorkspaceSettingsInput } from "@/types/domain";
 
 interface SettingsPageProps {
+  workspace: Workspace;
+  canEditWorkspace: boolean;
+  onUpdateOpeningBalance: (openingBalance: number) => Promise<void>;
+  onUpdateWorkspaceSettings: (input: WorkspaceSettingsInput) => Promise<void>;
+  categories: Category[];
+  accounts: Account[];
+  recurringEntries: RecurringEntry[];
+  canManageRecurring: boolean;
+  onAddRecurringEntry: (draft: RecurringEntryDraft) => Promise<boolean>;
+  onToggleRecurringEntry: (item: RecurringEntry, isActive: boolean) => Promise<void>;
   errorLogEntries: AppErrorLogEntry[];
   onClearErrorLog: () => void;
 }
 
 export function SettingsPage(props: SettingsPageProps): JSX.Element {
-  const { errorLogEntries, onClearErrorLog } = props;
+  const {
+    workspace,
+    canEditWorkspace,
+    onUpdateOpeningBalance,
+    onUpdateWorkspaceSettings,
+    categories,
+    accounts,
+    recurringEntries,
+    canManageRecurring,
+    onAddRecurringEntry,
+    onToggleRecurringEntry,
+    errorLogEntries,
+    onClearErrorLog
+  } = props;
+
+  const [openingBalance, setOpeningBalance] = useState(String(workspace.opening_balance));
+  const [savingOpeningBalance, setSavingOpeningBalance] = useState(false);
+  const [openingBalanceError, setOpeningBalanceError] = useState("");
+
+  useEffect(() => {
+    setOpeningBalance(String(workspace.opening_balance));
+  }, [workspace.opening_balance]);
+
+  const saveOpeningBalance = async (): Promise<void> => {
+    const next = Number(openingBalance || "0");
+    if (!Number.isFinite(next) || next < 0) {
+      setOpeningBalanceError("Enter a valid opening balance.");
+      return;
+    }
+
+    setSavingOpeningBalance(true);
+    setOpeningBalanceError("");
+    try {
+      await onUpdateOpeningBalance(next);
+    } catch (err) {
+      setOpeningBalanceError(err instanceof Error ? err.message : "Could not update opening balance.");
+    } finally {
+      setSavingOpeningBalance(false);
+    }
+  };
 
   const formatDateTime = (value: string): string => {
     const parsed = new Date(value);
@@ -19,6 +73,52 @@ export function SettingsPage(props: SettingsPageProps): JSX.Element {
 
   return (
     <section className="stack-lg">
+      {canEditWorkspace && <WorkspaceSettingsCard workspace={workspace} onSave={onUpdateWorkspaceSettings} />}
+
+      <NeonCard title="Books" subtitle="Cash you already had before the first entry in this workspace.">
+        <div className="stack">
+          <div className="entry-row">
+            <div>
+              <strong>Opening balance</strong>
+              <small>Held in the default cash account</small>
+            </div>
+            <strong>{formatCurrency(workspace.opening_balance, workspace.currency)}</strong>
+          </div>
+
+          {canEditWorkspace && (
+            <div className="inline-actions">
+              <input
+                type="text"
+                inputMode="decimal"
+                aria-label="Opening balance"
+                value={openingBalance}
+                onChange={(event) => setOpeningBalance(sanitizeAmountInput(event.target.value))}
+              />
+              <button
+                className="secondary-btn"
+                type="button"
+                onClick={() => void saveOpeningBalance()}
+                disabled={savingOpeningBalance || Number(openingBalance || "0") === workspace.opening_balance}
+              >
+                {savingOpeningBalance ? "Saving..." : "Save"}
+              </button>
+            </div>
+          )}
+          {openingBalanceError && <small className="error-text">{openingBalanceError}</small>}
+        </div>
+      </NeonCard>
+
+      <RecurringEntriesCard
+        items={recurringEntries}
+        categories={categories}
+        accounts={accounts}
+        currency={workspace.currency}
+        today={todayInTimeZone(workspace.timezone)}
+        canManage={canManageRecurring}
+        onAdd={onAddRecurringEntry}
+        onToggleActive={onToggleRecurringEntry}
+      />
+
       <NeonCard title="Error Log" subtitle="Runtime, database, API, and unhandled errors captured on this device. Sensitive tokens are redacted.">
         <div className="stack">
           <div className="sent-requests-head">
@@ -1,12 +1,43 @@
 import { useMemo, useState, type FormEvent } from "react";
 import { NeonCard } from "@/components/common/NeonCard";
-import type { AppRole, WorkspaceAccessRequest, WorkspaceAccessRequestSent, WorkspaceMember, WorkspaceMemberDirectory } from "@/types/domain";
+import { ActivityLogCard } from "@/components/team/ActivityLogCard";
+import { BulkInviteCard } from "@/components/team/BulkInviteCard";
+import { InviteLinksCard } from "@/components/team/InviteLinksCard";
+import { OwnershipCard } from "@/components/team/OwnershipCard";
+import { RolesCard } from "@/components/team/RolesCard";
+import { SentInvitesCard } from "@/components/team/SentInvitesCard";
+import type { BulkInviteRow } from "@/lib/bulkInvite";
+import { formatDateInTimeZone, shiftDateKey, todayInTimeZone, zonedDateToIso } from "@/lib/format";
+import { isMemberAccessActive, ROLE_LABELS } from "@/lib/permissions";
+import { timeZoneOptions } from "@/lib/timezones";
+import type {
+  AppRole,
+  AuditLogFilters,
+  AuditLogPage,
+  InviteLinkInput,
+  MemberPermissions,
+  MemberSuspensionInput,
+  OwnershipTransferDecision,
+  WorkspaceAccessRequest,
+  WorkspaceAccessRequestSent,
+  WorkspaceInviteLink,
+  WorkspaceMember,
+  WorkspaceMemberDirectory,
+  WorkspaceOwnershipTransfer,
+  WorkspaceRole,
+  WorkspaceRoleInput
+} from "@/types/domain";
 
 interface TeamPageProps {
   member: WorkspaceMember;
+  permissions: MemberPermissions;
+  roles: WorkspaceRole[];
   workspaceTimezone: string;
+  workspaceCurrency: string;
   members: WorkspaceMemberDirectory[];
   teamLoadError?: string;
+  ownerId: string;
+  ownershipTransfer: WorkspaceOwnershipTransfer | null;
   currentUserId: string;
   currentUserProfile: {
     fullName: string;
@@ -19,13 +50,19 @@ interface TeamPageProps {
     allowDeleteForEditor: boolean,
     allowManageCategoriesForEditor: boolean
   ) => Promise<void>;
+  onBulkInvite: (rows: BulkInviteRow[]) => Promise<BulkInviteRow[]>;
   onUpdateMember: (
     targetUserId: string,
     role: AppRole,
     allowDeleteForEditor: boolean,
     allowManageCategoriesForEditor: boolean
   ) => Promise<void>;
-  onSetMemberAccessDisabled: (targetUserId: string, disabled: boolean) => Promise<void>;
+  onSetMemberAccessDisabled: (targetUserId: string, disabled: boolean, suspension?: MemberSuspensionInput) => Promise<void>;
+  onAssignMemberRole: (targetUserId: string, roleId: string | null) => Promise<void>;
+  onSaveRole: (roleId: string | null, input: WorkspaceRoleInput) => Promise<void>;
+  onDeleteRole: (roleId: string) => Promise<void>;
+  onProposeOwnershipTransfer: (toUserId: string) => Promise<void>;
+  onRespondOwnershipTransfer: (transferId: string, decision: OwnershipTransferDecision) => Promise<void>;
   temporaryAccessAvailable: boolean;
   onRevokeMember: (targetUserId: string) => Promise<void>;
   onUpdateTimezone: (timezone: string) => Promise<void>;
@@ -39,20 +76,36 @@ interface TeamPageProps {
   sentAccessRequestsError?: string;
   onRefreshSentAccessRequests: () => Promise<void>;
   onCancelSentAccessRequest: (requestId: string) => Promise<void>;
+  onResendSentAccessRequest: (requestId: string) => Promise<void>;
+  inviteLinks: WorkspaceInviteLink[];
+  onCreateInviteLink: (input: InviteLinkInput) => Promise<string>;
+  onRevokeInviteLink: (linkId: string) => Promise<void>;
+  onQueryAuditLogs: (filters: AuditLogFilters, cursor: number | null, limit?: number) => Promise<AuditLogPage>;
   onReportError: (location: string, error: unknown, detail?: string) => void;
 }
 
 export function TeamPage(props: TeamPageProps): JSX.Element {
   const {
     member,
+    permissions,
+    roles,
     workspaceTimezone,
+    workspaceCurrency,
     members,
     teamLoadError = "",
+    ownerId,
+    ownershipTransfer,
     currentUserId,
     currentUserProfile,
     onGrantAccess,
+    onBulkInvite,
     onUpdateMember,
     onSetMemberAccessDisabled,
+    onAssignMemberRole,
+    onSaveRole,
+    onDeleteRole,
+    onProposeOwnershipTransfer,
+    onRespondOwnershipTransfer,
     temporaryAccessAvailable,
     onRevokeMember,
     onUpdateTimezone,
@@ -66,9 +119,15 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
     sentAccessRequestsError = "",
     onRefreshSentAccessRequests,
     onCancelSentAccessRequest,
+    onResendSentAccessRequest,
+    inviteLinks,
+    onCreateInviteLink,
+    onRevokeInviteLink,
+    onQueryAuditLogs,
     onReportError
   } = props;
 
+  const [view, setView] = useState<"team" | "activity">("team");
   const [contactType, setContactType] = useState<"email" | "phone">("email");
   const [contact, setContact] = useState("");
   const [role, setRole] = useState<AppRole>("editor");
@@ -82,9 +141,10 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
   const [timezoneEditOpen, setTimezoneEditOpen] = useState(false);
   const [deleteOpen, setDeleteOpen] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState("");
+  const [suspendUserId, setSuspendUserId] = useState("");
+  const [suspendUntilKey, setSuspendUntilKey] = useState("");
+  const [suspendReason, setSuspendReason] = useState("");
   const [refreshingIncomingRequests, setRefreshingIncomingRequests] = useState(false);
-  const [refreshingSentRequests, setRefreshingSentRequests] = useState(false);
-  const [cancellingSentRequestId, setCancellingSentRequestId] = useState("");
 
   const normalizePhone = (value: string): string => value.replace(/[^\d+]/g, "");
 
@@ -106,8 +166,11 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
     return message;
   };
 
-  const canManageUsers = member.role === "admin";
+  const canManageUsers = permissions.can_manage_members;
+  // The audit log and workspace fields stay admin-only regardless of custom roles.
+  const canViewActivity = member.role === "admin";
   const canEditTimezone = member.role === "admin";
+  const canManageInviteLinks = member.role === "admin";
   const displayName = currentUserProfile.fullName || currentUserProfile.email || "User";
   const initials = displayName
     .split(" ")
@@ -116,49 +179,13 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
     .map((part) => part[0]?.toUpperCase() ?? "")
     .join("");
 
-  const timezoneOptions = useMemo(() => {
-    const list = (() => {
-      const intlWithSupported = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
-      if (typeof Intl !== "undefined" && typeof intlWithSupported.supportedValuesOf === "function") {
-        try {
-          return intlWithSupported.supportedValuesOf("timeZone");
-        } catch {
-          return [];
-        }
-      }
-      return [];
-    })();
-
-    if (list.length) {
-      return list;
-    }
-    return ["Asia/Kolkata", "UTC", "Asia/Dubai", "Europe/London", "America/New_York", "Asia/Singapore"];
-  }, []);
-
-  const timezoneWithOffset = useMemo(() => {
-    const readOffset = (zone: string): string => {
-      try {
-        const parts = new Intl.DateTimeFormat("en-US", {
-          timeZone: zone,
-          timeZoneName: "shortOffset"
-        }).formatToParts(new Date());
-        const value = parts.find((part) => part.type === "timeZoneName")?.value ?? "";
-        return value || "GMT";
-      } catch {
-        return "GMT";
-      }
-    };
-
-    return timezoneOptions.map((zone) => ({
-      zone,
-      label: `${zone} (${readOffset(zone)})`
-    }));
-  }, [timezoneOptions]);
+  const timezoneWithOffset = useMemo(() => timeZoneOptions(), []);
 
   const sortedMembers = useMemo(() => {
+    const rank: Record<AppRole, number> = { admin: 0, editor: 1, viewer: 2 };
     return [...members].sort((a, b) => {
       if (a.role !== b.role) {
-        return a.role === "admin" ? -1 : 1;
+        return rank[a.role] - rank[b.role];
       }
       const aLabel = (a.full_name || a.email || a.phone || a.user_id).toLowerCase();
       const bLabel = (b.full_name || b.email || b.phone || b.user_id).toLowerCase();
@@ -166,43 +193,45 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
     });
   }, [members]);
 
-  const visibleSentAccessRequests = useMemo(
-    () => sentAccessRequests.filter((request) => request.status !== "rejected"),
-    [sentAccessRequests]
+  const activeAdminCount = useMemo(
+    () => members.filter((item) => item.role === "admin" && isMemberAccessActive(item)).length,
+    [members]
   );
 
-  const formatDateTime = (value: string): string => {
-    const parsed = new Date(value);
-    if (Number.isNaN(parsed.getTime())) {
-      return "Recently";
+  // Mirrors guard_workspace_admins so the risky controls are disabled with a reason instead of failing.
+  const adminLossWarning = (item: WorkspaceMemberDirectory): string => {
+    if (item.user_id === ownerId) {
+      return "Workspace owner. Transfer ownership before demoting, disabling or removing them.";
     }
-    return parsed.toLocaleString();
+    if (item.role === "admin" && isMemberAccessActive(item) && activeAdminCount <= 1) {
+      return "Last active admin. Make another member an admin before demoting, disabling or removing them.";
+    }
+    return "";
   };
 
-  const statusLabel = (value: WorkspaceAccessRequestSent["status"]): string => {
-    switch (value) {
-      case "accepted":
-        return "Accepted";
-      case "rejected":
-        return "Rejected";
-      case "cancelled":
-        return "Cancelled";
-      default:
-        return "Pending";
-    }
+  const warningFor = (targetUserId: string): string => {
+    const item = members.find((row) => row.user_id === targetUserId);
+    return item ? adminLossWarning(item) : "";
   };
 
-  const statusClass = (value: WorkspaceAccessRequestSent["status"]): string => {
-    switch (value) {
-      case "accepted":
-        return "sent-request-status sent-request-status-accepted";
-      case "rejected":
-        return "sent-request-status sent-request-status-rejected";
-      case "cancelled":
-        return "sent-request-status sent-request-status-cancelled";
-      default:
-        return "sent-request-status sent-request-status-pending";
+  const roleNames = useMemo(() => new Map(roles.map((item) => [item.id, item.name])), [roles]);
+
+  const roleMemberCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const item of members) {
+      if (item.custom_role_id) {
+        counts.set(item.custom_role_id, (counts.get(item.custom_role_id) ?? 0) + 1);
+      }
     }
+    return counts;
+  }, [members]);
+
+  const formatDateTime = (value: string): string => {
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) {
+      return "Recently";
+    }
+    return parsed.toLocaleString();
   };
 
   const grant = async (event: FormEvent) => {
@@ -264,6 +293,11 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
     allowDelete: boolean,
     allowManageCategories: boolean
   ) => {
+    const warning = nextRole === "admin" ? "" : warningFor(targetUserId);
+    if (warning) {
+      setError(warning);
+      return;
+    }
     setEditingUserId(targetUserId);
     setError("");
     try {
@@ -276,11 +310,42 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
     }
   };
 
-  const toggleTemporaryAccess = async (targetUserId: string, disabled: boolean) => {
+  const assignRole = async (targetUserId: string, roleId: string | null) => {
     setEditingUserId(targetUserId);
     setError("");
     try {
-      await onSetMemberAccessDisabled(targetUserId, disabled);
+      await onAssignMemberRole(targetUserId, roleId);
+    } catch (err) {
+      onReportError("TeamPage.assignRole", err);
+      setError(readMessage(err, "Could not change member role."));
+    } finally {
+      setEditingUserId("");
+    }
+  };
+
+  const openSuspendForm = (targetUserId: string) => {
+    const warning = warningFor(targetUserId);
+    if (warning) {
+      setError(warning);
+      return;
+    }
+    setSuspendUserId(targetUserId);
+    setSuspendUntilKey("");
+    setSuspendReason("");
+    setError("");
+  };
+
+  const toggleTemporaryAccess = async (targetUserId: string, disabled: boolean, suspension?: MemberSuspensionInput) => {
+    const warning = disabled ? warningFor(targetUserId) : "";
+    if (warning) {
+      setError(warning);
+      return;
+    }
+    setEditingUserId(targetUserId);
+    setError("");
+    try {
+      await onSetMemberAccessDisabled(targetUserId, disabled, suspension);
+      setSuspendUserId("");
     } catch (err) {
       onReportError("TeamPage.toggleTemporaryAccess", err);
       setError(readMessage(err, "Could not update workspace access state."));
@@ -290,6 +355,11 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
   };
 
   const revoke = async (targetUserId: string, label: string) => {
+    const warning = warningFor(targetUserId);
+    if (warning) {
+      setError(warning);
+      return;
+    }
     const ok = window.confirm(
       `This will permanently revoke ${label}'s workspace access. They will be removed from this workspace. Continue?`
     );
@@ -328,6 +398,27 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
     }
   };
 
+  const viewSwitch = (
+    <div className="segment-row" role="group" aria-label="Team view">
+      <button
+        type="button"
+        className={`segment-btn ${view === "team" ? "segment-btn-active" : ""}`.trim()}
+        aria-pressed={view === "team"}
+        onClick={() => setView("team")}
+      >
+        Team
+      </button>
+      <button
+        type="button"
+        className={`segment-btn ${view === "activity" ? "segment-btn-active" : ""}`.trim()}
+        aria-pressed={view === "activity"}
+        onClick={() => setView("activity")}
+      >
+        Activity
+      </button>
+    </div>
+  );
+
   const submitDeleteRequest = async (): Promise<void> => {
     if (deleteConfirmText.trim().toUpperCase() !== "DELETE") {
       setError("Type DELETE to continue.");
@@ -345,8 +436,24 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
     }
   };
 
+  if (canViewActivity && view === "activity") {
+    return (
+      <section className="stack-lg">
+        {viewSwitch}
+        <ActivityLogCard
+          members={members}
+          currency={workspaceCurrency}
+          timezone={workspaceTimezone}
+          onQuery={onQueryAuditLogs}
+          onReportError={onReportError}
+        />
+      </section>
+    );
+  }
+
   return (
     <section className="stack-lg">
+      {canViewActivity && viewSwitch}
       <NeonCard title="My Profile" subtitle="Your signed-in account details">
         <div className="profile-card">
           <div className="profile-avatar">{initials || "U"}</div>
@@ -517,6 +624,20 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
                       <span>Limited operations</span>
                     </span>
                   </button>
+                  <button
+                    type="button"
+                    className={`role-btn role-btn-viewer ${role === "viewer" ? "role-btn-active" : ""}`.trim()}
+                    aria-pressed={role === "viewer"}
+                    onClick={() => setRole("viewer")}
+                  >
+                    <span className="role-btn-check" aria-hidden="true">
+                      {role === "viewer" ? "✓" : ""}
+                    </span>
+                    <span className="role-btn-copy">
+                      Viewer
+                      <span>Read only</span>
+                    </span>
+                  </button>
                   <button
                     type="button"
                     className={`role-btn role-btn-admin ${role === "admin" ? "role-btn-active" : ""}`.trim()}
@@ -547,14 +668,20 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
 
             <div className="type-selection-note">
               Selected role:
-              <span className={`category-type-badge ${role === "admin" ? "category-type-expense" : "category-type-income"}`.trim()}>
-                {role === "admin" ? "Admin" : "Editor"}
+              <span
+                className={`category-type-badge ${
+                  role === "admin" ? "category-type-expense" : role === "viewer" ? "category-type-neutral" : "category-type-income"
+                }`.trim()}
+              >
+                {ROLE_LABELS[role]}
               </span>
             </div>
             <small className="muted">
               {role === "admin"
                 ? "Admin can manage users, categories, and direct deletes."
-                : "Editor can add entries. Extra permissions can be enabled below."}
+                : role === "viewer"
+                  ? "Viewer can see History and export statements but cannot add, edit or delete anything."
+                  : "Editor can add entries. Extra permissions can be enabled below."}
             </small>
 
             {role === "editor" && (
@@ -595,6 +722,17 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
         </NeonCard>
       )}
 
+      {canManageUsers && <BulkInviteCard members={members} onSend={onBulkInvite} />}
+
+      {canManageInviteLinks && (
+        <InviteLinksCard
+          links={inviteLinks}
+          timezone={workspaceTimezone}
+          onCreate={onCreateInviteLink}
+          onRevoke={onRevokeInviteLink}
+        />
+      )}
+
       {canManageUsers && (
         <NeonCard title="Team Members" subtitle="Role and permission controls">
           <div className="stack">
@@ -603,16 +741,26 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
               const isSelf = item.user_id === currentUserId;
               const busy = editingUserId === item.user_id;
               const displayName = item.full_name || item.email || item.phone || item.user_id;
-              const roleLabel = item.role === "admin" ? "Admin" : "Editor";
+              const customRoleName = item.custom_role_id ? roleNames.get(item.custom_role_id) ?? "Custom role" : "";
+              const roleLabel = item.role === "editor" ? customRoleName || "Editor" : ROLE_LABELS[item.role];
+              const adminWarning = adminLossWarning(item);
 
               return (
                 <article key={item.user_id} className="member-row">
                   <div>
                     <div className="member-title-row">
                       <strong>{displayName}</strong>
-                      <span className={`member-role-pill ${item.role === "admin" ? "member-role-pill-admin" : "member-role-pill-editor"}`}>
+                      <span className={`member-role-pill member-role-pill-${item.role}`}>
                         {roleLabel}
                       </span>
+                      {item.user_id === ownerId && <span className="member-role-pill member-role-pill-owner">Owner</span>}
+                      <span className={`member-status-pill ${item.access_disabled ? "member-status-pill-suspended" : "member-status-pill-active"}`}>
+                        {!item.access_disabled
+                          ? "Active"
+                          : item.disabled_until
+                            ? `Suspended until ${formatDateInTimeZone(item.disabled_until, workspaceTimezone)}`
+                            : "Suspended"}
+                      </span>
                     </div>
                     <small>
                       {item.email ?? "No email"} {item.phone ? `| ${item.phone}` : ""}
@@ -620,13 +768,24 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
                     <small>
                       {item.role === "admin"
                         ? "Full workspace control"
-                        : `Editor permissions | Delete: ${item.can_delete_entries ? "Yes" : "No"}`}
+                        : item.role === "viewer"
+                          ? "Read-only access: History and exports"
+                          : customRoleName
+                          ? `Permissions from the ${customRoleName} role`
+                          : `Editor permissions | Delete: ${item.can_delete_entries ? "Yes" : "No"}`}
                     </small>
-                    <small>Workspace access: {item.access_disabled ? "Temporarily disabled" : "Active"}</small>
-                    <div className="member-badges">
-                      {item.can_delete_entries && <span className="category-type-badge category-type-expense">Can delete</span>}
-                      {item.can_manage_categories && <span className="category-type-badge category-type-income">Manage categories</span>}
-                    </div>
+                    {item.access_disabled && item.disable_reason && <small>Suspension reason: {item.disable_reason}</small>}
+                    {!isSelf && adminWarning && (
+                      <small className="member-admin-warning" role="note">
+                        {adminWarning}
+                      </small>
+                    )}
+                    {item.role !== "viewer" && !customRoleName && (
+                      <div className="member-badges">
+                        {item.can_delete_entries && <span className="category-type-badge category-type-expense">Can delete</span>}
+                        {item.can_manage_categories && <span className="category-type-badge category-type-income">Manage categories</span>}
+                      </div>
+                    )}
                   </div>
 
                   <div className="inline-actions member-toggle-grid">
@@ -638,7 +797,7 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
                           id={`toggle-admin-${item.user_id}`}
                           type="checkbox"
                           checked={item.role === "admin"}
-                          disabled={busy}
+                          disabled={busy || Boolean(adminWarning)}
                           onChange={(event) => {
                             const nextRole: AppRole = event.target.checked ? "admin" : "editor";
                             const nextDelete = nextRole === "admin" ? true : false;
@@ -650,7 +809,45 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
                       </label>
                     )}
 
-                    {!isSelf && item.role === "editor" && (
+                    {!isSelf && item.role !== "admin" && (
+                      <label className="switch-row switch-row-action" htmlFor={`toggle-viewer-${item.user_id}`}>
+                        <span className="switch-label-text">Read-only viewer</span>
+                        <input
+                          className="toggle-input"
+                          id={`toggle-viewer-${item.user_id}`}
+                          type="checkbox"
+                          checked={item.role === "viewer"}
+                          disabled={busy}
+                          onChange={(event) => {
+                            void updateRole(item.user_id, event.target.checked ? "viewer" : "editor", false, false);
+                          }}
+                        />
+                        <span className="toggle-ui" aria-hidden="true" />
+                      </label>
+                    )}
+
+                    {!isSelf && item.role === "editor" && roles.length > 0 && (
+                      <label className="switch-row switch-row-action" htmlFor={`member-role-${item.user_id}`}>
+                        <span className="switch-label-text">Role</span>
+                        <select
+                          id={`member-role-${item.user_id}`}
+                          value={item.custom_role_id ?? ""}
+                          disabled={busy}
+                          onChange={(event) => {
+                            void assignRole(item.user_id, event.target.value || null);
+                          }}
+                        >
+                          <option value="">Editor (toggles)</option>
+                          {roles.map((roleItem) => (
+                            <option key={roleItem.id} value={roleItem.id}>
+                              {roleItem.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+
+                    {!isSelf && item.role === "editor" && !item.custom_role_id && (
                       <label className="switch-row switch-row-action" htmlFor={`toggle-delete-${item.user_id}`}>
                         <span className="switch-label-text">Delete entries</span>
                         <input
@@ -667,7 +864,7 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
                       </label>
                     )}
 
-                    {!isSelf && item.role === "editor" && (
+                    {!isSelf && item.role === "editor" && !item.custom_role_id && (
                       <label className="switch-row switch-row-action" htmlFor={`toggle-manage-categories-${item.user_id}`}>
                         <span className="switch-label-text">Manage categories</span>
                         <input
@@ -691,16 +888,66 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
                           className="toggle-input"
                           id={`toggle-access-${item.user_id}`}
                           type="checkbox"
-                          checked={!item.access_disabled}
-                          disabled={busy}
+                          checked={!item.access_disabled && suspendUserId !== item.user_id}
+                          disabled={busy || Boolean(adminWarning)}
                           onChange={(event) => {
-                            void toggleTemporaryAccess(item.user_id, !event.target.checked);
+                            if (event.target.checked) {
+                              if (suspendUserId === item.user_id) {
+                                setSuspendUserId("");
+                                return;
+                              }
+                              void toggleTemporaryAccess(item.user_id, false);
+                              return;
+                            }
+                            openSuspendForm(item.user_id);
                           }}
                         />
                         <span className="toggle-ui" aria-hidden="true" />
                       </label>
                     )}
 
+                    {suspendUserId === item.user_id && (
+                      <form
+                        className="member-suspend-form"
+                        onSubmit={(event) => {
+                          event.preventDefault();
+                          void toggleTemporaryAccess(item.user_id, true, {
+                            until: suspendUntilKey ? zonedDateToIso(suspendUntilKey, workspaceTimezone) : null,
+                            reason: suspendReason
+                          });
+                        }}
+                      >
+                        <label htmlFor={`suspend-until-${item.user_id}`}>Suspend until</label>
+                        <input
+                          id={`suspend-until-${item.user_id}`}
+                          type="date"
+                          min={shiftDateKey(todayInTimeZone(workspaceTimezone), 1)}
+                          value={suspendUntilKey}
+                          onChange={(event) => setSuspendUntilKey(event.target.value)}
+                        />
+                        <small className="muted">
+                          Access returns at the start of this day. Leave empty to suspend until you restore it.
+                        </small>
+                        <label htmlFor={`suspend-reason-${item.user_id}`}>Reason</label>
+                        <input
+                          id={`suspend-reason-${item.user_id}`}
+                          type="text"
+                          maxLength={280}
+                          placeholder="Shown to the member"
+                          value={suspendReason}
+                          onChange={(event) => setSuspendReason(event.target.value)}
+                        />
+                        <div className="inline-actions">
+                          <button className="ghost-btn" type="button" disabled={busy} onClick={() => setSuspendUserId("")}>
+                            Cancel
+                          </button>
+                          <button className="danger-btn danger-btn-compact" type="submit" disabled={busy}>
+                            {busy ? "Saving..." : "Suspend"}
+                          </button>
+                        </div>
+                      </form>
+                    )}
+
                     {!isSelf && !temporaryAccessAvailable && (
                       <small className="muted">Temporary disable unavailable until database upgrade.</small>
                     )}
@@ -709,7 +956,8 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
                       <button
                         className="danger-btn danger-btn-compact"
                         type="button"
-                        disabled={busy}
+                        disabled={busy || Boolean(adminWarning)}
+                        title={adminWarning || undefined}
                         onClick={() => {
                           void revoke(item.user_id, displayName);
                         }}
@@ -726,6 +974,19 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
         </NeonCard>
       )}
 
+      <OwnershipCard
+        members={members}
+        currentUserId={currentUserId}
+        ownerId={ownerId}
+        transfer={ownershipTransfer}
+        onPropose={onProposeOwnershipTransfer}
+        onRespond={onRespondOwnershipTransfer}
+      />
+
+      {canManageUsers && (
+        <RolesCard roles={roles} memberCounts={roleMemberCounts} onSave={onSaveRole} onDelete={onDeleteRole} />
+      )}
+
       <NeonCard title="Incoming Access Requests" subtitle="Accept or reject requests sent to your signed-in account.">
         <div className="stack">
           <div className="settings-identities">
@@ -841,87 +1102,14 @@ export function TeamPage(props: TeamPageProps): JSX.Element {
       </NeonCard>
 
       {canManageUsers && (
-        <NeonCard title="Sent Access Requests" subtitle="Requests sent to user email/mobile for this workspace">
-          <div className="stack">
-            <p className="muted">Accepted users are listed above in Team Members.</p>
-
-            <div className="sent-requests-head">
-              <div>
-                <small className="muted">Track whether requests are pending, accepted, rejected, or cancelled.</small>
-              </div>
-              <button
-                className="ghost-btn"
-                type="button"
-                disabled={refreshingSentRequests}
-                onClick={() => {
-                  void (async () => {
-                    setRefreshingSentRequests(true);
-                    try {
-                      await onRefreshSentAccessRequests();
-                    } finally {
-                      setRefreshingSentRequests(false);
-                    }
-                  })();
-                }}
-              >
-                {refreshingSentRequests ? "Refreshing..." : "Refresh"}
-              </button>
-            </div>
-
-	            {sentAccessRequestsError && <small className="error-text">Could not load sent requests: {sentAccessRequestsError}</small>}
-
-	            <div className="sent-requests-list">
-	              {visibleSentAccessRequests.map((request) => {
-	                const contact = request.target_email || request.target_phone || request.target_user_id;
-	                const targetLabel = request.target_name || contact;
-                  const busy = cancellingSentRequestId === request.id;
-	                return (
-	                  <article key={request.id} className="sent-request-row">
-	                    <div className="sent-request-head">
-	                      <div className="sent-request-title-wrap">
-                          <strong>{targetLabel}</strong>
-                          <span className={`member-role-pill ${request.role === "admin" ? "member-role-pill-admin" : "member-role-pill-editor"}`}>
-                            {request.role === "admin" ? "Admin" : "Editor"}
-                          </span>
-                        </div>
-	                      <span className={statusClass(request.status)}>{statusLabel(request.status)}</span>
-	                    </div>
-	                    <small>Contact: {contact}</small>
-	                    <small>
-	                      Delete: {request.can_delete_entries ? "Yes" : "No"} | Categories: {request.can_manage_categories ? "Yes" : "No"}
-	                    </small>
-	                    <small>Sent: {formatDateTime(request.requested_at)}</small>
-	                    {request.reviewed_at && <small>Reviewed: {formatDateTime(request.reviewed_at)}</small>}
-                      {request.status === "pending" && (
-                        <div className="sent-request-actions">
-                          <button
-                            className="ghost-btn sent-request-cancel-btn"
-                            type="button"
-                            disabled={busy}
-                            onClick={() => {
-                              void (async () => {
-                                setCancellingSentRequestId(request.id);
-                                try {
-                                  await onCancelSentAccessRequest(request.id);
-                                } finally {
-                                  setCancellingSentRequestId("");
-                                }
-                              })();
-                            }}
-                          >
-                            {busy ? "Cancelling..." : "Cancel request"}
-                          </button>
-                        </div>
-                      )}
-	                  </article>
-	                );
-	              })}
-	              {!visibleSentAccessRequests.length && !sentAccessRequestsError && (
-	                <p className="muted">No access requests sent yet for this workspace.</p>
-	              )}
-	            </div>
-          </div>
-        </NeonCard>
+        <SentInvitesCard
+          requests={sentAccessRequests}
+          loadError={sentAccessRequestsError}
+          timezone={workspaceTimezone}
+          onRefresh={onRefreshSentAccessRequests}
+          onCancel={onCancelSentAccessRequest}
+          onResend={onResendSentAccessRequest}
+        />
       )}
     </section>
   );
@@ -1,3 +1,15 @@
+// Marker lives in Cache Storage because localStorage is wiped on every load by supabase.ts.
+const LEGACY_CLEANUP_MARKER = "cashbook-sw-migrated-v1";
+// Covers every per-user data cache the service worker creates (see public/sw.js).
+const DATA_CACHE_PREFIX = "cashbook-data-";
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+type UpdateListener = (available: boolean) => void;
+
+let waitingWorker: ServiceWorker | null = null;
+let reloadOnControllerChange = false;
+const updateListeners = new Set<UpdateListener>();
+
 function clearAppBrowserStorage(): void {
   if (typeof window === "undefined") {
     return;
@@ -16,28 +28,114 @@ function clearAppBrowserStorage(): void {
   }
 }
 
+// One-time migration away from the old "no service worker, clear everything" build.
+async function runLegacyCleanupOnce(): Promise<void> {
+  if (!("caches" in window)) {
+    return;
+  }
+
+  if (await caches.has(LEGACY_CLEANUP_MARKER)) {
+    return;
+  }
+
+  clearAppBrowserStorage();
+
+  if ("serviceWorker" in navigator) {
+    const registrations = await navigator.serviceWorker.getRegistrations();
+    await Promise.all(registrations.map((registration) => registration.unregister()));
+  }
+
+  const keys = await caches.keys();
+  await Promise.all(keys.map((key) => caches.delete(key)));
+  await caches.open(LEGACY_CLEANUP_MARKER);
+}
+
+function setWaitingWorker(worker: ServiceWorker | null): void {
+  waitingWorker = worker;
+  updateListeners.forEach((listener) => listener(Boolean(worker)));
+}
+
+function trackRegistration(registration: ServiceWorkerRegistration): void {
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    setWaitingWorker(registration.waiting);
+  }
+
+  registration.addEventListener("updatefound", () => {
+    const installing = registration.installing;
+    if (!installing) {
+      return;
+    }
+
+    installing.addEventListener("statechange", () => {
+      // First install has no controller yet; only later installs are "updates".
+      if (installing.state === "installed" && navigator.serviceWorker.controller) {
+        setWaitingWorker(registration.waiting ?? installing);
+      }
+    });
+  });
+
+  window.setInterval(() => {
+    void registration.update().catch(() => undefined);
+  }, UPDATE_CHECK_INTERVAL_MS);
+
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") {
+      void registration.update().catch(() => undefined);
+    }
+  });
+}
+
+export function subscribeToServiceWorkerUpdate(listener: UpdateListener): () => void {
+  updateListeners.add(listener);
+  listener(Boolean(waitingWorker));
+  return () => {
+    updateListeners.delete(listener);
+  };
+}
+
+export function applyServiceWorkerUpdate(): void {
+  if (!waitingWorker) {
+    return;
+  }
+  reloadOnControllerChange = true;
+  waitingWorker.postMessage({ type: "SKIP_WAITING" });
+}
+
+export async function clearServiceWorkerDataCache(): Promise<void> {
+  if (typeof window === "undefined" || !("caches" in window)) {
+    return;
+  }
+  const keys = await caches.keys();
+  await Promise.all(keys.filter((key) => key.startsWith(DATA_CACHE_PREFIX)).map((key) => caches.delete(key)));
+}
+
 export function registerServiceWorker(): void {
-  if (typeof window === "undefined") {
+  if (typeof window === "undefined" || !import.meta.env.PROD) {
     return;
   }
 
   window.addEventListener("load", () => {
-    clearAppBrowserStorage();
+    void (async () => {
+      try {
+        await runLegacyCleanupOnce();
+      } catch {
+        // Cleanup is best effort; registration below still proceeds.
+      }
 
-    if ("serviceWorker" in navigator) {
-      navigator.serviceWorker.getRegistrations().then((registrations) => {
-        registrations.forEach((registration) => {
-          void registration.unregister();
-        });
-      });
-    }
+      if (!("serviceWorker" in navigator)) {
+        return;
+      }
 
-    if ("caches" in window) {
-      caches.keys().then((keys) => {
-        keys.forEach((key) => {
-          void caches.delete(key);
-        });
+      navigator.serviceWorker.addEventListener("controllerchange", () => {
+        if (!reloadOnControllerChange) {
+          return;
+        }
+        reloadOnControllerChange = false;
+        window.location.reload();
       });
-    }
+
+      const registration = await navigator.serviceWorker.register("/sw.js");
+      trackRegistration(registration);
+    })().catch(() => undefined);
   });
 }
@@ -0,0 +1,87 @@
+import { requireSupabase } from "@/lib/supabase";
+import type { Account, AccountBalance, AccountKind } from "@/types/domain";
+
+interface AccountBalanceRpcRow {
+  account_id: string;
+  name: string;
+  kind: AccountKind;
+  is_default: boolean;
+  balance: number | string | null;
+}
+
+export async function listAccounts(workspaceId: string): Promise<Account[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("accounts")
+    .select("id,workspace_id,name,kind,is_default,is_active,created_at")
+    .eq("workspace_id", workspaceId)
+    .order("is_default", { ascending: false })
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as Account[];
+}
+
+export async function addAccount(
+  workspaceId: string,
+  name: string,
+  kind: AccountKind,
+  userId: string
+): Promise<Account> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("accounts")
+    .insert({
+      workspace_id: workspaceId,
+      name: name.trim(),
+      kind,
+      created_by: userId
+    })
+    .select("id,workspace_id,name,kind,is_default,is_active,created_at")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("An account with this name already exists.");
+    }
+    throw error;
+  }
+
+  return data as Account;
+}
+
+export async function archiveAccount(workspaceId: string, accountId: string): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb
+    .from("accounts")
+    .update({ is_active: false })
+    .eq("workspace_id", workspaceId)
+    .eq("id", accountId)
+    .eq("is_default", false);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function listAccountBalances(workspaceId: string): Promise<AccountBalance[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("account_balances", {
+    _workspace_id: workspaceId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as AccountBalanceRpcRow[]).map((row) => ({
+    account_id: row.account_id,
+    name: row.name,
+    kind: row.kind,
+    is_default: row.is_default,
+    balance: Number(row.balance ?? 0)
+  }));
+}
@@ -0,0 +1,40 @@
+import { requireSupabase } from "@/lib/supabase";
+import type { AuditLogFilters, AuditLogPage, AuditLogRow } from "@/types/domain";
+
+interface AuditLogRpcRow extends Omit<AuditLogRow, "id"> {
+  id: number | string;
+}
+
+// Newest first; pass the previous page's nextCursor to continue. Admin only, enforced by the RPC.
+export async function listAuditLogs(
+  workspaceId: string,
+  filters: AuditLogFilters,
+  cursor: number | null = null,
+  limit = 50
+): Promise<AuditLogPage> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("list_audit_logs", {
+    _workspace_id: workspaceId,
+    _actor_user_id: filters.actorUserId || null,
+    _action: filters.action || null,
+    _entity_type: filters.entityType || null,
+    _from: filters.from ?? null,
+    _to: filters.to ?? null,
+    _before_id: cursor,
+    _limit: limit + 1
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = ((data ?? []) as AuditLogRpcRow[]).map((row) => ({ ...row, id: Number(row.id) }));
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    rows: pageRows,
+    nextCursor: hasMore && last ? last.id : null
+  };
+}
@@ -0,0 +1,118 @@
+import { requireSupabase } from "@/lib/supabase";
+import type { BudgetActual, BudgetPeriod, BudgetProgress, CategoryBudget } from "@/types/domain";
+
+const BUDGET_COLUMNS = "id,workspace_id,category_id,period,amount";
+
+interface BudgetProgressRpcRow extends Omit<BudgetProgress, "amount" | "spent"> {
+  amount: number | string;
+  spent: number | string | null;
+}
+
+interface BudgetActualRpcRow extends Omit<BudgetActual, "amount" | "budget_total" | "actual"> {
+  amount: number | string;
+  budget_total: number | string;
+  actual: number | string | null;
+}
+
+export async function listCategoryBudgets(workspaceId: string): Promise<CategoryBudget[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("category_budgets")
+    .select(BUDGET_COLUMNS)
+    .eq("workspace_id", workspaceId);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as CategoryBudget[]).map((row) => ({ ...row, amount: Number(row.amount) }));
+}
+
+// One budget per category. Saving again updates period and amount in place, since created_by may not change.
+export async function saveCategoryBudget(
+  workspaceId: string,
+  categoryId: string,
+  period: BudgetPeriod,
+  amount: number,
+  userId: string
+): Promise<void> {
+  const sb = requireSupabase();
+  const { data: existing, error: existingError } = await sb
+    .from("category_budgets")
+    .select("id")
+    .eq("workspace_id", workspaceId)
+    .eq("category_id", categoryId)
+    .maybeSingle();
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  const { error } = existing
+    ? await sb.from("category_budgets").update({ period, amount }).eq("id", existing.id)
+    : await sb.from("category_budgets").insert({
+        workspace_id: workspaceId,
+        category_id: categoryId,
+        period,
+        amount,
+        created_by: userId
+      });
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function removeCategoryBudget(workspaceId: string, budgetId: string): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb
+    .from("category_budgets")
+    .delete()
+    .eq("workspace_id", workspaceId)
+    .eq("id", budgetId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function listBudgetProgress(workspaceId: string): Promise<BudgetProgress[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("budget_progress", {
+    _workspace_id: workspaceId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as BudgetProgressRpcRow[]).map((row) => ({
+    ...row,
+    amount: Number(row.amount),
+    spent: Number(row.spent ?? 0)
+  }));
+}
+
+export async function getBudgetVsActual(
+  workspaceId: string,
+  from: string | null,
+  to: string | null
+): Promise<BudgetActual[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("budget_vs_actual", {
+    _workspace_id: workspaceId,
+    _from: from,
+    _to: to
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as BudgetActualRpcRow[]).map((row) => ({
+    ...row,
+    amount: Number(row.amount),
+    budget_total: Number(row.budget_total),
+    actual: Number(row.actual ?? 0)
+  }));
+}
@@ -1,7 +1,9 @@
 import { getDefaultCategories } from "@/data/defaultCategories";
 import { requireSupabase } from "@/lib/supabase";
 import type { AICategorySuggestion } from "@/services/aiCategories";
-import type { Category } from "@/types/domain";
+import type { Category, CategoryUpdateInput } from "@/types/domain";
+
+const CATEGORY_COLUMNS = "id,workspace_id,name,type,icon,color,source,is_active,parent_id";
 
 interface CategoryInsert {
   workspace_id: string;
@@ -18,7 +20,7 @@ export async function listCategories(workspaceId: string): Promise<Category[]> {
   const sb = requireSupabase();
   const { data, error } = await sb
     .from("categories")
-    .select("id,workspace_id,name,type,icon,color,source,is_active")
+    .select(CATEGORY_COLUMNS)
     .eq("workspace_id", workspaceId)
     .eq("is_active", true)
     .order("name", { ascending: true });
@@ -30,6 +32,22 @@ export async function listCategories(workspaceId: string): Promise<Category[]> {
   return (data ?? []) as Category[];
 }
 
+export async function listArchivedCategories(workspaceId: string): Promise<Category[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("categories")
+    .select(CATEGORY_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .eq("is_active", false)
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as Category[];
+}
+
 export async function seedIndustryCategories(workspaceId: string, industry: string, userId: string): Promise<void> {
   const defaults = getDefaultCategories(industry);
   if (!defaults.length) {
@@ -99,7 +117,8 @@ export async function addManualCategory(
   workspaceId: string,
   userId: string,
   name: string,
-  type: "income" | "expense"
+  type: "income" | "expense",
+  parentId: string | null = null
 ): Promise<void> {
   const normalized = name.trim();
   if (!normalized) {
@@ -135,6 +154,7 @@ export async function addManualCategory(
       color: null,
       source: "manual",
       is_active: true,
+      parent_id: parentId,
       created_by: userId
     });
 
@@ -159,6 +179,20 @@ export async function archiveCategory(workspaceId: string, categoryId: string):
     throw new Error("Cannot drop this category because it is already used in entries.");
   }
 
+  const { count: splitCount, error: splitCountError } = await sb
+    .from("entries")
+    .select("id", { count: "exact", head: true })
+    .eq("workspace_id", workspaceId)
+    .contains("split_lines", [{ category_id: categoryId }]);
+
+  if (splitCountError) {
+    throw splitCountError;
+  }
+
+  if ((splitCount ?? 0) > 0) {
+    throw new Error("Cannot drop this category because it is already used in split entries.");
+  }
+
   const { error } = await sb
     .from("categories")
     .update({ is_active: false })
@@ -169,3 +203,58 @@ export async function archiveCategory(workspaceId: string, categoryId: string):
     throw error;
   }
 }
+
+export async function updateCategory(workspaceId: string, categoryId: string, input: CategoryUpdateInput): Promise<void> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error("Category name is required.");
+  }
+
+  const sb = requireSupabase();
+  const { error } = await sb
+    .from("categories")
+    .update({ name, icon: input.icon?.trim() || null, color: input.color || null, parent_id: input.parent_id })
+    .eq("workspace_id", workspaceId)
+    .eq("id", categoryId);
+
+  if (error) {
+    // Names are unique per type across archived categories too, so a clash may be with one waiting in Restore.
+    if (error.code === "23505") {
+      throw new Error(`Duplicate category: "${name}" already exists.`);
+    }
+    throw error;
+  }
+}
+
+export async function restoreCategory(workspaceId: string, categoryId: string): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb
+    .from("categories")
+    .update({ is_active: true })
+    .eq("workspace_id", workspaceId)
+    .eq("id", categoryId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Moves every active entry, split line, recurring template and budget to the target and archives the source.
+export async function mergeCategories(
+  workspaceId: string,
+  sourceCategoryId: string,
+  targetCategoryId: string
+): Promise<number> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("merge_categories", {
+    _workspace_id: workspaceId,
+    _source_category_id: sourceCategoryId,
+    _target_category_id: targetCategoryId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return Number(data ?? 0);
+}
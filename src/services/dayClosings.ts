@@ -0,0 +1,83 @@
+import { requireSupabase } from "@/lib/supabase";
+import type { CloseDayInput, DayClosing, DenominationCount } from "@/types/domain";
+
+interface DayClosingRow {
+  id: string;
+  workspace_id: string;
+  business_date: string;
+  account_id: string;
+  denominations: DenominationCount | null;
+  counted_total: number | string;
+  expected_balance: number | string;
+  difference: number | string;
+  note: string | null;
+  adjustment_entry_id: string | null;
+  closed_by: string;
+  closed_at: string;
+}
+
+const DAY_CLOSING_COLUMNS =
+  "id,workspace_id,business_date,account_id,denominations,counted_total,expected_balance,difference,note,adjustment_entry_id,closed_by,closed_at";
+
+function toDayClosing(row: DayClosingRow): DayClosing {
+  return {
+    ...row,
+    denominations: row.denominations ?? {},
+    counted_total: Number(row.counted_total),
+    expected_balance: Number(row.expected_balance),
+    difference: Number(row.difference)
+  };
+}
+
+export async function listRecentDayClosings(workspaceId: string, limit = 14): Promise<DayClosing[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("day_closings")
+    .select(DAY_CLOSING_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .order("business_date", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as DayClosingRow[]).map(toDayClosing);
+}
+
+// Book balance at the end of a business day for one drawer, in the workspace timezone.
+export async function getDayCloseExpectedBalance(
+  workspaceId: string,
+  businessDate: string,
+  accountId: string
+): Promise<number> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("day_close_expected_balance", {
+    _workspace_id: workspaceId,
+    _business_date: businessDate,
+    _account_id: accountId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return Number(data ?? 0);
+}
+
+export async function closeBusinessDay(input: CloseDayInput): Promise<DayClosing> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("close_business_day", {
+    _workspace_id: input.workspace_id,
+    _business_date: input.business_date,
+    _account_id: input.account_id,
+    _denominations: input.denominations,
+    _note: input.note ?? null
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return toDayClosing(data as DayClosingRow);
+}
@@ -1,20 +1,27 @@
 import { requireSupabase } from "@/lib/supabase";
-import type { DeleteRequest, DeleteRequestStatus } from "@/types/domain";
+import type { DeleteRequestDetail, DeleteRequestScope, DeleteRequestStatus } from "@/types/domain";
 
-export async function listPendingDeleteRequests(workspaceId: string): Promise<DeleteRequest[]> {
+export async function listDeleteRequests(
+  workspaceId: string,
+  scope: DeleteRequestScope,
+  limit = 50
+): Promise<DeleteRequestDetail[]> {
   const sb = requireSupabase();
-  const { data, error } = await sb
-    .from("delete_requests")
-    .select("id,workspace_id,entry_id,requested_by,reason,status,reviewed_by,reviewed_at,review_note,created_at")
-    .eq("workspace_id", workspaceId)
-    .eq("status", "pending")
-    .order("created_at", { ascending: false });
+  const { data, error } = await sb.rpc("list_delete_requests", {
+    _workspace_id: workspaceId,
+    _scope: scope,
+    _limit: limit
+  });
 
   if (error) {
     throw error;
   }
 
-  return (data ?? []) as DeleteRequest[];
+  return (data ?? []) as DeleteRequestDetail[];
+}
+
+export async function listPendingDeleteRequests(workspaceId: string): Promise<DeleteRequestDetail[]> {
+  return listDeleteRequests(workspaceId, "pending");
 }
 
 export async function requestDelete(
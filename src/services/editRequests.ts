@@ -0,0 +1,60 @@
+import { requireSupabase } from "@/lib/supabase";
+import type { DeleteRequestStatus, EntryEditRequest, EntryUpdateInput } from "@/types/domain";
+
+export async function listPendingEditRequests(workspaceId: string): Promise<EntryEditRequest[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("entry_edit_requests")
+    .select("id,workspace_id,entry_id,requested_by,reason,proposed,status,reviewed_by,reviewed_at,review_note,created_at")
+    .eq("workspace_id", workspaceId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as EntryEditRequest[];
+}
+
+export async function requestEdit(
+  workspaceId: string,
+  entryId: string,
+  requestedBy: string,
+  proposed: EntryUpdateInput,
+  reason: string
+): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb.from("entry_edit_requests").insert({
+    workspace_id: workspaceId,
+    entry_id: entryId,
+    requested_by: requestedBy,
+    proposed,
+    reason,
+    status: "pending"
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function reviewEditRequest(
+  requestId: string,
+  status: Exclude<DeleteRequestStatus, "pending">,
+  note: string
+): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb
+    .from("entry_edit_requests")
+    .update({
+      status,
+      review_note: note || null
+    })
+    .eq("id", requestId)
+    .eq("status", "pending");
+
+  if (error) {
+    throw error;
+  }
+}
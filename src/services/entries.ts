@@ -1,11 +1,45 @@
 import { requireSupabase } from "@/lib/supabase";
-import type { Entry, EntryInsertInput } from "@/types/domain";
+import type {
+  Entry,
+  EntryCursor,
+  EntryInsertInput,
+  EntryPage,
+  EntryQueryFilters,
+  EntryRevision,
+  EntryTotals,
+  EntryUpdateInput,
+  LedgerEntry
+} from "@/types/domain";
+
+const ENTRY_COLUMNS =
+  "id,workspace_id,kind,direction,amount,category_id,split_lines,account_id,transfer_account_id,party_id,shift_id,remarks,receipt_url,entry_at,created_by,status,created_at";
+
+interface EntryTotalsRpcRow {
+  cash_in: number | string | null;
+  cash_out: number | string | null;
+  entry_count: number | string | null;
+}
+
+function filterParams(filters: EntryQueryFilters): Record<string, string | number | null> {
+  return {
+    _from: filters.from ?? null,
+    _to: filters.to ?? null,
+    _category_id: filters.categoryId || null,
+    _direction: filters.direction ?? null,
+    _created_by: filters.createdBy || null,
+    _min_amount: filters.minAmount ?? null,
+    _max_amount: filters.maxAmount ?? null,
+    _remarks: filters.remarks?.trim() || null,
+    _kind: filters.kind ?? null,
+    _account_id: filters.accountId || null
+  };
+}
 
 export async function listEntries(workspaceId: string, limit = 80): Promise<Entry[]> {
   const sb = requireSupabase();
   const { data, error } = await sb
     .from("entries")
-    .select("id,workspace_id,direction,amount,category_id,remarks,receipt_url,entry_at,created_by,status,created_at")
+    .select(ENTRY_COLUMNS)
     .eq("workspace_id", workspaceId)
     .order("entry_at", { ascending: false })
     .limit(limit);
@@ -17,6 +51,99 @@ export async function listEntries(workspaceId: string, limit = 80): Promise<Entr
   return ((data ?? []) as Entry[]).filter((item) => item.status === "active");
 }
 
+export async function listShiftEntries(workspaceId: string, shiftId: string): Promise<Entry[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("entries")
+    .select(ENTRY_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .eq("shift_id", shiftId)
+    .eq("status", "active")
+    .order("entry_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as Entry[];
+}
+
+export async function queryEntries(
+  workspaceId: string,
+  filters: EntryQueryFilters,
+  cursor: EntryCursor | null = null,
+  limit = 50,
+  withBalance = false,
+  forExport = false
+): Promise<EntryPage> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("query_entries", {
+    _workspace_id: workspaceId,
+    ...filterParams(filters),
+    _cursor_entry_at: cursor?.entry_at ?? null,
+    _cursor_id: cursor?.id ?? null,
+    _limit: limit + 1,
+    _with_balance: withBalance,
+    _for_export: forExport
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = ((data ?? []) as LedgerEntry[]).map((row) => ({
+    ...row,
+    amount: Number(row.amount),
+    running_balance: row.running_balance === null ? null : Number(row.running_balance)
+  }));
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    rows: pageRows,
+    nextCursor: hasMore && last ? { entry_at: last.entry_at, id: last.id } : null
+  };
+}
+
+export async function summarizeEntries(workspaceId: string, filters: EntryQueryFilters): Promise<EntryTotals> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("summarize_entries", {
+    _workspace_id: workspaceId,
+    ...filterParams(filters)
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as EntryTotalsRpcRow | null;
+  return {
+    cashIn: Number(row?.cash_in ?? 0),
+    cashOut: Number(row?.cash_out ?? 0),
+    count: Number(row?.entry_count ?? 0)
+  };
+}
+
+export async function getClosingBalance(
+  workspaceId: string,
+  asOf: string,
+  accountId: string | null = null
+): Promise<number> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("closing_balance_as_of", {
+    _workspace_id: workspaceId,
+    _as_of: asOf,
+    _account_id: accountId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return Number(data ?? 0);
+}
+
 export async function countActiveEntries(workspaceId: string): Promise<number> {
   const sb = requireSupabase();
   const { count, error } = await sb
@@ -38,15 +165,59 @@ export async function addEntry(input: EntryInsertInput): Promise<Entry> {
     .from("entries")
     .insert({
       workspace_id: input.workspace_id,
+      kind: input.kind ?? "standard",
       direction: input.direction,
       amount: input.amount,
       category_id: input.category_id,
+      split_lines: input.split_lines ?? null,
+      account_id: input.account_id ?? null,
+      transfer_account_id: input.transfer_account_id ?? null,
+      party_id: input.party_id ?? null,
       remarks: input.remarks ?? null,
       receipt_url: input.receipt_url ?? null,
       created_by: input.created_by,
-      entry_at: input.entry_at ?? new Date().toISOString()
+      entry_at: input.entry_at ?? new Date().toISOString(),
+      client_ref: input.client_ref ?? null
     })
-    .select("id,workspace_id,direction,amount,category_id,remarks,receipt_url,entry_at,created_by,status,created_at")
+    .select(ENTRY_COLUMNS)
+    .single();
+
+  if (error) {
+    // A replayed outbox item that already landed: return the stored row instead of inserting twice.
+    if (input.client_ref && error.code === "23505" && error.message.includes("client_ref")) {
+      return findEntryByClientRef(input.workspace_id, input.client_ref);
+    }
+    throw error;
+  }
+
+  return data as Entry;
+}
+
+async function findEntryByClientRef(workspaceId: string, clientRef: string): Promise<Entry> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("entries")
+    .select(ENTRY_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .eq("client_ref", clientRef)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as Entry;
+}
+
+export async function updateEntry(workspaceId: string, entryId: string, changes: EntryUpdateInput): Promise<Entry> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("entries")
+    .update(changes)
+    .eq("workspace_id", workspaceId)
+    .eq("id", entryId)
+    .eq("status", "active")
+    .select(ENTRY_COLUMNS)
     .single();
 
   if (error) {
@@ -56,6 +227,22 @@ export async function addEntry(input: EntryInsertInput): Promise<Entry> {
   return data as Entry;
 }
 
+export async function listEntryRevisions(workspaceId: string, entryId: string): Promise<EntryRevision[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("entry_revisions")
+    .select("id,workspace_id,entry_id,revised_by,revised_at,old_values,new_values,edit_request_id")
+    .eq("workspace_id", workspaceId)
+    .eq("entry_id", entryId)
+    .order("revised_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as EntryRevision[];
+}
+
 export async function deleteEntryDirect(workspaceId: string, entryId: string, userId: string): Promise<void> {
   const sb = requireSupabase();
   const { data: canDelete, error: canDeleteError } = await sb.rpc("can_delete_entries", {
@@ -0,0 +1,76 @@
+import { requireSupabase } from "@/lib/supabase";
+import type { InviteLinkInput, RedeemedInviteLink, WorkspaceInviteLink } from "@/types/domain";
+
+// RLS returns links only to workspace admins.
+export async function listWorkspaceInviteLinks(workspaceId: string): Promise<WorkspaceInviteLink[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("workspace_invite_links")
+    .select(
+      "id,workspace_id,role,can_delete_entries,can_manage_categories,max_uses,use_count,expires_at,revoked_at,created_by,created_at"
+    )
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as WorkspaceInviteLink[] | null) ?? [];
+}
+
+// Returns the raw token; it cannot be read back later.
+export async function createWorkspaceInviteLink(
+  workspaceId: string,
+  input: InviteLinkInput
+): Promise<{ id: string; token: string }> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("create_workspace_invite_link", {
+    _workspace_id: workspaceId,
+    _role: input.role,
+    _can_delete_entries: input.can_delete_entries,
+    _can_manage_categories: input.can_manage_categories,
+    _max_uses: input.max_uses,
+    _expires_in_days: input.expires_in_days
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row?.token) {
+    throw new Error("Invite link was not created");
+  }
+
+  return row as { id: string; token: string };
+}
+
+export async function revokeWorkspaceInviteLink(linkId: string): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb.rpc("revoke_workspace_invite_link", {
+    _link_id: linkId
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function redeemWorkspaceInviteLink(token: string): Promise<RedeemedInviteLink> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("redeem_workspace_invite_link", {
+    _token: token
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row?.request_id) {
+    throw new Error("This invite link is not valid");
+  }
+
+  return row as RedeemedInviteLink;
+}
@@ -1,10 +1,14 @@
 import { requireSupabase } from "@/lib/supabase";
 import type {
+  AccessRequestStatus,
   AppRole,
   DashboardScope,
+  InviteDeliveryStatus,
+  MemberSuspensionInput,
   WorkspaceAccessRequest,
   WorkspaceAccessRequestSent,
-  WorkspaceMemberDirectory
+  WorkspaceMemberDirectory,
+  WorkspaceSuspension
 } from "@/types/domain";
 
 interface MembersRpcRow {
@@ -16,6 +20,9 @@ interface MembersRpcRow {
   can_manage_users: boolean;
   dashboard_scope: DashboardScope;
   access_disabled?: boolean;
+  disabled_until?: string | null;
+  disable_reason?: string | null;
+  custom_role_id?: string | null;
   full_name: string | null;
   email: string | null;
   phone: string | null;
@@ -34,7 +41,7 @@ interface AccessRequestRpcRow {
   role: AppRole;
   can_delete_entries: boolean;
   can_manage_categories: boolean;
-  status: "pending" | "accepted" | "rejected" | "cancelled";
+  status: AccessRequestStatus;
   requested_at: string;
 }
 
@@ -45,35 +52,20 @@ interface SentAccessRequestRpcRow {
   target_name: string | null;
   target_email: string | null;
   target_phone: string | null;
+  contact: string | null;
   requested_by: string;
   role: AppRole;
   can_delete_entries: boolean;
   can_manage_categories: boolean;
-  status: "pending" | "accepted" | "rejected" | "cancelled";
+  status: AccessRequestStatus;
   requested_at: string;
   reviewed_at: string | null;
   note: string | null;
-}
-
-interface SentAccessRequestTableRow {
-  id: string;
-  workspace_id: string;
-  target_user_id: string;
-  requested_by: string;
-  role: AppRole;
-  can_delete_entries: boolean;
-  can_manage_categories: boolean;
-  status: "pending" | "accepted" | "rejected" | "cancelled";
-  requested_at: string;
-  reviewed_at: string | null;
-  note: string | null;
-}
-
-interface AuditLogRow {
-  entity_id: string;
-  meta: {
-    contact?: unknown;
-  } | null;
+  expires_at: string;
+  resent_at: string | null;
+  resend_count: number | null;
+  delivery_status: InviteDeliveryStatus | null;
+  delivery_updated_at: string | null;
 }
 
 function readErrorMessage(error: unknown): string {
@@ -123,6 +115,9 @@ export async function listWorkspaceMembers(workspaceId: string): Promise<Workspa
     can_manage_users: row.can_manage_users,
     dashboard_scope: row.dashboard_scope,
     access_disabled: Boolean(row.access_disabled),
+    disabled_until: row.disabled_until ?? null,
+    disable_reason: row.disable_reason ?? null,
+    custom_role_id: row.custom_role_id ?? null,
     full_name: row.full_name,
     email: row.email,
     phone: row.phone
@@ -141,8 +136,8 @@ export async function grantMemberAccessByContact(
     _workspace_id: workspaceId,
     _contact: contact,
     _role: role,
-    _can_delete_entries: role === "admin" ? true : allowDeleteForEditor,
-    _can_manage_categories: role === "admin" ? true : allowManageCategoriesForEditor
+    _can_delete_entries: role === "admin" ? true : role === "editor" && allowDeleteForEditor,
+    _can_manage_categories: role === "admin" ? true : role === "editor" && allowManageCategoriesForEditor
   });
 
   if (!error) {
@@ -180,13 +175,21 @@ export async function updateWorkspaceMemberRole(
           can_manage_users: true,
           dashboard_scope: "full" as const
         }
-      : {
-          role: "editor" as const,
-          can_delete_entries: allowDeleteForEditor,
-          can_manage_categories: allowManageCategoriesForEditor,
-          can_manage_users: false,
-          dashboard_scope: "shift" as const
-        };
+      : role === "viewer"
+        ? {
+            role: "viewer" as const,
+            can_delete_entries: false,
+            can_manage_categories: false,
+            can_manage_users: false,
+            dashboard_scope: "full" as const
+          }
+        : {
+            role: "editor" as const,
+            can_delete_entries: allowDeleteForEditor,
+            can_manage_categories: allowManageCategoriesForEditor,
+            can_manage_users: false,
+            dashboard_scope: "shift" as const
+          };
 
   const { error } = await sb
     .from("workspace_members")
@@ -232,16 +235,21 @@ export async function revokeWorkspaceMember(workspaceId: string, userId: string)
   throw error;
 }
 
+// Without options this is the plain on/off toggle; with them the suspension ends by itself at `until`.
 export async function setWorkspaceMemberAccessDisabled(
   workspaceId: string,
   userId: string,
-  disabled: boolean
+  disabled: boolean,
+  suspension?: MemberSuspensionInput
 ): Promise<void> {
   const sb = requireSupabase();
   const { error } = await sb.rpc("set_workspace_member_access_disabled", {
     _workspace_id: workspaceId,
     _target_user_id: userId,
-    _disabled: disabled
+    _disabled: disabled,
+    ...(disabled && suspension
+      ? { _disabled_until: suspension.until, _reason: suspension.reason.trim() || null }
+      : {})
   });
 
   if (!error) {
@@ -253,6 +261,10 @@ export async function setWorkspaceMemberAccessDisabled(
     message.includes("could not find the function public.set_workspace_member_access_disabled") ||
     message.includes("schema cache");
 
+  if (missingRpc && suspension) {
+    throw new Error("Scheduled suspension is not enabled in this database yet. Run the latest Supabase migrations.");
+  }
+
   if (missingRpc) {
     const { error: fallbackError } = await sb
       .from("workspace_members")
@@ -274,6 +286,17 @@ export async function setWorkspaceMemberAccessDisabled(
   throw error;
 }
 
+export async function listMyWorkspaceSuspensions(): Promise<WorkspaceSuspension[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("list_my_workspace_suspensions");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as WorkspaceSuspension[];
+}
+
 export async function listMyWorkspaceAccessRequests(): Promise<WorkspaceAccessRequest[]> {
   const sb = requireSupabase();
   const { data, error } = await sb.rpc("list_my_workspace_access_requests");
@@ -345,87 +368,53 @@ export async function cancelWorkspaceAccessRequest(requestId: string): Promise<v
   );
 }
 
-export async function listWorkspaceAccessRequestsSent(workspaceId: string): Promise<WorkspaceAccessRequestSent[]> {
+// Refreshes the expiry; the database webhook sees resent_at change and calls send-workspace-invite again.
+export async function resendWorkspaceAccessRequest(requestId: string): Promise<void> {
   const sb = requireSupabase();
-  const { data, error } = await sb.rpc("list_workspace_access_requests_sent", {
-    _workspace_id: workspaceId
+  const { error } = await sb.rpc("resend_workspace_access_request", {
+    _request_id: requestId
   });
 
-  if (!error) {
-    return ((data ?? []) as SentAccessRequestRpcRow[]).map((row) => ({
-      id: row.id,
-      workspace_id: row.workspace_id,
-      target_user_id: row.target_user_id,
-      target_name: row.target_name,
-      target_email: row.target_email,
-      target_phone: row.target_phone,
-      requested_by: row.requested_by,
-      role: row.role,
-      can_delete_entries: row.can_delete_entries,
-      can_manage_categories: row.can_manage_categories,
-      status: row.status,
-      requested_at: row.requested_at,
-      reviewed_at: row.reviewed_at,
-      note: row.note
-    }));
-  }
-
-  if (!isMissingSentRequestsRpc(error)) {
+  if (error) {
     throw error;
   }
+}
 
-  const [{ data: requestRows, error: requestError }, { data: auditRows, error: auditError }] = await Promise.all([
-    sb
-      .from("workspace_access_requests")
-      .select(
-        "id, workspace_id, target_user_id, requested_by, role, can_delete_entries, can_manage_categories, status, requested_at, reviewed_at, note"
-      )
-      .eq("workspace_id", workspaceId)
-      .order("requested_at", { ascending: false }),
-    sb
-      .from("audit_logs")
-      .select("entity_id, meta")
-      .eq("workspace_id", workspaceId)
-      .eq("action", "workspace_access_requested")
-      .eq("entity_type", "workspace_access_request")
-  ]);
-
-  if (requestError) {
-    throw requestError;
-  }
-
-  if (auditError) {
-    throw auditError;
-  }
+export async function listWorkspaceAccessRequestsSent(workspaceId: string): Promise<WorkspaceAccessRequestSent[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("list_workspace_access_requests_sent", {
+    _workspace_id: workspaceId
+  });
 
-  const contactByRequestId = new Map<string, string>();
-  for (const row of (auditRows ?? []) as AuditLogRow[]) {
-    const contact = typeof row.meta?.contact === "string" ? row.meta.contact.trim() : "";
-    if (contact) {
-      contactByRequestId.set(row.entity_id, contact);
+  if (error) {
+    if (isMissingSentRequestsRpc(error)) {
+      throw new Error(
+        "Sent invites are not enabled in this database yet. Run the latest Supabase migrations and reload the schema cache."
+      );
     }
+    throw error;
   }
 
-  return ((requestRows ?? []) as SentAccessRequestTableRow[]).map((row) => {
-    const contact = contactByRequestId.get(row.id) ?? "";
-    const targetEmail = contact.includes("@") ? contact : null;
-    const targetPhone = targetEmail ? null : contact || null;
-
-    return {
-      id: row.id,
-      workspace_id: row.workspace_id,
-      target_user_id: row.target_user_id,
-      target_name: null,
-      target_email: targetEmail,
-      target_phone: targetPhone,
-      requested_by: row.requested_by,
-      role: row.role,
-      can_delete_entries: row.can_delete_entries,
-      can_manage_categories: row.can_manage_categories,
-      status: row.status,
-      requested_at: row.requested_at,
-      reviewed_at: row.reviewed_at,
-      note: row.note
-    };
-  });
+  return ((data ?? []) as SentAccessRequestRpcRow[]).map((row) => ({
+    id: row.id,
+    workspace_id: row.workspace_id,
+    target_user_id: row.target_user_id,
+    target_name: row.target_name,
+    target_email: row.target_email,
+    target_phone: row.target_phone,
+    contact: row.contact,
+    requested_by: row.requested_by,
+    role: row.role,
+    can_delete_entries: row.can_delete_entries,
+    can_manage_categories: row.can_manage_categories,
+    status: row.status,
+    requested_at: row.requested_at,
+    reviewed_at: row.reviewed_at,
+    note: row.note,
+    expires_at: row.expires_at,
+    resent_at: row.resent_at,
+    resend_count: row.resend_count ?? 0,
+    delivery_status: row.delivery_status,
+    delivery_updated_at: row.delivery_updated_at
+  }));
 }
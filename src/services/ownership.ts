@@ -0,0 +1,45 @@
+import { requireSupabase } from "@/lib/supabase";
+import type { OwnershipTransferDecision, WorkspaceOwnershipTransfer } from "@/types/domain";
+
+// RLS returns the pending transfer only to the two people involved and to admins.
+export async function getPendingOwnershipTransfer(workspaceId: string): Promise<WorkspaceOwnershipTransfer | null> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("workspace_ownership_transfers")
+    .select("id,workspace_id,from_user_id,to_user_id,status,requested_at")
+    .eq("workspace_id", workspaceId)
+    .eq("status", "pending")
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as WorkspaceOwnershipTransfer | null) ?? null;
+}
+
+export async function proposeOwnershipTransfer(workspaceId: string, toUserId: string): Promise<string> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("propose_workspace_ownership_transfer", {
+    _workspace_id: workspaceId,
+    _to_user_id: toUserId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as string;
+}
+
+export async function respondOwnershipTransfer(transferId: string, decision: OwnershipTransferDecision): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb.rpc("respond_workspace_ownership_transfer", {
+    _transfer_id: transferId,
+    _decision: decision
+  });
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,135 @@
+import { requireSupabase } from "@/lib/supabase";
+import type { Party, PartyBalance, PartyInput, PartyKind, PartyStatementRow } from "@/types/domain";
+
+const PARTY_COLUMNS = "id,workspace_id,name,kind,phone,opening_balance,is_active,created_at";
+
+interface PartyBalanceRpcRow {
+  party_id: string;
+  name: string;
+  kind: PartyKind;
+  phone: string | null;
+  opening_balance: number | string | null;
+  balance: number | string | null;
+}
+
+interface PartyStatementRpcRow extends Omit<PartyStatementRow, "amount" | "balance_after"> {
+  amount: number | string;
+  balance_after: number | string | null;
+}
+
+function toParty(row: Party): Party {
+  return { ...row, opening_balance: Number(row.opening_balance ?? 0) };
+}
+
+export async function listParties(workspaceId: string): Promise<Party[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("parties")
+    .select(PARTY_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as Party[]).map(toParty);
+}
+
+export async function addParty(workspaceId: string, input: PartyInput, userId: string): Promise<Party> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("parties")
+    .insert({
+      workspace_id: workspaceId,
+      name: input.name.trim(),
+      kind: input.kind,
+      phone: input.phone?.trim() || null,
+      opening_balance: input.opening_balance,
+      created_by: userId
+    })
+    .select(PARTY_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("A party with this name already exists.");
+    }
+    throw error;
+  }
+
+  return toParty(data as Party);
+}
+
+export async function archiveParty(workspaceId: string, partyId: string): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb
+    .from("parties")
+    .update({ is_active: false })
+    .eq("workspace_id", workspaceId)
+    .eq("id", partyId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function listPartyBalances(workspaceId: string): Promise<PartyBalance[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("party_balances", {
+    _workspace_id: workspaceId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as PartyBalanceRpcRow[]).map((row) => ({
+    party_id: row.party_id,
+    name: row.name,
+    kind: row.kind,
+    phone: row.phone,
+    opening_balance: Number(row.opening_balance ?? 0),
+    balance: Number(row.balance ?? 0)
+  }));
+}
+
+export async function getPartyStatement(
+  workspaceId: string,
+  partyId: string,
+  from: string | null,
+  to: string | null
+): Promise<PartyStatementRow[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("party_statement", {
+    _workspace_id: workspaceId,
+    _party_id: partyId,
+    _from: from,
+    _to: to
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as PartyStatementRpcRow[]).map((row) => ({
+    ...row,
+    amount: Number(row.amount),
+    balance_after: Number(row.balance_after ?? 0)
+  }));
+}
+
+export async function getPartyBalanceAsOf(workspaceId: string, partyId: string, asOf: string): Promise<number> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("party_balance_as_of", {
+    _workspace_id: workspaceId,
+    _party_id: partyId,
+    _as_of: asOf
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return Number(data ?? 0);
+}
@@ -0,0 +1,100 @@
+import { requireSupabase } from "@/lib/supabase";
+import type { RecurringEntry, RecurringEntryInput } from "@/types/domain";
+
+interface RecurringEntryRow extends Omit<RecurringEntry, "amount"> {
+  amount: number | string;
+}
+
+const RECURRING_ENTRY_COLUMNS =
+  "id,workspace_id,name,direction,amount,category_id,account_id,remarks,frequency,mode,start_date,end_date,next_due_date,is_active,last_error,created_by";
+
+function toRecurringEntry(row: RecurringEntryRow): RecurringEntry {
+  return { ...row, amount: Number(row.amount) };
+}
+
+export async function listRecurringEntries(workspaceId: string): Promise<RecurringEntry[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("recurring_entries")
+    .select(RECURRING_ENTRY_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .order("is_active", { ascending: false })
+    .order("next_due_date", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as RecurringEntryRow[]).map(toRecurringEntry);
+}
+
+export async function addRecurringEntry(input: RecurringEntryInput): Promise<RecurringEntry> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("recurring_entries")
+    .insert({
+      workspace_id: input.workspace_id,
+      name: input.name.trim(),
+      direction: input.direction,
+      amount: input.amount,
+      category_id: input.category_id,
+      account_id: input.account_id,
+      remarks: input.remarks ?? null,
+      frequency: input.frequency,
+      mode: input.mode,
+      start_date: input.start_date,
+      end_date: input.end_date ?? null,
+      created_by: input.created_by,
+      // Set by the table trigger from start_date; sent only to satisfy the not-null column.
+      next_due_date: input.start_date
+    })
+    .select(RECURRING_ENTRY_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return toRecurringEntry(data as RecurringEntryRow);
+}
+
+export async function setRecurringEntryActive(
+  workspaceId: string,
+  recurringEntryId: string,
+  isActive: boolean
+): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb
+    .from("recurring_entries")
+    .update({ is_active: isActive })
+    .eq("workspace_id", workspaceId)
+    .eq("id", recurringEntryId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function postRecurringEntry(recurringEntryId: string): Promise<string | null> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("post_recurring_entry", {
+    _recurring_entry_id: recurringEntryId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as string | null) ?? null;
+}
+
+export async function skipRecurringEntry(recurringEntryId: string): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb.rpc("skip_recurring_entry", {
+    _recurring_entry_id: recurringEntryId
+  });
+
+  if (error) {
+    throw error;
+  }
+}
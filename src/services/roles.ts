@@ -0,0 +1,70 @@
+import { pickPermissions } from "@/lib/permissions";
+import { requireSupabase } from "@/lib/supabase";
+import type { WorkspaceRole, WorkspaceRoleInput } from "@/types/domain";
+
+const ROLE_COLUMNS =
+  "id,workspace_id,name,can_view_reports,can_export,can_add_cash_in,can_add_cash_out,can_backdate_entries,can_manage_categories,can_manage_members,can_edit_entries,can_delete_entries";
+
+export async function listWorkspaceRoles(workspaceId: string): Promise<WorkspaceRole[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("workspace_roles")
+    .select(ROLE_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as WorkspaceRole[];
+}
+
+// Inserts when roleId is null, otherwise updates the role in place; members on it pick up the change immediately.
+export async function saveWorkspaceRole(
+  workspaceId: string,
+  roleId: string | null,
+  input: WorkspaceRoleInput,
+  userId: string
+): Promise<void> {
+  const sb = requireSupabase();
+  const name = input.name.trim();
+  const payload = { name, ...pickPermissions(input) };
+
+  const { error } = roleId
+    ? await sb.from("workspace_roles").update(payload).eq("workspace_id", workspaceId).eq("id", roleId)
+    : await sb.from("workspace_roles").insert({ ...payload, workspace_id: workspaceId, created_by: userId });
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error(`Duplicate role: "${name}" already exists.`);
+    }
+    throw error;
+  }
+}
+
+export async function deleteWorkspaceRole(workspaceId: string, roleId: string): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb.from("workspace_roles").delete().eq("workspace_id", workspaceId).eq("id", roleId);
+
+  if (error) {
+    if (error.code === "23503") {
+      throw new Error("Move every member off this role before deleting it.");
+    }
+    throw error;
+  }
+}
+
+// null puts the member back on the editor permission toggles.
+export async function assignMemberRole(workspaceId: string, userId: string, roleId: string | null): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb
+    .from("workspace_members")
+    .update({ custom_role_id: roleId })
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,112 @@
+import { requireSupabase } from "@/lib/supabase";
+import type { Shift, ShiftReportRow } from "@/types/domain";
+
+type Numeric = number | string | null;
+
+interface ShiftRow extends Omit<Shift, "opening_float" | "counted_cash" | "expected_cash" | "variance"> {
+  opening_float: Numeric;
+  counted_cash: Numeric;
+  expected_cash: Numeric;
+  variance: Numeric;
+}
+
+interface ShiftReportRpcRow
+  extends Omit<ShiftReportRow, "opening_float" | "cash_in" | "cash_out" | "expected_cash" | "counted_cash" | "variance"> {
+  opening_float: Numeric;
+  cash_in: Numeric;
+  cash_out: Numeric;
+  expected_cash: Numeric;
+  counted_cash: Numeric;
+  variance: Numeric;
+}
+
+const SHIFT_COLUMNS =
+  "id,workspace_id,user_id,account_id,opening_float,opened_at,closed_at,counted_cash,expected_cash,variance,note";
+
+function toNullableNumber(value: Numeric): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function toShift(row: ShiftRow): Shift {
+  return {
+    ...row,
+    opening_float: Number(row.opening_float ?? 0),
+    counted_cash: toNullableNumber(row.counted_cash),
+    expected_cash: toNullableNumber(row.expected_cash),
+    variance: toNullableNumber(row.variance)
+  };
+}
+
+export async function getMyOpenShift(workspaceId: string, userId: string): Promise<Shift | null> {
+  const sb = requireSupabase();
+  const { data, error } = await sb
+    .from("shifts")
+    .select(SHIFT_COLUMNS)
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", userId)
+    .is("closed_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? toShift(data as ShiftRow) : null;
+}
+
+export async function openShift(workspaceId: string, openingFloat: number, accountId: string | null = null): Promise<Shift> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("open_shift", {
+    _workspace_id: workspaceId,
+    _opening_float: openingFloat,
+    _account_id: accountId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return toShift(data as ShiftRow);
+}
+
+export async function closeShift(shiftId: string, countedCash: number, note: string | null = null): Promise<Shift> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("close_shift", {
+    _shift_id: shiftId,
+    _counted_cash: countedCash,
+    _note: note
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return toShift(data as ShiftRow);
+}
+
+export async function getShiftReport(
+  workspaceId: string,
+  from: string | null = null,
+  to: string | null = null
+): Promise<ShiftReportRow[]> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.rpc("shift_report", {
+    _workspace_id: workspaceId,
+    _from: from,
+    _to: to
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as ShiftReportRpcRow[]).map((row) => ({
+    ...row,
+    opening_float: Number(row.opening_float ?? 0),
+    cash_in: Number(row.cash_in ?? 0),
+    cash_out: Number(row.cash_out ?? 0),
+    expected_cash: Number(row.expected_cash ?? 0),
+    counted_cash: toNullableNumber(row.counted_cash),
+    variance: toNullableNumber(row.variance)
+  }));
+}
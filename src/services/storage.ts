@@ -4,13 +4,21 @@ function sanitize(fileName: string): string {
   return fileName.toLowerCase().replace(/[^a-z0-9.\-_]/g, "-");
 }
 
-export async function uploadReceipt(workspaceId: string, userId: string, file: File): Promise<string> {
+export async function uploadReceipt(
+  workspaceId: string,
+  userId: string,
+  file: Blob,
+  fileName: string,
+  clientRef?: string
+): Promise<string> {
   const sb = requireSupabase();
-  const path = `${workspaceId}/${userId}/${Date.now()}-${sanitize(file.name)}`;
+  // Outbox uploads reuse the entry's client_ref so a retried upload overwrites the same object.
+  const prefix = clientRef ?? String(Date.now());
+  const path = `${workspaceId}/${userId}/${prefix}-${sanitize(fileName)}`;
 
   const { error } = await sb.storage.from("receipts").upload(path, file, {
     cacheControl: "3600",
-    upsert: false
+    upsert: Boolean(clientRef)
   });
 
   if (error) {
@@ -20,3 +28,15 @@ export async function uploadReceipt(workspaceId: string, userId: string, file: F
   // Keep only storage object path in DB; access is resolved via storage policies/signed URLs.
   return path;
 }
+
+// Short-lived link for viewing a stored receipt; storage policies limit it to workspace members.
+export async function getReceiptUrl(path: string): Promise<string> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.storage.from("receipts").createSignedUrl(path, 300);
+
+  if (error) {
+    throw error;
+  }
+
+  return data.signedUrl;
+}
@@ -1,5 +1,5 @@
 import { requireSupabase } from "@/lib/supabase";
-import type { CreateWorkspaceInput, WorkspaceContext } from "@/types/domain";
+import type { CreateWorkspaceInput, Workspace, WorkspaceContext, WorkspaceSettingsInput } from "@/types/domain";
 
 interface WorkspaceRow {
   id: string;
@@ -7,22 +7,29 @@ interface WorkspaceRow {
   industry: string;
   timezone: string;
   currency: string;
+  opening_balance: number | string | null;
   created_by: string;
+  owner_id: string;
   created_at: string;
 }
 
 interface WorkspaceMemberRow {
   workspace_id: string;
   user_id: string;
-  role: "admin" | "editor";
+  role: "admin" | "editor" | "viewer";
   can_delete_entries: boolean;
   can_manage_categories: boolean;
   can_manage_users: boolean;
   dashboard_scope: "full" | "shift";
   access_disabled?: boolean;
+  custom_role_id: string | null;
   workspaces: WorkspaceRow | null;
 }
 
+function toWorkspace(row: WorkspaceRow): Workspace {
+  return { ...row, opening_balance: Number(row.opening_balance ?? 0) };
+}
+
 export async function createWorkspaceWithOwner(input: CreateWorkspaceInput): Promise<string> {
   const sb = requireSupabase();
   const { data, error } = await sb.rpc("create_workspace_with_owner", {
@@ -44,9 +51,10 @@ export async function listUserWorkspaces(userId: string): Promise<WorkspaceConte
   const { data, error } = await sb
     .from("workspace_members")
     .select(
-      "workspace_id,user_id,role,can_delete_entries,can_manage_categories,can_manage_users,dashboard_scope,workspaces!inner(id,name,industry,timezone,currency,created_by,created_at)"
+      "workspace_id,user_id,role,can_delete_entries,can_manage_categories,can_manage_users,dashboard_scope,custom_role_id,workspaces!inner(id,name,industry,timezone,currency,opening_balance,created_by,owner_id,created_at)"
     )
-    .eq("user_id", userId);
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
 
   if (error) {
     throw error;
@@ -56,7 +64,7 @@ export async function listUserWorkspaces(userId: string): Promise<WorkspaceConte
   return rows
     .filter((row) => row.workspaces)
     .map((row) => ({
-      workspace: row.workspaces!,
+      workspace: toWorkspace(row.workspaces!),
       member: {
         workspace_id: row.workspace_id,
         user_id: row.user_id,
@@ -65,17 +73,38 @@ export async function listUserWorkspaces(userId: string): Promise<WorkspaceConte
         can_manage_categories: row.can_manage_categories,
         can_manage_users: row.can_manage_users,
         dashboard_scope: row.dashboard_scope,
-        access_disabled: Boolean(row.access_disabled)
+        access_disabled: Boolean(row.access_disabled),
+        custom_role_id: row.custom_role_id ?? null
       }
     }));
 }
 
+export async function getLastWorkspaceId(userId: string): Promise<string | null> {
+  const sb = requireSupabase();
+  const { data, error } = await sb.from("profiles").select("last_workspace_id").eq("id", userId).maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as { last_workspace_id: string | null } | null)?.last_workspace_id ?? null;
+}
+
+export async function rememberLastWorkspace(userId: string, workspaceId: string): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb.from("profiles").update({ last_workspace_id: workspaceId }).eq("id", userId);
+
+  if (error) {
+    throw error;
+  }
+}
+
 export async function getWorkspaceContext(workspaceId: string, userId: string): Promise<WorkspaceContext> {
   const sb = requireSupabase();
   const { data, error } = await sb
     .from("workspace_members")
     .select(
-      "workspace_id,user_id,role,can_delete_entries,can_manage_categories,can_manage_users,dashboard_scope,workspaces!inner(id,name,industry,timezone,currency,created_by,created_at)"
+      "workspace_id,user_id,role,can_delete_entries,can_manage_categories,can_manage_users,dashboard_scope,custom_role_id,workspaces!inner(id,name,industry,timezone,currency,opening_balance,created_by,owner_id,created_at)"
     )
     .eq("workspace_id", workspaceId)
     .eq("user_id", userId)
@@ -91,7 +120,7 @@ export async function getWorkspaceContext(workspaceId: string, userId: string):
   }
 
   return {
-    workspace: row.workspaces,
+    workspace: toWorkspace(row.workspaces),
     member: {
       workspace_id: row.workspace_id,
       user_id: row.user_id,
@@ -100,7 +129,8 @@ export async function getWorkspaceContext(workspaceId: string, userId: string):
       can_manage_categories: row.can_manage_categories,
       can_manage_users: row.can_manage_users,
       dashboard_scope: row.dashboard_scope,
-      access_disabled: Boolean(row.access_disabled)
+      access_disabled: Boolean(row.access_disabled),
+      custom_role_id: row.custom_role_id ?? null
     }
   };
 }
@@ -113,3 +143,29 @@ export async function updateWorkspaceTimezone(workspaceId: string, timezone: str
     throw error;
   }
 }
+
+export async function updateWorkspaceSettings(workspaceId: string, input: WorkspaceSettingsInput): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb
+    .from("workspaces")
+    .update({
+      name: input.name.trim(),
+      industry: input.industry.trim(),
+      currency: input.currency.trim().toUpperCase(),
+      timezone: input.timezone
+    })
+    .eq("id", workspaceId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function updateWorkspaceOpeningBalance(workspaceId: string, openingBalance: number): Promise<void> {
+  const sb = requireSupabase();
+  const { error } = await sb.from("workspaces").update({ opening_balance: openingBalance }).eq("id", workspaceId);
+
+  if (error) {
+    throw error;
+  }
+}
@@ -1,9 +1,12 @@
-export type AppRole = "admin" | "editor";
+export type AppRole = "admin" | "editor" | "viewer";
 export type DashboardScope = "full" | "shift";
 export type CategoryType = "income" | "expense";
 export type CashDirection = "cash_in" | "cash_out";
 export type EntryStatus = "active" | "deleted";
 export type DeleteRequestStatus = "pending" | "approved" | "rejected";
+export type AccountKind = "cash" | "bank" | "upi" | "wallet";
+// credit entries record goods or services given to (cash_out) or received from (cash_in) a party without moving cash.
+export type EntryKind = "standard" | "transfer" | "credit";
 
 export interface Workspace {
   id: string;
@@ -11,7 +14,10 @@ export interface Workspace {
   industry: string;
   timezone: string;
   currency: string;
+  opening_balance: number;
   created_by: string;
+  // The admin the workspace cannot lose; changes only through an accepted ownership transfer.
+  owner_id: string;
   created_at: string;
 }
 
@@ -24,9 +30,48 @@ export interface WorkspaceMember {
   can_manage_users: boolean;
   dashboard_scope: DashboardScope;
   access_disabled: boolean;
+  // Workspace-defined role; when set it replaces the editor flags above. Always null for admins.
+  custom_role_id: string | null;
+}
+
+export type WorkspacePermission =
+  | "can_view_reports"
+  | "can_export"
+  | "can_add_cash_in"
+  | "can_add_cash_out"
+  | "can_backdate_entries"
+  | "can_manage_categories"
+  | "can_manage_members"
+  | "can_edit_entries"
+  | "can_delete_entries";
+
+export type MemberPermissions = Record<WorkspacePermission, boolean>;
+
+export interface WorkspaceRole extends MemberPermissions {
+  id: string;
+  workspace_id: string;
+  name: string;
+}
+
+export interface WorkspaceRoleInput extends MemberPermissions {
+  name: string;
+}
+
+export type OwnershipTransferDecision = "accept" | "decline" | "cancel";
+
+export interface WorkspaceOwnershipTransfer {
+  id: string;
+  workspace_id: string;
+  from_user_id: string;
+  to_user_id: string;
+  status: "pending" | "accepted" | "declined" | "cancelled";
+  requested_at: string;
 }
 
 export interface WorkspaceMemberDirectory extends WorkspaceMember {
+  // Set only while suspended; null disabled_until means until an admin restores access.
+  disabled_until: string | null;
+  disable_reason: string | null;
   full_name: string | null;
   email: string | null;
   phone: string | null;
@@ -41,14 +86,225 @@ export interface Category {
   color: string | null;
   source: "system" | "ai_generated" | "manual";
   is_active: boolean;
+  // Group this category sits under; groups are one level deep and share the subcategory's type.
+  parent_id: string | null;
 }
 
-export interface Entry {
+export interface CategoryUpdateInput {
+  name: string;
+  icon: string | null;
+  color: string | null;
+  parent_id: string | null;
+}
+
+export type BudgetPeriod = "weekly" | "monthly";
+
+export interface CategoryBudget {
+  id: string;
+  workspace_id: string;
+  category_id: string;
+  period: BudgetPeriod;
+  amount: number;
+}
+
+// One row of `budget_progress`: spend so far in the current period; period_end is exclusive.
+export interface BudgetProgress {
+  budget_id: string;
+  category_id: string;
+  period: BudgetPeriod;
+  amount: number;
+  period_start: string;
+  period_end: string;
+  spent: number;
+}
+
+// One row of `budget_vs_actual`: budget_total is the budget times every period the range touches.
+export interface BudgetActual {
+  budget_id: string;
+  category_id: string;
+  period: BudgetPeriod;
+  amount: number;
+  periods: number;
+  budget_total: number;
+  actual: number;
+}
+
+export interface Account {
+  id: string;
+  workspace_id: string;
+  name: string;
+  kind: AccountKind;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface AccountBalance {
+  account_id: string;
+  name: string;
+  kind: AccountKind;
+  is_default: boolean;
+  balance: number;
+}
+
+export type PartyKind = "customer" | "supplier";
+
+export interface Party {
   id: string;
   workspace_id: string;
+  name: string;
+  kind: PartyKind;
+  phone: string | null;
+  // Receivable-positive: above zero the party owes the workspace, below zero the workspace owes the party.
+  opening_balance: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface PartyBalance {
+  party_id: string;
+  name: string;
+  kind: PartyKind;
+  phone: string | null;
+  opening_balance: number;
+  balance: number;
+}
+
+export interface PartyInput {
+  name: string;
+  kind: PartyKind;
+  phone: string | null;
+  opening_balance: number;
+}
+
+// One row of `party_statement`; balance_after is what the party owes after this entry.
+export interface PartyStatementRow {
+  id: string;
+  kind: EntryKind;
+  direction: CashDirection;
+  amount: number;
+  category_id: string | null;
+  account_id: string;
+  remarks: string | null;
+  entry_at: string;
+  created_by: string;
+  balance_after: number;
+}
+
+// Face value (as a string key, e.g. "500" or "0.5") to the number of notes or coins counted.
+export type DenominationCount = Record<string, number>;
+
+export interface DayClosing {
+  id: string;
+  workspace_id: string;
+  business_date: string;
+  account_id: string;
+  denominations: DenominationCount;
+  counted_total: number;
+  expected_balance: number;
+  difference: number;
+  note: string | null;
+  adjustment_entry_id: string | null;
+  closed_by: string;
+  closed_at: string;
+}
+
+export interface CloseDayInput {
+  workspace_id: string;
+  business_date: string;
+  account_id: string;
+  denominations: DenominationCount;
+  note?: string | null;
+}
+
+export interface Shift {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  account_id: string;
+  opening_float: number;
+  opened_at: string;
+  closed_at: string | null;
+  counted_cash: number | null;
+  expected_cash: number | null;
+  variance: number | null;
+  note: string | null;
+}
+
+export interface ShiftReportRow {
+  shift_id: string;
+  user_id: string;
+  cashier_name: string | null;
+  account_id: string;
+  opened_at: string;
+  closed_at: string | null;
+  opening_float: number;
+  cash_in: number;
+  cash_out: number;
+  expected_cash: number;
+  counted_cash: number | null;
+  variance: number | null;
+}
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+export type RecurringMode = "auto_post" | "remind";
+
+export interface RecurringEntry {
+  id: string;
+  workspace_id: string;
+  name: string;
+  direction: CashDirection;
+  amount: number;
+  category_id: string;
+  account_id: string;
+  remarks: string | null;
+  frequency: RecurrenceFrequency;
+  mode: RecurringMode;
+  start_date: string;
+  end_date: string | null;
+  next_due_date: string;
+  is_active: boolean;
+  last_error: string | null;
+  created_by: string;
+}
+
+export interface RecurringEntryInput {
+  workspace_id: string;
+  name: string;
   direction: CashDirection;
   amount: number;
   category_id: string;
+  account_id: string;
+  remarks?: string | null;
+  frequency: RecurrenceFrequency;
+  mode: RecurringMode;
+  start_date: string;
+  end_date?: string | null;
+  created_by: string;
+}
+
+// One category's share of a split entry; the lines of an entry add up to its amount.
+export interface SplitLine {
+  category_id: string;
+  amount: number;
+}
+
+export interface Entry {
+  id: string;
+  workspace_id: string;
+  kind: EntryKind;
+  direction: CashDirection;
+  amount: number;
+  // null for transfers, which move money from account_id to transfer_account_id.
+  category_id: string | null;
+  // Set when one payment covers several categories; category_id then holds the first line's category.
+  split_lines: SplitLine[] | null;
+  account_id: string;
+  transfer_account_id: string | null;
+  // Customer or supplier the entry settles or extends credit with; required for credit entries.
+  party_id: string | null;
+  // Open shift of the author when the entry was recorded; stamped by the database.
+  shift_id: string | null;
   remarks: string | null;
   receipt_url: string | null;
   entry_at: string;
@@ -57,6 +313,12 @@ export interface Entry {
   created_at: string;
 }
 
+// Entry as returned by `query_entries`: running_balance is the balance after this entry in the queried account scope,
+// or null when the page was requested without balances.
+export interface LedgerEntry extends Entry {
+  running_balance: number | null;
+}
+
 export interface DeleteRequest {
   id: string;
   workspace_id: string;
@@ -70,11 +332,62 @@ export interface DeleteRequest {
   created_at: string;
 }
 
+export type DeleteRequestScope = "pending" | "history" | "mine";
+
+// Delete request as returned by `list_delete_requests`: the targeted entry plus display names.
+export interface DeleteRequestDetail extends DeleteRequest {
+  requested_by_name: string | null;
+  reviewed_by_name: string | null;
+  entry: Entry;
+  entry_created_by_name: string | null;
+}
+
+export type EntryEditableField =
+  | "direction"
+  | "amount"
+  | "category_id"
+  | "split_lines"
+  | "remarks"
+  | "receipt_url"
+  | "entry_at"
+  | "account_id"
+  | "transfer_account_id";
+
+export interface EntryRevision {
+  id: number;
+  workspace_id: string;
+  entry_id: string;
+  revised_by: string | null;
+  revised_at: string;
+  old_values: Partial<Record<EntryEditableField, string | number | SplitLine[] | null>>;
+  new_values: Partial<Record<EntryEditableField, string | number | SplitLine[] | null>>;
+  edit_request_id: string | null;
+}
+
+export interface EntryEditRequest {
+  id: string;
+  workspace_id: string;
+  entry_id: string;
+  requested_by: string;
+  reason: string;
+  proposed: EntryUpdateInput;
+  status: DeleteRequestStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+}
+
 export interface WorkspaceContext {
   workspace: Workspace;
   member: WorkspaceMember;
 }
 
+export type AccessRequestStatus = "pending" | "accepted" | "rejected" | "cancelled" | "expired";
+
+// Written back by the send-workspace-invite edge function; null on invites sent before it recorded anything.
+export type InviteDeliveryStatus = "pending" | "email_sent" | "sms_sent" | "email_and_sms_sent" | "not_delivered";
+
 export interface WorkspaceAccessRequest {
   id: string;
   workspace_id: string;
@@ -88,10 +401,26 @@ export interface WorkspaceAccessRequest {
   role: AppRole;
   can_delete_entries: boolean;
   can_manage_categories: boolean;
-  status: "pending" | "accepted" | "rejected" | "cancelled";
+  status: AccessRequestStatus;
   requested_at: string;
 }
 
+// null `until` keeps the member suspended until an admin restores access.
+export interface MemberSuspensionInput {
+  until: string | null;
+  reason: string;
+}
+
+// A workspace the signed-in user is suspended from, shown on the account-state screen.
+export interface WorkspaceSuspension {
+  workspace_id: string;
+  workspace_name: string;
+  workspace_timezone: string;
+  role: AppRole;
+  disabled_until: string | null;
+  disable_reason: string | null;
+}
+
 export interface WorkspaceAccessRequestSent {
   id: string;
   workspace_id: string;
@@ -99,14 +428,48 @@ export interface WorkspaceAccessRequestSent {
   target_name: string | null;
   target_email: string | null;
   target_phone: string | null;
+  contact: string | null;
   requested_by: string;
   role: AppRole;
   can_delete_entries: boolean;
   can_manage_categories: boolean;
-  status: "pending" | "accepted" | "rejected" | "cancelled";
+  status: AccessRequestStatus;
   requested_at: string;
   reviewed_at: string | null;
   note: string | null;
+  expires_at: string;
+  resent_at: string | null;
+  resend_count: number;
+  delivery_status: InviteDeliveryStatus | null;
+  delivery_updated_at: string | null;
+}
+
+// Only the hash of the token is stored, so the shareable URL exists only in the create response.
+export interface WorkspaceInviteLink {
+  id: string;
+  workspace_id: string;
+  role: AppRole;
+  can_delete_entries: boolean;
+  can_manage_categories: boolean;
+  max_uses: number;
+  use_count: number;
+  expires_at: string;
+  revoked_at: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface InviteLinkInput {
+  role: AppRole;
+  can_delete_entries: boolean;
+  can_manage_categories: boolean;
+  max_uses: number;
+  expires_in_days: number;
+}
+
+export interface RedeemedInviteLink {
+  request_id: string;
+  workspace_name: string;
 }
 
 export interface CreateWorkspaceInput {
@@ -114,15 +477,97 @@ export interface CreateWorkspaceInput {
   industry: string;
   timezone: string;
   currency: string;
+  opening_balance?: number;
+}
+
+// Fields an admin can change after onboarding; the opening balance has its own flow.
+export interface WorkspaceSettingsInput {
+  name: string;
+  industry: string;
+  currency: string;
+  timezone: string;
 }
 
 export interface EntryInsertInput {
   workspace_id: string;
+  kind?: EntryKind;
   direction: CashDirection;
   amount: number;
-  category_id: string;
+  category_id: string | null;
+  split_lines?: SplitLine[] | null;
+  account_id?: string;
+  transfer_account_id?: string | null;
+  party_id?: string | null;
   remarks?: string;
   receipt_url?: string;
   entry_at?: string;
   created_by: string;
+  client_ref?: string;
+}
+
+export interface EntryUpdateInput {
+  direction?: CashDirection;
+  amount?: number;
+  category_id?: string;
+  split_lines?: SplitLine[] | null;
+  remarks?: string | null;
+  entry_at?: string;
+  account_id?: string;
+  transfer_account_id?: string;
+}
+
+export interface EntryQueryFilters {
+  from?: string | null;
+  to?: string | null;
+  categoryId?: string | null;
+  direction?: CashDirection | null;
+  createdBy?: string | null;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  remarks?: string | null;
+  kind?: EntryKind | null;
+  accountId?: string | null;
+}
+
+export interface EntryCursor {
+  entry_at: string;
+  id: string;
+}
+
+export interface EntryPage {
+  rows: LedgerEntry[];
+  nextCursor: EntryCursor | null;
+}
+
+export interface EntryTotals {
+  cashIn: number;
+  cashOut: number;
+  count: number;
+}
+
+export interface AuditLogRow {
+  id: number;
+  actor_user_id: string | null;
+  actor_name: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  // Member the action was about (revoked, granted, requested by), when there is one.
+  subject_user_id: string | null;
+  subject_name: string | null;
+  meta: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  actorUserId?: string | null;
+  action?: string | null;
+  entityType?: string | null;
+  from?: string | null;
+  to?: string | null;
+}
+
+export interface AuditLogPage {
+  rows: AuditLogRow[];
+  nextCursor: number | null;
 }
@@ -8,91 +8,127 @@ const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "
 
 const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
 
+const ROLE_LABELS: Record<string, string> = {
+  admin: "Admin",
+  editor: "Editor",
+  viewer: "Viewer",
+}
+
+function inviteHtml(record: { role: string; expires_at?: string | null }): string {
+  const expires = record.expires_at ? new Date(record.expires_at).toUTCString() : ""
+  return `
+    <div style="font-family: sans-serif; padding: 20px;">
+      <h2>Workspace Invitation</h2>
+      <p>Hi there,</p>
+      <p>You have been invited to join a workspace on Cashbook.</p>
+      <p><strong>Role:</strong> ${ROLE_LABELS[record.role] ?? "Editor"}</p>
+      ${expires ? `<p>This invite expires on ${expires}.</p>` : ""}
+      <br/>
+      <a href="https://your-cashbook-url.com" style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+        Log in to Accept Request
+      </a>
+    </div>
+  `
+}
+
+function deliveryStatus(emailSent: boolean, smsSent: boolean): string {
+  if (emailSent && smsSent) return "email_and_sms_sent"
+  if (emailSent) return "email_sent"
+  if (smsSent) return "sms_sent"
+  return "not_delivered"
+}
+
+// Called by the database webhook on workspace_access_requests for INSERT and UPDATE events.
+// Updates only send when resend_workspace_access_request bumped resent_at. Requests created by
+// redeeming an invite link skip the first send: the invitee is already signed in to the app.
 serve(async (req) => {
   try {
     const payload = await req.json()
     const record = payload.record
+    const oldRecord = payload.old_record
+
+    const isInsert = payload.type === "INSERT"
+    const isResend = payload.type === "UPDATE" && !!record?.resent_at && record.resent_at !== oldRecord?.resent_at
 
-    if (payload.type !== "INSERT" || !record || !record.target_user_id) {
-      return new Response("Ignored: Not an access request insert", { status: 200 })
+    if ((!isInsert && !isResend) || !record || !record.target_user_id || record.status !== "pending") {
+      return new Response("Ignored: Not a new or resent access request", { status: 200 })
+    }
+
+    if (isInsert && record.invite_link_id) {
+      return new Response("Ignored: Redeemed from an invite link", { status: 200 })
     }
 
     const { data: userData, error: userError } = await supabaseAdmin.auth.admin.getUserById(record.target_user_id)
     if (userError || !userData?.user) {
       console.error("User not found:", userError)
+      await supabaseAdmin
+        .from("workspace_access_requests")
+        .update({ delivery_status: "not_delivered", delivery_updated_at: new Date().toISOString() })
+        .eq("id", record.id)
       return new Response("User not found", { status: 200 })
     }
 
     const email = userData.user.email
-    const phone = userData.user.phone
 
+    // Statuses only report what a provider accepted. No SMS provider is wired up, so phone-only
+    // invitees are reached through the in-app inbox and their row records not_delivered.
     let emailSent = false
-    let smsSent = false
+    const smsSent = false
 
     if (email) {
-      if (RESEND_API_KEY) {
-        await fetch("https://api.resend.com/emails", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${RESEND_API_KEY}`,
-          },
-          body: JSON.stringify({
-            from: "Cashbook <invites@yourdomain.com>",
-            to: [email],
-            subject: "You've been invited to a Cashbook Workspace",
-            html: `
-              <div style="font-family: sans-serif; padding: 20px;">
-                <h2>Workspace Invitation</h2>
-                <p>Hi there,</p>
-                <p>You have been invited to join a workspace on Cashbook.</p>
-                <p><strong>Role:</strong> ${record.role === 'admin' ? 'Admin' : 'Editor'}</p>
-                <br/>
-                <a href="https://your-cashbook-url.com" style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
-                  Log in to Accept Request
-                </a>
-              </div>
-            `,
-          }),
-        })
-        emailSent = true
-      } else if (SENDGRID_API_KEY) {
-        await fetch("https://api.sendgrid.com/v3/mail/send", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${SENDGRID_API_KEY}`,
-            "Content-Type": "application/json"
-          },
-          body: JSON.stringify({
-            personalizations: [{ to: [{ email }], subject: "You've been invited to a Cashbook Workspace" }],
-            from: { email: "no-reply@yourdomain.com", name: "Cashbook" },
-            content: [{ type: "text/html", value: `
-              <div style="font-family: sans-serif; padding: 20px;">
-                <h2>Workspace Invitation</h2>
-                <p>Hi there,</p>
-                <p>You have been invited to join a workspace on Cashbook.</p>
-                <p><strong>Role:</strong> ${record.role === 'admin' ? 'Admin' : 'Editor'}</p>
-                <br/>
-                <a href="https://your-cashbook-url.com" style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
-                  Log in to Accept Request
-                </a>
-              </div>
-            ` }]
+      try {
+        if (RESEND_API_KEY) {
+          const response = await fetch("https://api.resend.com/emails", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "Authorization": `Bearer ${RESEND_API_KEY}`,
+            },
+            body: JSON.stringify({
+              from: "Cashbook <invites@yourdomain.com>",
+              to: [email],
+              subject: "You've been invited to a Cashbook Workspace",
+              html: inviteHtml(record),
+            }),
+          })
+          emailSent = response.ok
+          if (!response.ok) {
+            console.error("Resend rejected invite:", response.status, await response.text())
+          }
+        } else if (SENDGRID_API_KEY) {
+          const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
+            method: "POST",
+            headers: {
+              "Authorization": `Bearer ${SENDGRID_API_KEY}`,
+              "Content-Type": "application/json"
+            },
+            body: JSON.stringify({
+              personalizations: [{ to: [{ email }], subject: "You've been invited to a Cashbook Workspace" }],
+              from: { email: "no-reply@yourdomain.com", name: "Cashbook" },
+              content: [{ type: "text/html", value: inviteHtml(record) }]
+            })
           })
-        })
-        emailSent = true
-      } else {
-        console.log(\`Simulating email invite to \${email}\`)
-        emailSent = true
+          emailSent = response.ok
+          if (!response.ok) {
+            console.error("SendGrid rejected invite:", response.status, await response.text())
+          }
+        } else {
+          console.warn("No email provider configured; invite email not sent")
+        }
+      } catch (err) {
+        console.error("Email delivery failed:", err)
       }
     }
 
-    if (phone) {
-      console.log(\`Simulating SMS invite to \${phone}\`)
-      smsSent = true
+    const { error: updateError } = await supabaseAdmin
+      .from("workspace_access_requests")
+      .update({ delivery_status: deliveryStatus(emailSent, smsSent), delivery_updated_at: new Date().toISOString() })
+      .eq("id", record.id)
+    if (updateError) {
+      console.error("Could not record delivery:", updateError)
     }
 
-    return new Response(JSON.stringify({ success: true, emailSent, smsSent }), { 
+    return new Response(JSON.stringify({ success: true, emailSent, smsSent }), {
       status: 200,
       headers: { "Content-Type": "application/json" }
     })
@@ -0,0 +1,321 @@
+begin;
+
+create table if not exists public.entry_revisions (
+  id bigint generated always as identity primary key,
+  workspace_id uuid not null,
+  entry_id uuid not null,
+  revised_by uuid references auth.users(id),
+  revised_at timestamptz not null default now(),
+  old_values jsonb not null default '{}'::jsonb,
+  new_values jsonb not null default '{}'::jsonb,
+  edit_request_id uuid,
+  constraint entry_revisions_entry_fk
+    foreign key (workspace_id, entry_id)
+    references public.entries(workspace_id, id)
+    on delete cascade
+);
+
+create index if not exists entry_revisions_entry_idx
+  on public.entry_revisions(workspace_id, entry_id, revised_at desc);
+
+create table if not exists public.entry_edit_requests (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  entry_id uuid not null,
+  requested_by uuid not null references auth.users(id),
+  reason text not null,
+  proposed jsonb not null,
+  status public.delete_request_status not null default 'pending',
+  reviewed_by uuid references auth.users(id),
+  reviewed_at timestamptz,
+  review_note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint entry_edit_requests_entry_fk
+    foreign key (workspace_id, entry_id)
+    references public.entries(workspace_id, id)
+    on delete cascade,
+  constraint entry_edit_requests_review_state_chk check (
+    (status = 'pending' and reviewed_by is null and reviewed_at is null)
+    or
+    (status in ('approved', 'rejected') and reviewed_by is not null and reviewed_at is not null)
+  )
+);
+
+create unique index if not exists entry_edit_requests_one_pending_per_entry_idx
+  on public.entry_edit_requests(entry_id)
+  where status = 'pending';
+
+create index if not exists entry_edit_requests_workspace_status_idx
+  on public.entry_edit_requests(workspace_id, status, created_at desc);
+
+drop trigger if exists trg_entry_edit_requests_updated_at on public.entry_edit_requests;
+create trigger trg_entry_edit_requests_updated_at
+before update on public.entry_edit_requests
+for each row execute function public.set_updated_at();
+
+-- Direct edits follow the same gate as direct deletes. Everyone else proposes edits for review.
+create or replace function public.can_edit_entries(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.can_delete_entries(_workspace_id);
+$$;
+
+create or replace function public.enforce_entry_rules()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_type public.category_type;
+begin
+  if tg_op = 'UPDATE' then
+    if old.id <> new.id or old.workspace_id <> new.workspace_id then
+      raise exception 'id/workspace_id cannot be changed';
+    end if;
+
+    if old.created_by <> new.created_by then
+      raise exception 'created_by cannot be changed';
+    end if;
+
+    if old.status = 'deleted' then
+      raise exception 'Deleted entries are immutable';
+    end if;
+
+    if new.status = 'deleted' and old.status <> 'deleted' and not public.can_delete_entries(old.workspace_id) then
+      raise exception 'No permission to delete this entry';
+    end if;
+
+    if (
+      old.direction is distinct from new.direction
+      or old.amount is distinct from new.amount
+      or old.category_id is distinct from new.category_id
+      or old.remarks is distinct from new.remarks
+      or old.receipt_url is distinct from new.receipt_url
+      or old.entry_at is distinct from new.entry_at
+    )
+      and not public.can_edit_entries(old.workspace_id)
+      and coalesce(current_setting('cashbook.edit_request_id', true), '') = '' then
+      raise exception 'No permission to edit this entry. Submit an edit request instead.';
+    end if;
+  end if;
+
+  select c.type
+    into v_category_type
+  from public.categories c
+  where c.workspace_id = new.workspace_id
+    and c.id = new.category_id
+    and c.is_active = true;
+
+  if not found then
+    raise exception 'Category is invalid or inactive';
+  end if;
+
+  if new.direction = 'cash_out' and v_category_type <> 'expense' then
+    raise exception 'cash_out requires an expense category';
+  end if;
+
+  if new.direction = 'cash_in' and v_category_type <> 'income' then
+    raise exception 'cash_in requires an income category';
+  end if;
+
+  if new.status = 'active' then
+    new.deleted_at := null;
+    new.deleted_by := null;
+  elsif new.status = 'deleted' then
+    new.deleted_at := coalesce(new.deleted_at, now());
+    new.deleted_by := coalesce(new.deleted_by, auth.uid());
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := '{}'::jsonb;
+  v_new jsonb := '{}'::jsonb;
+  v_field text;
+  v_edit_request_id text := nullif(current_setting('cashbook.edit_request_id', true), '');
+begin
+  if new.status <> 'active' then
+    return new;
+  end if;
+
+  foreach v_field in array array['direction', 'amount', 'category_id', 'remarks', 'receipt_url', 'entry_at']
+  loop
+    if (to_jsonb(old) -> v_field) is distinct from (to_jsonb(new) -> v_field) then
+      v_old := v_old || jsonb_build_object(v_field, to_jsonb(old) -> v_field);
+      v_new := v_new || jsonb_build_object(v_field, to_jsonb(new) -> v_field);
+    end if;
+  end loop;
+
+  if v_new = '{}'::jsonb then
+    return new;
+  end if;
+
+  insert into public.entry_revisions (
+    workspace_id,
+    entry_id,
+    revised_by,
+    old_values,
+    new_values,
+    edit_request_id
+  )
+  values (
+    new.workspace_id,
+    new.id,
+    auth.uid(),
+    v_old,
+    v_new,
+    public.try_parse_uuid(v_edit_request_id)
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_entries_record_revision on public.entries;
+create trigger trg_entries_record_revision
+after update on public.entries
+for each row execute function public.record_entry_revision();
+
+create or replace function public.handle_entry_edit_request_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_updated integer;
+begin
+  if old.status <> 'pending' then
+    raise exception 'Edit request already finalized';
+  end if;
+
+  if new.status = 'pending' then
+    raise exception 'status must move to approved or rejected';
+  end if;
+
+  if old.proposed is distinct from new.proposed then
+    raise exception 'Proposed changes cannot be modified during review';
+  end if;
+
+  new.reviewed_by := coalesce(new.reviewed_by, auth.uid());
+  new.reviewed_at := coalesce(new.reviewed_at, now());
+
+  if new.status = 'approved' then
+    perform set_config('cashbook.edit_request_id', new.id::text, true);
+
+    update public.entries e
+       set direction = coalesce((new.proposed ->> 'direction')::public.cash_direction, e.direction),
+           amount = coalesce((new.proposed ->> 'amount')::numeric, e.amount),
+           category_id = coalesce((new.proposed ->> 'category_id')::uuid, e.category_id),
+           remarks = case when new.proposed ? 'remarks' then new.proposed ->> 'remarks' else e.remarks end,
+           entry_at = coalesce((new.proposed ->> 'entry_at')::timestamptz, e.entry_at)
+     where e.workspace_id = new.workspace_id
+       and e.id = new.entry_id
+       and e.status = 'active';
+
+    get diagnostics v_updated = row_count;
+    perform set_config('cashbook.edit_request_id', '', true);
+
+    if v_updated = 0 then
+      raise exception 'Entry is no longer active';
+    end if;
+  end if;
+
+  insert into public.audit_logs (
+    workspace_id, actor_user_id, action, entity_type, entity_id, meta
+  )
+  values (
+    new.workspace_id,
+    new.reviewed_by,
+    case when new.status = 'approved' then 'edit_request_approved' else 'edit_request_rejected' end,
+    'entry_edit_request',
+    new.id,
+    jsonb_build_object(
+      'entry_id', new.entry_id,
+      'requested_by', new.requested_by,
+      'reason', new.reason,
+      'proposed', new.proposed,
+      'review_note', new.review_note
+    )
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_entry_edit_requests_review on public.entry_edit_requests;
+create trigger trg_entry_edit_requests_review
+before update on public.entry_edit_requests
+for each row execute function public.handle_entry_edit_request_review();
+
+alter table public.entry_revisions enable row level security;
+alter table public.entry_edit_requests enable row level security;
+
+drop policy if exists entry_revisions_select_member on public.entry_revisions;
+create policy entry_revisions_select_member
+on public.entry_revisions
+for select
+to authenticated
+using (public.is_workspace_member(workspace_id));
+
+drop policy if exists entry_edit_requests_select_requester_or_reviewer on public.entry_edit_requests;
+create policy entry_edit_requests_select_requester_or_reviewer
+on public.entry_edit_requests
+for select
+to authenticated
+using (
+  requested_by = auth.uid()
+  or public.can_edit_entries(workspace_id)
+);
+
+drop policy if exists entry_edit_requests_insert_member on public.entry_edit_requests;
+create policy entry_edit_requests_insert_member
+on public.entry_edit_requests
+for insert
+to authenticated
+with check (
+  public.is_workspace_member(workspace_id)
+  and requested_by = auth.uid()
+  and status = 'pending'
+);
+
+drop policy if exists entry_edit_requests_update_reviewer on public.entry_edit_requests;
+create policy entry_edit_requests_update_reviewer
+on public.entry_edit_requests
+for update
+to authenticated
+using (public.can_edit_entries(workspace_id))
+with check (public.can_edit_entries(workspace_id) and status in ('approved', 'rejected'));
+
+grant execute on function public.can_edit_entries(uuid) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'entry_edit_requests'
+     ) then
+    execute 'alter publication supabase_realtime add table public.entry_edit_requests';
+  end if;
+end
+$$;
+
+commit;
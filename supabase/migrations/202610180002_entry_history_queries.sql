@@ -0,0 +1,157 @@
+begin;
+
+create extension if not exists pg_trgm;
+
+create index if not exists entries_workspace_active_entry_at_id_idx
+  on public.entries(workspace_id, entry_at desc, id desc)
+  where status = 'active';
+
+create index if not exists entries_remarks_trgm_idx
+  on public.entries using gin (remarks gin_trgm_ops);
+
+create or replace function public.query_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _cursor_entry_at timestamptz default null,
+  _cursor_id uuid default null,
+  _limit integer default 50
+)
+returns table (
+  id uuid,
+  workspace_id uuid,
+  direction public.cash_direction,
+  amount numeric,
+  category_id uuid,
+  remarks text,
+  receipt_url text,
+  entry_at timestamptz,
+  created_by uuid,
+  status text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if (_cursor_entry_at is null) <> (_cursor_id is null) then
+    raise exception 'Cursor requires both entry_at and id';
+  end if;
+
+  return query
+  select
+    e.id,
+    e.workspace_id,
+    e.direction,
+    e.amount,
+    e.category_id,
+    e.remarks,
+    e.receipt_url,
+    e.entry_at,
+    e.created_by,
+    e.status,
+    e.created_at
+  from public.entries e
+  where e.workspace_id = _workspace_id
+    and e.status = 'active'
+    and (_from is null or e.entry_at >= _from)
+    and (_to is null or e.entry_at <= _to)
+    and (_category_id is null or e.category_id = _category_id)
+    and (_direction is null or e.direction = _direction)
+    and (_created_by is null or e.created_by = _created_by)
+    and (_min_amount is null or e.amount >= _min_amount)
+    and (_max_amount is null or e.amount <= _max_amount)
+    and (
+      v_remarks is null
+      or e.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    and (
+      _cursor_entry_at is null
+      or (e.entry_at, e.id) < (_cursor_entry_at, _cursor_id)
+    )
+  order by e.entry_at desc, e.id desc
+  limit least(greatest(coalesce(_limit, 50), 1), 500);
+end;
+$$;
+
+create or replace function public.summarize_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null
+)
+returns table (
+  cash_in numeric,
+  cash_out numeric,
+  entry_count bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  return query
+  select
+    coalesce(sum(e.amount) filter (where e.direction = 'cash_in'), 0)::numeric as cash_in,
+    coalesce(sum(e.amount) filter (where e.direction = 'cash_out'), 0)::numeric as cash_out,
+    count(*)::bigint as entry_count
+  from public.entries e
+  where e.workspace_id = _workspace_id
+    and e.status = 'active'
+    and (_from is null or e.entry_at >= _from)
+    and (_to is null or e.entry_at <= _to)
+    and (_category_id is null or e.category_id = _category_id)
+    and (_direction is null or e.direction = _direction)
+    and (_created_by is null or e.created_by = _created_by)
+    and (_min_amount is null or e.amount >= _min_amount)
+    and (_max_amount is null or e.amount <= _max_amount)
+    and (
+      v_remarks is null
+      or e.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    );
+end;
+$$;
+
+grant execute on function public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, timestamptz, uuid, integer
+) to authenticated;
+
+grant execute on function public.summarize_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text
+) to authenticated;
+
+commit;
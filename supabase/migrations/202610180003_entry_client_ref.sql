@@ -0,0 +1,21 @@
+begin;
+
+-- Client-generated idempotency key for offline outbox replay.
+alter table public.entries
+  add column if not exists client_ref uuid;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'entries_client_ref_key'
+      and conrelid = 'public.entries'::regclass
+  ) then
+    alter table public.entries
+      add constraint entries_client_ref_key unique (client_ref);
+  end if;
+end
+$$;
+
+commit;
@@ -0,0 +1,6 @@
+begin;
+
+alter table public.profiles
+  add column if not exists last_workspace_id uuid references public.workspaces(id) on delete set null;
+
+commit;
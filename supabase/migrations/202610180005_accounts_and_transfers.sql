@@ -0,0 +1,623 @@
+begin;
+
+create table if not exists public.accounts (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  name text not null,
+  name_key text generated always as (lower(btrim(name))) stored,
+  kind text not null default 'cash',
+  is_default boolean not null default false,
+  is_active boolean not null default true,
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint accounts_kind_chk check (kind in ('cash', 'bank', 'upi', 'wallet')),
+  constraint accounts_default_active_chk check (not is_default or is_active),
+  unique (workspace_id, id),
+  unique (workspace_id, name_key)
+);
+
+create unique index if not exists accounts_one_default_per_workspace_idx
+  on public.accounts(workspace_id)
+  where is_default;
+
+drop trigger if exists trg_accounts_updated_at on public.accounts;
+create trigger trg_accounts_updated_at
+before update on public.accounts
+for each row execute function public.set_updated_at();
+
+-- Every workspace starts with a cash drawer so existing entries and clients that
+-- do not send account_id keep working.
+insert into public.accounts (workspace_id, name, kind, is_default, created_by)
+select w.id, 'Cash Drawer', 'cash', true, w.created_by
+from public.workspaces w
+where not exists (
+  select 1 from public.accounts a where a.workspace_id = w.id and a.is_default
+);
+
+create or replace function public.create_default_account()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.accounts (workspace_id, name, kind, is_default, created_by)
+  values (new.id, 'Cash Drawer', 'cash', true, new.created_by)
+  on conflict do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_workspaces_default_account on public.workspaces;
+create trigger trg_workspaces_default_account
+after insert on public.workspaces
+for each row execute function public.create_default_account();
+
+alter table public.entries
+  add column if not exists kind text not null default 'standard',
+  add column if not exists account_id uuid,
+  add column if not exists transfer_account_id uuid;
+
+alter table public.entries
+  alter column category_id drop not null;
+
+update public.entries e
+   set account_id = a.id
+  from public.accounts a
+ where a.workspace_id = e.workspace_id
+   and a.is_default
+   and e.account_id is null;
+
+alter table public.entries
+  alter column account_id set not null;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'entries_kind_chk') then
+    alter table public.entries
+      add constraint entries_kind_chk check (kind in ('standard', 'transfer'));
+  end if;
+
+  if not exists (select 1 from pg_constraint where conname = 'entries_account_fk') then
+    alter table public.entries
+      add constraint entries_account_fk
+      foreign key (workspace_id, account_id)
+      references public.accounts(workspace_id, id)
+      on delete restrict;
+  end if;
+
+  if not exists (select 1 from pg_constraint where conname = 'entries_transfer_account_fk') then
+    alter table public.entries
+      add constraint entries_transfer_account_fk
+      foreign key (workspace_id, transfer_account_id)
+      references public.accounts(workspace_id, id)
+      on delete restrict;
+  end if;
+
+  if not exists (select 1 from pg_constraint where conname = 'entries_transfer_shape_chk') then
+    alter table public.entries
+      add constraint entries_transfer_shape_chk check (
+        (kind = 'standard' and category_id is not null and transfer_account_id is null)
+        or
+        (kind = 'transfer' and category_id is null and transfer_account_id is not null
+          and transfer_account_id <> account_id and direction = 'cash_out')
+      );
+  end if;
+end
+$$;
+
+create index if not exists entries_workspace_account_idx on public.entries(workspace_id, account_id);
+create index if not exists entries_workspace_transfer_account_idx
+  on public.entries(workspace_id, transfer_account_id)
+  where transfer_account_id is not null;
+
+create or replace function public.enforce_entry_rules()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_type public.category_type;
+begin
+  if tg_op = 'UPDATE' then
+    if old.id <> new.id or old.workspace_id <> new.workspace_id then
+      raise exception 'id/workspace_id cannot be changed';
+    end if;
+
+    if old.created_by <> new.created_by then
+      raise exception 'created_by cannot be changed';
+    end if;
+
+    if old.status = 'deleted' then
+      raise exception 'Deleted entries are immutable';
+    end if;
+
+    if old.kind <> new.kind then
+      raise exception 'Entry kind cannot be changed';
+    end if;
+
+    if new.status = 'deleted' and old.status <> 'deleted' and not public.can_delete_entries(old.workspace_id) then
+      raise exception 'No permission to delete this entry';
+    end if;
+
+    if (
+      old.direction is distinct from new.direction
+      or old.amount is distinct from new.amount
+      or old.category_id is distinct from new.category_id
+      or old.remarks is distinct from new.remarks
+      or old.receipt_url is distinct from new.receipt_url
+      or old.entry_at is distinct from new.entry_at
+      or old.account_id is distinct from new.account_id
+      or old.transfer_account_id is distinct from new.transfer_account_id
+    )
+      and not public.can_edit_entries(old.workspace_id)
+      and coalesce(current_setting('cashbook.edit_request_id', true), '') = '' then
+      raise exception 'No permission to edit this entry. Submit an edit request instead.';
+    end if;
+  end if;
+
+  if new.account_id is null then
+    select a.id
+      into new.account_id
+    from public.accounts a
+    where a.workspace_id = new.workspace_id
+      and a.is_default;
+  end if;
+
+  if not exists (
+    select 1
+    from public.accounts a
+    where a.workspace_id = new.workspace_id
+      and a.id = new.account_id
+      and (a.is_active or (tg_op = 'UPDATE' and old.account_id = new.account_id))
+  ) then
+    raise exception 'Account is invalid or inactive';
+  end if;
+
+  if new.kind = 'transfer' then
+    -- A transfer is a single row: money leaves account_id and arrives in transfer_account_id.
+    if new.transfer_account_id is null or new.transfer_account_id = new.account_id then
+      raise exception 'Transfer needs two different accounts';
+    end if;
+
+    if not exists (
+      select 1
+      from public.accounts a
+      where a.workspace_id = new.workspace_id
+        and a.id = new.transfer_account_id
+        and (a.is_active or (tg_op = 'UPDATE' and old.transfer_account_id = new.transfer_account_id))
+    ) then
+      raise exception 'Destination account is invalid or inactive';
+    end if;
+
+    if new.category_id is not null then
+      raise exception 'Transfers do not use a category';
+    end if;
+
+    new.direction := 'cash_out';
+  else
+    if new.transfer_account_id is not null then
+      raise exception 'Only transfers can have a destination account';
+    end if;
+
+    select c.type
+      into v_category_type
+    from public.categories c
+    where c.workspace_id = new.workspace_id
+      and c.id = new.category_id
+      and c.is_active = true;
+
+    if not found then
+      raise exception 'Category is invalid or inactive';
+    end if;
+
+    if new.direction = 'cash_out' and v_category_type <> 'expense' then
+      raise exception 'cash_out requires an expense category';
+    end if;
+
+    if new.direction = 'cash_in' and v_category_type <> 'income' then
+      raise exception 'cash_in requires an income category';
+    end if;
+  end if;
+
+  if new.status = 'active' then
+    new.deleted_at := null;
+    new.deleted_by := null;
+  elsif new.status = 'deleted' then
+    new.deleted_at := coalesce(new.deleted_at, now());
+    new.deleted_by := coalesce(new.deleted_by, auth.uid());
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := '{}'::jsonb;
+  v_new jsonb := '{}'::jsonb;
+  v_field text;
+  v_edit_request_id text := nullif(current_setting('cashbook.edit_request_id', true), '');
+begin
+  if new.status <> 'active' then
+    return new;
+  end if;
+
+  foreach v_field in array array[
+    'direction', 'amount', 'category_id', 'remarks', 'receipt_url', 'entry_at', 'account_id', 'transfer_account_id'
+  ]
+  loop
+    if (to_jsonb(old) -> v_field) is distinct from (to_jsonb(new) -> v_field) then
+      v_old := v_old || jsonb_build_object(v_field, to_jsonb(old) -> v_field);
+      v_new := v_new || jsonb_build_object(v_field, to_jsonb(new) -> v_field);
+    end if;
+  end loop;
+
+  if v_new = '{}'::jsonb then
+    return new;
+  end if;
+
+  insert into public.entry_revisions (
+    workspace_id,
+    entry_id,
+    revised_by,
+    old_values,
+    new_values,
+    edit_request_id
+  )
+  values (
+    new.workspace_id,
+    new.id,
+    auth.uid(),
+    v_old,
+    v_new,
+    public.try_parse_uuid(v_edit_request_id)
+  );
+
+  return new;
+end;
+$$;
+
+create or replace function public.handle_entry_edit_request_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_updated integer;
+begin
+  if old.status <> 'pending' then
+    raise exception 'Edit request already finalized';
+  end if;
+
+  if new.status = 'pending' then
+    raise exception 'status must move to approved or rejected';
+  end if;
+
+  if old.proposed is distinct from new.proposed then
+    raise exception 'Proposed changes cannot be modified during review';
+  end if;
+
+  new.reviewed_by := coalesce(new.reviewed_by, auth.uid());
+  new.reviewed_at := coalesce(new.reviewed_at, now());
+
+  if new.status = 'approved' then
+    perform set_config('cashbook.edit_request_id', new.id::text, true);
+
+    update public.entries e
+       set direction = coalesce((new.proposed ->> 'direction')::public.cash_direction, e.direction),
+           amount = coalesce((new.proposed ->> 'amount')::numeric, e.amount),
+           category_id = coalesce((new.proposed ->> 'category_id')::uuid, e.category_id),
+           remarks = case when new.proposed ? 'remarks' then new.proposed ->> 'remarks' else e.remarks end,
+           entry_at = coalesce((new.proposed ->> 'entry_at')::timestamptz, e.entry_at),
+           account_id = coalesce((new.proposed ->> 'account_id')::uuid, e.account_id),
+           transfer_account_id = coalesce((new.proposed ->> 'transfer_account_id')::uuid, e.transfer_account_id)
+     where e.workspace_id = new.workspace_id
+       and e.id = new.entry_id
+       and e.status = 'active';
+
+    get diagnostics v_updated = row_count;
+    perform set_config('cashbook.edit_request_id', '', true);
+
+    if v_updated = 0 then
+      raise exception 'Entry is no longer active';
+    end if;
+  end if;
+
+  insert into public.audit_logs (
+    workspace_id, actor_user_id, action, entity_type, entity_id, meta
+  )
+  values (
+    new.workspace_id,
+    new.reviewed_by,
+    case when new.status = 'approved' then 'edit_request_approved' else 'edit_request_rejected' end,
+    'entry_edit_request',
+    new.id,
+    jsonb_build_object(
+      'entry_id', new.entry_id,
+      'requested_by', new.requested_by,
+      'reason', new.reason,
+      'proposed', new.proposed,
+      'review_note', new.review_note
+    )
+  );
+
+  return new;
+end;
+$$;
+
+drop function if exists public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, timestamptz, uuid, integer
+);
+
+create or replace function public.query_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _kind text default null,
+  _account_id uuid default null,
+  _cursor_entry_at timestamptz default null,
+  _cursor_id uuid default null,
+  _limit integer default 50
+)
+returns table (
+  id uuid,
+  workspace_id uuid,
+  kind text,
+  direction public.cash_direction,
+  amount numeric,
+  category_id uuid,
+  account_id uuid,
+  transfer_account_id uuid,
+  remarks text,
+  receipt_url text,
+  entry_at timestamptz,
+  created_by uuid,
+  status text,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if (_cursor_entry_at is null) <> (_cursor_id is null) then
+    raise exception 'Cursor requires both entry_at and id';
+  end if;
+
+  return query
+  select
+    e.id,
+    e.workspace_id,
+    e.kind,
+    e.direction,
+    e.amount,
+    e.category_id,
+    e.account_id,
+    e.transfer_account_id,
+    e.remarks,
+    e.receipt_url,
+    e.entry_at,
+    e.created_by,
+    e.status,
+    e.created_at
+  from public.entries e
+  where e.workspace_id = _workspace_id
+    and e.status = 'active'
+    and (_from is null or e.entry_at >= _from)
+    and (_to is null or e.entry_at <= _to)
+    and (_category_id is null or e.category_id = _category_id)
+    and (_direction is null or (e.kind = 'standard' and e.direction = _direction))
+    and (_kind is null or e.kind = _kind)
+    and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+    and (_created_by is null or e.created_by = _created_by)
+    and (_min_amount is null or e.amount >= _min_amount)
+    and (_max_amount is null or e.amount <= _max_amount)
+    and (
+      v_remarks is null
+      or e.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    and (
+      _cursor_entry_at is null
+      or (e.entry_at, e.id) < (_cursor_entry_at, _cursor_id)
+    )
+  order by e.entry_at desc, e.id desc
+  limit least(greatest(coalesce(_limit, 50), 1), 500);
+end;
+$$;
+
+drop function if exists public.summarize_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text
+);
+
+-- Transfers move money between accounts; they are counted but never add to cash in/out totals,
+-- except when the totals are scoped to one account (then they are that account's in/out).
+create or replace function public.summarize_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _kind text default null,
+  _account_id uuid default null
+)
+returns table (
+  cash_in numeric,
+  cash_out numeric,
+  entry_count bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  return query
+  select
+    coalesce(sum(e.amount) filter (
+      where (e.kind = 'standard' and e.direction = 'cash_in')
+        or (_account_id is not null and e.kind = 'transfer' and e.transfer_account_id = _account_id)
+    ), 0)::numeric as cash_in,
+    coalesce(sum(e.amount) filter (
+      where (e.kind = 'standard' and e.direction = 'cash_out')
+        or (_account_id is not null and e.kind = 'transfer' and e.account_id = _account_id)
+    ), 0)::numeric as cash_out,
+    count(*)::bigint as entry_count
+  from public.entries e
+  where e.workspace_id = _workspace_id
+    and e.status = 'active'
+    and (_from is null or e.entry_at >= _from)
+    and (_to is null or e.entry_at <= _to)
+    and (_category_id is null or e.category_id = _category_id)
+    and (_direction is null or (e.kind = 'standard' and e.direction = _direction))
+    and (_kind is null or e.kind = _kind)
+    and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+    and (_created_by is null or e.created_by = _created_by)
+    and (_min_amount is null or e.amount >= _min_amount)
+    and (_max_amount is null or e.amount <= _max_amount)
+    and (
+      v_remarks is null
+      or e.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    );
+end;
+$$;
+
+create or replace function public.account_balances(_workspace_id uuid)
+returns table (
+  account_id uuid,
+  name text,
+  kind text,
+  is_default boolean,
+  balance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  return query
+  select
+    a.id as account_id,
+    a.name,
+    a.kind,
+    a.is_default,
+    coalesce(sum(
+      case
+        when e.kind = 'standard' and e.direction = 'cash_in' and e.account_id = a.id then e.amount
+        when e.kind = 'standard' and e.direction = 'cash_out' and e.account_id = a.id then -e.amount
+        when e.kind = 'transfer' and e.account_id = a.id then -e.amount
+        when e.kind = 'transfer' and e.transfer_account_id = a.id then e.amount
+        else 0
+      end
+    ), 0)::numeric as balance
+  from public.accounts a
+  left join public.entries e
+    on e.workspace_id = a.workspace_id
+   and e.status = 'active'
+   and (e.account_id = a.id or e.transfer_account_id = a.id)
+  where a.workspace_id = _workspace_id
+    and a.is_active
+  group by a.id, a.name, a.kind, a.is_default
+  order by a.is_default desc, a.name;
+end;
+$$;
+
+alter table public.accounts enable row level security;
+
+drop policy if exists accounts_select_member on public.accounts;
+create policy accounts_select_member
+on public.accounts
+for select
+to authenticated
+using (public.is_workspace_member(workspace_id));
+
+drop policy if exists accounts_insert_admin on public.accounts;
+create policy accounts_insert_admin
+on public.accounts
+for insert
+to authenticated
+with check (public.is_workspace_admin(workspace_id) and created_by = auth.uid());
+
+drop policy if exists accounts_update_admin on public.accounts;
+create policy accounts_update_admin
+on public.accounts
+for update
+to authenticated
+using (public.is_workspace_admin(workspace_id))
+with check (public.is_workspace_admin(workspace_id));
+
+grant execute on function public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer
+) to authenticated;
+
+grant execute on function public.summarize_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid
+) to authenticated;
+
+grant execute on function public.account_balances(uuid) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'accounts'
+     ) then
+    execute 'alter publication supabase_realtime add table public.accounts';
+  end if;
+end
+$$;
+
+commit;
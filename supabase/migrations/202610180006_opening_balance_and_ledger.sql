@@ -0,0 +1,294 @@
+begin;
+
+alter table public.workspaces
+  add column if not exists opening_balance numeric(14,2) not null default 0;
+
+-- Signed effect of one entry on a balance. With no account scope, transfers net to zero;
+-- scoped to an account, a transfer is money out of account_id and into transfer_account_id.
+create or replace function public.entry_balance_delta(
+  _kind text,
+  _direction public.cash_direction,
+  _amount numeric,
+  _account_id uuid,
+  _transfer_account_id uuid,
+  _scope_account_id uuid default null
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when _kind = 'transfer' then
+      case
+        when _scope_account_id is null then 0
+        when _account_id = _scope_account_id then -_amount
+        when _transfer_account_id = _scope_account_id then _amount
+        else 0
+      end
+    when _scope_account_id is not null and _account_id <> _scope_account_id then 0
+    when _direction = 'cash_in' then _amount
+    else -_amount
+  end;
+$$;
+
+-- The workspace opening balance is held by the default (cash drawer) account.
+create or replace function public.opening_balance_for(_workspace_id uuid, _account_id uuid default null)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select w.opening_balance
+    from public.workspaces w
+    where w.id = _workspace_id
+      and (
+        _account_id is null
+        or exists (
+          select 1
+          from public.accounts a
+          where a.workspace_id = w.id
+            and a.id = _account_id
+            and a.is_default
+        )
+      )
+  ), 0);
+$$;
+
+create or replace function public.closing_balance_as_of(
+  _workspace_id uuid,
+  _as_of timestamptz default now(),
+  _account_id uuid default null
+)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_balance numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  select public.opening_balance_for(_workspace_id, _account_id)
+         + coalesce(sum(public.entry_balance_delta(
+             e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, _account_id
+           )), 0)
+    into v_balance
+  from public.entries e
+  where e.workspace_id = _workspace_id
+    and e.status = 'active'
+    and e.entry_at <= coalesce(_as_of, now())
+    and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id);
+
+  return v_balance;
+end;
+$$;
+
+drop function if exists public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer
+);
+
+-- running_balance is the true balance after each row (opening balance plus every earlier entry in the
+-- account scope), so it stays correct even when category/member/amount filters hide some rows.
+create or replace function public.query_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _kind text default null,
+  _account_id uuid default null,
+  _cursor_entry_at timestamptz default null,
+  _cursor_id uuid default null,
+  _limit integer default 50
+)
+returns table (
+  id uuid,
+  workspace_id uuid,
+  kind text,
+  direction public.cash_direction,
+  amount numeric,
+  category_id uuid,
+  account_id uuid,
+  transfer_account_id uuid,
+  remarks text,
+  receipt_url text,
+  entry_at timestamptz,
+  created_by uuid,
+  status text,
+  created_at timestamptz,
+  running_balance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+  v_opening numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if (_cursor_entry_at is null) <> (_cursor_id is null) then
+    raise exception 'Cursor requires both entry_at and id';
+  end if;
+
+  v_opening := public.opening_balance_for(_workspace_id, _account_id);
+
+  return query
+  with ledger as (
+    select
+      e.*,
+      v_opening + sum(public.entry_balance_delta(
+        e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, _account_id
+      )) over (order by e.entry_at, e.id rows between unbounded preceding and current row) as balance_after
+    from public.entries e
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and (_to is null or e.entry_at <= _to)
+      and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+  )
+  select
+    l.id,
+    l.workspace_id,
+    l.kind,
+    l.direction,
+    l.amount,
+    l.category_id,
+    l.account_id,
+    l.transfer_account_id,
+    l.remarks,
+    l.receipt_url,
+    l.entry_at,
+    l.created_by,
+    l.status,
+    l.created_at,
+    l.balance_after
+  from ledger l
+  where (_from is null or l.entry_at >= _from)
+    and (_category_id is null or l.category_id = _category_id)
+    and (_direction is null or (l.kind = 'standard' and l.direction = _direction))
+    and (_kind is null or l.kind = _kind)
+    and (_created_by is null or l.created_by = _created_by)
+    and (_min_amount is null or l.amount >= _min_amount)
+    and (_max_amount is null or l.amount <= _max_amount)
+    and (
+      v_remarks is null
+      or l.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    and (
+      _cursor_entry_at is null
+      or (l.entry_at, l.id) < (_cursor_entry_at, _cursor_id)
+    )
+  order by l.entry_at desc, l.id desc
+  limit least(greatest(coalesce(_limit, 50), 1), 500);
+end;
+$$;
+
+create or replace function public.account_balances(_workspace_id uuid)
+returns table (
+  account_id uuid,
+  name text,
+  kind text,
+  is_default boolean,
+  balance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  return query
+  select
+    a.id as account_id,
+    a.name,
+    a.kind,
+    a.is_default,
+    (
+      case when a.is_default then w.opening_balance else 0 end
+      + coalesce(sum(public.entry_balance_delta(
+          e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, a.id
+        )), 0)
+    )::numeric as balance
+  from public.accounts a
+  join public.workspaces w on w.id = a.workspace_id
+  left join public.entries e
+    on e.workspace_id = a.workspace_id
+   and e.status = 'active'
+   and (e.account_id = a.id or e.transfer_account_id = a.id)
+  where a.workspace_id = _workspace_id
+    and a.is_active
+  group by a.id, a.name, a.kind, a.is_default, w.opening_balance
+  order by a.is_default desc, a.name;
+end;
+$$;
+
+create or replace function public.audit_workspace_opening_balance()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.opening_balance is distinct from new.opening_balance then
+    insert into public.audit_logs (
+      workspace_id, actor_user_id, action, entity_type, entity_id, meta
+    )
+    values (
+      new.id,
+      auth.uid(),
+      'opening_balance_updated',
+      'workspace',
+      new.id,
+      jsonb_build_object('old', old.opening_balance, 'new', new.opening_balance)
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_workspaces_audit_opening_balance on public.workspaces;
+create trigger trg_workspaces_audit_opening_balance
+after update of opening_balance on public.workspaces
+for each row execute function public.audit_workspace_opening_balance();
+
+-- Internal helper for the RPCs above; it skips membership checks, so clients cannot call it directly.
+revoke execute on function public.opening_balance_for(uuid, uuid) from public, anon, authenticated;
+
+grant execute on function public.closing_balance_as_of(uuid, timestamptz, uuid) to authenticated;
+
+grant execute on function public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer
+) to authenticated;
+
+commit;
@@ -0,0 +1,244 @@
+begin;
+
+-- One record per counted drawer per business day. The count is stored denomination-wise
+-- ({"500": 3, "0.5": 4}) next to the book balance it was compared with.
+create table if not exists public.day_closings (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  business_date date not null,
+  account_id uuid not null,
+  denominations jsonb not null default '{}'::jsonb,
+  counted_total numeric(14,2) not null,
+  expected_balance numeric(14,2) not null,
+  difference numeric(14,2) not null,
+  note text,
+  adjustment_entry_id uuid references public.entries(id) on delete set null,
+  closed_by uuid not null references auth.users(id),
+  closed_at timestamptz not null default now(),
+  constraint day_closings_account_fk
+    foreign key (workspace_id, account_id) references public.accounts(workspace_id, id),
+  constraint day_closings_denominations_chk check (jsonb_typeof(denominations) = 'object'),
+  constraint day_closings_counted_chk check (counted_total >= 0),
+  unique (workspace_id, account_id, business_date)
+);
+
+create index if not exists day_closings_workspace_date_idx
+  on public.day_closings(workspace_id, business_date desc);
+
+create or replace function public.close_business_day(
+  _workspace_id uuid,
+  _business_date date,
+  _account_id uuid default null,
+  _denominations jsonb default '{}'::jsonb,
+  _note text default null
+)
+returns public.day_closings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_timezone text;
+  v_account_id uuid := _account_id;
+  v_day_end timestamptz;
+  v_denominations jsonb := coalesce(_denominations, '{}'::jsonb);
+  v_counted numeric := 0;
+  v_expected numeric;
+  v_difference numeric;
+  v_note text := nullif(btrim(coalesce(_note, '')), '');
+  v_category_id uuid;
+  v_entry_id uuid;
+  v_key text;
+  v_value jsonb;
+  v_face numeric;
+  v_count numeric;
+  v_row public.day_closings;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if _business_date is null then
+    raise exception 'Business date is required';
+  end if;
+
+  select w.timezone
+    into v_timezone
+  from public.workspaces w
+  where w.id = _workspace_id;
+
+  if _business_date > (now() at time zone v_timezone)::date then
+    raise exception 'Cannot close a future day';
+  end if;
+
+  if v_account_id is null then
+    select a.id
+      into v_account_id
+    from public.accounts a
+    where a.workspace_id = _workspace_id
+      and a.is_default;
+  end if;
+
+  if not exists (
+    select 1
+    from public.accounts a
+    where a.workspace_id = _workspace_id
+      and a.id = v_account_id
+      and a.is_active
+  ) then
+    raise exception 'Account is invalid or inactive';
+  end if;
+
+  if exists (
+    select 1
+    from public.day_closings d
+    where d.workspace_id = _workspace_id
+      and d.account_id = v_account_id
+      and d.business_date = _business_date
+  ) then
+    raise exception 'This day is already closed for this account';
+  end if;
+
+  if jsonb_typeof(v_denominations) <> 'object' then
+    raise exception 'Denominations must be an object of face value to count';
+  end if;
+
+  -- The total is derived from the denominations so the stored count cannot disagree with its breakdown.
+  for v_key, v_value in select * from jsonb_each(v_denominations) loop
+    if v_key !~ '^\d+(\.\d{1,2})?$' then
+      raise exception 'Invalid denomination: %', v_key;
+    end if;
+
+    v_face := v_key::numeric;
+    if v_face <= 0 then
+      raise exception 'Invalid denomination: %', v_key;
+    end if;
+
+    if jsonb_typeof(v_value) <> 'number' then
+      raise exception 'Invalid count for denomination %', v_key;
+    end if;
+
+    v_count := (v_value #>> '{}')::numeric;
+    if v_count < 0 or v_count <> trunc(v_count) then
+      raise exception 'Invalid count for denomination %', v_key;
+    end if;
+
+    v_counted := v_counted + v_face * v_count;
+  end loop;
+
+  v_counted := round(v_counted, 2);
+  v_day_end := ((_business_date + 1)::timestamp at time zone v_timezone) - interval '1 millisecond';
+  v_expected := round(public.closing_balance_as_of(_workspace_id, v_day_end, v_account_id), 2);
+  v_difference := v_counted - v_expected;
+
+  if v_difference <> 0 then
+    -- Shortage and excess are booked against a system "Cash Over/Short" category of the
+    -- matching type so the drawer and the book agree from the next day onwards.
+    insert into public.categories (workspace_id, name, type, source, created_by)
+    values (
+      _workspace_id,
+      'Cash Over/Short',
+      case when v_difference > 0 then 'income'::public.category_type else 'expense'::public.category_type end,
+      'system',
+      v_user_id
+    )
+    on conflict (workspace_id, type, name_key) do update set is_active = true
+    returning id into v_category_id;
+
+    insert into public.entries (
+      workspace_id, kind, direction, amount, category_id, account_id, remarks, entry_at, created_by
+    )
+    values (
+      _workspace_id,
+      'standard',
+      case when v_difference > 0 then 'cash_in'::public.cash_direction else 'cash_out'::public.cash_direction end,
+      abs(v_difference),
+      v_category_id,
+      v_account_id,
+      concat_ws(' - ', format('Day close %s: cash %s', _business_date, case when v_difference > 0 then 'excess' else 'shortage' end), v_note),
+      v_day_end,
+      v_user_id
+    )
+    returning id into v_entry_id;
+  end if;
+
+  insert into public.day_closings (
+    workspace_id,
+    business_date,
+    account_id,
+    denominations,
+    counted_total,
+    expected_balance,
+    difference,
+    note,
+    adjustment_entry_id,
+    closed_by
+  )
+  values (
+    _workspace_id,
+    _business_date,
+    v_account_id,
+    v_denominations,
+    v_counted,
+    v_expected,
+    v_difference,
+    v_note,
+    v_entry_id,
+    v_user_id
+  )
+  returning * into v_row;
+
+  insert into public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, meta)
+  values (
+    _workspace_id,
+    v_user_id,
+    'day_closed',
+    'day_closing',
+    v_row.id,
+    jsonb_build_object(
+      'business_date', _business_date,
+      'account_id', v_account_id,
+      'counted_total', v_counted,
+      'expected_balance', v_expected,
+      'difference', v_difference,
+      'adjustment_entry_id', v_entry_id
+    )
+  );
+
+  return v_row;
+end;
+$$;
+
+alter table public.day_closings enable row level security;
+
+-- Closings are written only through close_business_day.
+drop policy if exists day_closings_select_member on public.day_closings;
+create policy day_closings_select_member
+on public.day_closings
+for select
+to authenticated
+using (public.is_workspace_member(workspace_id));
+
+grant execute on function public.close_business_day(uuid, date, uuid, jsonb, text) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'day_closings'
+     ) then
+    execute 'alter publication supabase_realtime add table public.day_closings';
+  end if;
+end
+$$;
+
+commit;
@@ -0,0 +1,462 @@
+begin;
+
+-- A cashier's shift: opened with a starting float in one drawer, closed with a cash count.
+create table if not exists public.shifts (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id),
+  account_id uuid not null,
+  opening_float numeric(14,2) not null default 0,
+  opened_at timestamptz not null default now(),
+  closed_at timestamptz,
+  counted_cash numeric(14,2),
+  expected_cash numeric(14,2),
+  variance numeric(14,2),
+  note text,
+  constraint shifts_account_fk
+    foreign key (workspace_id, account_id) references public.accounts(workspace_id, id),
+  constraint shifts_opening_float_chk check (opening_float >= 0),
+  constraint shifts_counted_cash_chk check (counted_cash is null or counted_cash >= 0),
+  constraint shifts_closed_shape_chk check (
+    (closed_at is null and counted_cash is null and expected_cash is null and variance is null)
+    or (closed_at is not null and counted_cash is not null and expected_cash is not null and variance is not null)
+  ),
+  unique (workspace_id, id)
+);
+
+create unique index if not exists shifts_one_open_per_member_idx
+  on public.shifts(workspace_id, user_id)
+  where closed_at is null;
+
+create index if not exists shifts_workspace_opened_at_idx
+  on public.shifts(workspace_id, opened_at desc);
+
+alter table public.entries
+  add column if not exists shift_id uuid;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'entries_shift_fk'
+  ) then
+    alter table public.entries
+      add constraint entries_shift_fk
+      foreign key (workspace_id, shift_id) references public.shifts(workspace_id, id);
+  end if;
+end
+$$;
+
+create index if not exists entries_workspace_shift_idx
+  on public.entries(workspace_id, shift_id)
+  where shift_id is not null;
+
+-- New entries land in the author's open shift; the stamp never changes afterwards.
+create or replace function public.assign_entry_shift()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    new.shift_id := old.shift_id;
+    return new;
+  end if;
+
+  select s.id
+    into new.shift_id
+  from public.shifts s
+  where s.workspace_id = new.workspace_id
+    and s.user_id = new.created_by
+    and s.closed_at is null;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_entries_assign_shift on public.entries;
+create trigger trg_entries_assign_shift
+before insert or update of shift_id on public.entries
+for each row execute function public.assign_entry_shift();
+
+-- Float plus every active entry of the shift, scoped to the shift's drawer.
+create or replace function public.shift_expected_cash(_shift_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.opening_float + coalesce((
+    select sum(public.entry_balance_delta(
+      e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, s.account_id
+    ))
+    from public.entries e
+    where e.workspace_id = s.workspace_id
+      and e.shift_id = s.id
+      and e.status = 'active'
+  ), 0)
+  from public.shifts s
+  where s.id = _shift_id;
+$$;
+
+create or replace function public.open_shift(
+  _workspace_id uuid,
+  _opening_float numeric default 0,
+  _account_id uuid default null
+)
+returns public.shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_account_id uuid := _account_id;
+  v_row public.shifts;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if coalesce(_opening_float, 0) < 0 then
+    raise exception 'Opening float cannot be negative';
+  end if;
+
+  if exists (
+    select 1
+    from public.shifts s
+    where s.workspace_id = _workspace_id
+      and s.user_id = v_user_id
+      and s.closed_at is null
+  ) then
+    raise exception 'You already have an open shift';
+  end if;
+
+  if v_account_id is null then
+    select a.id
+      into v_account_id
+    from public.accounts a
+    where a.workspace_id = _workspace_id
+      and a.is_default;
+  end if;
+
+  if not exists (
+    select 1
+    from public.accounts a
+    where a.workspace_id = _workspace_id
+      and a.id = v_account_id
+      and a.is_active
+  ) then
+    raise exception 'Account is invalid or inactive';
+  end if;
+
+  insert into public.shifts (workspace_id, user_id, account_id, opening_float)
+  values (_workspace_id, v_user_id, v_account_id, round(coalesce(_opening_float, 0), 2))
+  returning * into v_row;
+
+  insert into public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, meta)
+  values (
+    _workspace_id,
+    v_user_id,
+    'shift_opened',
+    'shift',
+    v_row.id,
+    jsonb_build_object('account_id', v_account_id, 'opening_float', v_row.opening_float)
+  );
+
+  return v_row;
+end;
+$$;
+
+create or replace function public.close_shift(
+  _shift_id uuid,
+  _counted_cash numeric,
+  _note text default null
+)
+returns public.shifts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_shift public.shifts;
+  v_expected numeric;
+  v_row public.shifts;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select *
+    into v_shift
+  from public.shifts s
+  where s.id = _shift_id
+  for update;
+
+  if not found or not public.is_workspace_member(v_shift.workspace_id) then
+    raise exception 'Shift not found';
+  end if;
+
+  if v_shift.user_id <> v_user_id and not public.is_workspace_admin(v_shift.workspace_id) then
+    raise exception 'Only the cashier or an admin can close this shift';
+  end if;
+
+  if v_shift.closed_at is not null then
+    raise exception 'Shift is already closed';
+  end if;
+
+  if _counted_cash is null or _counted_cash < 0 then
+    raise exception 'Counted cash must be zero or more';
+  end if;
+
+  v_expected := round(public.shift_expected_cash(v_shift.id), 2);
+
+  update public.shifts
+     set closed_at = now(),
+         counted_cash = round(_counted_cash, 2),
+         expected_cash = v_expected,
+         variance = round(_counted_cash, 2) - v_expected,
+         note = nullif(btrim(coalesce(_note, '')), '')
+   where id = v_shift.id
+  returning * into v_row;
+
+  insert into public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, meta)
+  values (
+    v_row.workspace_id,
+    v_user_id,
+    'shift_closed',
+    'shift',
+    v_row.id,
+    jsonb_build_object(
+      'cashier_user_id', v_row.user_id,
+      'counted_cash', v_row.counted_cash,
+      'expected_cash', v_row.expected_cash,
+      'variance', v_row.variance
+    )
+  );
+
+  return v_row;
+end;
+$$;
+
+-- Admin view of shifts in a period; open shifts report their live expected cash and no variance.
+create or replace function public.shift_report(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _limit integer default 50
+)
+returns table (
+  shift_id uuid,
+  user_id uuid,
+  cashier_name text,
+  account_id uuid,
+  opened_at timestamptz,
+  closed_at timestamptz,
+  opening_float numeric,
+  cash_in numeric,
+  cash_out numeric,
+  expected_cash numeric,
+  counted_cash numeric,
+  variance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_admin(_workspace_id) then
+    raise exception 'Admin access required';
+  end if;
+
+  return query
+  select
+    s.id as shift_id,
+    s.user_id,
+    p.full_name as cashier_name,
+    s.account_id,
+    s.opened_at,
+    s.closed_at,
+    s.opening_float::numeric,
+    coalesce(sum(e.amount) filter (where e.kind = 'standard' and e.direction = 'cash_in'), 0)::numeric as cash_in,
+    coalesce(sum(e.amount) filter (where e.kind = 'standard' and e.direction = 'cash_out'), 0)::numeric as cash_out,
+    coalesce(s.expected_cash, public.shift_expected_cash(s.id))::numeric as expected_cash,
+    s.counted_cash::numeric,
+    s.variance::numeric
+  from public.shifts s
+  left join public.profiles p on p.id = s.user_id
+  left join public.entries e
+    on e.workspace_id = s.workspace_id
+   and e.shift_id = s.id
+   and e.status = 'active'
+  where s.workspace_id = _workspace_id
+    and (_from is null or s.opened_at >= _from)
+    and (_to is null or s.opened_at <= _to)
+  group by s.id, p.full_name
+  order by s.opened_at desc
+  limit least(greatest(coalesce(_limit, 50), 1), 200);
+end;
+$$;
+
+drop function if exists public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer
+);
+
+create or replace function public.query_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _kind text default null,
+  _account_id uuid default null,
+  _cursor_entry_at timestamptz default null,
+  _cursor_id uuid default null,
+  _limit integer default 50
+)
+returns table (
+  id uuid,
+  workspace_id uuid,
+  kind text,
+  direction public.cash_direction,
+  amount numeric,
+  category_id uuid,
+  account_id uuid,
+  transfer_account_id uuid,
+  shift_id uuid,
+  remarks text,
+  receipt_url text,
+  entry_at timestamptz,
+  created_by uuid,
+  status text,
+  created_at timestamptz,
+  running_balance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+  v_opening numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if (_cursor_entry_at is null) <> (_cursor_id is null) then
+    raise exception 'Cursor requires both entry_at and id';
+  end if;
+
+  v_opening := public.opening_balance_for(_workspace_id, _account_id);
+
+  return query
+  with ledger as (
+    select
+      e.*,
+      v_opening + sum(public.entry_balance_delta(
+        e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, _account_id
+      )) over (order by e.entry_at, e.id rows between unbounded preceding and current row) as balance_after
+    from public.entries e
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and (_to is null or e.entry_at <= _to)
+      and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+  )
+  select
+    l.id,
+    l.workspace_id,
+    l.kind,
+    l.direction,
+    l.amount,
+    l.category_id,
+    l.account_id,
+    l.transfer_account_id,
+    l.shift_id,
+    l.remarks,
+    l.receipt_url,
+    l.entry_at,
+    l.created_by,
+    l.status,
+    l.created_at,
+    l.balance_after
+  from ledger l
+  where (_from is null or l.entry_at >= _from)
+    and (_category_id is null or l.category_id = _category_id)
+    and (_direction is null or (l.kind = 'standard' and l.direction = _direction))
+    and (_kind is null or l.kind = _kind)
+    and (_created_by is null or l.created_by = _created_by)
+    and (_min_amount is null or l.amount >= _min_amount)
+    and (_max_amount is null or l.amount <= _max_amount)
+    and (
+      v_remarks is null
+      or l.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    and (
+      _cursor_entry_at is null
+      or (l.entry_at, l.id) < (_cursor_entry_at, _cursor_id)
+    )
+  order by l.entry_at desc, l.id desc
+  limit least(greatest(coalesce(_limit, 50), 1), 500);
+end;
+$$;
+
+alter table public.shifts enable row level security;
+
+-- Cashiers see their own shifts, admins see everyone's; writes go through open_shift/close_shift.
+drop policy if exists shifts_select_own_or_admin on public.shifts;
+create policy shifts_select_own_or_admin
+on public.shifts
+for select
+to authenticated
+using (
+  public.is_workspace_member(workspace_id)
+  and (user_id = auth.uid() or public.is_workspace_admin(workspace_id))
+);
+
+revoke execute on function public.shift_expected_cash(uuid) from public, anon, authenticated;
+
+grant execute on function public.open_shift(uuid, numeric, uuid) to authenticated;
+grant execute on function public.close_shift(uuid, numeric, text) to authenticated;
+grant execute on function public.shift_report(uuid, timestamptz, timestamptz, integer) to authenticated;
+
+grant execute on function public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer
+) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'shifts'
+     ) then
+    execute 'alter publication supabase_realtime add table public.shifts';
+  end if;
+end
+$$;
+
+commit;
@@ -0,0 +1,420 @@
+begin;
+
+-- Templates for entries that repeat (rent, salaries, subscriptions).
+-- auto_post templates are posted by materialize_recurring_entries; remind templates wait for a tap.
+create table if not exists public.recurring_entries (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  name text not null,
+  direction public.cash_direction not null,
+  amount numeric(14,2) not null check (amount > 0),
+  category_id uuid not null,
+  account_id uuid not null,
+  remarks text,
+  frequency text not null,
+  mode text not null default 'remind',
+  start_date date not null,
+  end_date date,
+  occurrences_done integer not null default 0,
+  next_due_date date not null,
+  is_active boolean not null default true,
+  last_error text,
+  created_by uuid not null references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint recurring_entries_frequency_chk check (frequency in ('daily', 'weekly', 'monthly')),
+  constraint recurring_entries_mode_chk check (mode in ('auto_post', 'remind')),
+  constraint recurring_entries_dates_chk check (end_date is null or end_date >= start_date),
+  constraint recurring_entries_category_fk
+    foreign key (workspace_id, category_id) references public.categories(workspace_id, id),
+  constraint recurring_entries_account_fk
+    foreign key (workspace_id, account_id) references public.accounts(workspace_id, id),
+  unique (workspace_id, id)
+);
+
+create index if not exists recurring_entries_due_idx
+  on public.recurring_entries(workspace_id, next_due_date)
+  where is_active;
+
+drop trigger if exists trg_recurring_entries_updated_at on public.recurring_entries;
+create trigger trg_recurring_entries_updated_at
+before update on public.recurring_entries
+for each row execute function public.set_updated_at();
+
+-- Which template occurrence produced an entry; the unique pair makes posting idempotent.
+alter table public.entries
+  add column if not exists recurring_entry_id uuid references public.recurring_entries(id) on delete set null,
+  add column if not exists recurring_due_date date;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'entries_recurring_occurrence_key'
+      and conrelid = 'public.entries'::regclass
+  ) then
+    alter table public.entries
+      add constraint entries_recurring_occurrence_key unique (recurring_entry_id, recurring_due_date);
+  end if;
+end
+$$;
+
+-- Occurrences are counted from start_date so monthly rules keep their day (31st -> 28th -> 31st).
+create or replace function public.recurring_due_date(_frequency text, _start_date date, _occurrence integer)
+returns date
+language sql
+immutable
+as $$
+  select case _frequency
+    when 'daily' then _start_date + _occurrence
+    when 'weekly' then _start_date + (_occurrence * 7)
+    else (_start_date + make_interval(months => _occurrence))::date
+  end;
+$$;
+
+create or replace function public.enforce_recurring_entry_rules()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_type public.category_type;
+begin
+  if tg_op = 'UPDATE' then
+    if old.workspace_id <> new.workspace_id or old.created_by <> new.created_by then
+      raise exception 'workspace_id/created_by cannot be changed';
+    end if;
+
+    -- A new schedule starts counting again from its start date.
+    if old.start_date <> new.start_date or old.frequency <> new.frequency then
+      new.occurrences_done := 0;
+    elsif old.occurrences_done <> new.occurrences_done
+      and coalesce(current_setting('cashbook.recurring_advance', true), '') = '' then
+      raise exception 'Recurring entries advance only by posting or skipping';
+    end if;
+  else
+    new.occurrences_done := 0;
+  end if;
+
+  new.name := btrim(new.name);
+  if new.name = '' then
+    raise exception 'Recurring entry needs a name';
+  end if;
+
+  select c.type
+    into v_category_type
+  from public.categories c
+  where c.workspace_id = new.workspace_id
+    and c.id = new.category_id
+    and (c.is_active or (tg_op = 'UPDATE' and old.category_id = new.category_id));
+
+  if not found then
+    raise exception 'Category is invalid or inactive';
+  end if;
+
+  if new.direction = 'cash_out' and v_category_type <> 'expense' then
+    raise exception 'cash_out requires an expense category';
+  end if;
+
+  if new.direction = 'cash_in' and v_category_type <> 'income' then
+    raise exception 'cash_in requires an income category';
+  end if;
+
+  if not exists (
+    select 1
+    from public.accounts a
+    where a.workspace_id = new.workspace_id
+      and a.id = new.account_id
+      and (a.is_active or (tg_op = 'UPDATE' and old.account_id = new.account_id))
+  ) then
+    raise exception 'Account is invalid or inactive';
+  end if;
+
+  new.next_due_date := public.recurring_due_date(new.frequency, new.start_date, new.occurrences_done);
+
+  -- Finished schedules switch themselves off.
+  if new.end_date is not null and new.next_due_date > new.end_date then
+    new.is_active := false;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_recurring_entries_enforce_rules on public.recurring_entries;
+create trigger trg_recurring_entries_enforce_rules
+before insert or update on public.recurring_entries
+for each row execute function public.enforce_recurring_entry_rules();
+
+-- Posts one occurrence through the normal entries insert (same triggers as addEntry) and advances the template.
+create or replace function public.post_recurring_occurrence(
+  _template public.recurring_entries,
+  _created_by uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_timezone text;
+  v_entry_at timestamptz;
+  v_entry_id uuid;
+begin
+  select w.timezone
+    into v_timezone
+  from public.workspaces w
+  where w.id = _template.workspace_id;
+
+  v_entry_at := case
+    when _template.next_due_date = (now() at time zone v_timezone)::date then now()
+    else (_template.next_due_date + time '12:00') at time zone v_timezone
+  end;
+
+  insert into public.entries (
+    workspace_id,
+    kind,
+    direction,
+    amount,
+    category_id,
+    account_id,
+    remarks,
+    entry_at,
+    created_by,
+    recurring_entry_id,
+    recurring_due_date
+  )
+  values (
+    _template.workspace_id,
+    'standard',
+    _template.direction,
+    _template.amount,
+    _template.category_id,
+    _template.account_id,
+    coalesce(nullif(btrim(coalesce(_template.remarks, '')), ''), _template.name),
+    v_entry_at,
+    _created_by,
+    _template.id,
+    _template.next_due_date
+  )
+  on conflict (recurring_entry_id, recurring_due_date) do nothing
+  returning id into v_entry_id;
+
+  perform set_config('cashbook.recurring_advance', 'on', true);
+  update public.recurring_entries
+     set occurrences_done = occurrences_done + 1,
+         last_error = null
+   where id = _template.id;
+  perform set_config('cashbook.recurring_advance', '', true);
+
+  return v_entry_id;
+end;
+$$;
+
+create or replace function public.post_recurring_entry(_recurring_entry_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_template public.recurring_entries;
+  v_entry_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select *
+    into v_template
+  from public.recurring_entries r
+  where r.id = _recurring_entry_id
+  for update;
+
+  if not found or not public.is_workspace_member(v_template.workspace_id) then
+    raise exception 'Recurring entry not found';
+  end if;
+
+  if not v_template.is_active then
+    raise exception 'Recurring entry is paused or finished';
+  end if;
+
+  if v_template.next_due_date > (
+    select (now() at time zone w.timezone)::date from public.workspaces w where w.id = v_template.workspace_id
+  ) then
+    raise exception 'Recurring entry is not due yet';
+  end if;
+
+  v_entry_id := public.post_recurring_occurrence(v_template, v_user_id);
+
+  insert into public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, meta)
+  values (
+    v_template.workspace_id,
+    v_user_id,
+    'recurring_entry_posted',
+    'recurring_entry',
+    v_template.id,
+    jsonb_build_object('due_date', v_template.next_due_date, 'entry_id', v_entry_id)
+  );
+
+  return v_entry_id;
+end;
+$$;
+
+create or replace function public.skip_recurring_entry(_recurring_entry_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_template public.recurring_entries;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select *
+    into v_template
+  from public.recurring_entries r
+  where r.id = _recurring_entry_id
+  for update;
+
+  if not found or not public.is_workspace_member(v_template.workspace_id) then
+    raise exception 'Recurring entry not found';
+  end if;
+
+  if not public.can_edit_entries(v_template.workspace_id) then
+    raise exception 'No permission to skip recurring entries';
+  end if;
+
+  perform set_config('cashbook.recurring_advance', 'on', true);
+  update public.recurring_entries
+     set occurrences_done = occurrences_done + 1
+   where id = v_template.id;
+  perform set_config('cashbook.recurring_advance', '', true);
+
+  insert into public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, meta)
+  values (
+    v_template.workspace_id,
+    v_user_id,
+    'recurring_entry_skipped',
+    'recurring_entry',
+    v_template.id,
+    jsonb_build_object('due_date', v_template.next_due_date)
+  );
+end;
+$$;
+
+-- Scheduler entry point (pg_cron below, or scripts/run-recurring-entries.mjs in development).
+-- Catches up every missed auto_post occurrence up to today in each workspace's timezone.
+-- A failing template records last_error and is retried on the next run; the others still post.
+create or replace function public.materialize_recurring_entries()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template public.recurring_entries;
+  v_posted integer := 0;
+begin
+  for v_template in
+    select r.*
+    from public.recurring_entries r
+    join public.workspaces w on w.id = r.workspace_id
+    where r.is_active
+      and r.mode = 'auto_post'
+      and r.next_due_date <= (now() at time zone w.timezone)::date
+    order by r.next_due_date
+  loop
+    begin
+      loop
+        perform public.post_recurring_occurrence(v_template, v_template.created_by);
+        v_posted := v_posted + 1;
+
+        select r.*
+          into v_template
+        from public.recurring_entries r
+        where r.id = v_template.id;
+
+        exit when not v_template.is_active
+          or v_template.next_due_date > (
+            select (now() at time zone w.timezone)::date from public.workspaces w where w.id = v_template.workspace_id
+          );
+      end loop;
+    exception when others then
+      update public.recurring_entries
+         set last_error = sqlerrm
+       where id = v_template.id;
+    end;
+  end loop;
+
+  return v_posted;
+end;
+$$;
+
+alter table public.recurring_entries enable row level security;
+
+drop policy if exists recurring_entries_select_member on public.recurring_entries;
+create policy recurring_entries_select_member
+on public.recurring_entries
+for select
+to authenticated
+using (public.is_workspace_member(workspace_id));
+
+drop policy if exists recurring_entries_insert_editor on public.recurring_entries;
+create policy recurring_entries_insert_editor
+on public.recurring_entries
+for insert
+to authenticated
+with check (public.can_edit_entries(workspace_id) and created_by = auth.uid());
+
+drop policy if exists recurring_entries_update_editor on public.recurring_entries;
+create policy recurring_entries_update_editor
+on public.recurring_entries
+for update
+to authenticated
+using (public.can_edit_entries(workspace_id))
+with check (public.can_edit_entries(workspace_id));
+
+revoke execute on function public.post_recurring_occurrence(public.recurring_entries, uuid) from public, anon, authenticated;
+revoke execute on function public.materialize_recurring_entries() from public, anon, authenticated;
+grant execute on function public.materialize_recurring_entries() to service_role;
+
+grant execute on function public.post_recurring_entry(uuid) to authenticated;
+grant execute on function public.skip_recurring_entry(uuid) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'recurring_entries'
+     ) then
+    execute 'alter publication supabase_realtime add table public.recurring_entries';
+  end if;
+end
+$$;
+
+-- Hosted projects with pg_cron post due templates every 15 minutes; elsewhere use the local runner.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    execute $cron$select cron.schedule(
+      'cashbook-recurring-entries',
+      '*/15 * * * *',
+      'select public.materialize_recurring_entries()'
+    )$cron$;
+  end if;
+end
+$$;
+
+commit;
@@ -0,0 +1,550 @@
+begin;
+
+-- One payment spread over several categories: [{"category_id": "...", "amount": 120.50}, ...].
+-- category_id keeps the first line's category so single-category readers still get a valid value.
+alter table public.entries
+  add column if not exists split_lines jsonb;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'entries_split_standard_chk') then
+    alter table public.entries
+      add constraint entries_split_standard_chk check (split_lines is null or kind = 'standard');
+  end if;
+end
+$$;
+
+create index if not exists entries_split_lines_idx
+  on public.entries using gin (split_lines jsonb_path_ops)
+  where split_lines is not null;
+
+create or replace function public.enforce_entry_rules()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_type public.category_type;
+  v_line jsonb;
+  v_line_category_id uuid;
+  v_line_amount numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_lines_total numeric := 0;
+begin
+  if tg_op = 'UPDATE' then
+    if old.id <> new.id or old.workspace_id <> new.workspace_id then
+      raise exception 'id/workspace_id cannot be changed';
+    end if;
+
+    if old.created_by <> new.created_by then
+      raise exception 'created_by cannot be changed';
+    end if;
+
+    if old.status = 'deleted' then
+      raise exception 'Deleted entries are immutable';
+    end if;
+
+    if old.kind <> new.kind then
+      raise exception 'Entry kind cannot be changed';
+    end if;
+
+    if new.status = 'deleted' and old.status <> 'deleted' and not public.can_delete_entries(old.workspace_id) then
+      raise exception 'No permission to delete this entry';
+    end if;
+
+    if (
+      old.direction is distinct from new.direction
+      or old.amount is distinct from new.amount
+      or old.category_id is distinct from new.category_id
+      or old.split_lines is distinct from new.split_lines
+      or old.remarks is distinct from new.remarks
+      or old.receipt_url is distinct from new.receipt_url
+      or old.entry_at is distinct from new.entry_at
+      or old.account_id is distinct from new.account_id
+      or old.transfer_account_id is distinct from new.transfer_account_id
+    )
+      and not public.can_edit_entries(old.workspace_id)
+      and coalesce(current_setting('cashbook.edit_request_id', true), '') = '' then
+      raise exception 'No permission to edit this entry. Submit an edit request instead.';
+    end if;
+  end if;
+
+  if new.account_id is null then
+    select a.id
+      into new.account_id
+    from public.accounts a
+    where a.workspace_id = new.workspace_id
+      and a.is_default;
+  end if;
+
+  if not exists (
+    select 1
+    from public.accounts a
+    where a.workspace_id = new.workspace_id
+      and a.id = new.account_id
+      and (a.is_active or (tg_op = 'UPDATE' and old.account_id = new.account_id))
+  ) then
+    raise exception 'Account is invalid or inactive';
+  end if;
+
+  if new.kind = 'transfer' then
+    -- A transfer is a single row: money leaves account_id and arrives in transfer_account_id.
+    if new.transfer_account_id is null or new.transfer_account_id = new.account_id then
+      raise exception 'Transfer needs two different accounts';
+    end if;
+
+    if not exists (
+      select 1
+      from public.accounts a
+      where a.workspace_id = new.workspace_id
+        and a.id = new.transfer_account_id
+        and (a.is_active or (tg_op = 'UPDATE' and old.transfer_account_id = new.transfer_account_id))
+    ) then
+      raise exception 'Destination account is invalid or inactive';
+    end if;
+
+    if new.category_id is not null then
+      raise exception 'Transfers do not use a category';
+    end if;
+
+    if new.split_lines is not null then
+      raise exception 'Transfers cannot be split';
+    end if;
+
+    new.direction := 'cash_out';
+  else
+    if new.transfer_account_id is not null then
+      raise exception 'Only transfers can have a destination account';
+    end if;
+
+    if new.split_lines is not null then
+      if jsonb_typeof(new.split_lines) <> 'array' then
+        raise exception 'A split needs at least two category lines';
+      end if;
+
+      if jsonb_array_length(new.split_lines) < 2 then
+        raise exception 'A split needs at least two category lines';
+      end if;
+
+      for v_line in select value from jsonb_array_elements(new.split_lines)
+      loop
+        if jsonb_typeof(v_line) <> 'object'
+          or jsonb_typeof(v_line -> 'amount') is distinct from 'number'
+          or coalesce(v_line ->> 'category_id', '') !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then
+          raise exception 'Each split line needs a category and an amount';
+        end if;
+
+        v_line_category_id := (v_line ->> 'category_id')::uuid;
+        v_line_amount := (v_line ->> 'amount')::numeric;
+
+        if v_line_amount <= 0 or v_line_amount <> round(v_line_amount, 2) then
+          raise exception 'Split line amounts must be positive with at most two decimals';
+        end if;
+
+        if v_lines @> jsonb_build_array(jsonb_build_object('category_id', v_line_category_id)) then
+          raise exception 'Each category can appear only once in a split';
+        end if;
+
+        select c.type
+          into v_category_type
+        from public.categories c
+        where c.workspace_id = new.workspace_id
+          and c.id = v_line_category_id
+          and c.is_active = true;
+
+        if not found then
+          raise exception 'Split category is invalid or inactive';
+        end if;
+
+        if new.direction = 'cash_out' and v_category_type <> 'expense' then
+          raise exception 'cash_out requires an expense category';
+        end if;
+
+        if new.direction = 'cash_in' and v_category_type <> 'income' then
+          raise exception 'cash_in requires an income category';
+        end if;
+
+        v_lines := v_lines || jsonb_build_array(
+          jsonb_build_object('category_id', v_line_category_id, 'amount', v_line_amount)
+        );
+        v_lines_total := v_lines_total + v_line_amount;
+      end loop;
+
+      if v_lines_total <> new.amount then
+        raise exception 'Split lines must add up to the entry amount';
+      end if;
+
+      -- Normalized lines keep the containment filters in query_entries/summarize_entries exact.
+      new.split_lines := v_lines;
+      new.category_id := (v_lines -> 0 ->> 'category_id')::uuid;
+    end if;
+
+    select c.type
+      into v_category_type
+    from public.categories c
+    where c.workspace_id = new.workspace_id
+      and c.id = new.category_id
+      and c.is_active = true;
+
+    if not found then
+      raise exception 'Category is invalid or inactive';
+    end if;
+
+    if new.direction = 'cash_out' and v_category_type <> 'expense' then
+      raise exception 'cash_out requires an expense category';
+    end if;
+
+    if new.direction = 'cash_in' and v_category_type <> 'income' then
+      raise exception 'cash_in requires an income category';
+    end if;
+  end if;
+
+  if new.status = 'active' then
+    new.deleted_at := null;
+    new.deleted_by := null;
+  elsif new.status = 'deleted' then
+    new.deleted_at := coalesce(new.deleted_at, now());
+    new.deleted_by := coalesce(new.deleted_by, auth.uid());
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := '{}'::jsonb;
+  v_new jsonb := '{}'::jsonb;
+  v_field text;
+  v_edit_request_id text := nullif(current_setting('cashbook.edit_request_id', true), '');
+begin
+  if new.status <> 'active' then
+    return new;
+  end if;
+
+  foreach v_field in array array[
+    'direction', 'amount', 'category_id', 'split_lines', 'remarks', 'receipt_url', 'entry_at', 'account_id', 'transfer_account_id'
+  ]
+  loop
+    if (to_jsonb(old) -> v_field) is distinct from (to_jsonb(new) -> v_field) then
+      v_old := v_old || jsonb_build_object(v_field, to_jsonb(old) -> v_field);
+      v_new := v_new || jsonb_build_object(v_field, to_jsonb(new) -> v_field);
+    end if;
+  end loop;
+
+  if v_new = '{}'::jsonb then
+    return new;
+  end if;
+
+  insert into public.entry_revisions (
+    workspace_id,
+    entry_id,
+    revised_by,
+    old_values,
+    new_values,
+    edit_request_id
+  )
+  values (
+    new.workspace_id,
+    new.id,
+    auth.uid(),
+    v_old,
+    v_new,
+    public.try_parse_uuid(v_edit_request_id)
+  );
+
+  return new;
+end;
+$$;
+
+create or replace function public.handle_entry_edit_request_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_updated integer;
+begin
+  if old.status <> 'pending' then
+    raise exception 'Edit request already finalized';
+  end if;
+
+  if new.status = 'pending' then
+    raise exception 'status must move to approved or rejected';
+  end if;
+
+  if old.proposed is distinct from new.proposed then
+    raise exception 'Proposed changes cannot be modified during review';
+  end if;
+
+  new.reviewed_by := coalesce(new.reviewed_by, auth.uid());
+  new.reviewed_at := coalesce(new.reviewed_at, now());
+
+  if new.status = 'approved' then
+    perform set_config('cashbook.edit_request_id', new.id::text, true);
+
+    -- A proposed "split_lines": null turns a split entry back into a single-category entry.
+    update public.entries e
+       set direction = coalesce((new.proposed ->> 'direction')::public.cash_direction, e.direction),
+           amount = coalesce((new.proposed ->> 'amount')::numeric, e.amount),
+           category_id = coalesce((new.proposed ->> 'category_id')::uuid, e.category_id),
+           split_lines = case
+             when new.proposed ? 'split_lines' then nullif(new.proposed -> 'split_lines', 'null'::jsonb)
+             else e.split_lines
+           end,
+           remarks = case when new.proposed ? 'remarks' then new.proposed ->> 'remarks' else e.remarks end,
+           entry_at = coalesce((new.proposed ->> 'entry_at')::timestamptz, e.entry_at),
+           account_id = coalesce((new.proposed ->> 'account_id')::uuid, e.account_id),
+           transfer_account_id = coalesce((new.proposed ->> 'transfer_account_id')::uuid, e.transfer_account_id)
+     where e.workspace_id = new.workspace_id
+       and e.id = new.entry_id
+       and e.status = 'active';
+
+    get diagnostics v_updated = row_count;
+    perform set_config('cashbook.edit_request_id', '', true);
+
+    if v_updated = 0 then
+      raise exception 'Entry is no longer active';
+    end if;
+  end if;
+
+  insert into public.audit_logs (
+    workspace_id, actor_user_id, action, entity_type, entity_id, meta
+  )
+  values (
+    new.workspace_id,
+    new.reviewed_by,
+    case when new.status = 'approved' then 'edit_request_approved' else 'edit_request_rejected' end,
+    'entry_edit_request',
+    new.id,
+    jsonb_build_object(
+      'entry_id', new.entry_id,
+      'requested_by', new.requested_by,
+      'reason', new.reason,
+      'proposed', new.proposed,
+      'review_note', new.review_note
+    )
+  );
+
+  return new;
+end;
+$$;
+
+-- True when the entry is in the category, either directly or through one of its split lines.
+create or replace function public.entry_in_category(_category_id uuid, _split_lines jsonb, _filter_category_id uuid)
+returns boolean
+language sql
+immutable
+as $$
+  select _filter_category_id is null
+    or _category_id = _filter_category_id
+    or coalesce(_split_lines @> jsonb_build_array(jsonb_build_object('category_id', _filter_category_id)), false);
+$$;
+
+-- Part of the entry amount that belongs to the category; the whole amount when unfiltered or not split.
+create or replace function public.entry_category_amount(_amount numeric, _split_lines jsonb, _filter_category_id uuid)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when _filter_category_id is null or _split_lines is null then _amount
+    else coalesce((
+      select sum((line ->> 'amount')::numeric)
+      from jsonb_array_elements(_split_lines) line
+      where line ->> 'category_id' = _filter_category_id::text
+    ), 0)
+  end;
+$$;
+
+drop function if exists public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer
+);
+
+create or replace function public.query_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _kind text default null,
+  _account_id uuid default null,
+  _cursor_entry_at timestamptz default null,
+  _cursor_id uuid default null,
+  _limit integer default 50
+)
+returns table (
+  id uuid,
+  workspace_id uuid,
+  kind text,
+  direction public.cash_direction,
+  amount numeric,
+  category_id uuid,
+  split_lines jsonb,
+  account_id uuid,
+  transfer_account_id uuid,
+  shift_id uuid,
+  remarks text,
+  receipt_url text,
+  entry_at timestamptz,
+  created_by uuid,
+  status text,
+  created_at timestamptz,
+  running_balance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+  v_opening numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if (_cursor_entry_at is null) <> (_cursor_id is null) then
+    raise exception 'Cursor requires both entry_at and id';
+  end if;
+
+  v_opening := public.opening_balance_for(_workspace_id, _account_id);
+
+  return query
+  with ledger as (
+    select
+      e.*,
+      v_opening + sum(public.entry_balance_delta(
+        e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, _account_id
+      )) over (order by e.entry_at, e.id rows between unbounded preceding and current row) as balance_after
+    from public.entries e
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and (_to is null or e.entry_at <= _to)
+      and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+  )
+  select
+    l.id,
+    l.workspace_id,
+    l.kind,
+    l.direction,
+    l.amount,
+    l.category_id,
+    l.split_lines,
+    l.account_id,
+    l.transfer_account_id,
+    l.shift_id,
+    l.remarks,
+    l.receipt_url,
+    l.entry_at,
+    l.created_by,
+    l.status,
+    l.created_at,
+    l.balance_after
+  from ledger l
+  where (_from is null or l.entry_at >= _from)
+    and public.entry_in_category(l.category_id, l.split_lines, _category_id)
+    and (_direction is null or (l.kind = 'standard' and l.direction = _direction))
+    and (_kind is null or l.kind = _kind)
+    and (_created_by is null or l.created_by = _created_by)
+    and (_min_amount is null or l.amount >= _min_amount)
+    and (_max_amount is null or l.amount <= _max_amount)
+    and (
+      v_remarks is null
+      or l.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    and (
+      _cursor_entry_at is null
+      or (l.entry_at, l.id) < (_cursor_entry_at, _cursor_id)
+    )
+  order by l.entry_at desc, l.id desc
+  limit least(greatest(coalesce(_limit, 50), 1), 500);
+end;
+$$;
+
+-- With a category filter, a split entry contributes only its line for that category.
+create or replace function public.summarize_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _kind text default null,
+  _account_id uuid default null
+)
+returns table (
+  cash_in numeric,
+  cash_out numeric,
+  entry_count bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  return query
+  select
+    coalesce(sum(public.entry_category_amount(e.amount, e.split_lines, _category_id)) filter (
+      where (e.kind = 'standard' and e.direction = 'cash_in')
+        or (_account_id is not null and e.kind = 'transfer' and e.transfer_account_id = _account_id)
+    ), 0)::numeric as cash_in,
+    coalesce(sum(public.entry_category_amount(e.amount, e.split_lines, _category_id)) filter (
+      where (e.kind = 'standard' and e.direction = 'cash_out')
+        or (_account_id is not null and e.kind = 'transfer' and e.account_id = _account_id)
+    ), 0)::numeric as cash_out,
+    count(*)::bigint as entry_count
+  from public.entries e
+  where e.workspace_id = _workspace_id
+    and e.status = 'active'
+    and (_from is null or e.entry_at >= _from)
+    and (_to is null or e.entry_at <= _to)
+    and public.entry_in_category(e.category_id, e.split_lines, _category_id)
+    and (_direction is null or (e.kind = 'standard' and e.direction = _direction))
+    and (_kind is null or e.kind = _kind)
+    and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+    and (_created_by is null or e.created_by = _created_by)
+    and (_min_amount is null or e.amount >= _min_amount)
+    and (_max_amount is null or e.amount <= _max_amount)
+    and (
+      v_remarks is null
+      or e.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    );
+end;
+$$;
+
+grant execute on function public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer
+) to authenticated;
+
+commit;
@@ -0,0 +1,704 @@
+begin;
+
+-- Customers and suppliers the shop sells to or buys from on credit (udhaar).
+-- Balances are receivable-positive: above zero the party owes the workspace, below zero the workspace owes the party.
+create table if not exists public.parties (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  name text not null,
+  name_key text generated always as (lower(btrim(name))) stored,
+  kind text not null default 'customer',
+  phone text,
+  opening_balance numeric(14,2) not null default 0,
+  is_active boolean not null default true,
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint parties_kind_chk check (kind in ('customer', 'supplier')),
+  unique (workspace_id, id),
+  unique (workspace_id, name_key)
+);
+
+drop trigger if exists trg_parties_updated_at on public.parties;
+create trigger trg_parties_updated_at
+before update on public.parties
+for each row execute function public.set_updated_at();
+
+alter table public.entries
+  add column if not exists party_id uuid;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'entries_party_fk') then
+    alter table public.entries
+      add constraint entries_party_fk
+      foreign key (workspace_id, party_id)
+      references public.parties(workspace_id, id)
+      on delete restrict;
+  end if;
+
+  alter table public.entries drop constraint if exists entries_kind_chk;
+  alter table public.entries
+    add constraint entries_kind_chk check (kind in ('standard', 'transfer', 'credit'));
+
+  alter table public.entries drop constraint if exists entries_transfer_shape_chk;
+  alter table public.entries drop constraint if exists entries_shape_chk;
+  alter table public.entries
+    add constraint entries_shape_chk check (
+      (kind = 'standard' and category_id is not null and transfer_account_id is null)
+      or
+      (kind = 'transfer' and category_id is null and transfer_account_id is not null
+        and transfer_account_id <> account_id and direction = 'cash_out' and party_id is null)
+      or
+      (kind = 'credit' and category_id is null and transfer_account_id is null and party_id is not null)
+    );
+end
+$$;
+
+create index if not exists entries_workspace_party_idx
+  on public.entries(workspace_id, party_id, entry_at)
+  where party_id is not null;
+
+-- Credit entries never move cash, so every cash balance (accounts, day close, shifts, ledger) ignores them.
+create or replace function public.entry_balance_delta(
+  _kind text,
+  _direction public.cash_direction,
+  _amount numeric,
+  _account_id uuid,
+  _transfer_account_id uuid,
+  _scope_account_id uuid default null
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when _kind = 'credit' then 0
+    when _kind = 'transfer' then
+      case
+        when _scope_account_id is null then 0
+        when _account_id = _scope_account_id then -_amount
+        when _transfer_account_id = _scope_account_id then _amount
+        else 0
+      end
+    when _scope_account_id is not null and _account_id <> _scope_account_id then 0
+    when _direction = 'cash_in' then _amount
+    else -_amount
+  end;
+$$;
+
+-- Signed effect of a party-linked entry on what the party owes:
+-- credit given or cash paid to the party raises it, credit received or cash received from the party lowers it.
+create or replace function public.party_balance_delta(
+  _kind text,
+  _direction public.cash_direction,
+  _amount numeric
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when _kind = 'transfer' then 0
+    when _direction = 'cash_out' then _amount
+    else -_amount
+  end;
+$$;
+
+create or replace function public.enforce_entry_rules()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_type public.category_type;
+  v_line jsonb;
+  v_line_category_id uuid;
+  v_line_amount numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_lines_total numeric := 0;
+begin
+  if tg_op = 'UPDATE' then
+    if old.id <> new.id or old.workspace_id <> new.workspace_id then
+      raise exception 'id/workspace_id cannot be changed';
+    end if;
+
+    if old.created_by <> new.created_by then
+      raise exception 'created_by cannot be changed';
+    end if;
+
+    if old.status = 'deleted' then
+      raise exception 'Deleted entries are immutable';
+    end if;
+
+    if old.kind <> new.kind then
+      raise exception 'Entry kind cannot be changed';
+    end if;
+
+    if new.status = 'deleted' and old.status <> 'deleted' and not public.can_delete_entries(old.workspace_id) then
+      raise exception 'No permission to delete this entry';
+    end if;
+
+    if (
+      old.direction is distinct from new.direction
+      or old.amount is distinct from new.amount
+      or old.category_id is distinct from new.category_id
+      or old.split_lines is distinct from new.split_lines
+      or old.party_id is distinct from new.party_id
+      or old.remarks is distinct from new.remarks
+      or old.receipt_url is distinct from new.receipt_url
+      or old.entry_at is distinct from new.entry_at
+      or old.account_id is distinct from new.account_id
+      or old.transfer_account_id is distinct from new.transfer_account_id
+    )
+      and not public.can_edit_entries(old.workspace_id)
+      and coalesce(current_setting('cashbook.edit_request_id', true), '') = '' then
+      raise exception 'No permission to edit this entry. Submit an edit request instead.';
+    end if;
+  end if;
+
+  if new.account_id is null then
+    select a.id
+      into new.account_id
+    from public.accounts a
+    where a.workspace_id = new.workspace_id
+      and a.is_default;
+  end if;
+
+  if not exists (
+    select 1
+    from public.accounts a
+    where a.workspace_id = new.workspace_id
+      and a.id = new.account_id
+      and (a.is_active or (tg_op = 'UPDATE' and old.account_id = new.account_id))
+  ) then
+    raise exception 'Account is invalid or inactive';
+  end if;
+
+  if new.party_id is not null and not exists (
+    select 1
+    from public.parties p
+    where p.workspace_id = new.workspace_id
+      and p.id = new.party_id
+      and (p.is_active or (tg_op = 'UPDATE' and old.party_id = new.party_id))
+  ) then
+    raise exception 'Party is invalid or inactive';
+  end if;
+
+  if new.kind = 'transfer' then
+    -- A transfer is a single row: money leaves account_id and arrives in transfer_account_id.
+    if new.transfer_account_id is null or new.transfer_account_id = new.account_id then
+      raise exception 'Transfer needs two different accounts';
+    end if;
+
+    if not exists (
+      select 1
+      from public.accounts a
+      where a.workspace_id = new.workspace_id
+        and a.id = new.transfer_account_id
+        and (a.is_active or (tg_op = 'UPDATE' and old.transfer_account_id = new.transfer_account_id))
+    ) then
+      raise exception 'Destination account is invalid or inactive';
+    end if;
+
+    if new.category_id is not null then
+      raise exception 'Transfers do not use a category';
+    end if;
+
+    if new.split_lines is not null then
+      raise exception 'Transfers cannot be split';
+    end if;
+
+    if new.party_id is not null then
+      raise exception 'Transfers cannot be linked to a party';
+    end if;
+
+    new.direction := 'cash_out';
+  elsif new.kind = 'credit' then
+    -- Credit given (cash_out) or received (cash_in) changes what a party owes, never the cash in any account.
+    if new.party_id is null then
+      raise exception 'Credit entries need a party';
+    end if;
+
+    if new.category_id is not null or new.split_lines is not null then
+      raise exception 'Credit entries do not use a category';
+    end if;
+
+    if new.transfer_account_id is not null then
+      raise exception 'Only transfers can have a destination account';
+    end if;
+  else
+    if new.transfer_account_id is not null then
+      raise exception 'Only transfers can have a destination account';
+    end if;
+
+    if new.split_lines is not null then
+      if jsonb_typeof(new.split_lines) <> 'array' then
+        raise exception 'A split needs at least two category lines';
+      end if;
+
+      if jsonb_array_length(new.split_lines) < 2 then
+        raise exception 'A split needs at least two category lines';
+      end if;
+
+      for v_line in select value from jsonb_array_elements(new.split_lines)
+      loop
+        if jsonb_typeof(v_line) <> 'object'
+          or jsonb_typeof(v_line -> 'amount') is distinct from 'number'
+          or coalesce(v_line ->> 'category_id', '') !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then
+          raise exception 'Each split line needs a category and an amount';
+        end if;
+
+        v_line_category_id := (v_line ->> 'category_id')::uuid;
+        v_line_amount := (v_line ->> 'amount')::numeric;
+
+        if v_line_amount <= 0 or v_line_amount <> round(v_line_amount, 2) then
+          raise exception 'Split line amounts must be positive with at most two decimals';
+        end if;
+
+        if v_lines @> jsonb_build_array(jsonb_build_object('category_id', v_line_category_id)) then
+          raise exception 'Each category can appear only once in a split';
+        end if;
+
+        select c.type
+          into v_category_type
+        from public.categories c
+        where c.workspace_id = new.workspace_id
+          and c.id = v_line_category_id
+          and c.is_active = true;
+
+        if not found then
+          raise exception 'Split category is invalid or inactive';
+        end if;
+
+        if new.direction = 'cash_out' and v_category_type <> 'expense' then
+          raise exception 'cash_out requires an expense category';
+        end if;
+
+        if new.direction = 'cash_in' and v_category_type <> 'income' then
+          raise exception 'cash_in requires an income category';
+        end if;
+
+        v_lines := v_lines || jsonb_build_array(
+          jsonb_build_object('category_id', v_line_category_id, 'amount', v_line_amount)
+        );
+        v_lines_total := v_lines_total + v_line_amount;
+      end loop;
+
+      if v_lines_total <> new.amount then
+        raise exception 'Split lines must add up to the entry amount';
+      end if;
+
+      -- Normalized lines keep the containment filters in query_entries/summarize_entries exact.
+      new.split_lines := v_lines;
+      new.category_id := (v_lines -> 0 ->> 'category_id')::uuid;
+    end if;
+
+    select c.type
+      into v_category_type
+    from public.categories c
+    where c.workspace_id = new.workspace_id
+      and c.id = new.category_id
+      and c.is_active = true;
+
+    if not found then
+      raise exception 'Category is invalid or inactive';
+    end if;
+
+    if new.direction = 'cash_out' and v_category_type <> 'expense' then
+      raise exception 'cash_out requires an expense category';
+    end if;
+
+    if new.direction = 'cash_in' and v_category_type <> 'income' then
+      raise exception 'cash_in requires an income category';
+    end if;
+  end if;
+
+  if new.status = 'active' then
+    new.deleted_at := null;
+    new.deleted_by := null;
+  elsif new.status = 'deleted' then
+    new.deleted_at := coalesce(new.deleted_at, now());
+    new.deleted_by := coalesce(new.deleted_by, auth.uid());
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.record_entry_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := '{}'::jsonb;
+  v_new jsonb := '{}'::jsonb;
+  v_field text;
+  v_edit_request_id text := nullif(current_setting('cashbook.edit_request_id', true), '');
+begin
+  if new.status <> 'active' then
+    return new;
+  end if;
+
+  foreach v_field in array array[
+    'direction', 'amount', 'category_id', 'split_lines', 'remarks', 'receipt_url', 'entry_at', 'account_id', 'transfer_account_id', 'party_id'
+  ]
+  loop
+    if (to_jsonb(old) -> v_field) is distinct from (to_jsonb(new) -> v_field) then
+      v_old := v_old || jsonb_build_object(v_field, to_jsonb(old) -> v_field);
+      v_new := v_new || jsonb_build_object(v_field, to_jsonb(new) -> v_field);
+    end if;
+  end loop;
+
+  if v_new = '{}'::jsonb then
+    return new;
+  end if;
+
+  insert into public.entry_revisions (
+    workspace_id,
+    entry_id,
+    revised_by,
+    old_values,
+    new_values,
+    edit_request_id
+  )
+  values (
+    new.workspace_id,
+    new.id,
+    auth.uid(),
+    v_old,
+    v_new,
+    public.try_parse_uuid(v_edit_request_id)
+  );
+
+  return new;
+end;
+$$;
+
+drop function if exists public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer
+);
+
+create or replace function public.query_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _kind text default null,
+  _account_id uuid default null,
+  _cursor_entry_at timestamptz default null,
+  _cursor_id uuid default null,
+  _limit integer default 50
+)
+returns table (
+  id uuid,
+  workspace_id uuid,
+  kind text,
+  direction public.cash_direction,
+  amount numeric,
+  category_id uuid,
+  split_lines jsonb,
+  account_id uuid,
+  transfer_account_id uuid,
+  party_id uuid,
+  shift_id uuid,
+  remarks text,
+  receipt_url text,
+  entry_at timestamptz,
+  created_by uuid,
+  status text,
+  created_at timestamptz,
+  running_balance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+  v_opening numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if (_cursor_entry_at is null) <> (_cursor_id is null) then
+    raise exception 'Cursor requires both entry_at and id';
+  end if;
+
+  v_opening := public.opening_balance_for(_workspace_id, _account_id);
+
+  return query
+  with ledger as (
+    select
+      e.*,
+      v_opening + sum(public.entry_balance_delta(
+        e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, _account_id
+      )) over (order by e.entry_at, e.id rows between unbounded preceding and current row) as balance_after
+    from public.entries e
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and (_to is null or e.entry_at <= _to)
+      and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+  )
+  select
+    l.id,
+    l.workspace_id,
+    l.kind,
+    l.direction,
+    l.amount,
+    l.category_id,
+    l.split_lines,
+    l.account_id,
+    l.transfer_account_id,
+    l.party_id,
+    l.shift_id,
+    l.remarks,
+    l.receipt_url,
+    l.entry_at,
+    l.created_by,
+    l.status,
+    l.created_at,
+    l.balance_after
+  from ledger l
+  where (_from is null or l.entry_at >= _from)
+    and public.entry_in_category(l.category_id, l.split_lines, _category_id)
+    and (_direction is null or (l.kind = 'standard' and l.direction = _direction))
+    and (_kind is null or l.kind = _kind)
+    and (_created_by is null or l.created_by = _created_by)
+    and (_min_amount is null or l.amount >= _min_amount)
+    and (_max_amount is null or l.amount <= _max_amount)
+    and (
+      v_remarks is null
+      or l.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    and (
+      _cursor_entry_at is null
+      or (l.entry_at, l.id) < (_cursor_entry_at, _cursor_id)
+    )
+  order by l.entry_at desc, l.id desc
+  limit least(greatest(coalesce(_limit, 50), 1), 500);
+end;
+$$;
+
+create or replace function public.party_balances(_workspace_id uuid)
+returns table (
+  party_id uuid,
+  name text,
+  kind text,
+  phone text,
+  opening_balance numeric,
+  balance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  return query
+  select
+    p.id as party_id,
+    p.name,
+    p.kind,
+    p.phone,
+    p.opening_balance,
+    (p.opening_balance + coalesce(sum(public.party_balance_delta(e.kind, e.direction, e.amount)), 0))::numeric as balance
+  from public.parties p
+  left join public.entries e
+    on e.workspace_id = p.workspace_id
+   and e.party_id = p.id
+   and e.status = 'active'
+  where p.workspace_id = _workspace_id
+    and p.is_active
+  group by p.id, p.name, p.kind, p.phone, p.opening_balance
+  order by p.name;
+end;
+$$;
+
+create or replace function public.party_balance_as_of(
+  _workspace_id uuid,
+  _party_id uuid,
+  _as_of timestamptz default now()
+)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_balance numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  select p.opening_balance + coalesce((
+    select sum(public.party_balance_delta(e.kind, e.direction, e.amount))
+    from public.entries e
+    where e.workspace_id = p.workspace_id
+      and e.party_id = p.id
+      and e.status = 'active'
+      and e.entry_at <= coalesce(_as_of, now())
+  ), 0)
+    into v_balance
+  from public.parties p
+  where p.workspace_id = _workspace_id
+    and p.id = _party_id;
+
+  if not found then
+    raise exception 'Party not found';
+  end if;
+
+  return v_balance;
+end;
+$$;
+
+-- Party statement rows, newest first; balance_after is what the party owes after each entry.
+create or replace function public.party_statement(
+  _workspace_id uuid,
+  _party_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null
+)
+returns table (
+  id uuid,
+  kind text,
+  direction public.cash_direction,
+  amount numeric,
+  category_id uuid,
+  account_id uuid,
+  remarks text,
+  entry_at timestamptz,
+  created_by uuid,
+  balance_after numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_opening numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  select p.opening_balance
+    into v_opening
+  from public.parties p
+  where p.workspace_id = _workspace_id
+    and p.id = _party_id;
+
+  if not found then
+    raise exception 'Party not found';
+  end if;
+
+  return query
+  with ledger as (
+    select
+      e.*,
+      v_opening + sum(public.party_balance_delta(e.kind, e.direction, e.amount))
+        over (order by e.entry_at, e.id rows between unbounded preceding and current row) as running
+    from public.entries e
+    where e.workspace_id = _workspace_id
+      and e.party_id = _party_id
+      and e.status = 'active'
+      and (_to is null or e.entry_at <= _to)
+  )
+  select
+    l.id,
+    l.kind,
+    l.direction,
+    l.amount,
+    l.category_id,
+    l.account_id,
+    l.remarks,
+    l.entry_at,
+    l.created_by,
+    l.running
+  from ledger l
+  where _from is null or l.entry_at >= _from
+  order by l.entry_at desc, l.id desc;
+end;
+$$;
+
+alter table public.parties enable row level security;
+
+drop policy if exists parties_select_member on public.parties;
+create policy parties_select_member
+on public.parties
+for select
+to authenticated
+using (public.is_workspace_member(workspace_id));
+
+drop policy if exists parties_insert_editor on public.parties;
+create policy parties_insert_editor
+on public.parties
+for insert
+to authenticated
+with check (public.can_edit_entries(workspace_id) and created_by = auth.uid());
+
+drop policy if exists parties_update_editor on public.parties;
+create policy parties_update_editor
+on public.parties
+for update
+to authenticated
+using (public.can_edit_entries(workspace_id))
+with check (public.can_edit_entries(workspace_id));
+
+grant execute on function public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer
+) to authenticated;
+
+grant execute on function public.party_balances(uuid) to authenticated;
+grant execute on function public.party_balance_as_of(uuid, uuid, timestamptz) to authenticated;
+grant execute on function public.party_statement(uuid, uuid, timestamptz, timestamptz) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'parties'
+     ) then
+    execute 'alter publication supabase_realtime add table public.parties';
+  end if;
+end
+$$;
+
+commit;
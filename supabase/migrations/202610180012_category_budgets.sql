@@ -0,0 +1,289 @@
+begin;
+
+-- Spending limits for expense categories, repeating every week or calendar month in the workspace time zone.
+create table if not exists public.category_budgets (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  category_id uuid not null,
+  period text not null default 'monthly',
+  amount numeric(14,2) not null check (amount > 0),
+  created_by uuid not null references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint category_budgets_period_chk check (period in ('weekly', 'monthly')),
+  constraint category_budgets_category_fk
+    foreign key (workspace_id, category_id) references public.categories(workspace_id, id) on delete cascade,
+  unique (workspace_id, category_id)
+);
+
+drop trigger if exists trg_category_budgets_updated_at on public.category_budgets;
+create trigger trg_category_budgets_updated_at
+before update on public.category_budgets
+for each row execute function public.set_updated_at();
+
+create or replace function public.enforce_category_budget_rules()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and (old.workspace_id <> new.workspace_id or old.category_id <> new.category_id or old.created_by <> new.created_by) then
+    raise exception 'workspace_id/category_id/created_by cannot be changed';
+  end if;
+
+  if not exists (
+    select 1
+    from public.categories c
+    where c.workspace_id = new.workspace_id
+      and c.id = new.category_id
+      and c.type = 'expense'
+      and c.is_active
+  ) then
+    raise exception 'Budgets need an active expense category';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_enforce_category_budget_rules on public.category_budgets;
+create trigger trg_enforce_category_budget_rules
+before insert or update on public.category_budgets
+for each row execute function public.enforce_category_budget_rules();
+
+-- First day of the budget period that contains _day; weeks start on Monday.
+create or replace function public.budget_period_start(_period text, _day date)
+returns date
+language sql
+immutable
+as $$
+  select case _period
+    when 'weekly' then date_trunc('week', _day)::date
+    else date_trunc('month', _day)::date
+  end;
+$$;
+
+create or replace function public.budget_period_next(_period text, _start date)
+returns date
+language sql
+immutable
+as $$
+  select case _period
+    when 'weekly' then _start + 7
+    else (_start + interval '1 month')::date
+  end;
+$$;
+
+-- Spend of the current period for every budget on an active category; period_end is exclusive.
+create or replace function public.budget_progress(_workspace_id uuid, _as_of timestamptz default now())
+returns table (
+  budget_id uuid,
+  category_id uuid,
+  period text,
+  amount numeric,
+  period_start timestamptz,
+  period_end timestamptz,
+  spent numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_timezone text;
+  v_day date;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  select w.timezone into v_timezone from public.workspaces w where w.id = _workspace_id;
+  v_day := (coalesce(_as_of, now()) at time zone v_timezone)::date;
+
+  return query
+  with periods as (
+    select
+      b.id,
+      b.category_id,
+      b.period,
+      b.amount,
+      (public.budget_period_start(b.period, v_day)::timestamp at time zone v_timezone) as starts_at,
+      (public.budget_period_next(b.period, public.budget_period_start(b.period, v_day))::timestamp at time zone v_timezone) as ends_at
+    from public.category_budgets b
+    join public.categories c
+      on c.workspace_id = b.workspace_id
+     and c.id = b.category_id
+     and c.is_active
+    where b.workspace_id = _workspace_id
+  )
+  select
+    p.id,
+    p.category_id,
+    p.period,
+    p.amount,
+    p.starts_at,
+    p.ends_at,
+    coalesce(sum(public.entry_category_amount(e.amount, e.split_lines, p.category_id)), 0)::numeric
+  from periods p
+  left join public.entries e
+    on e.workspace_id = _workspace_id
+   and e.status = 'active'
+   and e.kind = 'standard'
+   and e.direction = 'cash_out'
+   and e.entry_at >= p.starts_at
+   and e.entry_at < p.ends_at
+   and public.entry_in_category(e.category_id, e.split_lines, p.category_id)
+  group by p.id, p.category_id, p.period, p.amount, p.starts_at, p.ends_at
+  order by p.category_id;
+end;
+$$;
+
+-- Budget against actual spend over any range; the budget is multiplied by every period the range touches.
+create or replace function public.budget_vs_actual(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null
+)
+returns table (
+  budget_id uuid,
+  category_id uuid,
+  period text,
+  amount numeric,
+  periods integer,
+  budget_total numeric,
+  actual numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_timezone text;
+  v_from timestamptz;
+  v_to timestamptz;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  select w.timezone into v_timezone from public.workspaces w where w.id = _workspace_id;
+  v_to := coalesce(_to, now());
+  v_from := coalesce(
+    _from,
+    (select min(e.entry_at) from public.entries e where e.workspace_id = _workspace_id and e.status = 'active'),
+    v_to
+  );
+
+  return query
+  with ranges as (
+    select
+      b.id,
+      b.category_id,
+      b.period,
+      b.amount,
+      public.budget_period_start(b.period, (v_from at time zone v_timezone)::date) as first_start,
+      public.budget_period_start(b.period, (v_to at time zone v_timezone)::date) as last_start
+    from public.category_budgets b
+    join public.categories c
+      on c.workspace_id = b.workspace_id
+     and c.id = b.category_id
+     and c.is_active
+    where b.workspace_id = _workspace_id
+  ),
+  counted as (
+    select
+      r.*,
+      greatest(
+        case r.period
+          when 'weekly' then (r.last_start - r.first_start) / 7
+          else ((extract(year from r.last_start) - extract(year from r.first_start)) * 12
+            + extract(month from r.last_start) - extract(month from r.first_start))::integer
+        end + 1,
+        1
+      ) as period_count
+    from ranges r
+  )
+  select
+    c.id,
+    c.category_id,
+    c.period,
+    c.amount,
+    c.period_count,
+    (c.amount * c.period_count)::numeric,
+    coalesce(sum(public.entry_category_amount(e.amount, e.split_lines, c.category_id)), 0)::numeric
+  from counted c
+  left join public.entries e
+    on e.workspace_id = _workspace_id
+   and e.status = 'active'
+   and e.kind = 'standard'
+   and e.direction = 'cash_out'
+   and e.entry_at >= v_from
+   and e.entry_at <= v_to
+   and public.entry_in_category(e.category_id, e.split_lines, c.category_id)
+  group by c.id, c.category_id, c.period, c.amount, c.period_count
+  order by c.category_id;
+end;
+$$;
+
+alter table public.category_budgets enable row level security;
+
+drop policy if exists category_budgets_select_member on public.category_budgets;
+create policy category_budgets_select_member
+on public.category_budgets
+for select
+to authenticated
+using (public.is_workspace_member(workspace_id));
+
+drop policy if exists category_budgets_insert_manager on public.category_budgets;
+create policy category_budgets_insert_manager
+on public.category_budgets
+for insert
+to authenticated
+with check (public.can_manage_categories(workspace_id) and created_by = auth.uid());
+
+drop policy if exists category_budgets_update_manager on public.category_budgets;
+create policy category_budgets_update_manager
+on public.category_budgets
+for update
+to authenticated
+using (public.can_manage_categories(workspace_id))
+with check (public.can_manage_categories(workspace_id));
+
+drop policy if exists category_budgets_delete_manager on public.category_budgets;
+create policy category_budgets_delete_manager
+on public.category_budgets
+for delete
+to authenticated
+using (public.can_manage_categories(workspace_id));
+
+grant execute on function public.budget_progress(uuid, timestamptz) to authenticated;
+grant execute on function public.budget_vs_actual(uuid, timestamptz, timestamptz) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'category_budgets'
+     ) then
+    execute 'alter publication supabase_realtime add table public.category_budgets';
+  end if;
+end
+$$;
+
+commit;
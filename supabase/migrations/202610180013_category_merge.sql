@@ -0,0 +1,152 @@
+begin;
+
+-- Folds one category into another of the same type: every active entry, split line, recurring template
+-- and budget moves to the target, the source is archived, and the merge is written to audit_logs.
+-- Deleted entries keep the source category since they are immutable; the archived row still resolves their name.
+create or replace function public.merge_categories(
+  _workspace_id uuid,
+  _source_category_id uuid,
+  _target_category_id uuid
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_source public.categories;
+  v_target public.categories;
+  v_split_moved integer := 0;
+  v_entries_moved integer := 0;
+  v_recurring_moved integer := 0;
+  v_source_budget public.category_budgets;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if not public.can_manage_categories(_workspace_id) or not public.can_edit_entries(_workspace_id) then
+    raise exception 'Merging categories needs category and entry edit access';
+  end if;
+
+  if _source_category_id = _target_category_id then
+    raise exception 'Pick two different categories to merge';
+  end if;
+
+  select * into v_source
+  from public.categories c
+  where c.workspace_id = _workspace_id
+    and c.id = _source_category_id
+  for update;
+
+  if not found or not v_source.is_active then
+    raise exception 'Source category is invalid or inactive';
+  end if;
+
+  select * into v_target
+  from public.categories c
+  where c.workspace_id = _workspace_id
+    and c.id = _target_category_id
+  for update;
+
+  if not found or not v_target.is_active then
+    raise exception 'Target category is invalid or inactive';
+  end if;
+
+  if v_source.type <> v_target.type then
+    raise exception 'Only categories of the same type can be merged';
+  end if;
+
+  -- Split lines on both categories collapse into one target line; a split left with one line becomes a plain entry.
+  with rewritten as (
+    select
+      e.id,
+      (
+        select jsonb_agg(jsonb_build_object('category_id', l.category_id, 'amount', l.amount) order by l.first_ord)
+        from (
+          select
+            case
+              when (line ->> 'category_id')::uuid = _source_category_id then _target_category_id
+              else (line ->> 'category_id')::uuid
+            end as category_id,
+            sum((line ->> 'amount')::numeric) as amount,
+            min(ord) as first_ord
+          from jsonb_array_elements(e.split_lines) with ordinality as t(line, ord)
+          group by 1
+        ) l
+      ) as lines
+    from public.entries e
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and e.split_lines @> jsonb_build_array(jsonb_build_object('category_id', _source_category_id))
+  )
+  update public.entries e
+  set split_lines = case when jsonb_array_length(r.lines) < 2 then null else r.lines end,
+      category_id = case when jsonb_array_length(r.lines) < 2 then _target_category_id else e.category_id end
+  from rewritten r
+  where e.id = r.id;
+
+  get diagnostics v_split_moved = row_count;
+
+  update public.entries e
+  set category_id = _target_category_id
+  where e.workspace_id = _workspace_id
+    and e.status = 'active'
+    and e.split_lines is null
+    and e.category_id = _source_category_id;
+
+  get diagnostics v_entries_moved = row_count;
+
+  update public.recurring_entries r
+  set category_id = _target_category_id
+  where r.workspace_id = _workspace_id
+    and r.category_id = _source_category_id;
+
+  get diagnostics v_recurring_moved = row_count;
+
+  -- A budget's category cannot change, so the source budget is recreated on the target unless it already has one.
+  select * into v_source_budget
+  from public.category_budgets b
+  where b.workspace_id = _workspace_id
+    and b.category_id = _source_category_id;
+
+  if found then
+    delete from public.category_budgets b where b.id = v_source_budget.id;
+
+    insert into public.category_budgets (workspace_id, category_id, period, amount, created_by)
+    values (_workspace_id, _target_category_id, v_source_budget.period, v_source_budget.amount, v_user_id)
+    on conflict (workspace_id, category_id) do nothing;
+  end if;
+
+  update public.categories c
+  set is_active = false
+  where c.id = _source_category_id;
+
+  insert into public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, meta)
+  values (
+    _workspace_id,
+    v_user_id,
+    'categories_merged',
+    'category',
+    _target_category_id,
+    jsonb_build_object(
+      'source_category_id', _source_category_id,
+      'source_name', v_source.name,
+      'target_name', v_target.name,
+      'entries_moved', v_split_moved + v_entries_moved,
+      'recurring_moved', v_recurring_moved
+    )
+  );
+
+  return v_split_moved + v_entries_moved;
+end;
+$$;
+
+grant execute on function public.merge_categories(uuid, uuid, uuid) to authenticated;
+
+commit;
@@ -0,0 +1,123 @@
+begin;
+
+-- Optional one-level grouping: a top-level category can hold subcategories of the same type
+-- (e.g. "Staff" holding "Kitchen Staff Salary"). The group stays a normal category entries can use.
+alter table public.categories
+  add column if not exists parent_id uuid;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'categories_parent_fk') then
+    alter table public.categories
+      add constraint categories_parent_fk
+      foreign key (workspace_id, parent_id)
+      references public.categories(workspace_id, id)
+      on delete restrict;
+  end if;
+end
+$$;
+
+create index if not exists categories_parent_idx
+  on public.categories(parent_id)
+  where parent_id is not null;
+
+create or replace function public.enforce_category_hierarchy()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_parent public.categories;
+begin
+  if new.parent_id is not null then
+    if new.parent_id = new.id then
+      raise exception 'A category cannot be its own group';
+    end if;
+
+    select * into v_parent
+    from public.categories c
+    where c.workspace_id = new.workspace_id
+      and c.id = new.parent_id;
+
+    if not found then
+      raise exception 'Group category is invalid';
+    end if;
+
+    if v_parent.parent_id is not null then
+      raise exception 'Subcategories cannot hold other categories';
+    end if;
+
+    if v_parent.type <> new.type then
+      raise exception 'A subcategory must have the same type as its group';
+    end if;
+
+    if new.is_active and not v_parent.is_active then
+      raise exception 'Restore the group category first';
+    end if;
+
+    if tg_op = 'UPDATE' and exists (
+      select 1 from public.categories c where c.parent_id = new.id
+    ) then
+      raise exception 'A group cannot be placed inside another category';
+    end if;
+  end if;
+
+  if tg_op = 'UPDATE' and old.is_active and not new.is_active and exists (
+    select 1 from public.categories c where c.parent_id = new.id and c.is_active
+  ) then
+    raise exception 'Move or archive its subcategories first';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_enforce_category_hierarchy on public.categories;
+create trigger trg_enforce_category_hierarchy
+before insert or update on public.categories
+for each row execute function public.enforce_category_hierarchy();
+
+-- Filtering by a group also matches entries (and split lines) in its subcategories.
+create or replace function public.entry_in_category(_category_id uuid, _split_lines jsonb, _filter_category_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select _filter_category_id is null
+    or _category_id = _filter_category_id
+    or coalesce(_split_lines @> jsonb_build_array(jsonb_build_object('category_id', _filter_category_id)), false)
+    or exists (
+      select 1
+      from public.categories c
+      where c.parent_id = _filter_category_id
+        and (
+          c.id = _category_id
+          or coalesce(_split_lines @> jsonb_build_array(jsonb_build_object('category_id', c.id)), false)
+        )
+    );
+$$;
+
+-- A group's share of a split entry adds up its own line and the lines of its subcategories.
+create or replace function public.entry_category_amount(_amount numeric, _split_lines jsonb, _filter_category_id uuid)
+returns numeric
+language sql
+stable
+as $$
+  select case
+    when _filter_category_id is null or _split_lines is null then _amount
+    else coalesce((
+      select sum((line ->> 'amount')::numeric)
+      from jsonb_array_elements(_split_lines) line
+      where line ->> 'category_id' = _filter_category_id::text
+         or exists (
+           select 1
+           from public.categories c
+           where c.parent_id = _filter_category_id
+             and c.id::text = line ->> 'category_id'
+         )
+    ), 0)
+  end;
+$$;
+
+commit;
@@ -0,0 +1,102 @@
+begin;
+
+-- Admins edit name, industry, currency and timezone straight on `workspaces` (RLS: workspaces_update_admin).
+create or replace function public.enforce_workspace_settings()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if btrim(coalesce(new.name, '')) = '' then
+    raise exception 'Workspace name is required';
+  end if;
+
+  if btrim(coalesce(new.industry, '')) = '' then
+    raise exception 'Industry is required';
+  end if;
+
+  if old.timezone is distinct from new.timezone
+    and not exists (select 1 from pg_timezone_names tz where tz.name = new.timezone) then
+    raise exception 'Unknown timezone';
+  end if;
+
+  new.name := btrim(new.name);
+  new.industry := btrim(new.industry);
+  new.currency := upper(new.currency);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_workspaces_enforce_settings on public.workspaces;
+create trigger trg_workspaces_enforce_settings
+before update of name, industry, currency, timezone on public.workspaces
+for each row execute function public.enforce_workspace_settings();
+
+-- One audit row per save, listing only the fields that changed.
+create or replace function public.audit_workspace_settings()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_changes jsonb := '{}'::jsonb;
+begin
+  if old.name is distinct from new.name then
+    v_changes := v_changes || jsonb_build_object('name', jsonb_build_object('old', old.name, 'new', new.name));
+  end if;
+
+  if old.industry is distinct from new.industry then
+    v_changes := v_changes || jsonb_build_object('industry', jsonb_build_object('old', old.industry, 'new', new.industry));
+  end if;
+
+  if old.currency is distinct from new.currency then
+    v_changes := v_changes || jsonb_build_object('currency', jsonb_build_object('old', old.currency, 'new', new.currency));
+  end if;
+
+  if old.timezone is distinct from new.timezone then
+    v_changes := v_changes || jsonb_build_object('timezone', jsonb_build_object('old', old.timezone, 'new', new.timezone));
+  end if;
+
+  if v_changes <> '{}'::jsonb then
+    insert into public.audit_logs (
+      workspace_id, actor_user_id, action, entity_type, entity_id, meta
+    )
+    values (
+      new.id,
+      auth.uid(),
+      'workspace_settings_updated',
+      'workspace',
+      new.id,
+      v_changes
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_workspaces_audit_settings on public.workspaces;
+create trigger trg_workspaces_audit_settings
+after update of name, industry, currency, timezone on public.workspaces
+for each row execute function public.audit_workspace_settings();
+
+-- Other members' shells pick up a rename or currency change without reloading.
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'workspaces'
+     ) then
+    execute 'alter publication supabase_realtime add table public.workspaces';
+  end if;
+end
+$$;
+
+commit;
@@ -0,0 +1,194 @@
+begin;
+
+create index if not exists audit_logs_workspace_id_idx on public.audit_logs(workspace_id, id desc);
+
+-- Same review rules as before; the approval now tags the entry delete so its audit row can say why it happened.
+create or replace function public.handle_delete_request_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status <> 'pending' then
+    raise exception 'Delete request already finalized';
+  end if;
+
+  if new.status = 'pending' then
+    raise exception 'status must move to approved or rejected';
+  end if;
+
+  new.reviewed_by := coalesce(new.reviewed_by, auth.uid());
+  new.reviewed_at := coalesce(new.reviewed_at, now());
+
+  if new.status = 'approved' then
+    perform set_config('cashbook.delete_request_id', new.id::text, true);
+
+    update public.entries e
+       set status = 'deleted',
+           deleted_at = coalesce(e.deleted_at, now()),
+           deleted_by = new.reviewed_by,
+           updated_at = now()
+     where e.workspace_id = new.workspace_id
+       and e.id = new.entry_id
+       and e.status = 'active';
+
+    perform set_config('cashbook.delete_request_id', '', true);
+  end if;
+
+  insert into public.audit_logs (
+    workspace_id, actor_user_id, action, entity_type, entity_id, meta
+  )
+  values (
+    new.workspace_id,
+    new.reviewed_by,
+    case when new.status = 'approved' then 'delete_request_approved' else 'delete_request_rejected' end,
+    'delete_request',
+    new.id,
+    jsonb_build_object(
+      'entry_id', new.entry_id,
+      'requested_by', new.requested_by,
+      'reason', new.reason,
+      'review_note', new.review_note
+    )
+  );
+
+  return new;
+end;
+$$;
+
+-- Entry creation and deletion land in the audit log; edits already have entry_revisions.
+create or replace function public.audit_entry_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, meta)
+    values (
+      new.workspace_id,
+      coalesce(auth.uid(), new.created_by),
+      'entry_created',
+      'entry',
+      new.id,
+      jsonb_build_object(
+        'kind', new.kind,
+        'direction', new.direction,
+        'amount', new.amount,
+        'category_id', new.category_id,
+        'party_id', new.party_id,
+        'entry_at', new.entry_at
+      )
+    );
+  elsif new.status = 'deleted' and old.status <> 'deleted' then
+    insert into public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, meta)
+    values (
+      new.workspace_id,
+      coalesce(new.deleted_by, auth.uid()),
+      'entry_deleted',
+      'entry',
+      new.id,
+      jsonb_build_object(
+        'kind', new.kind,
+        'direction', new.direction,
+        'amount', new.amount,
+        'category_id', new.category_id,
+        'entry_at', new.entry_at,
+        'delete_request_id', public.try_parse_uuid(current_setting('cashbook.delete_request_id', true))
+      )
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_entries_audit on public.entries;
+create trigger trg_entries_audit
+after insert or update of status on public.entries
+for each row execute function public.audit_entry_changes();
+
+-- Admin activity feed, newest first, paged by id. subject is the member an action was about (revoked,
+-- granted, disabled, requested by), resolved from the entity or the meta written by each RPC.
+create or replace function public.list_audit_logs(
+  _workspace_id uuid,
+  _actor_user_id uuid default null,
+  _action text default null,
+  _entity_type text default null,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _before_id bigint default null,
+  _limit integer default 50
+)
+returns table (
+  id bigint,
+  actor_user_id uuid,
+  actor_name text,
+  action text,
+  entity_type text,
+  entity_id uuid,
+  subject_user_id uuid,
+  subject_name text,
+  meta jsonb,
+  created_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_admin(_workspace_id) then
+    raise exception 'Admin access required';
+  end if;
+
+  return query
+  with page as (
+    select
+      l.*,
+      case
+        when l.entity_type = 'workspace_member' then l.entity_id
+        else public.try_parse_uuid(
+          coalesce(l.meta ->> 'target_user_id', l.meta ->> 'requested_by', l.meta ->> 'cashier_user_id')
+        )
+      end as subject_id
+    from public.audit_logs l
+    where l.workspace_id = _workspace_id
+      and (_actor_user_id is null or l.actor_user_id = _actor_user_id)
+      and (_action is null or l.action = _action)
+      and (_entity_type is null or l.entity_type = _entity_type)
+      and (_from is null or l.created_at >= _from)
+      and (_to is null or l.created_at <= _to)
+      and (_before_id is null or l.id < _before_id)
+    order by l.id desc
+    limit greatest(1, least(coalesce(_limit, 50), 500))
+  )
+  select
+    p.id,
+    p.actor_user_id,
+    coalesce(ap.full_name, au.email, au.phone)::text,
+    p.action,
+    p.entity_type,
+    p.entity_id,
+    p.subject_id,
+    coalesce(sp.full_name, su.email, su.phone)::text,
+    p.meta,
+    p.created_at
+  from page p
+  left join public.profiles ap on ap.id = p.actor_user_id
+  left join auth.users au on au.id = p.actor_user_id
+  left join public.profiles sp on sp.id = p.subject_id
+  left join auth.users su on su.id = p.subject_id
+  order by p.id desc;
+end;
+$$;
+
+grant execute on function public.list_audit_logs(uuid, uuid, text, text, timestamptz, timestamptz, bigint, integer) to authenticated;
+
+commit;
@@ -0,0 +1,318 @@
+begin;
+
+-- Workspace-defined roles. A member on a custom role takes every permission from the role;
+-- members without one keep the legacy editor flags, and admins always hold every permission.
+create table if not exists public.workspace_roles (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  name text not null,
+  name_key text generated always as (lower(btrim(name))) stored,
+  can_view_reports boolean not null default true,
+  can_export boolean not null default false,
+  can_add_cash_in boolean not null default true,
+  can_add_cash_out boolean not null default true,
+  can_backdate_entries boolean not null default false,
+  can_manage_categories boolean not null default false,
+  can_manage_members boolean not null default false,
+  can_edit_entries boolean not null default false,
+  can_delete_entries boolean not null default false,
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint workspace_roles_name_chk check (btrim(name) <> ''),
+  unique (workspace_id, id),
+  unique (workspace_id, name_key)
+);
+
+drop trigger if exists trg_workspace_roles_updated_at on public.workspace_roles;
+create trigger trg_workspace_roles_updated_at
+before update on public.workspace_roles
+for each row execute function public.set_updated_at();
+
+alter table public.workspace_members
+  add column if not exists custom_role_id uuid;
+
+-- A role still held by a member cannot be deleted; move the members first.
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'workspace_members_custom_role_fk') then
+    alter table public.workspace_members
+      add constraint workspace_members_custom_role_fk
+      foreign key (workspace_id, custom_role_id)
+      references public.workspace_roles(workspace_id, id)
+      on delete restrict;
+  end if;
+end
+$$;
+
+create index if not exists workspace_members_custom_role_idx
+  on public.workspace_members(custom_role_id)
+  where custom_role_id is not null;
+
+create or replace function public.normalize_member_permissions()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role = 'admin' then
+    new.can_delete_entries := true;
+    new.can_manage_categories := true;
+    new.can_manage_users := true;
+    new.dashboard_scope := 'full';
+    new.custom_role_id := null;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.member_has_permission(_workspace_id uuid, _permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select case
+      when wm.role = 'admin' then true
+      when r.id is not null then case _permission
+        when 'can_view_reports' then r.can_view_reports
+        when 'can_export' then r.can_export
+        when 'can_add_cash_in' then r.can_add_cash_in
+        when 'can_add_cash_out' then r.can_add_cash_out
+        when 'can_backdate_entries' then r.can_backdate_entries
+        when 'can_manage_categories' then r.can_manage_categories
+        when 'can_manage_members' then r.can_manage_members
+        when 'can_edit_entries' then r.can_edit_entries
+        when 'can_delete_entries' then r.can_delete_entries
+        else false
+      end
+      else case _permission
+        when 'can_view_reports' then true
+        when 'can_export' then true
+        when 'can_add_cash_in' then true
+        when 'can_add_cash_out' then true
+        when 'can_backdate_entries' then true
+        when 'can_manage_categories' then wm.can_manage_categories
+        when 'can_manage_members' then wm.can_manage_users
+        when 'can_edit_entries' then wm.can_delete_entries
+        when 'can_delete_entries' then wm.can_delete_entries
+        else false
+      end
+    end
+    from public.workspace_members wm
+    left join public.workspace_roles r
+      on r.workspace_id = wm.workspace_id
+     and r.id = wm.custom_role_id
+    where wm.workspace_id = _workspace_id
+      and wm.user_id = auth.uid()
+      and wm.access_disabled = false
+  ), false);
+$$;
+
+create or replace function public.can_manage_users(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.member_has_permission(_workspace_id, 'can_manage_members');
+$$;
+
+create or replace function public.can_manage_categories(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.member_has_permission(_workspace_id, 'can_manage_categories');
+$$;
+
+create or replace function public.can_delete_entries(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.member_has_permission(_workspace_id, 'can_delete_entries');
+$$;
+
+create or replace function public.can_edit_entries(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.member_has_permission(_workspace_id, 'can_edit_entries');
+$$;
+
+create or replace function public.can_view_reports(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.member_has_permission(_workspace_id, 'can_view_reports');
+$$;
+
+create or replace function public.can_export(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.member_has_permission(_workspace_id, 'can_export');
+$$;
+
+-- Direction decides which add permission applies (credit and transfers included); anything dated
+-- before today in the workspace timezone also needs the backdate permission.
+create or replace function public.can_add_entry(
+  _workspace_id uuid,
+  _direction public.cash_direction,
+  _entry_at timestamptz
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    public.member_has_permission(
+      _workspace_id,
+      case when _direction = 'cash_in' then 'can_add_cash_in' else 'can_add_cash_out' end
+    )
+    and (
+      public.member_has_permission(_workspace_id, 'can_backdate_entries')
+      or coalesce(_entry_at >= (
+        select date_trunc('day', now() at time zone w.timezone) at time zone w.timezone
+        from public.workspaces w
+        where w.id = _workspace_id
+      ), true)
+    );
+$$;
+
+-- Client inserts only; entries posted by RPCs (day close adjustments, recurring posts) follow their own checks.
+drop policy if exists entries_insert_member on public.entries;
+create policy entries_insert_member
+on public.entries
+for insert
+to authenticated
+with check (
+  public.is_workspace_member(workspace_id)
+  and created_by = auth.uid()
+  and public.can_add_entry(workspace_id, direction, entry_at)
+);
+
+alter table public.workspace_roles enable row level security;
+
+drop policy if exists workspace_roles_select_member on public.workspace_roles;
+create policy workspace_roles_select_member
+on public.workspace_roles
+for select
+to authenticated
+using (public.is_workspace_member(workspace_id));
+
+drop policy if exists workspace_roles_insert_manager on public.workspace_roles;
+create policy workspace_roles_insert_manager
+on public.workspace_roles
+for insert
+to authenticated
+with check (public.can_manage_users(workspace_id) and created_by = auth.uid());
+
+drop policy if exists workspace_roles_update_manager on public.workspace_roles;
+create policy workspace_roles_update_manager
+on public.workspace_roles
+for update
+to authenticated
+using (public.can_manage_users(workspace_id))
+with check (public.can_manage_users(workspace_id));
+
+drop policy if exists workspace_roles_delete_manager on public.workspace_roles;
+create policy workspace_roles_delete_manager
+on public.workspace_roles
+for delete
+to authenticated
+using (public.can_manage_users(workspace_id));
+
+drop function if exists public.list_workspace_members(uuid);
+
+create or replace function public.list_workspace_members(_workspace_id uuid)
+returns table (
+  workspace_id uuid,
+  user_id uuid,
+  role public.app_role,
+  can_delete_entries boolean,
+  can_manage_categories boolean,
+  can_manage_users boolean,
+  dashboard_scope public.dashboard_scope,
+  access_disabled boolean,
+  custom_role_id uuid,
+  full_name text,
+  email text,
+  phone text
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_manage_users(_workspace_id) then
+    raise exception 'Not allowed to view workspace members';
+  end if;
+
+  return query
+  select
+    wm.workspace_id::uuid,
+    wm.user_id::uuid,
+    wm.role::public.app_role,
+    coalesce(wm.can_delete_entries, false)::boolean,
+    coalesce(wm.can_manage_categories, false)::boolean,
+    coalesce(wm.can_manage_users, false)::boolean,
+    wm.dashboard_scope::public.dashboard_scope,
+    coalesce(wm.access_disabled, false)::boolean,
+    wm.custom_role_id::uuid,
+    p.full_name::text,
+    au.email::text,
+    coalesce(p.phone, nullif(au.phone, ''))::text
+  from public.workspace_members wm
+  left join public.profiles p
+    on p.id = wm.user_id
+  left join auth.users au
+    on au.id = wm.user_id
+  where wm.workspace_id = _workspace_id
+  order by
+    case when wm.role = 'admin' then 0 else 1 end,
+    coalesce(wm.access_disabled, false),
+    coalesce(p.full_name, au.email, wm.user_id::text);
+end;
+$$;
+
+grant execute on function public.list_workspace_members(uuid) to authenticated;
+grant execute on function public.member_has_permission(uuid, text) to authenticated;
+grant execute on function public.can_view_reports(uuid) to authenticated;
+grant execute on function public.can_export(uuid) to authenticated;
+grant execute on function public.can_add_entry(uuid, public.cash_direction, timestamptz) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'workspace_roles'
+     ) then
+    execute 'alter publication supabase_realtime add table public.workspace_roles';
+  end if;
+end
+$$;
+
+commit;
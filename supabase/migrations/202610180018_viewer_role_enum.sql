@@ -0,0 +1,7 @@
+begin;
+
+-- Read-only members (e.g. an external accountant). A new enum value cannot be used in the
+-- transaction that adds it, so the rules for viewers live in 202610180019_viewer_role.sql.
+alter type public.app_role add value if not exists 'viewer';
+
+commit;
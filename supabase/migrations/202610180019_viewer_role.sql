@@ -0,0 +1,219 @@
+begin;
+
+-- Viewers read everything a member can read (History, statements, exports) and never write.
+create or replace function public.normalize_member_permissions()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role = 'admin' then
+    new.can_delete_entries := true;
+    new.can_manage_categories := true;
+    new.can_manage_users := true;
+    new.dashboard_scope := 'full';
+    new.custom_role_id := null;
+  elsif new.role = 'viewer' then
+    new.can_delete_entries := false;
+    new.can_manage_categories := false;
+    new.can_manage_users := false;
+    new.dashboard_scope := 'full';
+    new.custom_role_id := null;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.normalize_access_request_permissions()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role = 'viewer' then
+    new.can_delete_entries := false;
+    new.can_manage_categories := false;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_workspace_access_requests_normalize on public.workspace_access_requests;
+create trigger trg_workspace_access_requests_normalize
+before insert or update on public.workspace_access_requests
+for each row execute function public.normalize_access_request_permissions();
+
+create or replace function public.member_has_permission(_workspace_id uuid, _permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select case
+      when wm.role = 'admin' then true
+      when wm.role = 'viewer' then _permission in ('can_view_reports', 'can_export')
+      when r.id is not null then case _permission
+        when 'can_view_reports' then r.can_view_reports
+        when 'can_export' then r.can_export
+        when 'can_add_cash_in' then r.can_add_cash_in
+        when 'can_add_cash_out' then r.can_add_cash_out
+        when 'can_backdate_entries' then r.can_backdate_entries
+        when 'can_manage_categories' then r.can_manage_categories
+        when 'can_manage_members' then r.can_manage_members
+        when 'can_edit_entries' then r.can_edit_entries
+        when 'can_delete_entries' then r.can_delete_entries
+        else false
+      end
+      else case _permission
+        when 'can_view_reports' then true
+        when 'can_export' then true
+        when 'can_add_cash_in' then true
+        when 'can_add_cash_out' then true
+        when 'can_backdate_entries' then true
+        when 'can_manage_categories' then wm.can_manage_categories
+        when 'can_manage_members' then wm.can_manage_users
+        when 'can_edit_entries' then wm.can_delete_entries
+        when 'can_delete_entries' then wm.can_delete_entries
+        else false
+      end
+    end
+    from public.workspace_members wm
+    left join public.workspace_roles r
+      on r.workspace_id = wm.workspace_id
+     and r.id = wm.custom_role_id
+    where wm.workspace_id = _workspace_id
+      and wm.user_id = auth.uid()
+      and wm.access_disabled = false
+  ), false);
+$$;
+
+create or replace function public.is_workspace_viewer(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = _workspace_id
+      and wm.user_id = auth.uid()
+      and wm.role = 'viewer'
+  );
+$$;
+
+-- Active member who may write at all; the individual permissions still apply on top.
+create or replace function public.is_workspace_writer(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_workspace_member(_workspace_id)
+    and not public.is_workspace_viewer(_workspace_id);
+$$;
+
+drop policy if exists entries_insert_member on public.entries;
+create policy entries_insert_member
+on public.entries
+for insert
+to authenticated
+with check (
+  public.is_workspace_writer(workspace_id)
+  and created_by = auth.uid()
+  and public.can_add_entry(workspace_id, direction, entry_at)
+);
+
+drop policy if exists entries_update_member on public.entries;
+create policy entries_update_member
+on public.entries
+for update
+to authenticated
+using (public.is_workspace_writer(workspace_id))
+with check (public.is_workspace_writer(workspace_id));
+
+drop policy if exists categories_insert_admin on public.categories;
+create policy categories_insert_admin
+on public.categories
+for insert
+to authenticated
+with check (
+  public.is_workspace_writer(workspace_id)
+  and public.can_manage_categories(workspace_id)
+  and created_by = auth.uid()
+);
+
+drop policy if exists categories_update_admin on public.categories;
+create policy categories_update_admin
+on public.categories
+for update
+to authenticated
+using (public.is_workspace_writer(workspace_id) and public.can_manage_categories(workspace_id))
+with check (public.is_workspace_writer(workspace_id) and public.can_manage_categories(workspace_id));
+
+drop policy if exists categories_delete_admin on public.categories;
+create policy categories_delete_admin
+on public.categories
+for delete
+to authenticated
+using (public.is_workspace_writer(workspace_id) and public.can_manage_categories(workspace_id));
+
+drop policy if exists delete_requests_insert_member on public.delete_requests;
+create policy delete_requests_insert_member
+on public.delete_requests
+for insert
+to authenticated
+with check (
+  public.is_workspace_writer(workspace_id)
+  and requested_by = auth.uid()
+  and status = 'pending'
+);
+
+drop policy if exists entry_edit_requests_insert_member on public.entry_edit_requests;
+create policy entry_edit_requests_insert_member
+on public.entry_edit_requests
+for insert
+to authenticated
+with check (
+  public.is_workspace_writer(workspace_id)
+  and requested_by = auth.uid()
+  and status = 'pending'
+);
+
+-- RPCs run as security definer and skip the policies above; this catches a viewer calling
+-- close_business_day, open_shift or close_shift directly. Scheduled jobs have no auth.uid().
+create or replace function public.reject_viewer_writes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.is_workspace_viewer(new.workspace_id) then
+    raise exception 'Viewers have read-only access to this workspace';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_entries_reject_viewer on public.entries;
+create trigger trg_entries_reject_viewer
+before insert or update on public.entries
+for each row execute function public.reject_viewer_writes();
+
+drop trigger if exists trg_day_closings_reject_viewer on public.day_closings;
+create trigger trg_day_closings_reject_viewer
+before insert or update on public.day_closings
+for each row execute function public.reject_viewer_writes();
+
+drop trigger if exists trg_shifts_reject_viewer on public.shifts;
+create trigger trg_shifts_reject_viewer
+before insert or update on public.shifts
+for each row execute function public.reject_viewer_writes();
+
+grant execute on function public.is_workspace_viewer(uuid) to authenticated;
+grant execute on function public.is_workspace_writer(uuid) to authenticated;
+
+commit;
@@ -0,0 +1,404 @@
+begin;
+
+-- The owner is the admin the workspace cannot lose. created_by stays as history; owner_id moves
+-- only through an accepted ownership transfer.
+alter table public.workspaces
+  add column if not exists owner_id uuid references auth.users(id);
+
+-- Prefer the creator while they are still an admin, otherwise the longest-standing admin.
+update public.workspaces w
+   set owner_id = coalesce(
+     (
+       select wm.user_id
+       from public.workspace_members wm
+       where wm.workspace_id = w.id
+         and wm.role = 'admin'
+       order by (wm.user_id = w.created_by) desc, wm.created_at
+       limit 1
+     ),
+     w.created_by
+   )
+ where w.owner_id is null;
+
+alter table public.workspaces
+  alter column owner_id set not null;
+
+create or replace function public.set_workspace_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.owner_id := coalesce(new.owner_id, new.created_by);
+  elsif new.owner_id is distinct from old.owner_id
+    and coalesce(current_setting('cashbook.ownership_transfer_id', true), '') = '' then
+    raise exception 'Ownership changes only through an accepted ownership transfer';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_workspaces_set_owner on public.workspaces;
+create trigger trg_workspaces_set_owner
+before insert or update of owner_id on public.workspaces
+for each row execute function public.set_workspace_owner();
+
+create table if not exists public.workspace_ownership_transfers (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  from_user_id uuid not null references auth.users(id),
+  to_user_id uuid not null references auth.users(id),
+  status text not null default 'pending',
+  requested_at timestamptz not null default now(),
+  responded_at timestamptz,
+  constraint workspace_ownership_transfers_status_chk
+    check (status in ('pending', 'accepted', 'declined', 'cancelled')),
+  constraint workspace_ownership_transfers_distinct_chk
+    check (from_user_id <> to_user_id)
+);
+
+create unique index if not exists workspace_ownership_transfers_one_pending_idx
+  on public.workspace_ownership_transfers(workspace_id)
+  where status = 'pending';
+
+alter table public.workspace_ownership_transfers enable row level security;
+
+-- Written only by the RPCs below.
+drop policy if exists workspace_ownership_transfers_select_participants on public.workspace_ownership_transfers;
+create policy workspace_ownership_transfers_select_participants
+on public.workspace_ownership_transfers
+for select
+to authenticated
+using (
+  public.is_workspace_member(workspace_id)
+  and (
+    from_user_id = auth.uid()
+    or to_user_id = auth.uid()
+    or public.is_workspace_admin(workspace_id)
+  )
+);
+
+-- Last-admin and owner guard for every write to workspace_members: role changes from the Team
+-- page, temporary disable, revoke and account deletion. Rows removed because the workspace itself
+-- is being deleted are let through.
+create or replace function public.guard_workspace_admins()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_owner_id uuid;
+  v_loses_admin boolean;
+begin
+  select w.owner_id
+    into v_owner_id
+  from public.workspaces w
+  where w.id = old.workspace_id;
+
+  if not found then
+    return coalesce(new, old);
+  end if;
+
+  if tg_op = 'DELETE' then
+    v_loses_admin := old.role = 'admin' and not old.access_disabled;
+  else
+    v_loses_admin := old.role = 'admin'
+      and not old.access_disabled
+      and (new.role <> 'admin' or new.access_disabled);
+  end if;
+
+  if not v_loses_admin then
+    return coalesce(new, old);
+  end if;
+
+  if old.user_id = v_owner_id then
+    raise exception 'Transfer workspace ownership before demoting, disabling or removing the owner';
+  end if;
+
+  if not exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = old.workspace_id
+      and wm.user_id <> old.user_id
+      and wm.role = 'admin'
+      and wm.access_disabled = false
+  ) then
+    raise exception 'A workspace must keep at least one active admin';
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists trg_workspace_members_guard_admins on public.workspace_members;
+create trigger trg_workspace_members_guard_admins
+before update of role, access_disabled or delete on public.workspace_members
+for each row execute function public.guard_workspace_admins();
+
+create or replace function public.remove_workspace_member(
+  _workspace_id uuid,
+  _target_user_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_target_role public.app_role;
+  v_target_disabled boolean;
+  v_active_admin_count integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_admin(_workspace_id) then
+    raise exception 'Only admin can remove users';
+  end if;
+
+  if _target_user_id = auth.uid() then
+    raise exception 'Admin cannot remove self';
+  end if;
+
+  if exists (
+    select 1
+    from public.workspaces w
+    where w.id = _workspace_id
+      and w.owner_id = _target_user_id
+  ) then
+    raise exception 'Transfer workspace ownership before removing the owner';
+  end if;
+
+  select wm.role, wm.access_disabled
+    into v_target_role, v_target_disabled
+  from public.workspace_members wm
+  where wm.workspace_id = _workspace_id
+    and wm.user_id = _target_user_id;
+
+  if v_target_role is null then
+    raise exception 'User is not part of this workspace';
+  end if;
+
+  if v_target_role = 'admin' and coalesce(v_target_disabled, false) = false then
+    select count(*)
+      into v_active_admin_count
+    from public.workspace_members wm
+    where wm.workspace_id = _workspace_id
+      and wm.role = 'admin'
+      and wm.access_disabled = false;
+
+    if v_active_admin_count <= 1 then
+      raise exception 'Cannot remove the last active admin from workspace';
+    end if;
+  end if;
+
+  delete from public.workspace_members
+   where workspace_id = _workspace_id
+     and user_id = _target_user_id;
+
+  insert into public.audit_logs (
+    workspace_id,
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta
+  )
+  values (
+    _workspace_id,
+    auth.uid(),
+    'workspace_member_revoked',
+    'workspace_member',
+    _target_user_id,
+    jsonb_build_object('removed_user_id', _target_user_id)
+  );
+end;
+$$;
+
+create or replace function public.propose_workspace_ownership_transfer(
+  _workspace_id uuid,
+  _to_user_id uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not exists (
+    select 1
+    from public.workspaces w
+    where w.id = _workspace_id
+      and w.owner_id = auth.uid()
+  ) or not public.is_workspace_member(_workspace_id) then
+    raise exception 'Only the workspace owner can transfer ownership';
+  end if;
+
+  if _to_user_id = auth.uid() then
+    raise exception 'You already own this workspace';
+  end if;
+
+  if not exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = _workspace_id
+      and wm.user_id = _to_user_id
+      and wm.access_disabled = false
+  ) then
+    raise exception 'The new owner must be an active member of this workspace';
+  end if;
+
+  update public.workspace_ownership_transfers
+     set status = 'cancelled',
+         responded_at = now()
+   where workspace_id = _workspace_id
+     and status = 'pending';
+
+  insert into public.workspace_ownership_transfers (workspace_id, from_user_id, to_user_id)
+  values (_workspace_id, auth.uid(), _to_user_id)
+  returning id into v_transfer_id;
+
+  insert into public.audit_logs (
+    workspace_id, actor_user_id, action, entity_type, entity_id, meta
+  )
+  values (
+    _workspace_id,
+    auth.uid(),
+    'workspace_ownership_transfer_proposed',
+    'workspace_ownership_transfer',
+    v_transfer_id,
+    jsonb_build_object('from_user_id', auth.uid(), 'target_user_id', _to_user_id)
+  );
+
+  return v_transfer_id;
+end;
+$$;
+
+-- The proposed owner accepts or declines; the current owner may cancel.
+create or replace function public.respond_workspace_ownership_transfer(
+  _transfer_id uuid,
+  _decision text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer public.workspace_ownership_transfers%rowtype;
+  v_decision text := lower(btrim(coalesce(_decision, '')));
+  v_status text;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if v_decision not in ('accept', 'decline', 'cancel') then
+    raise exception 'Decision must be accept, decline or cancel';
+  end if;
+
+  select *
+    into v_transfer
+  from public.workspace_ownership_transfers t
+  where t.id = _transfer_id
+    and t.status = 'pending'
+  for update;
+
+  if not found then
+    raise exception 'Transfer not found or already handled';
+  end if;
+
+  if v_decision = 'cancel' and v_transfer.from_user_id <> auth.uid() then
+    raise exception 'Only the current owner can cancel this transfer';
+  end if;
+
+  if v_decision in ('accept', 'decline') and v_transfer.to_user_id <> auth.uid() then
+    raise exception 'Only the proposed owner can respond to this transfer';
+  end if;
+
+  if v_decision = 'accept' then
+    if not public.is_workspace_member(v_transfer.workspace_id) then
+      raise exception 'Workspace access required';
+    end if;
+
+    if not exists (
+      select 1
+      from public.workspaces w
+      where w.id = v_transfer.workspace_id
+        and w.owner_id = v_transfer.from_user_id
+    ) then
+      raise exception 'Ownership has changed since this transfer was proposed';
+    end if;
+
+    -- The new owner becomes an admin; the previous owner stays an admin until someone changes that.
+    update public.workspace_members
+       set role = 'admin'
+     where workspace_id = v_transfer.workspace_id
+       and user_id = v_transfer.to_user_id;
+
+    perform set_config('cashbook.ownership_transfer_id', v_transfer.id::text, true);
+    update public.workspaces
+       set owner_id = v_transfer.to_user_id
+     where id = v_transfer.workspace_id;
+    perform set_config('cashbook.ownership_transfer_id', '', true);
+  end if;
+
+  v_status := case v_decision
+    when 'accept' then 'accepted'
+    when 'decline' then 'declined'
+    else 'cancelled'
+  end;
+
+  update public.workspace_ownership_transfers
+     set status = v_status,
+         responded_at = now()
+   where id = v_transfer.id;
+
+  insert into public.audit_logs (
+    workspace_id, actor_user_id, action, entity_type, entity_id, meta
+  )
+  values (
+    v_transfer.workspace_id,
+    auth.uid(),
+    case v_decision
+      when 'accept' then 'workspace_ownership_transferred'
+      when 'decline' then 'workspace_ownership_transfer_declined'
+      else 'workspace_ownership_transfer_cancelled'
+    end,
+    'workspace_ownership_transfer',
+    v_transfer.id,
+    jsonb_build_object('from_user_id', v_transfer.from_user_id, 'target_user_id', v_transfer.to_user_id)
+  );
+
+  return v_transfer.workspace_id;
+end;
+$$;
+
+grant execute on function public.remove_workspace_member(uuid, uuid) to authenticated;
+grant execute on function public.propose_workspace_ownership_transfer(uuid, uuid) to authenticated;
+grant execute on function public.respond_workspace_ownership_transfer(uuid, text) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'workspace_ownership_transfers'
+     ) then
+    execute 'alter publication supabase_realtime add table public.workspace_ownership_transfers';
+  end if;
+end
+$$;
+
+commit;
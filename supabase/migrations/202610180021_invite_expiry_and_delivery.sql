@@ -0,0 +1,443 @@
+begin;
+
+-- Invites stay open for seven days. contact keeps what the admin typed so the Team panel no longer
+-- has to dig it out of audit_logs; delivery_status is written back by send-workspace-invite.
+alter table public.workspace_access_requests
+  add column if not exists contact text,
+  add column if not exists expires_at timestamptz,
+  add column if not exists resent_at timestamptz,
+  add column if not exists resend_count integer not null default 0,
+  add column if not exists delivery_status text,
+  add column if not exists delivery_updated_at timestamptz;
+
+update public.workspace_access_requests war
+   set contact = nullif(btrim(al.meta->>'contact'), '')
+  from public.audit_logs al
+ where war.contact is null
+   and al.entity_type = 'workspace_access_request'
+   and al.action = 'workspace_access_requested'
+   and al.entity_id = war.id;
+
+update public.workspace_access_requests
+   set expires_at = requested_at + interval '7 days'
+ where expires_at is null;
+
+alter table public.workspace_access_requests
+  alter column expires_at set default now() + interval '7 days',
+  alter column expires_at set not null,
+  -- Rows from before this migration keep a null delivery_status: nothing recorded it at the time.
+  alter column delivery_status set default 'pending';
+
+alter table public.workspace_access_requests
+  drop constraint if exists workspace_access_requests_status_chk;
+alter table public.workspace_access_requests
+  add constraint workspace_access_requests_status_chk
+    check (status in ('pending', 'accepted', 'rejected', 'cancelled', 'expired'));
+
+alter table public.workspace_access_requests
+  drop constraint if exists workspace_access_requests_delivery_status_chk;
+alter table public.workspace_access_requests
+  add constraint workspace_access_requests_delivery_status_chk
+    check (
+      delivery_status is null
+      or delivery_status in ('pending', 'email_sent', 'sms_sent', 'email_and_sms_sent', 'not_delivered')
+    );
+
+-- The sweep below runs periodically, so an invite can sit past expires_at while still pending.
+-- Accepting it in that window is refused here rather than in respond_workspace_access_request.
+create or replace function public.reject_expired_access_request()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.status = 'pending'
+    and new.status = 'accepted'
+    and old.expires_at <= now() then
+    raise exception 'This invite has expired. Ask a workspace admin to resend it.';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_workspace_access_requests_reject_expired on public.workspace_access_requests;
+create trigger trg_workspace_access_requests_reject_expired
+before update of status on public.workspace_access_requests
+for each row execute function public.reject_expired_access_request();
+
+-- Scheduler entry point (pg_cron below). Returns the number of invites it expired.
+create or replace function public.expire_workspace_access_requests()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expired integer;
+begin
+  update public.workspace_access_requests
+     set status = 'expired',
+         reviewed_at = now(),
+         note = 'Expired'
+   where status = 'pending'
+     and expires_at <= now();
+
+  get diagnostics v_expired = row_count;
+  return v_expired;
+end;
+$$;
+
+create or replace function public.request_workspace_access_by_contact(
+  _workspace_id uuid,
+  _contact text,
+  _role public.app_role default 'editor',
+  _can_delete_entries boolean default false,
+  _can_manage_categories boolean default false
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_contact text := btrim(_contact);
+  v_contact_no_space text;
+  v_target_user_id uuid;
+  v_request_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_admin(_workspace_id) then
+    raise exception 'Only admin can request new user access';
+  end if;
+
+  if v_contact is null or v_contact = '' then
+    raise exception 'Email or phone is required';
+  end if;
+
+  v_contact_no_space := regexp_replace(v_contact, '\\s+', '', 'g');
+
+  select au.id
+    into v_target_user_id
+  from auth.users au
+  left join public.profiles p
+    on p.id = au.id
+  where lower(coalesce(au.email, '')) = lower(v_contact)
+     or regexp_replace(coalesce(au.phone, ''), '\\s+', '', 'g') = v_contact_no_space
+     or regexp_replace(coalesce(p.phone, ''), '\\s+', '', 'g') = v_contact_no_space
+  limit 1;
+
+  if v_target_user_id is null then
+    raise exception 'User not registered. Ask the user to sign up first, then send access request.';
+  end if;
+
+  if v_target_user_id = auth.uid() then
+    raise exception 'You are already part of this workspace';
+  end if;
+
+  if exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = _workspace_id
+      and wm.user_id = v_target_user_id
+  ) then
+    raise exception 'User already has workspace access';
+  end if;
+
+  update public.workspace_access_requests
+     set status = 'cancelled',
+         reviewed_at = now(),
+         reviewed_by = auth.uid(),
+         note = 'Superseded by new request'
+   where workspace_id = _workspace_id
+     and target_user_id = v_target_user_id
+     and status = 'pending';
+
+  insert into public.workspace_access_requests (
+    workspace_id,
+    target_user_id,
+    requested_by,
+    role,
+    can_delete_entries,
+    can_manage_categories,
+    status,
+    contact
+  )
+  values (
+    _workspace_id,
+    v_target_user_id,
+    auth.uid(),
+    _role,
+    case when _role = 'admin' then true else _can_delete_entries end,
+    case when _role = 'admin' then true else _can_manage_categories end,
+    'pending',
+    v_contact
+  )
+  returning id into v_request_id;
+
+  insert into public.audit_logs (
+    workspace_id,
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta
+  )
+  values (
+    _workspace_id,
+    auth.uid(),
+    'workspace_access_requested',
+    'workspace_access_request',
+    v_request_id,
+    jsonb_build_object(
+      'target_user_id', v_target_user_id,
+      'contact', v_contact,
+      'role', _role
+    )
+  );
+
+  return v_request_id;
+end;
+$$;
+
+-- Bumping resent_at is what makes the database webhook call send-workspace-invite again.
+create or replace function public.resend_workspace_access_request(
+  _request_id uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.workspace_access_requests%rowtype;
+  v_member public.workspace_members%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select *
+    into v_request
+  from public.workspace_access_requests war
+  where war.id = _request_id
+    and war.status in ('pending', 'expired')
+  for update;
+
+  if not found then
+    raise exception 'Only pending or expired invites can be resent';
+  end if;
+
+  select *
+    into v_member
+  from public.workspace_members wm
+  where wm.workspace_id = v_request.workspace_id
+    and wm.user_id = auth.uid()
+    and wm.access_disabled = false
+  limit 1;
+
+  if not found or not (v_member.role = 'admin' or v_member.can_manage_users) then
+    raise exception 'Only workspace admins can resend access requests';
+  end if;
+
+  if exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = v_request.workspace_id
+      and wm.user_id = v_request.target_user_id
+  ) then
+    raise exception 'User already has workspace access';
+  end if;
+
+  if v_request.status = 'expired' and exists (
+    select 1
+    from public.workspace_access_requests war
+    where war.workspace_id = v_request.workspace_id
+      and war.target_user_id = v_request.target_user_id
+      and war.status = 'pending'
+  ) then
+    raise exception 'A newer invite is already pending for this user';
+  end if;
+
+  update public.workspace_access_requests
+     set status = 'pending',
+         expires_at = now() + interval '7 days',
+         resent_at = now(),
+         resend_count = resend_count + 1,
+         reviewed_at = null,
+         reviewed_by = null,
+         note = null,
+         delivery_status = 'pending',
+         delivery_updated_at = null
+   where id = v_request.id;
+
+  insert into public.audit_logs (
+    workspace_id,
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta
+  )
+  values (
+    v_request.workspace_id,
+    auth.uid(),
+    'workspace_access_resent',
+    'workspace_access_request',
+    v_request.id,
+    jsonb_build_object(
+      'target_user_id', v_request.target_user_id,
+      'resend_count', v_request.resend_count + 1
+    )
+  );
+
+  return v_request.workspace_id;
+end;
+$$;
+
+create or replace function public.list_my_workspace_access_requests()
+returns table (
+  id uuid,
+  workspace_id uuid,
+  workspace_name text,
+  workspace_industry text,
+  workspace_currency char(3),
+  workspace_timezone text,
+  requested_by uuid,
+  requested_by_name text,
+  requested_by_email text,
+  role public.app_role,
+  can_delete_entries boolean,
+  can_manage_categories boolean,
+  status text,
+  requested_at timestamptz
+)
+language sql
+security definer
+set search_path = public
+as $$
+  select
+    war.id,
+    war.workspace_id,
+    w.name as workspace_name,
+    w.industry as workspace_industry,
+    w.currency as workspace_currency,
+    w.timezone as workspace_timezone,
+    war.requested_by,
+    p.full_name as requested_by_name,
+    au.email as requested_by_email,
+    war.role,
+    war.can_delete_entries,
+    war.can_manage_categories,
+    war.status,
+    war.requested_at
+  from public.workspace_access_requests war
+  join public.workspaces w
+    on w.id = war.workspace_id
+  left join public.profiles p
+    on p.id = war.requested_by
+  left join auth.users au
+    on au.id = war.requested_by
+  where war.target_user_id = auth.uid()
+    and war.status = 'pending'
+    and war.expires_at > now()
+  order by war.requested_at desc;
+$$;
+
+-- The return shape changes, so the old definition has to go first.
+drop function if exists public.list_workspace_access_requests_sent(uuid);
+
+create function public.list_workspace_access_requests_sent(
+  _workspace_id uuid
+)
+returns table (
+  id uuid,
+  workspace_id uuid,
+  target_user_id uuid,
+  target_name text,
+  target_email text,
+  target_phone text,
+  contact text,
+  requested_by uuid,
+  role public.app_role,
+  can_delete_entries boolean,
+  can_manage_categories boolean,
+  status text,
+  requested_at timestamptz,
+  reviewed_at timestamptz,
+  note text,
+  expires_at timestamptz,
+  resent_at timestamptz,
+  resend_count integer,
+  delivery_status text,
+  delivery_updated_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_admin(_workspace_id) then
+    raise exception 'Only workspace admin can view sent requests';
+  end if;
+
+  return query
+  select
+    war.id,
+    war.workspace_id,
+    war.target_user_id,
+    p.full_name as target_name,
+    au.email::text as target_email,
+    coalesce(p.phone, au.phone)::text as target_phone,
+    war.contact,
+    war.requested_by,
+    war.role,
+    war.can_delete_entries,
+    war.can_manage_categories,
+    -- Report invites the sweep has not reached yet as expired too.
+    case
+      when war.status = 'pending' and war.expires_at <= now() then 'expired'
+      else war.status
+    end as status,
+    war.requested_at,
+    war.reviewed_at,
+    war.note,
+    war.expires_at,
+    war.resent_at,
+    war.resend_count,
+    war.delivery_status,
+    war.delivery_updated_at
+  from public.workspace_access_requests war
+  left join public.profiles p
+    on p.id = war.target_user_id
+  left join auth.users au
+    on au.id = war.target_user_id
+  where war.workspace_id = _workspace_id
+  order by war.requested_at desc;
+end;
+$$;
+
+revoke execute on function public.expire_workspace_access_requests() from public, anon, authenticated;
+grant execute on function public.expire_workspace_access_requests() to service_role;
+grant execute on function public.resend_workspace_access_request(uuid) to authenticated;
+grant execute on function public.list_workspace_access_requests_sent(uuid) to authenticated;
+
+-- Hosted projects with pg_cron expire stale invites every hour.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    execute $cron$select cron.schedule(
+      'cashbook-expire-access-requests',
+      '0 * * * *',
+      'select public.expire_workspace_access_requests()'
+    )$cron$;
+  end if;
+end
+$$;
+
+commit;
@@ -0,0 +1,366 @@
+begin;
+
+-- A suspension is access_disabled with an optional end (disabled_until) and a reason the member
+-- can read. Without disabled_until it lasts until an admin restores access, as before.
+alter table public.workspace_members
+  add column if not exists disabled_until timestamptz,
+  add column if not exists disable_reason text;
+
+create or replace function public.normalize_member_permissions()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role = 'admin' then
+    new.can_delete_entries := true;
+    new.can_manage_categories := true;
+    new.can_manage_users := true;
+    new.dashboard_scope := 'full';
+    new.custom_role_id := null;
+  elsif new.role = 'viewer' then
+    new.can_delete_entries := false;
+    new.can_manage_categories := false;
+    new.can_manage_users := false;
+    new.dashboard_scope := 'full';
+    new.custom_role_id := null;
+  end if;
+
+  if not new.access_disabled then
+    new.disabled_until := null;
+    new.disable_reason := null;
+  end if;
+  return new;
+end;
+$$;
+
+-- True for an enabled member, and for a suspended one whose disabled_until has passed even if
+-- end_expired_member_suspensions has not cleared the flag yet.
+create or replace function public.member_access_active(
+  _access_disabled boolean,
+  _disabled_until timestamptz
+)
+returns boolean
+language sql
+stable
+as $$
+  select not coalesce(_access_disabled, false)
+    or (_disabled_until is not null and _disabled_until <= now());
+$$;
+
+create or replace function public.is_workspace_member(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = _workspace_id
+      and wm.user_id = auth.uid()
+      and public.member_access_active(wm.access_disabled, wm.disabled_until)
+  );
+$$;
+
+create or replace function public.is_workspace_admin(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select wm.role = 'admin'
+    from public.workspace_members wm
+    where wm.workspace_id = _workspace_id
+      and wm.user_id = auth.uid()
+      and public.member_access_active(wm.access_disabled, wm.disabled_until)
+  ), false);
+$$;
+
+create or replace function public.member_has_permission(_workspace_id uuid, _permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select case
+      when wm.role = 'admin' then true
+      when wm.role = 'viewer' then _permission in ('can_view_reports', 'can_export')
+      when r.id is not null then case _permission
+        when 'can_view_reports' then r.can_view_reports
+        when 'can_export' then r.can_export
+        when 'can_add_cash_in' then r.can_add_cash_in
+        when 'can_add_cash_out' then r.can_add_cash_out
+        when 'can_backdate_entries' then r.can_backdate_entries
+        when 'can_manage_categories' then r.can_manage_categories
+        when 'can_manage_members' then r.can_manage_members
+        when 'can_edit_entries' then r.can_edit_entries
+        when 'can_delete_entries' then r.can_delete_entries
+        else false
+      end
+      else case _permission
+        when 'can_view_reports' then true
+        when 'can_export' then true
+        when 'can_add_cash_in' then true
+        when 'can_add_cash_out' then true
+        when 'can_backdate_entries' then true
+        when 'can_manage_categories' then wm.can_manage_categories
+        when 'can_manage_members' then wm.can_manage_users
+        when 'can_edit_entries' then wm.can_delete_entries
+        when 'can_delete_entries' then wm.can_delete_entries
+        else false
+      end
+    end
+    from public.workspace_members wm
+    left join public.workspace_roles r
+      on r.workspace_id = wm.workspace_id
+     and r.id = wm.custom_role_id
+    where wm.workspace_id = _workspace_id
+      and wm.user_id = auth.uid()
+      and public.member_access_active(wm.access_disabled, wm.disabled_until)
+  ), false);
+$$;
+
+-- The old three-argument version would make PostgREST calls ambiguous.
+drop function if exists public.set_workspace_member_access_disabled(uuid, uuid, boolean);
+
+create or replace function public.set_workspace_member_access_disabled(
+  _workspace_id uuid,
+  _target_user_id uuid,
+  _disabled boolean,
+  _disabled_until timestamptz default null,
+  _reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_target_role public.app_role;
+  v_target_disabled boolean;
+  v_active_admin_count integer;
+  v_reason text := nullif(btrim(coalesce(_reason, '')), '');
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_admin(_workspace_id) then
+    raise exception 'Only admin can change workspace access';
+  end if;
+
+  if _target_user_id = auth.uid() then
+    raise exception 'Admin cannot disable self';
+  end if;
+
+  if _disabled and _disabled_until is not null and _disabled_until <= now() then
+    raise exception 'Suspension end must be in the future';
+  end if;
+
+  if v_reason is not null and length(v_reason) > 280 then
+    raise exception 'Suspension reason must be 280 characters or fewer';
+  end if;
+
+  select wm.role, wm.access_disabled
+    into v_target_role, v_target_disabled
+  from public.workspace_members wm
+  where wm.workspace_id = _workspace_id
+    and wm.user_id = _target_user_id;
+
+  if v_target_role is null then
+    raise exception 'User is not part of this workspace';
+  end if;
+
+  if _disabled and v_target_role = 'admin' and coalesce(v_target_disabled, false) = false then
+    select count(*)
+      into v_active_admin_count
+    from public.workspace_members wm
+    where wm.workspace_id = _workspace_id
+      and wm.role = 'admin'
+      and wm.access_disabled = false;
+
+    if v_active_admin_count <= 1 then
+      raise exception 'Cannot disable the last active admin';
+    end if;
+  end if;
+
+  update public.workspace_members
+     set access_disabled = _disabled,
+         disabled_until = case when _disabled then _disabled_until else null end,
+         disable_reason = case when _disabled then v_reason else null end,
+         updated_at = now()
+   where workspace_id = _workspace_id
+     and user_id = _target_user_id;
+
+  insert into public.audit_logs (
+    workspace_id,
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta
+  )
+  values (
+    _workspace_id,
+    auth.uid(),
+    case when _disabled then 'workspace_member_temporarily_disabled' else 'workspace_member_access_restored' end,
+    'workspace_member',
+    _target_user_id,
+    jsonb_strip_nulls(jsonb_build_object(
+      'target_user_id', _target_user_id,
+      'disabled', _disabled,
+      'disabled_until', case when _disabled then _disabled_until end,
+      'reason', case when _disabled then v_reason end
+    ))
+  );
+end;
+$$;
+
+-- Scheduler entry point (pg_cron below). Clears suspensions whose end has passed so the flag,
+-- the Team page and realtime listeners catch up with what member_access_active already allows.
+create or replace function public.end_expired_member_suspensions()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ended integer;
+begin
+  with ended as (
+    update public.workspace_members
+       set access_disabled = false,
+           updated_at = now()
+     where access_disabled
+       and disabled_until is not null
+       and disabled_until <= now()
+    returning workspace_id, user_id
+  )
+  insert into public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, meta)
+  select
+    ended.workspace_id,
+    null,
+    'workspace_member_access_restored',
+    'workspace_member',
+    ended.user_id,
+    jsonb_build_object('target_user_id', ended.user_id, 'disabled', false, 'suspension_ended', true)
+  from ended;
+
+  get diagnostics v_ended = row_count;
+  return v_ended;
+end;
+$$;
+
+-- What a suspended member sees instead of the workspace: RLS hides the workspace itself from them.
+create or replace function public.list_my_workspace_suspensions()
+returns table (
+  workspace_id uuid,
+  workspace_name text,
+  workspace_timezone text,
+  role public.app_role,
+  disabled_until timestamptz,
+  disable_reason text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    wm.workspace_id,
+    w.name,
+    w.timezone,
+    wm.role,
+    wm.disabled_until,
+    wm.disable_reason
+  from public.workspace_members wm
+  join public.workspaces w
+    on w.id = wm.workspace_id
+  where wm.user_id = auth.uid()
+    and not public.member_access_active(wm.access_disabled, wm.disabled_until)
+  order by w.name;
+$$;
+
+drop function if exists public.list_workspace_members(uuid);
+
+create or replace function public.list_workspace_members(_workspace_id uuid)
+returns table (
+  workspace_id uuid,
+  user_id uuid,
+  role public.app_role,
+  can_delete_entries boolean,
+  can_manage_categories boolean,
+  can_manage_users boolean,
+  dashboard_scope public.dashboard_scope,
+  access_disabled boolean,
+  disabled_until timestamptz,
+  disable_reason text,
+  custom_role_id uuid,
+  full_name text,
+  email text,
+  phone text
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_manage_users(_workspace_id) then
+    raise exception 'Not allowed to view workspace members';
+  end if;
+
+  return query
+  select
+    wm.workspace_id::uuid,
+    wm.user_id::uuid,
+    wm.role::public.app_role,
+    coalesce(wm.can_delete_entries, false)::boolean,
+    coalesce(wm.can_manage_categories, false)::boolean,
+    coalesce(wm.can_manage_users, false)::boolean,
+    wm.dashboard_scope::public.dashboard_scope,
+    (not public.member_access_active(wm.access_disabled, wm.disabled_until))::boolean,
+    wm.disabled_until::timestamptz,
+    wm.disable_reason::text,
+    wm.custom_role_id::uuid,
+    p.full_name::text,
+    au.email::text,
+    coalesce(p.phone, nullif(au.phone, ''))::text
+  from public.workspace_members wm
+  left join public.profiles p
+    on p.id = wm.user_id
+  left join auth.users au
+    on au.id = wm.user_id
+  where wm.workspace_id = _workspace_id
+  order by
+    case when wm.role = 'admin' then 0 else 1 end,
+    not public.member_access_active(wm.access_disabled, wm.disabled_until),
+    coalesce(p.full_name, au.email, wm.user_id::text);
+end;
+$$;
+
+revoke execute on function public.end_expired_member_suspensions() from public, anon, authenticated;
+grant execute on function public.end_expired_member_suspensions() to service_role;
+grant execute on function public.member_access_active(boolean, timestamptz) to authenticated;
+grant execute on function public.set_workspace_member_access_disabled(uuid, uuid, boolean, timestamptz, text) to authenticated;
+grant execute on function public.list_my_workspace_suspensions() to authenticated;
+grant execute on function public.list_workspace_members(uuid) to authenticated;
+
+-- Hosted projects with pg_cron end due suspensions every 5 minutes.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    execute $cron$select cron.schedule(
+      'cashbook-end-member-suspensions',
+      '*/5 * * * *',
+      'select public.end_expired_member_suspensions()'
+    )$cron$;
+  end if;
+end
+$$;
+
+commit;
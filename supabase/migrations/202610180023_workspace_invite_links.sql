@@ -0,0 +1,327 @@
+begin;
+
+-- Shareable invite links for people who have not signed up yet. The token is 24 random bytes
+-- handed out once at creation; only its SHA-256 is stored, so a leaked table cannot be redeemed.
+create table if not exists public.workspace_invite_links (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  token_hash text not null,
+  role public.app_role not null default 'editor',
+  can_delete_entries boolean not null default false,
+  can_manage_categories boolean not null default false,
+  max_uses integer not null default 1,
+  use_count integer not null default 0,
+  expires_at timestamptz not null,
+  revoked_at timestamptz,
+  created_by uuid not null references auth.users(id),
+  created_at timestamptz not null default now(),
+  constraint workspace_invite_links_token_hash_key unique (token_hash),
+  constraint workspace_invite_links_max_uses_chk check (max_uses between 1 and 100),
+  constraint workspace_invite_links_use_count_chk check (use_count between 0 and max_uses)
+);
+
+create index if not exists workspace_invite_links_workspace_idx
+  on public.workspace_invite_links(workspace_id, created_at desc);
+
+alter table public.workspace_invite_links enable row level security;
+
+-- Written only by the RPCs below.
+drop policy if exists workspace_invite_links_select_admin on public.workspace_invite_links;
+create policy workspace_invite_links_select_admin
+on public.workspace_invite_links
+for select
+to authenticated
+using (public.is_workspace_admin(workspace_id));
+
+-- A redeemed link becomes an ordinary pending access request, so acceptance, expiry and the
+-- Sent Access Requests panel all work as they do for contact invites.
+alter table public.workspace_access_requests
+  add column if not exists invite_link_id uuid references public.workspace_invite_links(id) on delete set null;
+
+-- pgcrypto lives in the extensions schema on hosted projects.
+create or replace function public.create_workspace_invite_link(
+  _workspace_id uuid,
+  _role public.app_role default 'editor',
+  _can_delete_entries boolean default false,
+  _can_manage_categories boolean default false,
+  _max_uses integer default 1,
+  _expires_in_days integer default 7
+)
+returns table (
+  id uuid,
+  token text
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_token text;
+  v_link_id uuid;
+  v_expires_at timestamptz;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_admin(_workspace_id) then
+    raise exception 'Only admin can create invite links';
+  end if;
+
+  if _max_uses is null or _max_uses < 1 or _max_uses > 100 then
+    raise exception 'An invite link can be used between 1 and 100 times';
+  end if;
+
+  if _expires_in_days is null or _expires_in_days < 1 or _expires_in_days > 30 then
+    raise exception 'An invite link must expire within 1 to 30 days';
+  end if;
+
+  v_token := translate(encode(gen_random_bytes(24), 'base64'), '+/=', '-_');
+  v_expires_at := now() + make_interval(days => _expires_in_days);
+
+  insert into public.workspace_invite_links (
+    workspace_id,
+    token_hash,
+    role,
+    can_delete_entries,
+    can_manage_categories,
+    max_uses,
+    expires_at,
+    created_by
+  )
+  values (
+    _workspace_id,
+    encode(digest(v_token, 'sha256'), 'hex'),
+    _role,
+    case when _role = 'admin' then true when _role = 'viewer' then false else _can_delete_entries end,
+    case when _role = 'admin' then true when _role = 'viewer' then false else _can_manage_categories end,
+    _max_uses,
+    v_expires_at,
+    auth.uid()
+  )
+  returning workspace_invite_links.id into v_link_id;
+
+  insert into public.audit_logs (
+    workspace_id,
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta
+  )
+  values (
+    _workspace_id,
+    auth.uid(),
+    'workspace_invite_link_created',
+    'workspace_invite_link',
+    v_link_id,
+    jsonb_build_object('role', _role, 'max_uses', _max_uses, 'expires_at', v_expires_at)
+  );
+
+  return query select v_link_id, v_token;
+end;
+$$;
+
+create or replace function public.revoke_workspace_invite_link(
+  _link_id uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.workspace_invite_links%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select *
+    into v_link
+  from public.workspace_invite_links l
+  where l.id = _link_id
+  for update;
+
+  if not found or not public.is_workspace_admin(v_link.workspace_id) then
+    raise exception 'Invite link not found';
+  end if;
+
+  if v_link.revoked_at is not null then
+    return v_link.workspace_id;
+  end if;
+
+  update public.workspace_invite_links
+     set revoked_at = now()
+   where id = v_link.id;
+
+  insert into public.audit_logs (
+    workspace_id,
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta
+  )
+  values (
+    v_link.workspace_id,
+    auth.uid(),
+    'workspace_invite_link_revoked',
+    'workspace_invite_link',
+    v_link.id,
+    jsonb_build_object('role', v_link.role, 'use_count', v_link.use_count)
+  );
+
+  return v_link.workspace_id;
+end;
+$$;
+
+-- Called by the signed-in invitee. Opening the same link again returns the request it already
+-- created instead of spending another use.
+create or replace function public.redeem_workspace_invite_link(
+  _token text
+)
+returns table (
+  request_id uuid,
+  workspace_name text
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_link public.workspace_invite_links%rowtype;
+  v_workspace_name text;
+  v_request_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select *
+    into v_link
+  from public.workspace_invite_links l
+  where l.token_hash = encode(digest(btrim(coalesce(_token, '')), 'sha256'), 'hex')
+  for update;
+
+  if not found then
+    raise exception 'This invite link is not valid';
+  end if;
+
+  select w.name
+    into v_workspace_name
+  from public.workspaces w
+  where w.id = v_link.workspace_id;
+
+  if exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = v_link.workspace_id
+      and wm.user_id = auth.uid()
+  ) then
+    raise exception 'You already have access to this workspace';
+  end if;
+
+  select war.id
+    into v_request_id
+  from public.workspace_access_requests war
+  where war.invite_link_id = v_link.id
+    and war.target_user_id = auth.uid()
+    and war.status = 'pending'
+    and war.expires_at > now();
+
+  if v_request_id is not null then
+    return query select v_request_id, v_workspace_name;
+    return;
+  end if;
+
+  if v_link.revoked_at is not null then
+    raise exception 'This invite link was revoked. Ask a workspace admin for a new one.';
+  end if;
+
+  if v_link.expires_at <= now() then
+    raise exception 'This invite link has expired. Ask a workspace admin for a new one.';
+  end if;
+
+  if v_link.use_count >= v_link.max_uses then
+    raise exception 'This invite link has already been used. Ask a workspace admin for a new one.';
+  end if;
+
+  update public.workspace_access_requests
+     set status = 'cancelled',
+         reviewed_at = now(),
+         note = 'Superseded by invite link'
+   where workspace_id = v_link.workspace_id
+     and target_user_id = auth.uid()
+     and status = 'pending';
+
+  -- No contact delivery: the invitee is already in the app, so delivery_status stays null.
+  insert into public.workspace_access_requests (
+    workspace_id,
+    target_user_id,
+    requested_by,
+    role,
+    can_delete_entries,
+    can_manage_categories,
+    status,
+    invite_link_id,
+    delivery_status
+  )
+  values (
+    v_link.workspace_id,
+    auth.uid(),
+    v_link.created_by,
+    v_link.role,
+    v_link.can_delete_entries,
+    v_link.can_manage_categories,
+    'pending',
+    v_link.id,
+    null
+  )
+  returning id into v_request_id;
+
+  update public.workspace_invite_links
+     set use_count = use_count + 1
+   where id = v_link.id;
+
+  insert into public.audit_logs (
+    workspace_id,
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta
+  )
+  values (
+    v_link.workspace_id,
+    auth.uid(),
+    'workspace_invite_link_redeemed',
+    'workspace_invite_link',
+    v_link.id,
+    jsonb_build_object('target_user_id', auth.uid(), 'request_id', v_request_id, 'role', v_link.role)
+  );
+
+  return query select v_request_id, v_workspace_name;
+end;
+$$;
+
+grant execute on function public.create_workspace_invite_link(uuid, public.app_role, boolean, boolean, integer, integer) to authenticated;
+grant execute on function public.revoke_workspace_invite_link(uuid) to authenticated;
+grant execute on function public.redeem_workspace_invite_link(text) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1
+       from pg_publication_tables
+       where pubname = 'supabase_realtime'
+         and schemaname = 'public'
+         and tablename = 'workspace_invite_links'
+     ) then
+    execute 'alter publication supabase_realtime add table public.workspace_invite_links';
+  end if;
+end
+$$;
+
+commit;
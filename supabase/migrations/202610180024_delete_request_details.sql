@@ -0,0 +1,92 @@
+begin;
+
+-- Delete requests with the entry they target and the names of everyone involved, so reviewers
+-- can see what they approve and requesters can follow their own requests.
+--   _scope 'pending' : open requests, for members who can delete entries
+--   _scope 'history' : approved and rejected requests, newest review first, same audience
+--   _scope 'mine'    : the caller's own requests in any status
+create or replace function public.list_delete_requests(
+  _workspace_id uuid,
+  _scope text default 'pending',
+  _limit integer default 50
+)
+returns table (
+  id uuid,
+  workspace_id uuid,
+  entry_id uuid,
+  requested_by uuid,
+  requested_by_name text,
+  reason text,
+  status public.delete_request_status,
+  reviewed_by uuid,
+  reviewed_by_name text,
+  reviewed_at timestamptz,
+  review_note text,
+  created_at timestamptz,
+  entry jsonb,
+  entry_created_by_name text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if _scope not in ('pending', 'history', 'mine') then
+    raise exception 'Unknown delete request scope';
+  end if;
+
+  if _scope = 'mine' then
+    if not public.is_workspace_member(_workspace_id) then
+      raise exception 'Not allowed to view delete requests';
+    end if;
+  elsif not public.can_delete_entries(_workspace_id) then
+    raise exception 'Not allowed to review delete requests';
+  end if;
+
+  return query
+  select
+    dr.id::uuid,
+    dr.workspace_id::uuid,
+    dr.entry_id::uuid,
+    dr.requested_by::uuid,
+    coalesce(rp.full_name, ru.email, ru.phone)::text,
+    dr.reason::text,
+    dr.status::public.delete_request_status,
+    dr.reviewed_by::uuid,
+    coalesce(vp.full_name, vu.email, vu.phone)::text,
+    dr.reviewed_at::timestamptz,
+    dr.review_note::text,
+    dr.created_at::timestamptz,
+    to_jsonb(e) - 'deleted_at' - 'deleted_by' - 'updated_at',
+    coalesce(cp.full_name, cu.email, cu.phone)::text
+  from public.delete_requests dr
+  join public.entries e
+    on e.workspace_id = dr.workspace_id
+   and e.id = dr.entry_id
+  left join public.profiles rp on rp.id = dr.requested_by
+  left join auth.users ru on ru.id = dr.requested_by
+  left join public.profiles vp on vp.id = dr.reviewed_by
+  left join auth.users vu on vu.id = dr.reviewed_by
+  left join public.profiles cp on cp.id = e.created_by
+  left join auth.users cu on cu.id = e.created_by
+  where dr.workspace_id = _workspace_id
+    and case _scope
+      when 'pending' then dr.status = 'pending'
+      when 'history' then dr.status <> 'pending'
+      else dr.requested_by = auth.uid()
+    end
+  order by
+    case when _scope = 'history' then dr.reviewed_at end desc nulls last,
+    dr.created_at desc
+  limit greatest(1, least(coalesce(_limit, 50), 200));
+end;
+$$;
+
+grant execute on function public.list_delete_requests(uuid, text, integer) to authenticated;
+
+commit;
@@ -0,0 +1,172 @@
+begin;
+
+drop function if exists public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer
+);
+
+-- Pages are an index range read on (workspace_id, entry_at, id). running_balance is opt-in (_with_balance,
+-- used by ledger mode and exports): the balance before the page's oldest row comes from one aggregate, and the
+-- window only covers entries between the page's oldest and newest rows in the account scope, including rows
+-- the filters hide. Without _with_balance, running_balance is null.
+create or replace function public.query_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _kind text default null,
+  _account_id uuid default null,
+  _cursor_entry_at timestamptz default null,
+  _cursor_id uuid default null,
+  _limit integer default 50,
+  _with_balance boolean default false
+)
+returns table (
+  id uuid,
+  workspace_id uuid,
+  kind text,
+  direction public.cash_direction,
+  amount numeric,
+  category_id uuid,
+  split_lines jsonb,
+  account_id uuid,
+  transfer_account_id uuid,
+  party_id uuid,
+  shift_id uuid,
+  remarks text,
+  receipt_url text,
+  entry_at timestamptz,
+  created_by uuid,
+  status text,
+  created_at timestamptz,
+  running_balance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+  v_with_balance boolean := coalesce(_with_balance, false);
+  v_opening numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if (_cursor_entry_at is null) <> (_cursor_id is null) then
+    raise exception 'Cursor requires both entry_at and id';
+  end if;
+
+  if v_with_balance then
+    v_opening := public.opening_balance_for(_workspace_id, _account_id);
+  end if;
+
+  return query
+  with page as (
+    select e.*
+    from public.entries e
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and (_from is null or e.entry_at >= _from)
+      and (_to is null or e.entry_at <= _to)
+      and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+      and public.entry_in_category(e.category_id, e.split_lines, _category_id)
+      and (_direction is null or (e.kind = 'standard' and e.direction = _direction))
+      and (_kind is null or e.kind = _kind)
+      and (_created_by is null or e.created_by = _created_by)
+      and (_min_amount is null or e.amount >= _min_amount)
+      and (_max_amount is null or e.amount <= _max_amount)
+      and (
+        v_remarks is null
+        or e.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+      and (
+        _cursor_entry_at is null
+        or (e.entry_at, e.id) < (_cursor_entry_at, _cursor_id)
+      )
+    order by e.entry_at desc, e.id desc
+    limit least(greatest(coalesce(_limit, 50), 1), 500)
+  ),
+  first_row as (
+    select p.entry_at, p.id
+    from page p
+    where v_with_balance
+    order by p.entry_at, p.id
+    limit 1
+  ),
+  last_row as (
+    select p.entry_at, p.id
+    from page p
+    where v_with_balance
+    order by p.entry_at desc, p.id desc
+    limit 1
+  ),
+  balance_before as (
+    select v_opening + coalesce(sum(public.entry_balance_delta(
+      e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, _account_id
+    )), 0) as amount
+    from public.entries e
+    cross join first_row f
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and e.entry_at <= f.entry_at
+      and (e.entry_at, e.id) < (f.entry_at, f.id)
+      and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+  ),
+  balances as (
+    select
+      e.id,
+      b.amount + sum(public.entry_balance_delta(
+        e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, _account_id
+      )) over (order by e.entry_at, e.id rows between unbounded preceding and current row) as balance_after
+    from public.entries e
+    cross join first_row f
+    cross join last_row l
+    cross join balance_before b
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and e.entry_at between f.entry_at and l.entry_at
+      and (e.entry_at, e.id) >= (f.entry_at, f.id)
+      and (e.entry_at, e.id) <= (l.entry_at, l.id)
+      and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+  )
+  select
+    p.id,
+    p.workspace_id,
+    p.kind,
+    p.direction,
+    p.amount,
+    p.category_id,
+    p.split_lines,
+    p.account_id,
+    p.transfer_account_id,
+    p.party_id,
+    p.shift_id,
+    p.remarks,
+    p.receipt_url,
+    p.entry_at,
+    p.created_by,
+    p.status,
+    p.created_at,
+    b.balance_after
+  from page p
+  left join balances b on b.id = p.id
+  order by p.entry_at desc, p.id desc;
+end;
+$$;
+
+grant execute on function public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer, boolean
+) to authenticated;
+
+commit;
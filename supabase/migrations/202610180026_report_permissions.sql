@@ -0,0 +1,633 @@
+begin;
+
+-- Report and export permissions from custom roles are enforced here, not only by hiding UI. Running
+-- balances, totals, closing balances and budget vs actual need can_view_reports; export pages also need
+-- can_export. Plain history pages stay open to every member.
+
+-- Raw balance for internal callers (day close); closing_balance_as_of is the permission-checked entry point.
+create or replace function public.balance_as_of(
+  _workspace_id uuid,
+  _as_of timestamptz default now(),
+  _account_id uuid default null
+)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.opening_balance_for(_workspace_id, _account_id)
+         + coalesce(sum(public.entry_balance_delta(
+             e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, _account_id
+           )), 0)
+  from public.entries e
+  where e.workspace_id = _workspace_id
+    and e.status = 'active'
+    and e.entry_at <= coalesce(_as_of, now())
+    and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id);
+$$;
+
+create or replace function public.closing_balance_as_of(
+  _workspace_id uuid,
+  _as_of timestamptz default now(),
+  _account_id uuid default null
+)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if not public.can_view_reports(_workspace_id) then
+    raise exception 'Not allowed to view reports';
+  end if;
+
+  return public.balance_as_of(_workspace_id, _as_of, _account_id);
+end;
+$$;
+
+-- Book balance a drawer count is compared with. Every member can close a day and read day_closings
+-- (expected_balance included), so this is not gated on can_view_reports.
+create or replace function public.day_close_expected_balance(
+  _workspace_id uuid,
+  _business_date date,
+  _account_id uuid
+)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_timezone text;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if _business_date is null then
+    raise exception 'Business date is required';
+  end if;
+
+  select w.timezone
+    into v_timezone
+  from public.workspaces w
+  where w.id = _workspace_id;
+
+  return public.balance_as_of(
+    _workspace_id,
+    ((_business_date + 1)::timestamp at time zone v_timezone) - interval '1 millisecond',
+    _account_id
+  );
+end;
+$$;
+
+create or replace function public.close_business_day(
+  _workspace_id uuid,
+  _business_date date,
+  _account_id uuid default null,
+  _denominations jsonb default '{}'::jsonb,
+  _note text default null
+)
+returns public.day_closings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_timezone text;
+  v_account_id uuid := _account_id;
+  v_day_end timestamptz;
+  v_denominations jsonb := coalesce(_denominations, '{}'::jsonb);
+  v_counted numeric := 0;
+  v_expected numeric;
+  v_difference numeric;
+  v_note text := nullif(btrim(coalesce(_note, '')), '');
+  v_category_id uuid;
+  v_entry_id uuid;
+  v_key text;
+  v_value jsonb;
+  v_face numeric;
+  v_count numeric;
+  v_row public.day_closings;
+begin
+  if v_user_id is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if _business_date is null then
+    raise exception 'Business date is required';
+  end if;
+
+  select w.timezone
+    into v_timezone
+  from public.workspaces w
+  where w.id = _workspace_id;
+
+  if _business_date > (now() at time zone v_timezone)::date then
+    raise exception 'Cannot close a future day';
+  end if;
+
+  if v_account_id is null then
+    select a.id
+      into v_account_id
+    from public.accounts a
+    where a.workspace_id = _workspace_id
+      and a.is_default;
+  end if;
+
+  if not exists (
+    select 1
+    from public.accounts a
+    where a.workspace_id = _workspace_id
+      and a.id = v_account_id
+      and a.is_active
+  ) then
+    raise exception 'Account is invalid or inactive';
+  end if;
+
+  if exists (
+    select 1
+    from public.day_closings d
+    where d.workspace_id = _workspace_id
+      and d.account_id = v_account_id
+      and d.business_date = _business_date
+  ) then
+    raise exception 'This day is already closed for this account';
+  end if;
+
+  if jsonb_typeof(v_denominations) <> 'object' then
+    raise exception 'Denominations must be an object of face value to count';
+  end if;
+
+  -- The total is derived from the denominations so the stored count cannot disagree with its breakdown.
+  for v_key, v_value in select * from jsonb_each(v_denominations) loop
+    if v_key !~ '^\d+(\.\d{1,2})?$' then
+      raise exception 'Invalid denomination: %', v_key;
+    end if;
+
+    v_face := v_key::numeric;
+    if v_face <= 0 then
+      raise exception 'Invalid denomination: %', v_key;
+    end if;
+
+    if jsonb_typeof(v_value) <> 'number' then
+      raise exception 'Invalid count for denomination %', v_key;
+    end if;
+
+    v_count := (v_value #>> '{}')::numeric;
+    if v_count < 0 or v_count <> trunc(v_count) then
+      raise exception 'Invalid count for denomination %', v_key;
+    end if;
+
+    v_counted := v_counted + v_face * v_count;
+  end loop;
+
+  v_counted := round(v_counted, 2);
+  v_day_end := ((_business_date + 1)::timestamp at time zone v_timezone) - interval '1 millisecond';
+  v_expected := round(public.balance_as_of(_workspace_id, v_day_end, v_account_id), 2);
+  v_difference := v_counted - v_expected;
+
+  if v_difference <> 0 then
+    -- Shortage and excess are booked against a system "Cash Over/Short" category of the
+    -- matching type so the drawer and the book agree from the next day onwards.
+    insert into public.categories (workspace_id, name, type, source, created_by)
+    values (
+      _workspace_id,
+      'Cash Over/Short',
+      case when v_difference > 0 then 'income'::public.category_type else 'expense'::public.category_type end,
+      'system',
+      v_user_id
+    )
+    on conflict (workspace_id, type, name_key) do update set is_active = true
+    returning id into v_category_id;
+
+    insert into public.entries (
+      workspace_id, kind, direction, amount, category_id, account_id, remarks, entry_at, created_by
+    )
+    values (
+      _workspace_id,
+      'standard',
+      case when v_difference > 0 then 'cash_in'::public.cash_direction else 'cash_out'::public.cash_direction end,
+      abs(v_difference),
+      v_category_id,
+      v_account_id,
+      concat_ws(' - ', format('Day close %s: cash %s', _business_date, case when v_difference > 0 then 'excess' else 'shortage' end), v_note),
+      v_day_end,
+      v_user_id
+    )
+    returning id into v_entry_id;
+  end if;
+
+  insert into public.day_closings (
+    workspace_id,
+    business_date,
+    account_id,
+    denominations,
+    counted_total,
+    expected_balance,
+    difference,
+    note,
+    adjustment_entry_id,
+    closed_by
+  )
+  values (
+    _workspace_id,
+    _business_date,
+    v_account_id,
+    v_denominations,
+    v_counted,
+    v_expected,
+    v_difference,
+    v_note,
+    v_entry_id,
+    v_user_id
+  )
+  returning * into v_row;
+
+  insert into public.audit_logs (workspace_id, actor_user_id, action, entity_type, entity_id, meta)
+  values (
+    _workspace_id,
+    v_user_id,
+    'day_closed',
+    'day_closing',
+    v_row.id,
+    jsonb_build_object(
+      'business_date', _business_date,
+      'account_id', v_account_id,
+      'counted_total', v_counted,
+      'expected_balance', v_expected,
+      'difference', v_difference,
+      'adjustment_entry_id', v_entry_id
+    )
+  );
+
+  return v_row;
+end;
+$$;
+
+
+create or replace function public.summarize_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _kind text default null,
+  _account_id uuid default null
+)
+returns table (
+  cash_in numeric,
+  cash_out numeric,
+  entry_count bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if not public.can_view_reports(_workspace_id) then
+    raise exception 'Not allowed to view reports';
+  end if;
+
+  return query
+  select
+    coalesce(sum(public.entry_category_amount(e.amount, e.split_lines, _category_id)) filter (
+      where (e.kind = 'standard' and e.direction = 'cash_in')
+        or (_account_id is not null and e.kind = 'transfer' and e.transfer_account_id = _account_id)
+    ), 0)::numeric as cash_in,
+    coalesce(sum(public.entry_category_amount(e.amount, e.split_lines, _category_id)) filter (
+      where (e.kind = 'standard' and e.direction = 'cash_out')
+        or (_account_id is not null and e.kind = 'transfer' and e.account_id = _account_id)
+    ), 0)::numeric as cash_out,
+    count(*)::bigint as entry_count
+  from public.entries e
+  where e.workspace_id = _workspace_id
+    and e.status = 'active'
+    and (_from is null or e.entry_at >= _from)
+    and (_to is null or e.entry_at <= _to)
+    and public.entry_in_category(e.category_id, e.split_lines, _category_id)
+    and (_direction is null or (e.kind = 'standard' and e.direction = _direction))
+    and (_kind is null or e.kind = _kind)
+    and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+    and (_created_by is null or e.created_by = _created_by)
+    and (_min_amount is null or e.amount >= _min_amount)
+    and (_max_amount is null or e.amount <= _max_amount)
+    and (
+      v_remarks is null
+      or e.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    );
+end;
+$$;
+
+
+create or replace function public.budget_vs_actual(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null
+)
+returns table (
+  budget_id uuid,
+  category_id uuid,
+  period text,
+  amount numeric,
+  periods integer,
+  budget_total numeric,
+  actual numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_timezone text;
+  v_from timestamptz;
+  v_to timestamptz;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if not public.can_view_reports(_workspace_id) then
+    raise exception 'Not allowed to view reports';
+  end if;
+
+  select w.timezone into v_timezone from public.workspaces w where w.id = _workspace_id;
+  v_to := coalesce(_to, now());
+  v_from := coalesce(
+    _from,
+    (select min(e.entry_at) from public.entries e where e.workspace_id = _workspace_id and e.status = 'active'),
+    v_to
+  );
+
+  return query
+  with ranges as (
+    select
+      b.id,
+      b.category_id,
+      b.period,
+      b.amount,
+      public.budget_period_start(b.period, (v_from at time zone v_timezone)::date) as first_start,
+      public.budget_period_start(b.period, (v_to at time zone v_timezone)::date) as last_start
+    from public.category_budgets b
+    join public.categories c
+      on c.workspace_id = b.workspace_id
+     and c.id = b.category_id
+     and c.is_active
+    where b.workspace_id = _workspace_id
+  ),
+  counted as (
+    select
+      r.*,
+      greatest(
+        case r.period
+          when 'weekly' then (r.last_start - r.first_start) / 7
+          else ((extract(year from r.last_start) - extract(year from r.first_start)) * 12
+            + extract(month from r.last_start) - extract(month from r.first_start))::integer
+        end + 1,
+        1
+      ) as period_count
+    from ranges r
+  )
+  select
+    c.id,
+    c.category_id,
+    c.period,
+    c.amount,
+    c.period_count,
+    (c.amount * c.period_count)::numeric,
+    coalesce(sum(public.entry_category_amount(e.amount, e.split_lines, c.category_id)), 0)::numeric
+  from counted c
+  left join public.entries e
+    on e.workspace_id = _workspace_id
+   and e.status = 'active'
+   and e.kind = 'standard'
+   and e.direction = 'cash_out'
+   and e.entry_at >= v_from
+   and e.entry_at <= v_to
+   and public.entry_in_category(e.category_id, e.split_lines, c.category_id)
+  group by c.id, c.category_id, c.period, c.amount, c.period_count
+  order by c.category_id;
+end;
+$$;
+
+
+drop function if exists public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer, boolean
+);
+
+-- _for_export marks statement export pages; it needs can_export on top of can_view_reports.
+create or replace function public.query_entries(
+  _workspace_id uuid,
+  _from timestamptz default null,
+  _to timestamptz default null,
+  _category_id uuid default null,
+  _direction public.cash_direction default null,
+  _created_by uuid default null,
+  _min_amount numeric default null,
+  _max_amount numeric default null,
+  _remarks text default null,
+  _kind text default null,
+  _account_id uuid default null,
+  _cursor_entry_at timestamptz default null,
+  _cursor_id uuid default null,
+  _limit integer default 50,
+  _with_balance boolean default false,
+  _for_export boolean default false
+)
+returns table (
+  id uuid,
+  workspace_id uuid,
+  kind text,
+  direction public.cash_direction,
+  amount numeric,
+  category_id uuid,
+  split_lines jsonb,
+  account_id uuid,
+  transfer_account_id uuid,
+  party_id uuid,
+  shift_id uuid,
+  remarks text,
+  receipt_url text,
+  entry_at timestamptz,
+  created_by uuid,
+  status text,
+  created_at timestamptz,
+  running_balance numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_remarks text := nullif(btrim(coalesce(_remarks, '')), '');
+  v_with_balance boolean := coalesce(_with_balance, false);
+  v_opening numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_member(_workspace_id) then
+    raise exception 'Workspace access required';
+  end if;
+
+  if (v_with_balance or coalesce(_for_export, false)) and not public.can_view_reports(_workspace_id) then
+    raise exception 'Not allowed to view reports';
+  end if;
+
+  if coalesce(_for_export, false) and not public.can_export(_workspace_id) then
+    raise exception 'Not allowed to export entries';
+  end if;
+
+  if (_cursor_entry_at is null) <> (_cursor_id is null) then
+    raise exception 'Cursor requires both entry_at and id';
+  end if;
+
+  if v_with_balance then
+    v_opening := public.opening_balance_for(_workspace_id, _account_id);
+  end if;
+
+  return query
+  with page as (
+    select e.*
+    from public.entries e
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and (_from is null or e.entry_at >= _from)
+      and (_to is null or e.entry_at <= _to)
+      and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+      and public.entry_in_category(e.category_id, e.split_lines, _category_id)
+      and (_direction is null or (e.kind = 'standard' and e.direction = _direction))
+      and (_kind is null or e.kind = _kind)
+      and (_created_by is null or e.created_by = _created_by)
+      and (_min_amount is null or e.amount >= _min_amount)
+      and (_max_amount is null or e.amount <= _max_amount)
+      and (
+        v_remarks is null
+        or e.remarks ilike '%' || replace(replace(replace(v_remarks, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+      and (
+        _cursor_entry_at is null
+        or (e.entry_at, e.id) < (_cursor_entry_at, _cursor_id)
+      )
+    order by e.entry_at desc, e.id desc
+    limit least(greatest(coalesce(_limit, 50), 1), 500)
+  ),
+  first_row as (
+    select p.entry_at, p.id
+    from page p
+    where v_with_balance
+    order by p.entry_at, p.id
+    limit 1
+  ),
+  last_row as (
+    select p.entry_at, p.id
+    from page p
+    where v_with_balance
+    order by p.entry_at desc, p.id desc
+    limit 1
+  ),
+  balance_before as (
+    select v_opening + coalesce(sum(public.entry_balance_delta(
+      e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, _account_id
+    )), 0) as amount
+    from public.entries e
+    cross join first_row f
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and e.entry_at <= f.entry_at
+      and (e.entry_at, e.id) < (f.entry_at, f.id)
+      and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+  ),
+  balances as (
+    select
+      e.id,
+      b.amount + sum(public.entry_balance_delta(
+        e.kind, e.direction, e.amount, e.account_id, e.transfer_account_id, _account_id
+      )) over (order by e.entry_at, e.id rows between unbounded preceding and current row) as balance_after
+    from public.entries e
+    cross join first_row f
+    cross join last_row l
+    cross join balance_before b
+    where e.workspace_id = _workspace_id
+      and e.status = 'active'
+      and e.entry_at between f.entry_at and l.entry_at
+      and (e.entry_at, e.id) >= (f.entry_at, f.id)
+      and (e.entry_at, e.id) <= (l.entry_at, l.id)
+      and (_account_id is null or e.account_id = _account_id or e.transfer_account_id = _account_id)
+  )
+  select
+    p.id,
+    p.workspace_id,
+    p.kind,
+    p.direction,
+    p.amount,
+    p.category_id,
+    p.split_lines,
+    p.account_id,
+    p.transfer_account_id,
+    p.party_id,
+    p.shift_id,
+    p.remarks,
+    p.receipt_url,
+    p.entry_at,
+    p.created_by,
+    p.status,
+    p.created_at,
+    b.balance_after
+  from page p
+  left join balances b on b.id = p.id
+  order by p.entry_at desc, p.id desc;
+end;
+$$;
+
+
+revoke execute on function public.balance_as_of(uuid, timestamptz, uuid) from public, anon, authenticated;
+
+grant execute on function public.day_close_expected_balance(uuid, date, uuid) to authenticated;
+grant execute on function public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer, boolean, boolean
+) to authenticated;
+
+commit;
@@ -0,0 +1,90 @@
+begin;
+
+-- Resending goes through can_manage_users like the other member-management RPCs, so custom roles
+-- (can_manage_members) and suspensions, scheduled ones included, apply to it.
+create or replace function public.resend_workspace_access_request(
+  _request_id uuid
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.workspace_access_requests%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  select *
+    into v_request
+  from public.workspace_access_requests war
+  where war.id = _request_id
+    and war.status in ('pending', 'expired')
+  for update;
+
+  if not found then
+    raise exception 'Only pending or expired invites can be resent';
+  end if;
+
+  if not public.can_manage_users(v_request.workspace_id) then
+    raise exception 'Not allowed to manage users in this workspace';
+  end if;
+
+  if exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = v_request.workspace_id
+      and wm.user_id = v_request.target_user_id
+  ) then
+    raise exception 'User already has workspace access';
+  end if;
+
+  if v_request.status = 'expired' and exists (
+    select 1
+    from public.workspace_access_requests war
+    where war.workspace_id = v_request.workspace_id
+      and war.target_user_id = v_request.target_user_id
+      and war.status = 'pending'
+  ) then
+    raise exception 'A newer invite is already pending for this user';
+  end if;
+
+  update public.workspace_access_requests
+     set status = 'pending',
+         expires_at = now() + interval '7 days',
+         resent_at = now(),
+         resend_count = resend_count + 1,
+         reviewed_at = null,
+         reviewed_by = null,
+         note = null,
+         delivery_status = 'pending',
+         delivery_updated_at = null
+   where id = v_request.id;
+
+  insert into public.audit_logs (
+    workspace_id,
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta
+  )
+  values (
+    v_request.workspace_id,
+    auth.uid(),
+    'workspace_access_resent',
+    'workspace_access_request',
+    v_request.id,
+    jsonb_build_object(
+      'target_user_id', v_request.target_user_id,
+      'resend_count', v_request.resend_count + 1
+    )
+  );
+
+  return v_request.workspace_id;
+end;
+$$;
+
+commit;
@@ -0,0 +1,234 @@
+begin;
+
+create or replace function public.enforce_entry_rules()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_type public.category_type;
+  v_line jsonb;
+  v_line_category_id uuid;
+  v_line_amount numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_lines_total numeric := 0;
+begin
+  if tg_op = 'UPDATE' then
+    if old.id <> new.id or old.workspace_id <> new.workspace_id then
+      raise exception 'id/workspace_id cannot be changed';
+    end if;
+
+    if old.created_by <> new.created_by then
+      raise exception 'created_by cannot be changed';
+    end if;
+
+    if old.status = 'deleted' then
+      raise exception 'Deleted entries are immutable';
+    end if;
+
+    if old.kind <> new.kind then
+      raise exception 'Entry kind cannot be changed';
+    end if;
+
+    if new.status = 'deleted' and old.status <> 'deleted' and not public.can_delete_entries(old.workspace_id) then
+      raise exception 'No permission to delete this entry';
+    end if;
+
+    if (
+      old.direction is distinct from new.direction
+      or old.amount is distinct from new.amount
+      or old.category_id is distinct from new.category_id
+      or old.split_lines is distinct from new.split_lines
+      or old.party_id is distinct from new.party_id
+      or old.remarks is distinct from new.remarks
+      or old.receipt_url is distinct from new.receipt_url
+      or old.entry_at is distinct from new.entry_at
+      or old.account_id is distinct from new.account_id
+      or old.transfer_account_id is distinct from new.transfer_account_id
+    )
+      and not public.can_edit_entries(old.workspace_id)
+      and coalesce(current_setting('cashbook.edit_request_id', true), '') = '' then
+      raise exception 'No permission to edit this entry. Submit an edit request instead.';
+    end if;
+
+    -- Editing cannot get around the add permissions: moving an entry into the past or flipping its direction
+    -- needs the same cash-in/cash-out and backdate permissions as adding it. Approved edit requests were
+    -- authorised by the reviewer.
+    if (old.direction is distinct from new.direction or old.entry_at is distinct from new.entry_at)
+      and coalesce(current_setting('cashbook.edit_request_id', true), '') = ''
+      and not public.can_add_entry(new.workspace_id, new.direction, new.entry_at) then
+      raise exception 'No permission to set this date or direction';
+    end if;
+  end if;
+
+  if new.account_id is null then
+    select a.id
+      into new.account_id
+    from public.accounts a
+    where a.workspace_id = new.workspace_id
+      and a.is_default;
+  end if;
+
+  if not exists (
+    select 1
+    from public.accounts a
+    where a.workspace_id = new.workspace_id
+      and a.id = new.account_id
+      and (a.is_active or (tg_op = 'UPDATE' and old.account_id = new.account_id))
+  ) then
+    raise exception 'Account is invalid or inactive';
+  end if;
+
+  if new.party_id is not null and not exists (
+    select 1
+    from public.parties p
+    where p.workspace_id = new.workspace_id
+      and p.id = new.party_id
+      and (p.is_active or (tg_op = 'UPDATE' and old.party_id = new.party_id))
+  ) then
+    raise exception 'Party is invalid or inactive';
+  end if;
+
+  if new.kind = 'transfer' then
+    -- A transfer is a single row: money leaves account_id and arrives in transfer_account_id.
+    if new.transfer_account_id is null or new.transfer_account_id = new.account_id then
+      raise exception 'Transfer needs two different accounts';
+    end if;
+
+    if not exists (
+      select 1
+      from public.accounts a
+      where a.workspace_id = new.workspace_id
+        and a.id = new.transfer_account_id
+        and (a.is_active or (tg_op = 'UPDATE' and old.transfer_account_id = new.transfer_account_id))
+    ) then
+      raise exception 'Destination account is invalid or inactive';
+    end if;
+
+    if new.category_id is not null then
+      raise exception 'Transfers do not use a category';
+    end if;
+
+    if new.split_lines is not null then
+      raise exception 'Transfers cannot be split';
+    end if;
+
+    if new.party_id is not null then
+      raise exception 'Transfers cannot be linked to a party';
+    end if;
+
+    new.direction := 'cash_out';
+  elsif new.kind = 'credit' then
+    -- Credit given (cash_out) or received (cash_in) changes what a party owes, never the cash in any account.
+    if new.party_id is null then
+      raise exception 'Credit entries need a party';
+    end if;
+
+    if new.category_id is not null or new.split_lines is not null then
+      raise exception 'Credit entries do not use a category';
+    end if;
+
+    if new.transfer_account_id is not null then
+      raise exception 'Only transfers can have a destination account';
+    end if;
+  else
+    if new.transfer_account_id is not null then
+      raise exception 'Only transfers can have a destination account';
+    end if;
+
+    if new.split_lines is not null then
+      if jsonb_typeof(new.split_lines) <> 'array' then
+        raise exception 'A split needs at least two category lines';
+      end if;
+
+      if jsonb_array_length(new.split_lines) < 2 then
+        raise exception 'A split needs at least two category lines';
+      end if;
+
+      for v_line in select value from jsonb_array_elements(new.split_lines)
+      loop
+        if jsonb_typeof(v_line) <> 'object'
+          or jsonb_typeof(v_line -> 'amount') is distinct from 'number'
+          or coalesce(v_line ->> 'category_id', '') !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then
+          raise exception 'Each split line needs a category and an amount';
+        end if;
+
+        v_line_category_id := (v_line ->> 'category_id')::uuid;
+        v_line_amount := (v_line ->> 'amount')::numeric;
+
+        if v_line_amount <= 0 or v_line_amount <> round(v_line_amount, 2) then
+          raise exception 'Split line amounts must be positive with at most two decimals';
+        end if;
+
+        if v_lines @> jsonb_build_array(jsonb_build_object('category_id', v_line_category_id)) then
+          raise exception 'Each category can appear only once in a split';
+        end if;
+
+        select c.type
+          into v_category_type
+        from public.categories c
+        where c.workspace_id = new.workspace_id
+          and c.id = v_line_category_id
+          and c.is_active = true;
+
+        if not found then
+          raise exception 'Split category is invalid or inactive';
+        end if;
+
+        if new.direction = 'cash_out' and v_category_type <> 'expense' then
+          raise exception 'cash_out requires an expense category';
+        end if;
+
+        if new.direction = 'cash_in' and v_category_type <> 'income' then
+          raise exception 'cash_in requires an income category';
+        end if;
+
+        v_lines := v_lines || jsonb_build_array(
+          jsonb_build_object('category_id', v_line_category_id, 'amount', v_line_amount)
+        );
+        v_lines_total := v_lines_total + v_line_amount;
+      end loop;
+
+      if v_lines_total <> new.amount then
+        raise exception 'Split lines must add up to the entry amount';
+      end if;
+
+      -- Normalized lines keep the containment filters in query_entries/summarize_entries exact.
+      new.split_lines := v_lines;
+      new.category_id := (v_lines -> 0 ->> 'category_id')::uuid;
+    end if;
+
+    select c.type
+      into v_category_type
+    from public.categories c
+    where c.workspace_id = new.workspace_id
+      and c.id = new.category_id
+      and c.is_active = true;
+
+    if not found then
+      raise exception 'Category is invalid or inactive';
+    end if;
+
+    if new.direction = 'cash_out' and v_category_type <> 'expense' then
+      raise exception 'cash_out requires an expense category';
+    end if;
+
+    if new.direction = 'cash_in' and v_category_type <> 'income' then
+      raise exception 'cash_in requires an income category';
+    end if;
+  end if;
+
+  if new.status = 'active' then
+    new.deleted_at := null;
+    new.deleted_by := null;
+  elsif new.status = 'deleted' then
+    new.deleted_at := coalesce(new.deleted_at, now());
+    new.deleted_by := coalesce(new.deleted_by, auth.uid());
+  end if;
+
+  return new;
+end;
+$$;
+
+commit;
@@ -0,0 +1,10 @@
+begin;
+
+-- can_export is a UI-level control: it gates the statement export (_for_export pages) and hides the export
+-- card, but every member can already read the workspace's entries (entries_select_member, plain history
+-- pages), so it does not restrict what rows a member can see.
+comment on function public.query_entries(
+  uuid, timestamptz, timestamptz, uuid, public.cash_direction, uuid, numeric, numeric, text, text, uuid, timestamptz, uuid, integer, boolean, boolean
+) is 'Paged, filtered entries. _with_balance needs can_view_reports; _for_export also needs can_export, which only gates the statement export: plain pages stay open to every member.';
+
+commit;
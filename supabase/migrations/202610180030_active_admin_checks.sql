@@ -0,0 +1,235 @@
+begin;
+
+-- Active-admin checks use member_access_active like is_workspace_member does, so an admin whose
+-- suspension has already ended (but whose flag end_expired_member_suspensions has not cleared yet)
+-- counts as active, and one with a scheduled suspension in force does not.
+create or replace function public.guard_workspace_admins()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_owner_id uuid;
+  v_loses_admin boolean;
+begin
+  select w.owner_id
+    into v_owner_id
+  from public.workspaces w
+  where w.id = old.workspace_id;
+
+  if not found then
+    return coalesce(new, old);
+  end if;
+
+  if tg_op = 'DELETE' then
+    v_loses_admin := old.role = 'admin' and public.member_access_active(old.access_disabled, old.disabled_until);
+  else
+    v_loses_admin := old.role = 'admin'
+      and public.member_access_active(old.access_disabled, old.disabled_until)
+      and (new.role <> 'admin' or not public.member_access_active(new.access_disabled, new.disabled_until));
+  end if;
+
+  if not v_loses_admin then
+    return coalesce(new, old);
+  end if;
+
+  if old.user_id = v_owner_id then
+    raise exception 'Transfer workspace ownership before demoting, disabling or removing the owner';
+  end if;
+
+  if not exists (
+    select 1
+    from public.workspace_members wm
+    where wm.workspace_id = old.workspace_id
+      and wm.user_id <> old.user_id
+      and wm.role = 'admin'
+      and public.member_access_active(wm.access_disabled, wm.disabled_until)
+  ) then
+    raise exception 'A workspace must keep at least one active admin';
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists trg_workspace_members_guard_admins on public.workspace_members;
+create trigger trg_workspace_members_guard_admins
+before update of role, access_disabled, disabled_until or delete on public.workspace_members
+for each row execute function public.guard_workspace_admins();
+
+create or replace function public.remove_workspace_member(
+  _workspace_id uuid,
+  _target_user_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_target_role public.app_role;
+  v_target_disabled boolean;
+  v_active_admin_count integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_admin(_workspace_id) then
+    raise exception 'Only admin can remove users';
+  end if;
+
+  if _target_user_id = auth.uid() then
+    raise exception 'Admin cannot remove self';
+  end if;
+
+  if exists (
+    select 1
+    from public.workspaces w
+    where w.id = _workspace_id
+      and w.owner_id = _target_user_id
+  ) then
+    raise exception 'Transfer workspace ownership before removing the owner';
+  end if;
+
+  select wm.role, not public.member_access_active(wm.access_disabled, wm.disabled_until)
+    into v_target_role, v_target_disabled
+  from public.workspace_members wm
+  where wm.workspace_id = _workspace_id
+    and wm.user_id = _target_user_id;
+
+  if v_target_role is null then
+    raise exception 'User is not part of this workspace';
+  end if;
+
+  if v_target_role = 'admin' and coalesce(v_target_disabled, false) = false then
+    select count(*)
+      into v_active_admin_count
+    from public.workspace_members wm
+    where wm.workspace_id = _workspace_id
+      and wm.role = 'admin'
+      and public.member_access_active(wm.access_disabled, wm.disabled_until);
+
+    if v_active_admin_count <= 1 then
+      raise exception 'Cannot remove the last active admin from workspace';
+    end if;
+  end if;
+
+  delete from public.workspace_members
+   where workspace_id = _workspace_id
+     and user_id = _target_user_id;
+
+  insert into public.audit_logs (
+    workspace_id,
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta
+  )
+  values (
+    _workspace_id,
+    auth.uid(),
+    'workspace_member_revoked',
+    'workspace_member',
+    _target_user_id,
+    jsonb_build_object('removed_user_id', _target_user_id)
+  );
+end;
+$$;
+
+create or replace function public.set_workspace_member_access_disabled(
+  _workspace_id uuid,
+  _target_user_id uuid,
+  _disabled boolean,
+  _disabled_until timestamptz default null,
+  _reason text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_target_role public.app_role;
+  v_target_disabled boolean;
+  v_active_admin_count integer;
+  v_reason text := nullif(btrim(coalesce(_reason, '')), '');
+begin
+  if auth.uid() is null then
+    raise exception 'Authentication required';
+  end if;
+
+  if not public.is_workspace_admin(_workspace_id) then
+    raise exception 'Only admin can change workspace access';
+  end if;
+
+  if _target_user_id = auth.uid() then
+    raise exception 'Admin cannot disable self';
+  end if;
+
+  if _disabled and _disabled_until is not null and _disabled_until <= now() then
+    raise exception 'Suspension end must be in the future';
+  end if;
+
+  if v_reason is not null and length(v_reason) > 280 then
+    raise exception 'Suspension reason must be 280 characters or fewer';
+  end if;
+
+  select wm.role, not public.member_access_active(wm.access_disabled, wm.disabled_until)
+    into v_target_role, v_target_disabled
+  from public.workspace_members wm
+  where wm.workspace_id = _workspace_id
+    and wm.user_id = _target_user_id;
+
+  if v_target_role is null then
+    raise exception 'User is not part of this workspace';
+  end if;
+
+  if _disabled and v_target_role = 'admin' and coalesce(v_target_disabled, false) = false then
+    select count(*)
+      into v_active_admin_count
+    from public.workspace_members wm
+    where wm.workspace_id = _workspace_id
+      and wm.role = 'admin'
+      and public.member_access_active(wm.access_disabled, wm.disabled_until);
+
+    if v_active_admin_count <= 1 then
+      raise exception 'Cannot disable the last active admin';
+    end if;
+  end if;
+
+  update public.workspace_members
+     set access_disabled = _disabled,
+         disabled_until = case when _disabled then _disabled_until else null end,
+         disable_reason = case when _disabled then v_reason else null end,
+         updated_at = now()
+   where workspace_id = _workspace_id
+     and user_id = _target_user_id;
+
+  insert into public.audit_logs (
+    workspace_id,
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta
+  )
+  values (
+    _workspace_id,
+    auth.uid(),
+    case when _disabled then 'workspace_member_temporarily_disabled' else 'workspace_member_access_restored' end,
+    'workspace_member',
+    _target_user_id,
+    jsonb_strip_nulls(jsonb_build_object(
+      'target_user_id', _target_user_id,
+      'disabled', _disabled,
+      'disabled_until', case when _disabled then _disabled_until end,
+      'reason', case when _disabled then v_reason end
+    ))
+  );
+end;
+$$;
+
+commit;
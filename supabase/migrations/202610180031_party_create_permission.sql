@@ -0,0 +1,21 @@
+begin;
+
+-- Anyone who can record entries can add the customer or supplier a credit entry needs; changing or
+-- archiving an existing party stays with members who can edit entries or manage categories.
+drop policy if exists parties_insert_editor on public.parties;
+drop policy if exists parties_insert_writer on public.parties;
+create policy parties_insert_writer
+on public.parties
+for insert
+to authenticated
+with check (public.is_workspace_writer(workspace_id) and created_by = auth.uid());
+
+drop policy if exists parties_update_editor on public.parties;
+create policy parties_update_editor
+on public.parties
+for update
+to authenticated
+using (public.can_edit_entries(workspace_id) or public.can_manage_categories(workspace_id))
+with check (public.can_edit_entries(workspace_id) or public.can_manage_categories(workspace_id));
+
+commit;
@@ -1,9 +1,49 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin, type ResolvedConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import { readdirSync, readFileSync, statSync, writeFileSync, existsSync } from "node:fs";
+import { join, relative, sep } from "node:path";
 import { fileURLToPath, URL } from "node:url";
 
+function listFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const fullPath = join(dir, name);
+    return statSync(fullPath).isDirectory() ? listFiles(fullPath) : [fullPath];
+  });
+}
+
+// Fills the precache list and build version into dist/sw.js after Vite has written the bundle.
+function serviceWorkerManifest(): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: "cashbook-sw-manifest",
+    apply: "build",
+    configResolved(resolved) {
+      config = resolved;
+    },
+    closeBundle() {
+      const outDir = join(config.root, config.build.outDir);
+      const swPath = join(outDir, "sw.js");
+      if (!existsSync(swPath)) {
+        return;
+      }
+
+      const urls = listFiles(outDir)
+        .map((file) => `/${relative(outDir, file).split(sep).join("/")}`)
+        .filter((url) => url !== "/sw.js" && !url.endsWith(".map") && !url.endsWith(".txt"));
+      const precache = ["/", ...urls].sort();
+      const version = Date.now().toString(36);
+
+      const source = readFileSync(swPath, "utf8")
+        .replace("__CASHBOOK_BUILD_VERSION__", version)
+        .replace("self.__CASHBOOK_PRECACHE__", JSON.stringify(precache));
+      writeFileSync(swPath, source);
+    }
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerManifest()],
   resolve: {
     alias: {
       "@": fileURLToPath(new URL("./src", import.meta.url))